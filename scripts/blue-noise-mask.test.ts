@@ -0,0 +1,19 @@
+import { readFile } from 'node:fs/promises'
+import { expect, test } from 'bun:test'
+import { BLUE_NOISE_RANKS, BLUE_NOISE_SIZE as SHIPPED_SIZE } from '../src/lib/processing/blue-noise-mask'
+import { BLUE_NOISE_SEED, BLUE_NOISE_SIGMA, BLUE_NOISE_SIZE, buildBlueNoiseMask, formatBlueNoiseModule } from './blue-noise-mask'
+
+test('blue-noise mask ranks every cell once', () => {
+  const mask = buildBlueNoiseMask(16, 1.5, 1)
+  const ranks = [...mask].map((value) => Math.round(value * 256 - 0.5)).sort((a, b) => a - b)
+  expect(ranks).toEqual(Array.from({ length: 256 }, (_, index) => index))
+})
+
+test('shipped blue-noise mask matches the generator', async () => {
+  const mask = buildBlueNoiseMask(BLUE_NOISE_SIZE, BLUE_NOISE_SIGMA, BLUE_NOISE_SEED)
+  const shipped = await readFile(new URL('../src/lib/processing/blue-noise-mask.ts', import.meta.url), 'utf8')
+
+  expect(SHIPPED_SIZE).toBe(BLUE_NOISE_SIZE)
+  expect(BLUE_NOISE_RANKS).toHaveLength(BLUE_NOISE_SIZE * BLUE_NOISE_SIZE)
+  expect(shipped).toBe(formatBlueNoiseModule(mask, BLUE_NOISE_SIZE))
+})
@@ -0,0 +1,136 @@
+// Builds the blue-noise mask shipped with the dithering code, so workers don't
+// run void-and-cluster at load time. Regenerate
+// src/lib/processing/blue-noise-mask.ts with:
+//   bun run scripts/blue-noise-mask.ts
+
+import { writeFile } from 'node:fs/promises'
+
+export const BLUE_NOISE_SIZE = 64
+export const BLUE_NOISE_SIGMA = 1.5
+export const BLUE_NOISE_SEED = 0x5eed
+
+/**
+ * Build a tileable blue-noise mask with Ulichney's void-and-cluster method.
+ * Returns thresholds in (0, 1), one per cell, row-major.
+ */
+export function buildBlueNoiseMask(size: number, sigma: number, seed: number): Float32Array {
+  const cells = size * size
+
+  // Gaussian weight for every toroidal offset
+  const gaussian = new Float32Array(cells)
+  for (let dy = 0; dy < size; dy++) {
+    const wy = Math.min(dy, size - dy)
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx)
+      gaussian[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * sigma * sigma))
+    }
+  }
+
+  const pattern = new Uint8Array(cells)
+  const energy = new Float32Array(cells)
+  const toggle = (cell: number, on: boolean) => {
+    pattern[cell] = on ? 1 : 0
+    const px = cell % size
+    const py = (cell - px) / size
+    const sign = on ? 1 : -1
+    for (let y = 0; y < size; y++) {
+      const row = ((y - py + size) % size) * size
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * gaussian[row + (x - px + size) % size]
+      }
+    }
+  }
+  // Tightest cluster is the set cell with the most energy, largest void the
+  // empty cell with the least
+  const findExtreme = (set: number, highest: boolean) => {
+    let best = -1
+    for (let cell = 0; cell < cells; cell++) {
+      if (pattern[cell] !== set) continue
+      if (best < 0 || (highest ? energy[cell] > energy[best] : energy[cell] < energy[best])) {
+        best = cell
+      }
+    }
+    return best
+  }
+
+  // Deterministic random start so every run produces the same mask
+  let state = seed >>> 0
+  const random = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const initialCount = Math.floor(cells / 10)
+  let placed = 0
+  while (placed < initialCount) {
+    const cell = Math.floor(random() * cells)
+    if (pattern[cell]) continue
+    toggle(cell, true)
+    placed++
+  }
+
+  // Even out the initial pattern: move cluster pixels into voids until stable
+  for (let iteration = 0; iteration < cells; iteration++) {
+    const cluster = findExtreme(1, true)
+    toggle(cluster, false)
+    const voidCell = findExtreme(0, false)
+    toggle(voidCell, true)
+    if (voidCell === cluster) break
+  }
+
+  const initialPattern = pattern.slice()
+  const initialEnergy = energy.slice()
+  const ranks = new Uint32Array(cells)
+
+  // Rank the initial pixels by removing tightest clusters first
+  for (let rank = initialCount - 1; rank >= 0; rank--) {
+    const cluster = findExtreme(1, true)
+    toggle(cluster, false)
+    ranks[cluster] = rank
+  }
+
+  // Rank the rest by filling the largest voids
+  pattern.set(initialPattern)
+  energy.set(initialEnergy)
+  for (let rank = initialCount; rank < cells; rank++) {
+    const voidCell = findExtreme(0, false)
+    toggle(voidCell, true)
+    ranks[voidCell] = rank
+  }
+
+  const mask = new Float32Array(cells)
+  for (let cell = 0; cell < cells; cell++) {
+    mask[cell] = (ranks[cell] + 0.5) / cells
+  }
+  return mask
+}
+
+export function formatBlueNoiseModule(mask: Float32Array, size: number): string {
+  const cells = size * size
+  const rows: string[] = []
+  for (let y = 0; y < size; y++) {
+    const ranks = Array.from(mask.subarray(y * size, (y + 1) * size), (value) => Math.round(value * cells - 0.5))
+    for (let x = 0; x < size; x += 16) {
+      rows.push(`  ${ranks.slice(x, x + 16).join(', ')}`)
+    }
+  }
+
+  return `// Generated by scripts/blue-noise-mask.ts, do not edit by hand.
+//
+// Void-and-cluster ranks for a ${size}x${size} tileable blue-noise mask
+// (sigma ${BLUE_NOISE_SIGMA}, seed 0x${BLUE_NOISE_SEED.toString(16)}), row-major, ${Math.min(size, 16)} per line.
+
+export const BLUE_NOISE_SIZE = ${size}
+
+export const BLUE_NOISE_RANKS = [
+${rows.join(',\n')}
+]
+`
+}
+
+if (import.meta.main) {
+  const mask = buildBlueNoiseMask(BLUE_NOISE_SIZE, BLUE_NOISE_SIGMA, BLUE_NOISE_SEED)
+  await writeFile(new URL('../src/lib/processing/blue-noise-mask.ts', import.meta.url), formatBlueNoiseModule(mask, BLUE_NOISE_SIZE))
+}
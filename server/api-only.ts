@@ -9,8 +9,9 @@ app.use(
   '/api/*',
   cors({
     origin: ['https://xtcjs.app', 'https://www.xtcjs.app'],
-    allowMethods: ['GET', 'POST', 'OPTIONS'],
+    allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
     allowHeaders: ['Content-Type'],
+    exposeHeaders: ['Content-Disposition', 'X-Page-Count'],
   })
 )
 
@@ -1,14 +1,22 @@
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
+import { bodyLimit } from 'hono/body-limit'
+import type { Context } from 'hono'
+import { JobQueue } from './jobs'
+import type { HeadlessFileType, HeadlessInput } from './convert'
+import type { ConversionOptions } from '../src/lib/conversion/types'
 
 const api = new Hono()
 
 api.use('*', cors({
   origin: ['https://xtcjs.app', 'http://localhost:5173'],
+  exposeHeaders: ['Content-Disposition', 'X-Page-Count'],
 }))
 
 // Config
 const FLUSH_INTERVAL_MS = 60 * 60 * 1000 // 1 hour default
+const MAX_CONVERT_UPLOAD_BYTES = (Number(process.env.CONVERT_MAX_UPLOAD_MB) || 500) * 1024 * 1024
+const JOB_CLEANUP_INTERVAL_MS = 15 * 60 * 1000 // 15 minutes
 
 // Check if running in Bun (has bun:sqlite available)
 const isBun = typeof globalThis.Bun !== 'undefined'
@@ -16,6 +24,9 @@ const isBun = typeof globalThis.Bun !== 'undefined'
 // Database instance (only available in Bun)
 let db: any = null
 
+// Conversion job queue (needs the SQLite database)
+let jobs: JobQueue | null = null
+
 // In-memory counters (flushed periodically when db available)
 const pending = {
   cbz: 0,
@@ -84,6 +95,9 @@ async function initDatabase() {
     db.run(`INSERT OR IGNORE INTO torrent_stats (id, count) VALUES (1, 0)`)
 
     console.log('[api] SQLite database initialized')
+
+    jobs = new JobQueue(db, import.meta.dir + '/../data/jobs', runConversionJob)
+    jobs.start()
   } catch (err) {
     console.warn('[api] Failed to initialize SQLite, using in-memory stats:', err)
   }
@@ -139,6 +153,72 @@ function flush() {
 // Periodic flush
 setInterval(flush, FLUSH_INTERVAL_MS)
 
+// Periodic removal of expired job results
+setInterval(() => {
+  jobs?.cleanupExpired().catch((err) => console.error('[api] Job cleanup error:', err))
+}, JOB_CLEANUP_INTERVAL_MS)
+
+// Count a finished server-side conversion like a browser one
+function recordServerConversion(fileType: HeadlessFileType) {
+  if (fileType === 'pdf') {
+    pending.pdf++
+  } else {
+    pending.cbz++
+  }
+}
+
+async function runConversionJob(
+  input: HeadlessInput,
+  fileType: HeadlessFileType,
+  options: ConversionOptions,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal
+) {
+  // Loaded lazily so the native canvas module is only pulled in when used
+  const { convertHeadless } = await import('./convert')
+  const result = await convertHeadless(input, fileType, options, onProgress, signal)
+  recordServerConversion(fileType)
+  return result
+}
+
+interface ConvertUpload {
+  input: HeadlessInput
+  fileType: HeadlessFileType
+  options: ConversionOptions
+}
+
+// Read a multipart `file` + JSON `options` upload, or build the error response
+async function parseConvertUpload(c: Context): Promise<ConvertUpload | Response> {
+  const body = await c.req.parseBody()
+  const file = body.file
+  if (!(file instanceof File)) {
+    return c.json({ error: 'Missing file upload' }, 400)
+  }
+
+  const { detectHeadlessFileType, parseOptionOverrides, resolveConvertOptions } = await import('./convert')
+
+  const fileType = detectHeadlessFileType(file.name)
+  if (!fileType) {
+    return c.json({ error: 'Unsupported file type' }, 400)
+  }
+
+  let options: ConversionOptions
+  try {
+    const rawOptions = typeof body.options === 'string' && body.options.trim() ? JSON.parse(body.options) : {}
+    options = resolveConvertOptions(fileType, parseOptionOverrides(rawOptions))
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : 'Invalid options' }, 400)
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer())
+  return { input: { name: file.name, data }, fileType, options }
+}
+
+const convertUploadLimit = bodyLimit({
+  maxSize: MAX_CONVERT_UPLOAD_BYTES,
+  onError: (c) => c.json({ error: 'File too large' }, 413),
+})
+
 // Flush on shutdown
 if (typeof process !== 'undefined') {
   process.on('SIGINT', () => {
@@ -268,6 +348,85 @@ api.get('/nyaa', async (c) => {
   }
 })
 
+// Server-side conversion: multipart upload with a `file` and optional JSON `options`
+api.post('/convert', convertUploadLimit, async (c) => {
+  if (!isBun) {
+    return c.json({ error: 'Server-side conversion requires Bun' }, 501)
+  }
+
+  const upload = await parseConvertUpload(c)
+  if (upload instanceof Response) return upload
+
+  try {
+    const { convertHeadless } = await import('./convert')
+    const result = await convertHeadless(upload.input, upload.fileType, upload.options)
+    recordServerConversion(upload.fileType)
+
+    return new Response(result.data!, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(result.size),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(result.name)}`,
+        'X-Page-Count': String(result.pageCount),
+      },
+    })
+  } catch (err) {
+    console.error('[api] Conversion error:', err)
+    return c.json({ error: err instanceof Error ? err.message : 'Conversion failed' }, 422)
+  }
+})
+
+// Queue a conversion job; same upload format as /convert
+api.post('/jobs', convertUploadLimit, async (c) => {
+  if (!jobs) {
+    return c.json({ error: 'Job queue unavailable' }, 503)
+  }
+
+  const upload = await parseConvertUpload(c)
+  if (upload instanceof Response) return upload
+
+  const job = await jobs.enqueue(upload.input, upload.fileType, upload.options)
+  return c.json(job, 202)
+})
+
+// Job status and progress (0-1)
+api.get('/jobs/:id', (c) => {
+  const job = jobs?.get(c.req.param('id'))
+  if (!job) return c.json({ error: 'Job not found' }, 404)
+  return c.json(job)
+})
+
+// Download a finished job's XTC/XTCH
+api.get('/jobs/:id/result', (c) => {
+  const id = c.req.param('id')
+  const job = jobs?.get(id)
+  if (!job) return c.json({ error: 'Job not found' }, 404)
+
+  const resultPath = jobs!.getResultPath(id)
+  if (!resultPath) {
+    return c.json({ error: `Job is ${job.status}` }, 409)
+  }
+
+  return new Response(Bun.file(resultPath), {
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(job.resultName!)}`,
+      'X-Page-Count': String(job.pageCount),
+    },
+  })
+})
+
+// Cancel a queued or running job
+api.delete('/jobs/:id', async (c) => {
+  const id = c.req.param('id')
+  if (!jobs?.get(id)) return c.json({ error: 'Job not found' }, 404)
+
+  if (!(await jobs.cancel(id))) {
+    return c.json({ error: 'Job already finished' }, 409)
+  }
+  return c.json(jobs.get(id))
+})
+
 // Health check
 api.get('/health', (c) => {
   return c.json({
@@ -0,0 +1,262 @@
+import { expect, test } from 'bun:test'
+import { readFile } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+import JSZip from 'jszip'
+import SevenZip from '7z-wasm'
+import { Canvas } from '@napi-rs/canvas'
+import { decodeXtcPage, parseXtcFile } from '../src/lib/xtc-reader'
+import { parseConvertArgs } from './cli'
+import { convertHeadless, parseOptionOverrides, resolveConvertOptions } from './convert'
+
+async function createPagePng(width: number, height: number): Promise<Uint8Array> {
+  const canvas = new Canvas(width, height)
+  const ctx = canvas.getContext('2d')
+  ctx.fillStyle = '#fff'
+  ctx.fillRect(0, 0, width, height)
+  ctx.fillStyle = '#000'
+  ctx.fillRect(width / 4, height / 4, width / 2, height / 2)
+  return new Uint8Array(await canvas.encode('png'))
+}
+
+// Build an archive with 7zz itself (`-t7z` or `-ttar`)
+async function createArchive(type: '7z' | 'tar', files: Record<string, Uint8Array | string>): Promise<Uint8Array> {
+  const wasm = await readFile(fileURLToPath(import.meta.resolve('7z-wasm/7zz.wasm')))
+  const sevenZip = await SevenZip({
+    wasmBinary: wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength) as ArrayBuffer,
+    print: () => {},
+  })
+  sevenZip.FS.mkdir('/src')
+  sevenZip.FS.chdir('/src')
+  for (const [name, content] of Object.entries(files)) {
+    sevenZip.FS.writeFile(name, content)
+  }
+  sevenZip.callMain(['a', `-t${type}`, `/archive.${type}`, ...Object.keys(files)])
+  return sevenZip.FS.readFile(`/archive.${type}`)
+}
+
+test('maps CLI flags onto conversion option overrides', () => {
+  const command = parseConvertArgs(['--device', 'X3', '--split-mode', 'nosplit', '--2bit', '-o', 'out', 'book.cbz'])
+
+  expect(command).toEqual({
+    inputs: ['book.cbz'],
+    outDir: 'out',
+    overrides: { device: 'X3', splitMode: 'nosplit', is2bit: true },
+  })
+})
+
+test('takes the screen size for a custom device', () => {
+  const command = parseConvertArgs(['--device', 'custom', '--screen-width', '600', '--screen-height', '1024', 'book.cbz'])
+
+  expect(command?.overrides).toEqual({ device: 'custom', customWidth: 600, customHeight: 1024 })
+  expect(() => parseConvertArgs(['--screen-width', '9000', 'book.cbz'])).toThrow('Invalid --screen-width')
+})
+
+test('rejects unknown option values', () => {
+  expect(() => parseConvertArgs(['--device', 'X9', 'book.cbz'])).toThrow('Invalid --device')
+  expect(() => parseConvertArgs(['--contrast', '12', 'book.cbz'])).toThrow('Invalid --contrast')
+  expect(() => parseConvertArgs(['--reading-direction', 'up', 'book.cbz'])).toThrow('Invalid --reading-direction')
+})
+
+test('validates JSON option overrides', () => {
+  expect(parseOptionOverrides({ splitMode: 'nosplit', contrast: 2, is2bit: true, unknown: 1 }))
+    .toEqual({ splitMode: 'nosplit', contrast: 2, is2bit: true })
+  expect(() => parseOptionOverrides({ contrast: '2' })).toThrow('Invalid contrast')
+  expect(() => parseOptionOverrides([])).toThrow('Options must be a JSON object')
+})
+
+test('starts from the web defaults for each file type', () => {
+  expect(resolveConvertOptions('cbr', {}).dithering).toBe('floyd')
+  expect(resolveConvertOptions('pdf', {}).contrast).toBe(0)
+  expect(resolveConvertOptions('image', { orientation: 'landscape' }).orientation).toBe('landscape')
+})
+
+test('converts a CBZ to XTC without a browser', async () => {
+  const zip = new JSZip()
+  zip.file('002.png', await createPagePng(120, 180))
+  zip.file('001.png', await createPagePng(120, 180))
+  const data = await zip.generateAsync({ type: 'uint8array' })
+
+  const result = await convertHeadless(
+    { name: 'volume.cbz', data },
+    'cbz',
+    resolveConvertOptions('cbz', { splitMode: 'split' })
+  )
+
+  const bytes = new Uint8Array(await result.data!.arrayBuffer())
+  expect(result.name).toBe('volume.xtc')
+  expect(String.fromCharCode(bytes[0], bytes[1], bytes[2])).toBe('XTC')
+  // Cover stays whole, the second page splits in half.
+  expect(result.pageCount).toBe(3)
+})
+
+test('converts folder imports with one chapter per folder, like the browser', async () => {
+  const zip = new JSZip()
+  zip.file('Chapter 1/001.png', await createPagePng(120, 180))
+  zip.file('Chapter 1/002.png', await createPagePng(120, 180))
+  zip.file('Chapter 2/001.png', await createPagePng(120, 180))
+  const data = await zip.generateAsync({ type: 'uint8array' })
+
+  const result = await convertHeadless(
+    { name: 'My Comic.zip', data },
+    'cbz',
+    resolveConvertOptions('cbz', { splitMode: 'nosplit' })
+  )
+
+  expect(result.name).toBe('My Comic.xtc')
+  const parsed = await parseXtcFile(await result.data!.arrayBuffer())
+  expect(parsed.metadata?.toc.map(({ title, startPage, endPage }) => [title, startPage, endPage]))
+    .toEqual([['Chapter 1', 1, 2], ['Chapter 2', 3, 3]])
+})
+
+test('merges a ZIP of CBZ volumes with one chapter per volume', async () => {
+  const createVolume = async (pageCount: number) => {
+    const volume = new JSZip()
+    for (let page = 1; page <= pageCount; page++) {
+      volume.file(`${String(page).padStart(3, '0')}.png`, await createPagePng(120, 180))
+    }
+    return volume.generateAsync({ type: 'uint8array' })
+  }
+  const zip = new JSZip()
+  zip.file('Series v02.cbz', await createVolume(1))
+  zip.file('Series v01.cbz', await createVolume(2))
+  const data = await zip.generateAsync({ type: 'uint8array' })
+
+  const result = await convertHeadless(
+    { name: 'Series.zip', data },
+    'cbz',
+    resolveConvertOptions('cbz', { splitMode: 'nosplit' })
+  )
+
+  expect(result.pageCount).toBe(3)
+  const parsed = await parseXtcFile(await result.data!.arrayBuffer())
+  expect(parsed.metadata?.toc.map(({ title, startPage, endPage }) => [title, startPage, endPage]))
+    .toEqual([['Series v01', 1, 2], ['Series v02', 3, 3]])
+})
+
+test('stops converting once the signal is aborted', async () => {
+  const zip = new JSZip()
+  for (const name of ['001.png', '002.png', '003.png']) {
+    zip.file(name, await createPagePng(120, 180))
+  }
+  const data = await zip.generateAsync({ type: 'uint8array' })
+  const controller = new AbortController()
+  const reports: number[] = []
+
+  const conversion = convertHeadless({ name: 'long.cbz', data }, 'cbz', resolveConvertOptions('cbz', {}), (progress) => {
+    reports.push(progress)
+    controller.abort(new Error('Job cancelled'))
+  }, controller.signal)
+
+  await expect(conversion).rejects.toThrow('Job cancelled')
+  expect(reports).toHaveLength(1)
+})
+
+test('measures a book-wide auto-crop before converting', async () => {
+  const zip = new JSZip()
+  for (const name of ['001.png', '002.png', '003.png']) {
+    zip.file(name, await createPagePng(120, 180))
+  }
+  const data = await zip.generateAsync({ type: 'uint8array' })
+
+  const result = await convertHeadless(
+    { name: 'scan.cbz', data },
+    'cbz',
+    resolveConvertOptions('cbz', { autoCrop: 'book', orientation: 'portrait' })
+  )
+
+  expect(result.pageCount).toBe(3)
+})
+
+test('reads half splits top first in right-to-left books', async () => {
+  // Dark top half, white bottom half
+  const canvas = new Canvas(120, 180)
+  const ctx = canvas.getContext('2d')
+  ctx.fillStyle = '#fff'
+  ctx.fillRect(0, 0, 120, 180)
+  ctx.fillStyle = '#000'
+  ctx.fillRect(0, 0, 120, 90)
+  const zip = new JSZip()
+  zip.file('001.png', await createPagePng(120, 180))
+  zip.file('002.png', new Uint8Array(await canvas.encode('png')))
+  const data = await zip.generateAsync({ type: 'uint8array' })
+
+  const result = await convertHeadless(
+    { name: 'manga.cbz', data },
+    'cbz',
+    resolveConvertOptions('cbz', { splitMode: 'split', readingDirection: 'rtl', pageOverview: 'none' })
+  )
+
+  const parsed = await parseXtcFile(await result.data!.arrayBuffer())
+  const darkness = (page: ArrayBuffer) => {
+    const { data: pixels } = decodeXtcPage(page)
+    return pixels.filter((value, index) => index % 4 === 0 && value < 128).length
+  }
+  expect(parsed.pageData).toHaveLength(3)
+  expect(darkness(parsed.pageData[1])).toBeGreaterThan(darkness(parsed.pageData[2]))
+})
+
+test('slices webtoon strips across images', async () => {
+  const zip = new JSZip()
+  zip.file('000.png', await createPagePng(120, 180))
+  for (const name of ['001.png', '002.png', '003.png', '004.png']) {
+    zip.file(name, await createPagePng(240, 200))
+  }
+  const data = await zip.generateAsync({ type: 'uint8array' })
+
+  const result = await convertHeadless(
+    { name: 'webtoon.cbz', data },
+    'cbz',
+    resolveConvertOptions('cbz', { splitMode: 'strip', orientation: 'portrait' })
+  )
+
+  // The cover stays whole; four 480x400 panels fill two 800px pages.
+  expect(result.pageCount).toBe(3)
+})
+
+test('lays out two-page spreads by the spread policy', async () => {
+  const zip = new JSZip()
+  zip.file('000.png', await createPagePng(120, 180))
+  zip.file('001.png', await createPagePng(360, 240))
+  zip.file('002.png', await createPagePng(120, 180))
+  const data = await zip.generateAsync({ type: 'uint8array' })
+
+  const convert = (spreadPolicy: string) => convertHeadless(
+    { name: 'spreads.cbz', data },
+    'cbz',
+    resolveConvertOptions('cbz', { orientation: 'portrait', splitMode: 'nosplit', ...parseOptionOverrides({ spreadPolicy }) })
+  )
+
+  expect((await convert('rotate')).pageCount).toBe(3)
+  expect((await convert('split')).pageCount).toBe(4)
+  // The whole spread, then each of its pages
+  expect((await convert('both')).pageCount).toBe(5)
+})
+
+test('converts CB7 and CBT archives with ComicInfo metadata', async () => {
+  const files = {
+    '001.png': await createPagePng(120, 180),
+    '002.png': await createPagePng(120, 180),
+    'ComicInfo.xml': '<ComicInfo><Title>Packed</Title><Pages><Page Image="1" Type="FrontCover"/></Pages></ComicInfo>',
+  }
+
+  for (const fileType of ['cb7', 'cbt'] as const) {
+    const data = await createArchive(fileType === 'cb7' ? '7z' : 'tar', files)
+    const result = await convertHeadless(
+      { name: `volume.${fileType}`, data },
+      fileType,
+      resolveConvertOptions(fileType, { splitMode: 'split' })
+    )
+
+    expect(result.name).toBe('volume.xtc')
+    // The ComicInfo cover (page 2) moves to the front and stays whole; page 1 splits.
+    expect(result.pageCount).toBe(3)
+  }
+})
+
+test('reports unreadable CB7 archives', async () => {
+  await expect(convertHeadless(
+    { name: 'broken.cb7', data: new Uint8Array([1, 2, 3, 4]) },
+    'cb7',
+    resolveConvertOptions('cb7', {})
+  )).rejects.toThrow('Failed to extract 7z archive')
+})
@@ -0,0 +1,264 @@
+#!/usr/bin/env bun
+// Command-line entry point for batch conversion: xtcjs convert [options] <inputs...>
+
+import { mkdir, readdir, readFile, stat, writeFile } from 'node:fs/promises'
+import { basename, dirname, join } from 'node:path'
+import { parseArgs } from 'node:util'
+import {
+  OPTION_CHOICES,
+  OPTION_RANGES,
+  convertHeadless,
+  detectHeadlessFileType,
+  resolveConvertOptions
+} from './convert'
+import type { ConversionOptions } from '../src/lib/conversion/types'
+
+export interface ConvertCommand {
+  inputs: string[]
+  outDir?: string
+  overrides: Partial<ConversionOptions>
+}
+
+const USAGE = `Usage: xtcjs convert [options] <file-or-directory...>
+
+Converts CBZ, CBR, CB7, CBT, EPUB, PDF and image files to XTC (or XTCH with --2bit).
+Directories are searched recursively for supported files.
+
+Options:
+  -o, --out <dir>               Output directory (default: next to each input)
+      --device <X4|X3|custom>   Target device
+      --screen-width <px>       Screen width for --device custom
+      --screen-height <px>      Screen height for --device custom
+      --split-mode <mode>       overlap | split | fourway | nosplit | strip | panels
+      --spreads <policy>        auto | rotate | split | both (two-page spreads)
+      --page-overview <mode>    none | portrait | landscape
+      --reading-direction <dir> auto | ltr | rtl (right-to-left puts the right half first)
+      --dithering <algorithm>   floyd | atkinson | sierra-lite | sierra | burkes |
+                                jarvis | stucki | ordered | blue-noise | none
+      --2bit                    Write 2-bit grayscale XTCH
+      --contrast <0-8>          Contrast boost level
+      --brightness <-50-50>     Brightness offset in percent
+      --gamma <0.5-2.5>         Midtone gamma (above 1 lightens)
+      --sharpen <0-200>         Sharpening strength in percent of the default
+      --sharpen-radius <1-3>    Sharpening radius in pixels
+      --shadow-lift <0-200>     2-bit shadow lift in percent of the default
+      --horizontal-margin <%>   Horizontal margin crop (0-20)
+      --vertical-margin <%>     Vertical margin crop (0-20)
+      --auto-crop <mode>        off | page | book (trim whitespace per page or book-wide)
+      --descreen                Smooth screentone into gray to avoid moiré
+      --deskew                  Straighten tilted scans
+      --despeckle               Remove isolated specks of scanner dust
+      --strip-overlap <%>       Page height repeated across strip cuts without a gutter (0-20)
+      --orientation <mode>      landscape | portrait
+      --cover-portrait          Keep the cover page in portrait
+      --landscape-flip-clockwise
+                                Rotate landscape pages clockwise
+      --image-mode <mode>       cover | letterbox | fill | crop
+      --ignore-comicinfo        Don't take reading direction or title from ComicInfo.xml
+      --toc-nesting <style>     indent | indent-level | flat (how nested PDF/EPUB chapters are written)
+      --toc-depth <1-8>         Deepest chapter level kept in the TOC
+  -h, --help                    Show this help
+`
+
+function parseChoice<T extends string>(flag: string, value: string | undefined, choices: readonly T[]): T | undefined {
+  if (value === undefined) return undefined
+  if (!choices.includes(value as T)) {
+    throw new Error(`Invalid --${flag} "${value}" (expected ${choices.join(', ')})`)
+  }
+  return value as T
+}
+
+function parseNumber(flag: string, value: string | undefined, [min, max]: readonly [number, number]): number | undefined {
+  if (value === undefined) return undefined
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Invalid --${flag} "${value}" (expected a number from ${min} to ${max})`)
+  }
+  return parsed
+}
+
+/**
+ * Parse the arguments that follow `convert` into inputs and option overrides.
+ */
+export function parseConvertArgs(args: string[]): ConvertCommand | null {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      device: { type: 'string' },
+      'screen-width': { type: 'string' },
+      'screen-height': { type: 'string' },
+      'split-mode': { type: 'string' },
+      spreads: { type: 'string' },
+      'page-overview': { type: 'string' },
+      'reading-direction': { type: 'string' },
+      dithering: { type: 'string' },
+      '2bit': { type: 'boolean' },
+      contrast: { type: 'string' },
+      brightness: { type: 'string' },
+      gamma: { type: 'string' },
+      sharpen: { type: 'string' },
+      'sharpen-radius': { type: 'string' },
+      'shadow-lift': { type: 'string' },
+      'horizontal-margin': { type: 'string' },
+      'vertical-margin': { type: 'string' },
+      'auto-crop': { type: 'string' },
+      descreen: { type: 'boolean' },
+      deskew: { type: 'boolean' },
+      despeckle: { type: 'boolean' },
+      'strip-overlap': { type: 'string' },
+      orientation: { type: 'string' },
+      'cover-portrait': { type: 'boolean' },
+      'landscape-flip-clockwise': { type: 'boolean' },
+      'image-mode': { type: 'string' },
+      'ignore-comicinfo': { type: 'boolean' },
+      'toc-nesting': { type: 'string' },
+      'toc-depth': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    return null
+  }
+
+  const candidates: Partial<ConversionOptions> = {
+    device: parseChoice('device', values.device, OPTION_CHOICES.device),
+    customWidth: parseNumber('screen-width', values['screen-width'], OPTION_RANGES.customWidth),
+    customHeight: parseNumber('screen-height', values['screen-height'], OPTION_RANGES.customHeight),
+    splitMode: parseChoice('split-mode', values['split-mode'], OPTION_CHOICES.splitMode),
+    spreadPolicy: parseChoice('spreads', values.spreads, OPTION_CHOICES.spreadPolicy),
+    pageOverview: parseChoice('page-overview', values['page-overview'], OPTION_CHOICES.pageOverview),
+    readingDirection: parseChoice('reading-direction', values['reading-direction'], OPTION_CHOICES.readingDirection),
+    dithering: parseChoice('dithering', values.dithering, OPTION_CHOICES.dithering),
+    is2bit: values['2bit'],
+    contrast: parseNumber('contrast', values.contrast, OPTION_RANGES.contrast),
+    brightness: parseNumber('brightness', values.brightness, OPTION_RANGES.brightness),
+    gamma: parseNumber('gamma', values.gamma, OPTION_RANGES.gamma),
+    sharpenAmount: parseNumber('sharpen', values.sharpen, OPTION_RANGES.sharpenAmount),
+    sharpenRadius: parseNumber('sharpen-radius', values['sharpen-radius'], OPTION_RANGES.sharpenRadius),
+    shadowLift: parseNumber('shadow-lift', values['shadow-lift'], OPTION_RANGES.shadowLift),
+    horizontalMargin: parseNumber('horizontal-margin', values['horizontal-margin'], OPTION_RANGES.horizontalMargin),
+    verticalMargin: parseNumber('vertical-margin', values['vertical-margin'], OPTION_RANGES.verticalMargin),
+    autoCrop: parseChoice('auto-crop', values['auto-crop'], OPTION_CHOICES.autoCrop),
+    descreen: values.descreen,
+    deskew: values.deskew,
+    despeckle: values.despeckle,
+    stripOverlap: parseNumber('strip-overlap', values['strip-overlap'], OPTION_RANGES.stripOverlap),
+    orientation: parseChoice('orientation', values.orientation, OPTION_CHOICES.orientation),
+    coverPortrait: values['cover-portrait'],
+    landscapeFlipClockwise: values['landscape-flip-clockwise'],
+    imageMode: parseChoice('image-mode', values['image-mode'], OPTION_CHOICES.imageMode),
+    useComicInfo: values['ignore-comicinfo'] ? false : undefined,
+    tocNesting: parseChoice('toc-nesting', values['toc-nesting'], OPTION_CHOICES.tocNesting),
+    tocDepth: parseNumber('toc-depth', values['toc-depth'], OPTION_RANGES.tocDepth),
+  }
+
+  const overrides: Partial<ConversionOptions> = {}
+  for (const [key, value] of Object.entries(candidates)) {
+    if (value !== undefined) {
+      (overrides as Record<string, unknown>)[key] = value
+    }
+  }
+
+  return { inputs: positionals, outDir: values.out, overrides }
+}
+
+async function collectInputFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = []
+
+  for (const path of paths) {
+    const info = await stat(path)
+    if (!info.isDirectory()) {
+      files.push(path)
+      continue
+    }
+
+    const entries = await readdir(path, { recursive: true })
+    entries
+      .map((entry) => join(path, entry))
+      .filter((entry) => detectHeadlessFileType(entry) !== null)
+      .sort((a, b) => a.localeCompare(b))
+      .forEach((entry) => files.push(entry))
+  }
+
+  return files
+}
+
+async function runConvert(command: ConvertCommand): Promise<number> {
+  const files = await collectInputFiles(command.inputs)
+  if (files.length === 0) {
+    console.error('No input files found')
+    return 1
+  }
+
+  let failures = 0
+  for (let i = 0; i < files.length; i++) {
+    const path = files[i]
+    const label = `[${i + 1}/${files.length}] ${basename(path)}`
+    const fileType = detectHeadlessFileType(path)
+
+    if (!fileType) {
+      console.error(`${label}: unsupported file type`)
+      failures++
+      continue
+    }
+
+    try {
+      const options = resolveConvertOptions(fileType, command.overrides)
+      const data = new Uint8Array(await readFile(path))
+      let lastPercent = -1
+      const result = await convertHeadless({ name: basename(path), data }, fileType, options, (progress) => {
+        const percent = Math.floor(progress * 100)
+        if (percent !== lastPercent && process.stderr.isTTY) {
+          process.stderr.write(`\r${label}: ${percent}%`)
+          lastPercent = percent
+        }
+      })
+
+      const outDir = command.outDir ?? dirname(path)
+      await mkdir(outDir, { recursive: true })
+      const outPath = join(outDir, result.name)
+      await writeFile(outPath, new Uint8Array(await result.data!.arrayBuffer()))
+
+      if (process.stderr.isTTY) process.stderr.write('\r')
+      console.error(`${label}: ${result.pageCount} pages -> ${outPath}`)
+    } catch (err) {
+      if (process.stderr.isTTY) process.stderr.write('\r')
+      console.error(`${label}: ${err instanceof Error ? err.message : 'conversion failed'}`)
+      failures++
+    }
+  }
+
+  return failures > 0 ? 1 : 0
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const [commandName, ...args] = argv
+
+  if (commandName !== 'convert') {
+    console.error(USAGE)
+    return commandName === undefined || commandName === '--help' || commandName === '-h' ? 0 : 1
+  }
+
+  let command: ConvertCommand | null
+  try {
+    command = parseConvertArgs(args)
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err))
+    console.error(USAGE)
+    return 1
+  }
+
+  if (!command || command.inputs.length === 0) {
+    console.error(USAGE)
+    return command ? 1 : 0
+  }
+
+  return runConvert(command)
+}
+
+if (import.meta.main) {
+  process.exit(await main(process.argv.slice(2)))
+}
@@ -0,0 +1,423 @@
+// Headless conversion runtime (Bun) shared by the CLI and the /api/convert route
+//
+// Pages go through the same pipeline the browser conversion worker runs
+// (src/lib/conversion/page-pipeline.ts). The browser globals it relies on,
+// OffscreenCanvas and DOMParser, are provided by @napi-rs/canvas and linkedom.
+
+import { readFile } from 'node:fs/promises'
+import { fileURLToPath } from 'node:url'
+import JSZip from 'jszip'
+import { Canvas, loadImage } from '@napi-rs/canvas'
+import { DOMParser as LinkedomDOMParser } from 'linkedom'
+import { createExtractorFromData } from 'node-unrar-js'
+import { getPdfRenderScale, resolveBookCropOptions, StripSlicer } from '../src/lib/conversion/page-pipeline'
+import {
+  getChapterStartPages,
+  getCoverCropOptions,
+  getPageProcessingOptions,
+  moveCoverToFront,
+  type ExtractedArchiveFile
+} from '../src/lib/conversion/archive'
+import { loadArchiveBook, readZipEntries, toArchiveEntries, type ArchiveBook } from '../src/lib/conversion/archive-book'
+import { extractSevenZip } from '../src/lib/conversion/sevenzip'
+import { readTarEntries } from '../src/lib/conversion/tar'
+import { finalizeConversionResult } from '../src/lib/conversion/result'
+import { CUSTOM_DIMENSION_RANGE, DEVICE_PROFILES } from '../src/lib/conversion/devices'
+import { readEpub } from '../src/lib/conversion/epub'
+import { MAX_TOC_DEPTH } from '../src/lib/metadata/toc'
+import { PageMappingContext } from '../src/lib/page-mapping'
+import { XtcWriter } from '../src/lib/xtc-format'
+import { extractPdfMetadata } from '../src/lib/metadata/pdf-outline'
+import type { BookMetadata } from '../src/lib/metadata/types'
+import type { PDFDocumentProxy } from '../src/lib/pdfjs'
+import { getDefaultConversionOptions } from '../src/lib/conversion/defaults'
+import type { ConversionOptions, ConversionResult } from '../src/lib/conversion/types'
+
+export type HeadlessFileType = 'cbz' | 'cbr' | 'cb7' | 'cbt' | 'epub' | 'pdf' | 'image'
+
+export interface HeadlessInput {
+  name: string
+  data: Uint8Array
+}
+
+interface SourcePage {
+  originalPage: number
+  options: ConversionOptions
+  load: () => Promise<OffscreenCanvas>
+}
+
+interface LoadedSource {
+  outputName: string
+  metadata: BookMetadata
+  pages: SourcePage[]
+  close?: () => Promise<void>
+}
+
+export const OPTION_CHOICES = {
+  device: DEVICE_PROFILES.map((profile) => profile.id),
+  splitMode: ['overlap', 'split', 'fourway', 'nosplit', 'strip', 'panels'],
+  spreadPolicy: ['auto', 'rotate', 'split', 'both'],
+  pageOverview: ['none', 'portrait', 'landscape'],
+  readingDirection: ['auto', 'ltr', 'rtl'],
+  dithering: ['floyd', 'atkinson', 'sierra-lite', 'sierra', 'burkes', 'jarvis', 'stucki', 'ordered', 'blue-noise', 'none'],
+  orientation: ['landscape', 'portrait'],
+  autoCrop: ['off', 'page', 'book'],
+  imageMode: ['cover', 'letterbox', 'fill', 'crop'],
+  tocNesting: ['indent', 'indent-level', 'flat'],
+} as const satisfies Partial<Record<keyof ConversionOptions, readonly string[]>>
+
+export const OPTION_RANGES = {
+  customWidth: CUSTOM_DIMENSION_RANGE,
+  customHeight: CUSTOM_DIMENSION_RANGE,
+  contrast: [0, 8],
+  brightness: [-50, 50],
+  gamma: [0.5, 2.5],
+  sharpenAmount: [0, 200],
+  sharpenRadius: [1, 3],
+  shadowLift: [0, 200],
+  horizontalMargin: [0, 20],
+  verticalMargin: [0, 20],
+  stripOverlap: [0, 20],
+  tocDepth: [1, MAX_TOC_DEPTH],
+} as const satisfies Partial<Record<keyof ConversionOptions, readonly [number, number]>>
+
+const BOOLEAN_OPTIONS = ['is2bit', 'coverPortrait', 'landscapeFlipClockwise', 'useComicInfo', 'descreen', 'deskew', 'despeckle'] as const
+
+class HeadlessOffscreenCanvas extends Canvas {
+  async convertToBlob(options: { type?: string; quality?: number } = {}): Promise<Blob> {
+    const type = options.type ?? 'image/png'
+    const bytes = type === 'image/jpeg'
+      ? await this.encode('jpeg', Math.round((options.quality ?? 0.92) * 100))
+      : await this.encode('png')
+    return new Blob([new Uint8Array(bytes)], { type })
+  }
+}
+
+function installHeadlessGlobals(): void {
+  const scope = globalThis as Record<string, unknown>
+  if (typeof scope.OffscreenCanvas === 'undefined') {
+    scope.OffscreenCanvas = HeadlessOffscreenCanvas
+  }
+  if (typeof scope.DOMParser === 'undefined') {
+    scope.DOMParser = LinkedomDOMParser
+  }
+}
+
+installHeadlessGlobals()
+
+/**
+ * Detect the input type from the file extension, or null when unsupported.
+ */
+export function detectHeadlessFileType(name: string): HeadlessFileType | null {
+  const lowerName = name.toLowerCase()
+  if (lowerName.endsWith('.cbz')) return 'cbz'
+  if (lowerName.endsWith('.cbr')) return 'cbr'
+  if (lowerName.endsWith('.cb7')) return 'cb7'
+  if (lowerName.endsWith('.cbt')) return 'cbt'
+  if (lowerName.endsWith('.epub')) return 'epub'
+  if (lowerName.endsWith('.pdf')) return 'pdf'
+  if (/\.(jpg|jpeg|png|webp|bmp|gif)$/.test(lowerName)) return 'image'
+  return null
+}
+
+/**
+ * Validate user-supplied option overrides (e.g. a JSON request body).
+ * Unknown keys are ignored; known keys with invalid values throw.
+ */
+export function parseOptionOverrides(value: unknown): Partial<ConversionOptions> {
+  if (value === undefined || value === null) return {}
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Options must be a JSON object')
+  }
+
+  const input = value as Record<string, unknown>
+  const overrides: Record<string, unknown> = {}
+
+  for (const [key, choices] of Object.entries(OPTION_CHOICES)) {
+    if (input[key] === undefined) continue
+    if (!(choices as readonly unknown[]).includes(input[key])) {
+      throw new Error(`Invalid ${key} "${String(input[key])}" (expected ${choices.join(', ')})`)
+    }
+    overrides[key] = input[key]
+  }
+
+  for (const [key, [min, max]] of Object.entries(OPTION_RANGES)) {
+    if (input[key] === undefined) continue
+    const number = input[key]
+    if (typeof number !== 'number' || !Number.isFinite(number) || number < min || number > max) {
+      throw new Error(`Invalid ${key} "${String(number)}" (expected a number from ${min} to ${max})`)
+    }
+    overrides[key] = number
+  }
+
+  for (const key of BOOLEAN_OPTIONS) {
+    if (input[key] === undefined) continue
+    if (typeof input[key] !== 'boolean') {
+      throw new Error(`Invalid ${key} "${String(input[key])}" (expected true or false)`)
+    }
+    overrides[key] = input[key]
+  }
+
+  return overrides as Partial<ConversionOptions>
+}
+
+/**
+ * Start from the web app's recommended settings for the file type and apply overrides.
+ */
+export function resolveConvertOptions(
+  fileType: HeadlessFileType,
+  overrides: Partial<ConversionOptions>
+): ConversionOptions {
+  const converterType = fileType === 'pdf' || fileType === 'image' ? fileType : 'cbz'
+  return {
+    ...getDefaultConversionOptions(converterType),
+    showProgressPreview: false,
+    ...overrides,
+  }
+}
+
+function resolvePackagePath(specifier: string): string {
+  return fileURLToPath(import.meta.resolve(specifier))
+}
+
+async function readWasm(specifier: string): Promise<ArrayBuffer> {
+  const bytes = await readFile(resolvePackagePath(specifier))
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+}
+
+async function decodeImage(bytes: Uint8Array): Promise<OffscreenCanvas> {
+  const image = await loadImage(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength))
+  const canvas = new OffscreenCanvas(image.width, image.height)
+  canvas.getContext('2d', { alpha: false })!.drawImage(image as unknown as CanvasImageSource, 0, 0)
+  return canvas
+}
+
+function getOutputName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.')
+  if (dot <= 0) return `${fileName}.xtc`
+  return `${fileName.slice(0, dot)}.xtc`
+}
+
+/**
+ * Read every file of a CBZ/ZIP, CBR, CB7 or CBT archive into memory
+ */
+async function extractArchiveFiles(name: string, data: Uint8Array): Promise<ExtractedArchiveFile[]> {
+  const lowerName = name.toLowerCase()
+
+  if (lowerName.endsWith('.cbr')) {
+    const wasmBinary = await readWasm('node-unrar-js/esm/js/unrar.wasm')
+    const extractor = await createExtractorFromData({ data: data.slice().buffer as ArrayBuffer, wasmBinary })
+    const extractedFiles: ExtractedArchiveFile[] = []
+    const { files } = extractor.extract()
+    for (const extractedFile of files) {
+      if (extractedFile.fileHeader.flags.directory || !extractedFile.extraction) continue
+      extractedFiles.push({ path: extractedFile.fileHeader.name, data: extractedFile.extraction })
+    }
+    return extractedFiles
+  }
+  if (lowerName.endsWith('.cb7')) {
+    return extractSevenZip(data, await readWasm('7z-wasm/7zz.wasm'))
+  }
+  if (lowerName.endsWith('.cbt')) {
+    return readTarEntries(data)
+  }
+
+  return Promise.all((await readZipEntries(data)).map(async (entry) => ({ path: entry.path, data: await entry.read() })))
+}
+
+async function loadCbz(input: HeadlessInput, options: ConversionOptions): Promise<LoadedSource> {
+  const book = await loadArchiveBook(await readZipEntries(input.data), 'CBZ', options, extractArchiveFiles)
+  return loadArchiveSource(input, book)
+}
+
+// CBR, CB7 and CBT
+async function loadExtractableArchive(
+  input: HeadlessInput,
+  formatLabel: string,
+  options: ConversionOptions
+): Promise<LoadedSource> {
+  const files = await extractArchiveFiles(input.name, input.data)
+  const book = await loadArchiveBook(toArchiveEntries(files), formatLabel, options, extractArchiveFiles)
+  return loadArchiveSource(input, book)
+}
+
+function loadArchiveSource(input: HeadlessInput, book: ArchiveBook): LoadedSource {
+  return {
+    outputName: getOutputName(input.name),
+    metadata: book.metadata,
+    pages: book.pages.map((page, index) => ({
+      originalPage: page.originalPage,
+      options: getPageProcessingOptions(book.options, index === 0),
+      load: async () => decodeImage(await page.read())
+    }))
+  }
+}
+
+async function loadEpub(input: HeadlessInput, options: ConversionOptions): Promise<LoadedSource> {
+  const zip = await JSZip.loadAsync(input.data)
+  const { pages, metadata } = await readEpub(async (path) => {
+    const entry = zip.file(path)
+    return entry ? entry.async('string') : null
+  })
+
+  const imageFiles = pages.map((page) => {
+    const entry = zip.file(page.path)
+    if (!entry) {
+      throw new Error(`Missing EPUB image: ${page.path}`)
+    }
+    return { path: page.path, entry, originalPage: page.originalPage }
+  })
+  moveCoverToFront(imageFiles, metadata)
+
+  return {
+    outputName: getOutputName(input.name),
+    metadata,
+    pages: imageFiles.map((imageFile, index) => ({
+      originalPage: imageFile.originalPage,
+      options: getPageProcessingOptions(options, index === 0),
+      load: async () => decodeImage(await imageFile.entry.async('uint8array'))
+    }))
+  }
+}
+
+async function loadPdf(input: HeadlessInput, options: ConversionOptions): Promise<LoadedSource> {
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  const pdfjsRoot = resolvePackagePath('pdfjs-dist/package.json').replace(/package\.json$/, '')
+  const pdf = await pdfjsLib.getDocument({
+    data: input.data.slice(),
+    standardFontDataUrl: `${pdfjsRoot}standard_fonts/`,
+    wasmUrl: `${pdfjsRoot}wasm/`,
+  }).promise as unknown as PDFDocumentProxy
+
+  let metadata: BookMetadata = { toc: [] }
+  try {
+    metadata = await extractPdfMetadata(pdf)
+  } catch {
+    // Continue conversion without metadata.
+  }
+
+  const pages: SourcePage[] = []
+  for (let i = 1; i <= pdf.numPages; i++) {
+    pages.push({
+      originalPage: i,
+      options: i === 1 ? getCoverCropOptions(options) : options,
+      load: async () => {
+        const page = await pdf.getPage(i)
+        const baseViewport = page.getViewport({ scale: 1 })
+        const viewport = page.getViewport({
+          scale: getPdfRenderScale(baseViewport.width, baseViewport.height, options)
+        })
+        const canvas = new OffscreenCanvas(Math.floor(viewport.width), Math.floor(viewport.height))
+        await page.render({
+          canvas: canvas as unknown as HTMLCanvasElement,
+          viewport,
+          background: 'rgb(255,255,255)'
+        }).promise
+        page.cleanup()
+        return canvas
+      }
+    })
+  }
+
+  return {
+    outputName: getOutputName(input.name),
+    metadata,
+    pages,
+    close: () => pdf.destroy()
+  }
+}
+
+async function loadImageInput(input: HeadlessInput, options: ConversionOptions): Promise<LoadedSource> {
+  return {
+    outputName: getOutputName(input.name),
+    metadata: { toc: [] },
+    pages: [{
+      originalPage: 1,
+      options: { ...options, splitMode: 'nosplit' },
+      load: () => decodeImage(input.data)
+    }]
+  }
+}
+
+function loadSource(
+  input: HeadlessInput,
+  fileType: HeadlessFileType,
+  options: ConversionOptions
+): Promise<LoadedSource> {
+  switch (fileType) {
+    case 'cbz':
+      return loadCbz(input, options)
+    case 'cbr':
+    case 'cb7':
+    case 'cbt':
+      return loadExtractableArchive(input, fileType.toUpperCase(), options)
+    case 'epub':
+      return loadEpub(input, options)
+    case 'pdf':
+      return loadPdf(input, options)
+    case 'image':
+      return loadImageInput(input, options)
+  }
+}
+
+/**
+ * Convert a CBZ/CBR/CB7/CBT/EPUB/PDF/image file to XTC/XTCH without a browser.
+ * Aborting `signal` rejects with its reason before the next page is loaded
+ * or processed.
+ */
+export async function convertHeadless(
+  input: HeadlessInput,
+  fileType: HeadlessFileType,
+  options: ConversionOptions,
+  onProgress: (progress: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<ConversionResult> {
+  signal?.throwIfAborted()
+  const source = await loadSource(input, fileType, options)
+
+  try {
+    const writer = new XtcWriter()
+    const chapterStartPages = getChapterStartPages(source.metadata)
+    const getPageOptions = await resolveBookCropOptions(
+      source.pages.length,
+      (index) => {
+        signal?.throwIfAborted()
+        return source.pages[index].load()
+      },
+      (index) => source.pages[index].options
+    )
+    // Only 'strip' pages are held back to be sliced together; others pass straight through
+    const slicer = new StripSlicer()
+
+    for (let index = 0; index < source.pages.length; index++) {
+      signal?.throwIfAborted()
+      const sourcePage = source.pages[index]
+      const canvas = await sourcePage.load()
+      signal?.throwIfAborted()
+      const startsChapter = index > 0 && chapterStartPages.has(sourcePage.originalPage)
+      const pages = await slicer.processPage(canvas, index + 1, getPageOptions(index), startsChapter, false)
+      signal?.throwIfAborted()
+
+      for (const page of pages) writer.addPage(page.name, page.xtg)
+      onProgress((index + 1) / source.pages.length)
+    }
+    for (const page of await slicer.finish()) writer.addPage(page.name, page.xtg)
+
+    const mappingCtx = new PageMappingContext()
+    source.pages.forEach((sourcePage, index) => {
+      const layout = slicer.getSourceLayout(index + 1)
+      mappingCtx.addOriginalPage(sourcePage.originalPage, layout.pageCount, layout.continuesPreviousPage)
+    })
+
+    return finalizeConversionResult(
+      source.outputName,
+      writer,
+      mappingCtx,
+      source.metadata,
+      [],
+      options
+    )
+  } finally {
+    await source.close?.()
+  }
+}
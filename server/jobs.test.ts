@@ -0,0 +1,102 @@
+import { afterEach, expect, test } from 'bun:test'
+import { Database } from 'bun:sqlite'
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { JobQueue, type JobRunner } from './jobs'
+import { resolveConvertOptions } from './convert'
+
+const tempDirs: string[] = []
+
+function createQueue(runner: JobRunner) {
+  const dir = mkdtempSync(join(tmpdir(), 'xtcjs-jobs-'))
+  tempDirs.push(dir)
+  return { queue: new JobQueue(new Database(':memory:'), dir, runner), dir }
+}
+
+afterEach(() => {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true })
+  }
+})
+
+const options = resolveConvertOptions('cbz', {})
+
+test('runs queued jobs and keeps the result until it expires', async () => {
+  const { queue, dir } = createQueue(async (input, _fileType, _options, onProgress) => {
+    onProgress(0.5)
+    onProgress(1)
+    const data = new Blob([new Uint8Array([...input.data].reverse())])
+    return { name: 'book.xtc', data, size: data.size, pageCount: 2 }
+  })
+
+  const job = await queue.enqueue({ name: 'book.cbz', data: new Uint8Array([1, 2, 3]) }, 'cbz', options)
+  await queue.drain()
+
+  const finished = queue.get(job.id)!
+  expect(finished).toMatchObject({ status: 'complete', progress: 1, resultName: 'book.xtc', resultSize: 3, pageCount: 2 })
+  expect([...readFileSync(queue.getResultPath(job.id)!)]).toEqual([3, 2, 1])
+  expect(existsSync(join(dir, job.id, 'input'))).toBe(false)
+
+  expect(await queue.cleanupExpired()).toBe(0)
+  const originalNow = Date.now
+  Date.now = () => finished.expiresAt! + 1
+  try {
+    expect(await queue.cleanupExpired()).toBe(1)
+  } finally {
+    Date.now = originalNow
+  }
+  expect(queue.get(job.id)).toBeNull()
+  expect(existsSync(join(dir, job.id))).toBe(false)
+})
+
+test('stops a running job when it is cancelled', async () => {
+  let queueRef: JobQueue | null = null
+  let jobId = ''
+  const { queue } = createQueue(async (_input, _fileType, _options, onProgress) => {
+    onProgress(0.25)
+    await queueRef!.cancel(jobId)
+    onProgress(0.5)
+    throw new Error('runner should have been stopped')
+  })
+  queueRef = queue
+
+  jobId = (await queue.enqueue({ name: 'big.pdf', data: new Uint8Array(1) }, 'pdf', options)).id
+  await queue.drain()
+
+  expect(queue.get(jobId)).toMatchObject({ status: 'cancelled', error: null })
+  expect(queue.getResultPath(jobId)).toBeNull()
+  expect(await queue.cancel(jobId)).toBe(false)
+})
+
+test('aborts the conversion of a running job', async () => {
+  let queueRef: JobQueue | null = null
+  let jobId = ''
+  let aborted = false
+  const { queue } = createQueue((_input, _fileType, _options, _onProgress, signal) => new Promise((_resolve, reject) => {
+    // A long page: no progress report until it is done
+    signal.addEventListener('abort', () => {
+      aborted = true
+      reject(signal.reason)
+    })
+    queueRef!.cancel(jobId)
+  }))
+  queueRef = queue
+
+  jobId = (await queue.enqueue({ name: 'big.pdf', data: new Uint8Array(1) }, 'pdf', options)).id
+  await queue.drain()
+
+  expect(aborted).toBe(true)
+  expect(queue.get(jobId)).toMatchObject({ status: 'cancelled', error: null })
+})
+
+test('records runner failures on the job', async () => {
+  const { queue } = createQueue(async () => {
+    throw new Error('No images found in CBZ')
+  })
+
+  const job = await queue.enqueue({ name: 'empty.cbz', data: new Uint8Array(1) }, 'cbz', options)
+  await queue.drain()
+
+  expect(queue.get(job.id)).toMatchObject({ status: 'error', error: 'No images found in CBZ' })
+})
@@ -0,0 +1,291 @@
+// Asynchronous conversion jobs persisted in the server's SQLite database
+//
+// Uploads and results live on disk next to the database; the jobs table only
+// tracks state. Jobs run one at a time so a large PDF can't exhaust memory.
+
+import type { Database } from 'bun:sqlite'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { HeadlessFileType, HeadlessInput } from './convert'
+import { stopOnAbort } from '../src/lib/concurrency'
+import type { ConversionOptions, ConversionResult } from '../src/lib/conversion/types'
+
+const JOB_EXPIRATION_MS = 4.5 * 60 * 60 * 1000 // 4.5 hours, matches browser storage
+
+export type JobStatus = 'queued' | 'running' | 'complete' | 'error' | 'cancelled'
+
+export interface JobRecord {
+  id: string
+  name: string
+  fileType: HeadlessFileType
+  status: JobStatus
+  progress: number
+  error: string | null
+  resultName: string | null
+  resultSize: number | null
+  pageCount: number | null
+  createdAt: number
+  expiresAt: number | null
+}
+
+export type JobRunner = (
+  input: HeadlessInput,
+  fileType: HeadlessFileType,
+  options: ConversionOptions,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal
+) => Promise<ConversionResult>
+
+interface JobRow {
+  id: string
+  name: string
+  file_type: HeadlessFileType
+  options: string
+  status: JobStatus
+  progress: number
+  error: string | null
+  result_name: string | null
+  result_size: number | null
+  page_count: number | null
+  created_at: number
+  expires_at: number | null
+}
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+function toJobRecord(row: JobRow): JobRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    fileType: row.file_type,
+    status: row.status,
+    progress: row.progress,
+    error: row.error,
+    resultName: row.result_name,
+    resultSize: row.result_size,
+    pageCount: row.page_count,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  }
+}
+
+export class JobQueue {
+  private draining: Promise<void> | null = null
+  // Aborted when their running job is cancelled
+  private runningJobs = new Map<string, AbortController>()
+
+  constructor(
+    private db: Database,
+    private jobsDir: string,
+    private runner: JobRunner
+  ) {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        file_type TEXT NOT NULL,
+        options TEXT NOT NULL,
+        status TEXT NOT NULL,
+        progress REAL DEFAULT 0,
+        error TEXT,
+        result_name TEXT,
+        result_size INTEGER,
+        page_count INTEGER,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER
+      )
+    `)
+
+    // Jobs interrupted by a restart still have their upload on disk, so run them again
+    db.run(`UPDATE jobs SET status = 'queued', progress = 0 WHERE status = 'running'`)
+  }
+
+  /**
+   * Store an upload and queue it for conversion.
+   */
+  async enqueue(
+    input: HeadlessInput,
+    fileType: HeadlessFileType,
+    options: ConversionOptions
+  ): Promise<JobRecord> {
+    const id = crypto.randomUUID()
+    const jobDir = join(this.jobsDir, id)
+    await mkdir(jobDir, { recursive: true })
+    await writeFile(join(jobDir, 'input'), input.data)
+
+    this.db.run(
+      `INSERT INTO jobs (id, name, file_type, options, status, created_at) VALUES (?, ?, ?, ?, 'queued', ?)`,
+      [id, input.name, fileType, JSON.stringify(options), Date.now()]
+    )
+
+    this.start()
+    return this.get(id)!
+  }
+
+  get(id: string): JobRecord | null {
+    const row = this.db.query<JobRow, [string]>(`SELECT * FROM jobs WHERE id = ?`).get(id)
+    return row ? toJobRecord(row) : null
+  }
+
+  /**
+   * Path of the converted file, or null unless the job is complete.
+   */
+  getResultPath(id: string): string | null {
+    const job = this.get(id)
+    if (!job || job.status !== 'complete' || !job.resultName) return null
+    return join(this.jobsDir, id, 'result')
+  }
+
+  /**
+   * Cancel a queued or running job; a running conversion is aborted. Returns
+   * false if the job already finished.
+   */
+  async cancel(id: string): Promise<boolean> {
+    const job = this.get(id)
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return false
+    }
+
+    this.finish(id, { status: 'cancelled', error: null })
+    this.runningJobs.get(id)?.abort(new JobCancelledError())
+    if (job.status === 'queued') {
+      await this.removeFiles(id)
+    }
+    return true
+  }
+
+  /**
+   * Delete finished jobs past their expiration along with their files.
+   */
+  async cleanupExpired(): Promise<number> {
+    const expired = this.db.query<{ id: string }, [number]>(
+      `SELECT id FROM jobs WHERE expires_at IS NOT NULL AND expires_at <= ?`
+    ).all(Date.now())
+
+    for (const { id } of expired) {
+      await this.removeFiles(id)
+      this.db.run(`DELETE FROM jobs WHERE id = ?`, [id])
+    }
+
+    return expired.length
+  }
+
+  /**
+   * Process queued jobs in order. Resolves once the queue is empty.
+   */
+  drain(): Promise<void> {
+    this.draining ??= this.processQueue().finally(() => {
+      this.draining = null
+    })
+    return this.draining
+  }
+
+  start(): void {
+    this.drain().catch((err) => console.error('[jobs] Queue error:', err))
+  }
+
+  private async processQueue(): Promise<void> {
+    let row: JobRow | null
+    while ((row = this.nextQueued())) {
+      await this.run(row)
+    }
+  }
+
+  private nextQueued(): JobRow | null {
+    return this.db.query<JobRow, []>(
+      `SELECT * FROM jobs WHERE status = 'queued' ORDER BY created_at ASC LIMIT 1`
+    ).get()
+  }
+
+  private async run(row: JobRow): Promise<void> {
+    const jobDir = join(this.jobsDir, row.id)
+    const controller = new AbortController()
+    this.runningJobs.set(row.id, controller)
+    this.db.run(`UPDATE jobs SET status = 'running', progress = 0 WHERE id = ?`, [row.id])
+
+    try {
+      const data = new Uint8Array(await readFile(join(jobDir, 'input')))
+      const options = JSON.parse(row.options) as ConversionOptions
+      let lastReported = 0
+
+      const onProgress = stopOnAbort((progress: number) => {
+        // Persist whole-percent steps only to keep writes cheap
+        if (progress - lastReported >= 0.01 || progress === 1) {
+          lastReported = progress
+          this.db.run(`UPDATE jobs SET progress = ? WHERE id = ?`, [progress, row.id])
+        }
+      }, controller.signal)
+
+      const result = await this.runner({ name: row.name, data }, row.file_type, options, onProgress, controller.signal)
+      controller.signal.throwIfAborted()
+
+      await writeFile(join(jobDir, 'result'), new Uint8Array(await result.data!.arrayBuffer()))
+      await rm(join(jobDir, 'input'), { force: true })
+
+      this.finish(row.id, {
+        status: 'complete',
+        error: null,
+        progress: 1,
+        resultName: result.name,
+        resultSize: result.size ?? result.data!.size,
+        pageCount: result.pageCount ?? null,
+      })
+    } catch (err) {
+      if (controller.signal.aborted) {
+        await this.removeFiles(row.id)
+      } else {
+        console.error(`[jobs] Job ${row.id} failed:`, err)
+        await rm(join(jobDir, 'input'), { force: true })
+        this.finish(row.id, {
+          status: 'error',
+          error: err instanceof Error ? err.message : 'Conversion failed',
+        })
+      }
+    } finally {
+      this.runningJobs.delete(row.id)
+    }
+  }
+
+  private finish(
+    id: string,
+    update: {
+      status: JobStatus
+      error: string | null
+      progress?: number
+      resultName?: string
+      resultSize?: number
+      pageCount?: number | null
+    }
+  ): void {
+    this.db.run(
+      `UPDATE jobs SET
+        status = ?,
+        error = ?,
+        progress = COALESCE(?, progress),
+        result_name = ?,
+        result_size = ?,
+        page_count = ?,
+        expires_at = ?
+      WHERE id = ?`,
+      [
+        update.status,
+        update.error,
+        update.progress ?? null,
+        update.resultName ?? null,
+        update.resultSize ?? null,
+        update.pageCount ?? null,
+        Date.now() + JOB_EXPIRATION_MS,
+        id,
+      ]
+    )
+  }
+
+  private async removeFiles(id: string): Promise<void> {
+    await rm(join(this.jobsDir, id), { recursive: true, force: true })
+  }
+}
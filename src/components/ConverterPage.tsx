@@ -13,10 +13,11 @@ import { consumePendingFiles } from '../lib/file-transfer'
 import { useStoredResults, type StoredResult } from '../hooks/useStoredResults'
 import { extractXtcPages } from '../lib/xtc-reader'
 import { normalizeUserErrorMessage } from '../lib/errors'
-import { getDefaultContrast } from '../lib/conversion/defaults'
+import { getDefaultConversionOptions } from '../lib/conversion/defaults'
+import { splitCollectionFile } from '../lib/conversion/collection'
 
 interface ConverterPageProps {
-  fileType: 'cbz' | 'pdf' | 'image' | 'video'
+  fileType: 'cbz' | 'pdf' | 'image' | 'video' | 'text'
   notice?: string
 }
 
@@ -27,6 +28,13 @@ interface FileSelectionState {
 
 const MAX_FALLBACK_PREVIEW_PAGES = 200
 const PROGRESS_UPDATE_INTERVAL_MS = 120
+const READING_DIRECTION_KEY = 'readingDirection'
+
+function loadReadingDirection(): ConversionOptions['readingDirection'] {
+  if (typeof window === 'undefined') return 'auto'
+  const stored = localStorage.getItem(READING_DIRECTION_KEY)
+  return stored === 'ltr' || stored === 'rtl' ? stored : 'auto'
+}
 
 function formatZipTimestamp(date: Date): string {
   const year = date.getFullYear()
@@ -105,8 +113,11 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
         if (fileType === 'video') {
           return /\.(mp4|webm|mkv|avi|mov)$/i.test(name)
         }
-        // Accept both .cbz and .cbr for comic book type
-        return name.endsWith('.cbz') || name.endsWith('.cbr')
+        if (fileType === 'text') {
+          return /\.(txt|md|markdown|epub)$/i.test(name)
+        }
+        // Accept comic archives (.cbz, .cbr, .cb7, .cbt), .epub and ZIP bundles for comic book type
+        return /\.(cbz|cbr|cb7|cbt|epub|zip)$/.test(name)
       })
       if (matchingFiles.length > 0) {
         const message = `${matchingFiles.length} file${matchingFiles.length > 1 ? 's' : ''} received from merge/split`
@@ -129,37 +140,34 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
   }, [fileType])
 
   const [isConverting, setIsConverting] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
   const [progress, setProgress] = useState(0)
   const [progressText, setProgressText] = useState('Processing...')
   const [isDownloadAllLoading, setIsDownloadAllLoading] = useState(false)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [beforePreviewUrl, setBeforePreviewUrl] = useState<string | null>(null)
   const [previewError, setPreviewError] = useState<string | null>(null)
   const [viewerPages, setViewerPages] = useState<string[]>([])
   const progressPreviewRef = useRef<string | null>(null)
+  const progressBeforePreviewRef = useRef<string | null>(null)
   const pendingProgressRef = useRef<number | null>(null)
   const pendingPreviewRef = useRef<string | undefined>(undefined)
+  const pendingBeforePreviewRef = useRef<string | null>(null)
   const progressTimerRef = useRef<number | null>(null)
   const lastProgressFlushRef = useRef(0)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const previewCacheRef = useRef<Map<string, string[]> | null>(null)
   if (previewCacheRef.current === null) {
     previewCacheRef.current = new Map()
   }
-  const [options, setOptions] = useState<ConversionOptions>({
-    device: 'X4',
-    splitMode: (fileType === 'image' || fileType === 'video') ? 'nosplit' : 'overlap',
-    pageOverview: 'none',
-    dithering: fileType === 'pdf' ? 'atkinson' : 'floyd',
-    is2bit: false,
-    contrast: getDefaultContrast(fileType),
-    horizontalMargin: 0,
-    verticalMargin: 0,
-    orientation: (fileType === 'image' || fileType === 'video') ? 'portrait' : 'landscape',
-    coverPortrait: false,
-    landscapeFlipClockwise: false,
-    showProgressPreview: true,
-    imageMode: fileType === 'image' ? 'cover' : 'letterbox',
-    videoFps: 1.0,
-  })
+  const [options, setOptions] = useState<ConversionOptions>(() => ({
+    ...getDefaultConversionOptions(fileType),
+    readingDirection: loadReadingDirection()
+  }))
+
+  useEffect(() => {
+    localStorage.setItem(READING_DIRECTION_KEY, options.readingDirection)
+  }, [options.readingDirection])
 
   const clearProgressTimer = useCallback(() => {
     if (progressTimerRef.current !== null) {
@@ -169,11 +177,24 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
   }, [])
 
   const revokeProgressPreview = useCallback(() => {
-    const previewUrl = progressPreviewRef.current
-    if (previewUrl && previewUrl.startsWith('blob:')) {
-      URL.revokeObjectURL(previewUrl)
+    for (const previewUrl of [progressPreviewRef.current, progressBeforePreviewRef.current]) {
+      if (previewUrl && previewUrl.startsWith('blob:')) {
+        URL.revokeObjectURL(previewUrl)
+      }
     }
     progressPreviewRef.current = null
+    progressBeforePreviewRef.current = null
+  }, [])
+
+  // Previews still waiting for a flush were never shown
+  const discardPendingPreview = useCallback(() => {
+    for (const previewUrl of [pendingPreviewRef.current, pendingBeforePreviewRef.current]) {
+      if (previewUrl && previewUrl.startsWith('blob:')) {
+        URL.revokeObjectURL(previewUrl)
+      }
+    }
+    pendingPreviewRef.current = undefined
+    pendingBeforePreviewRef.current = null
   }, [])
 
   const handleFiles = useCallback((files: File[]) => {
@@ -203,11 +224,15 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
 
     if (pendingPreviewRef.current !== undefined) {
       const nextPreview = pendingPreviewRef.current
+      const nextBeforePreview = pendingBeforePreviewRef.current
       pendingPreviewRef.current = undefined
+      pendingBeforePreviewRef.current = null
 
       revokeProgressPreview()
       progressPreviewRef.current = nextPreview ?? null
+      progressBeforePreviewRef.current = nextBeforePreview
       setPreviewUrl(nextPreview ?? null)
+      setBeforePreviewUrl(nextBeforePreview)
     }
 
     lastProgressFlushRef.current = now
@@ -235,7 +260,11 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
   const handleConvert = useCallback(async () => {
     if (selectedFiles.length === 0) return
 
+    const abortController = new AbortController()
+    const { signal } = abortController
+    abortControllerRef.current = abortController
     setIsConverting(true)
+    setIsCancelling(false)
     await clearSession() // Clear previous session results
     setPreviewError(null)
     setProgress(0)
@@ -244,37 +273,62 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
     clearProgressTimer()
     pendingProgressRef.current = null
     pendingPreviewRef.current = undefined
+    pendingBeforePreviewRef.current = null
     lastProgressFlushRef.current = performance.now()
     setPreviewUrl(null)
+    setBeforePreviewUrl(null)
+
+    // ZIP bundles and dropped folders become one file per volume unless merged
+    let files = selectedFiles
+    if (fileType === 'cbz' && options.collectionMode === 'separate') {
+      files = []
+      for (const file of selectedFiles) {
+        if (signal.aborted) break
+        files.push(...await splitCollectionFile(file).catch(() => [file]))
+      }
+    }
 
-    for (let i = 0; i < selectedFiles.length; i++) {
-      const file = selectedFiles[i]
+    for (let i = 0; i < files.length; i++) {
+      if (signal.aborted) break
+      const file = files[i]
       setProgressText(file.name)
-      setProgress(i / selectedFiles.length)
+      setProgress(i / files.length)
 
       try {
-        // Determine actual file type (cbz vs cbr vs image vs video)
-        let actualFileType: 'cbz' | 'cbr' | 'pdf' | 'image' | 'video' = fileType
-        if (file.name.toLowerCase().endsWith('.cbr')) {
+        // Determine actual file type (cbz vs cbr/cb7/cbt vs epub vs image vs video vs text)
+        let actualFileType: 'cbz' | 'cbr' | 'cb7' | 'cbt' | 'epub' | 'pdf' | 'image' | 'video' | 'text' = fileType
+        if (fileType === 'text') {
+          // EPUBs dropped here are reflowed rather than read as page images
+          actualFileType = 'text'
+        } else if (file.name.toLowerCase().endsWith('.cbr')) {
           actualFileType = 'cbr'
+        } else if (file.name.toLowerCase().endsWith('.cb7')) {
+          actualFileType = 'cb7'
+        } else if (file.name.toLowerCase().endsWith('.cbt')) {
+          actualFileType = 'cbt'
+        } else if (file.name.toLowerCase().endsWith('.epub')) {
+          actualFileType = 'epub'
         } else if (fileType === 'image') {
           actualFileType = 'image'
         } else if (fileType === 'video') {
           actualFileType = 'video'
         }
-        const result = await convertToXtc(file, actualFileType, options, (pageProgress, preview) => {
-          pendingProgressRef.current = (i + pageProgress) / selectedFiles.length
+        const result = await convertToXtc(file, actualFileType, options, (pageProgress, preview, beforePreview) => {
+          pendingProgressRef.current = (i + pageProgress) / files.length
           if (preview) {
             pendingPreviewRef.current = preview
+            pendingBeforePreviewRef.current = beforePreview ?? null
           }
           scheduleProgressUiFlush(pageProgress >= 0.999)
-        })
+        }, signal)
 
         // Store result immediately - progressive display
         await addResult(result)
 
-        recordConversion(fileType === 'image' || fileType === 'video' ? 'cbz' : fileType).catch(() => {})
+        recordConversion(fileType === 'pdf' ? 'pdf' : 'cbz').catch(() => {})
       } catch (err) {
+        // Files finished before the cancel stay in the results
+        if (signal.aborted) break
         console.error(`Error converting ${file.name}:`, err)
         const fallbackExtension = options.is2bit ? '.xtch' : '.xtc'
         // Store error result
@@ -284,17 +338,22 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
         })
       }
 
-      pendingProgressRef.current = (i + 1) / selectedFiles.length
+      pendingProgressRef.current = (i + 1) / files.length
       scheduleProgressUiFlush(true)
     }
 
     clearProgressTimer()
     pendingProgressRef.current = null
-    pendingPreviewRef.current = undefined
-    setProgress(1)
-    setProgressText('Complete')
+    discardPendingPreview()
+    if (!signal.aborted) {
+      setProgress(1)
+    }
+    setProgressText(signal.aborted ? 'Cancelled' : 'Complete')
     revokeProgressPreview()
     setPreviewUrl(null)
+    setBeforePreviewUrl(null)
+    abortControllerRef.current = null
+    setIsCancelling(false)
     setIsConverting(false)
   }, [
     selectedFiles,
@@ -303,10 +362,17 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
     addResult,
     clearSession,
     clearProgressTimer,
+    discardPendingPreview,
     revokeProgressPreview,
     scheduleProgressUiFlush,
   ])
 
+  const handleCancel = useCallback(() => {
+    if (!abortControllerRef.current) return
+    setIsCancelling(true)
+    abortControllerRef.current.abort()
+  }, [])
+
   const handlePreview = useCallback(async (result: StoredResult) => {
     try {
       setPreviewError(null)
@@ -431,6 +497,7 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
 
   useEffect(() => {
     return () => {
+      abortControllerRef.current?.abort()
       clearProgressTimer()
       revokeProgressPreview()
     }
@@ -492,6 +559,9 @@ export function ConverterPage({ fileType, notice }: ConverterPageProps) {
         progress={progress}
         text={progressText}
         previewUrl={previewUrl}
+        beforePreviewUrl={beforePreviewUrl}
+        onCancel={handleCancel}
+        isCancelling={isCancelling}
       />
 
       <Results
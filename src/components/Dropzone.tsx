@@ -1,8 +1,9 @@
 import { useCallback, useRef, useState } from 'react'
+import { readDroppedItems } from '../lib/folder-import'
 
 interface DropzoneProps {
   onFiles: (files: File[]) => void
-  fileType?: 'cbz' | 'pdf' | 'image' | 'video' | 'xtc'
+  fileType?: 'cbz' | 'pdf' | 'image' | 'video' | 'text' | 'xtc'
   multiple?: boolean
 }
 
@@ -16,14 +17,20 @@ export function Dropzone({ onFiles, fileType = 'cbz', multiple = true }: Dropzon
       ? '.jpg,.jpeg,.png,.webp,.bmp,.gif'
       : (fileType === 'video'
         ? '.mp4,.webm,.mkv,.avi,.mov'
-        : (fileType === 'xtc' ? '.xtc,.xtch' : '.cbz,.CBZ,.cbr,.CBR')))
+        : (fileType === 'text'
+          ? '.txt,.md,.markdown,.epub'
+          : (fileType === 'xtc' ? '.xtc,.xtch' : '.cbz,.CBZ,.cbr,.CBR,.cb7,.CB7,.cbt,.CBT,.epub,.EPUB,.zip,.ZIP'))))
   const label = fileType === 'pdf'
     ? 'PDF'
     : (fileType === 'image'
       ? 'Image'
-      : (fileType === 'video' ? 'Video' : (fileType === 'xtc' ? 'XTC/XTCH' : 'CBZ/CBR')))
+      : (fileType === 'video'
+        ? 'Video'
+        : (fileType === 'text' ? 'TXT/MD/EPUB' : (fileType === 'xtc' ? 'XTC/XTCH' : 'CBZ/CBR/CB7/CBT/EPUB'))))
+
+  const acceptsFolders = fileType === 'cbz'
 
-  const filterFiles = useCallback((files: FileList) => {
+  const filterFiles = useCallback((files: FileList | File[]) => {
     if (fileType === 'pdf') {
       return Array.from(files).filter(f =>
         f.name.toLowerCase().endsWith('.pdf')
@@ -39,16 +46,20 @@ export function Dropzone({ onFiles, fileType = 'cbz', multiple = true }: Dropzon
         /\.(mp4|webm|mkv|avi|mov)$/i.test(f.name)
       )
     }
+    if (fileType === 'text') {
+      return Array.from(files).filter(f =>
+        /\.(txt|md|markdown|epub)$/i.test(f.name)
+      )
+    }
     if (fileType === 'xtc') {
       return Array.from(files).filter(f =>
         /\.(xtc|xtch)$/i.test(f.name)
       )
     }
-    // Accept both .cbz and .cbr for comic book type
-    return Array.from(files).filter(f => {
-      const name = f.name.toLowerCase()
-      return name.endsWith('.cbz') || name.endsWith('.cbr')
-    })
+    // Accept comic archives (.cbz, .cbr, .cb7, .cbt), .epub and ZIP bundles for comic book type
+    return Array.from(files).filter(f =>
+      /\.(cbz|cbr|cb7|cbt|epub|zip)$/i.test(f.name)
+    )
   }, [fileType])
 
   const handleClick = useCallback(() => {
@@ -71,16 +82,25 @@ export function Dropzone({ onFiles, fileType = 'cbz', multiple = true }: Dropzon
     setIsDragover(false)
   }, [])
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragover(false)
-    if (e.dataTransfer?.files) {
-      const filtered = filterFiles(e.dataTransfer.files)
-      if (filtered.length > 0) {
-        onFiles(filtered)
-      }
+    if (!e.dataTransfer?.files) return
+
+    // The drop data is only readable during the event, so take the file list first
+    const droppedFiles = Array.from(e.dataTransfer.files)
+    let files: File[] | null = null
+    try {
+      files = await readDroppedItems(e.dataTransfer.items, acceptsFolders)
+    } catch (err) {
+      console.error('Failed to read dropped folder:', err)
     }
-  }, [onFiles, filterFiles])
+
+    const filtered = filterFiles(files ?? droppedFiles)
+    if (filtered.length > 0) {
+      onFiles(filtered)
+    }
+  }, [onFiles, filterFiles, acceptsFolders])
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -112,7 +132,7 @@ export function Dropzone({ onFiles, fileType = 'cbz', multiple = true }: Dropzon
             </svg>
           </div>
           <div className="dropzone-text">
-            <span className="dropzone-primary">Drop {label} files</span>
+            <span className="dropzone-primary">Drop {label} files{acceptsFolders ? ' or folders' : ''}</span>
             <span className="dropzone-secondary">or click to browse</span>
           </div>
         </div>
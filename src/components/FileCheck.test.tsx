@@ -0,0 +1,29 @@
+import { expect, test } from 'bun:test'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { imageDataToXtg } from '../lib/processing/xtg'
+import { buildXtcFromBuffers } from '../lib/xtc-format'
+import { openXtcFile } from '../lib/xtc-validate'
+import { FileCheck } from './FileCheck'
+
+test('a truncated file opens with its check results instead of failing', async () => {
+  const page = imageDataToXtg({ data: new Uint8ClampedArray(8 * 8 * 4).fill(255), width: 8, height: 8 })
+  const xtc = await buildXtcFromBuffers([page, page], {
+    metadata: { title: 'Book', toc: [{ title: 'One', startPage: 1, endPage: 2 }] }
+  })
+
+  const opened = await openXtcFile(xtc.slice(0, 100))
+  expect(opened.parsed).toBeNull()
+  expect(opened.validation?.valid).toBe(false)
+
+  const html = renderToStaticMarkup(<FileCheck validation={opened.validation!} />)
+  expect(html).toContain('metadata-issue error')
+  expect(html).toContain(opened.validation!.issues[0].message)
+})
+
+test('a readable file opens without a check', async () => {
+  const page = imageDataToXtg({ data: new Uint8ClampedArray(8 * 8 * 4).fill(255), width: 8, height: 8 })
+  const opened = await openXtcFile(await buildXtcFromBuffers([page]))
+
+  expect(opened.validation).toBeNull()
+  expect(opened.parsed?.header.pageCount).toBe(1)
+})
@@ -0,0 +1,26 @@
+import type { XtcValidationResult } from '../lib/xtc-validate'
+
+interface FileCheckProps {
+  validation: XtcValidationResult
+}
+
+export function FileCheck({ validation }: FileCheckProps) {
+  return (
+    <section className="metadata-card">
+      <h3>File Check</h3>
+      {validation.issues.length === 0 ? (
+        <p className="metadata-check-ok">No problems found.</p>
+      ) : (
+        <ul className="metadata-issues">
+          {validation.issues.map((issue, idx) => (
+            <li key={idx} className={`metadata-issue ${issue.severity}`}>
+              <span className="metadata-issue-severity">{issue.severity === 'error' ? 'Error' : 'Warning'}</span>
+              {issue.page !== undefined && <span className="metadata-issue-page">Page {issue.page}</span>}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  )
+}
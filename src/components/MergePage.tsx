@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { useNavigate } from '@tanstack/react-router'
 import { Viewer } from './Viewer'
 import { LinkedText } from './LinkedText'
@@ -21,8 +21,9 @@ import {
   type SplitProgress,
   type PageRange,
 } from '../lib/split'
+import { convertXtcBitDepth, readXtcBitDepth } from '../lib/bit-depth'
 
-type Mode = 'merge' | 'split'
+type Mode = 'merge' | 'split' | 'depth'
 type SplitMethod = 'ranges' | 'parts'
 
 interface MergePageResult {
@@ -41,10 +42,14 @@ export function MergePage() {
   const [files, setFiles] = useState<File[]>([])
   const [detectedType, setDetectedType] = useState<FileType | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const abortControllerRef = useRef<AbortController | null>(null)
   const [progress, setProgress] = useState(0)
   const [progressText, setProgressText] = useState('')
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
   const [results, setResults] = useState<MergePageResult[]>([])
+  // Results of a split cancelled part-way, holding only the parts it finished
+  const [isPartial, setIsPartial] = useState(false)
   const [viewerPages, setViewerPages] = useState<string[]>([])
   const [typeError, setTypeError] = useState<string | null>(null)
 
@@ -54,7 +59,11 @@ export function MergePage() {
   const [partsCount, setPartsCount] = useState(2)
   const [totalPages, setTotalPages] = useState<number | null>(null)
 
-  // Output format: keep same type for CBZ/PDF, allow choice for XTC
+  // Bit depth options: the target is always the other depth
+  const [sourceIs2bit, setSourceIs2bit] = useState<boolean | null>(null)
+  const [depthDithering, setDepthDithering] = useState('floyd')
+
+  // Output format: CBZ for archives, PDF stays PDF, allow choice for XTC
   const [xtcOutputFormat, setXtcOutputFormat] = useState<OutputFormat>('xtc')
   
   // Determine actual output format based on input type
@@ -62,7 +71,7 @@ export function MergePage() {
     if (!detectedType) return 'cbz'
     if (detectedType === 'xtc') return xtcOutputFormat
     if (detectedType === 'pdf') return 'pdf'
-    return 'cbz' // CBZ input stays as CBZ
+    return 'cbz' // CBZ, CB7 and CBT input becomes CBZ
   }, [detectedType, xtcOutputFormat])
 
   // Calculate expected output count for split
@@ -82,14 +91,35 @@ export function MergePage() {
   }, [mode, splitMethod, partsCount, rangesInput, totalPages])
 
   const handleFiles = useCallback(async (newFiles: File[]) => {
-    if (mode === 'split') {
+    if (mode === 'depth') {
+      const file = newFiles[0]
+      if (!file) return
+
+      if (!/\.xtch?$/i.test(file.name)) {
+        setTypeError('Unsupported file type. Use XTC or XTCH files.')
+        return
+      }
+
+      setFiles([file])
+      setDetectedType('xtc')
+      setTypeError(null)
+      setResults([])
+
+      try {
+        const info = await readXtcBitDepth(file)
+        setTotalPages(info.pageCount)
+        setSourceIs2bit(info.is2bit)
+      } catch (err) {
+        setTypeError(err instanceof Error ? err.message : 'Failed to read file')
+      }
+    } else if (mode === 'split') {
       // Split mode: only accept one file
       const file = newFiles[0]
       if (!file) return
 
       const type = detectFileType(file)
       if (type === 'unknown') {
-        setTypeError('Unsupported file type. Use CBZ, PDF, or XTC files.')
+        setTypeError('Unsupported file type. Use CBZ, CB7, CBT, PDF, or XTC files.')
         return
       }
 
@@ -126,12 +156,12 @@ export function MergePage() {
     e.preventDefault()
     const droppedFiles = Array.from(e.dataTransfer.files).filter(f => {
       const ext = f.name.toLowerCase().split('.').pop()
-      return ['cbz', 'pdf', 'xtc'].includes(ext || '')
+      return (mode === 'depth' ? ['xtc', 'xtch'] : ['cbz', 'cb7', 'cbt', 'pdf', 'xtc']).includes(ext || '')
     })
     if (droppedFiles.length > 0) {
       handleFiles(droppedFiles)
     }
-  }, [handleFiles])
+  }, [mode, handleFiles])
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
@@ -146,6 +176,7 @@ export function MergePage() {
       if (newFiles.length === 0) {
         setDetectedType(null)
         setTotalPages(null)
+        setSourceIs2bit(null)
       }
       return newFiles
     })
@@ -159,14 +190,20 @@ export function MergePage() {
     setResults([])
     setTypeError(null)
     setTotalPages(null)
+    setSourceIs2bit(null)
     setRangesInput('')
   }, [])
 
   const handleProcess = useCallback(async () => {
     if (files.length === 0) return
 
+    const abortController = new AbortController()
+    const { signal } = abortController
+    abortControllerRef.current = abortController
     setIsProcessing(true)
+    setIsCancelling(false)
     setResults([])
+    setIsPartial(false)
     setProgress(0)
     setProgressText('Processing...')
     setPreviewUrl(null)
@@ -177,7 +214,13 @@ export function MergePage() {
           setProgressText(p.file)
           setProgress((p.fileIndex + p.pageProgress) / p.totalFiles)
           if (p.previewUrl) setPreviewUrl(p.previewUrl)
-        })
+        }, signal)
+
+        setResults([{ ...result, selected: true }])
+      } else if (mode === 'depth') {
+        const file = files[0]
+        setProgressText(sourceIs2bit ? 'Dithering pages to 1-bit...' : 'Re-encoding pages as 2-bit...')
+        const result = await convertXtcBitDepth(file, !sourceIs2bit, depthDithering, setProgress, signal)
 
         setResults([{ ...result, selected: true }])
       } else {
@@ -203,14 +246,21 @@ export function MergePage() {
             setProgress(0.5 + (p.rangeIndex + p.pageProgress) / p.totalRanges * 0.5)
           }
           if (p.previewUrl) setPreviewUrl(p.previewUrl)
-        })
+        }, signal)
 
+        // A cancelled split still returns the parts it finished
         setResults(splitResults.map(r => ({ ...r, selected: true })))
+        if (signal.aborted) {
+          setIsPartial(true)
+          setProgressText('Cancelled')
+          return
+        }
       }
 
       setProgress(1)
       setProgressText('Complete')
     } catch (err) {
+      if (signal.aborted) return
       console.error('Processing error:', err)
       setResults([{
         name: 'error',
@@ -220,10 +270,22 @@ export function MergePage() {
         error: normalizeUserErrorMessage(err instanceof Error ? err.message : 'Unknown error'),
       }])
     } finally {
+      abortControllerRef.current = null
+      setIsCancelling(false)
       setIsProcessing(false)
       setPreviewUrl(null)
     }
-  }, [files, mode, actualOutputFormat, splitMethod, rangesInput, partsCount, totalPages])
+  }, [files, mode, actualOutputFormat, splitMethod, rangesInput, partsCount, totalPages, sourceIs2bit, depthDithering])
+
+  const handleCancel = useCallback(() => {
+    if (!abortControllerRef.current) return
+    setIsCancelling(true)
+    abortControllerRef.current.abort()
+  }, [])
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
 
   const handleDownload = useCallback((result: MergePageResult) => {
     if (!result.data) return
@@ -256,7 +318,8 @@ export function MergePage() {
   }, [results])
 
   const selectedResults = results.filter(r => r.selected && !r.error)
-  const canMoveToConverter = selectedResults.length > 0 && (actualOutputFormat === 'cbz' || actualOutputFormat === 'pdf')
+  const canMoveToConverter = mode !== 'depth' && selectedResults.length > 0 &&
+    (actualOutputFormat === 'cbz' || actualOutputFormat === 'pdf')
 
   const handleMoveToConverter = useCallback(() => {
     const filesToTransfer = selectedResults.map(r =>
@@ -268,6 +331,8 @@ export function MergePage() {
 
   const canProcess = mode === 'merge'
     ? files.length >= 2
+    : mode === 'depth'
+    ? files.length === 1 && sourceIs2bit !== null
     : files.length === 1 && totalPages !== null && (
         splitMethod === 'parts' || rangesInput.trim().length > 0
       )
@@ -290,6 +355,13 @@ export function MergePage() {
         >
           Split
         </button>
+        <button
+          type="button"
+          className={mode === 'depth' ? 'active' : ''}
+          onClick={() => handleModeChange('depth')}
+        >
+          Bit Depth
+        </button>
       </section>
 
       {/* Dropzone */}
@@ -317,10 +389,10 @@ export function MergePage() {
             </div>
             <div className="dropzone-text">
               <span className="dropzone-primary">
-                {mode === 'merge' ? 'Drop files to merge' : 'Drop a file to split'}
+                {mode === 'merge' ? 'Drop files to merge' : mode === 'depth' ? 'Drop a file to convert' : 'Drop a file to split'}
               </span>
               <span className="dropzone-secondary">
-                CBZ, PDF, or XTC {mode === 'merge' ? '(same type only)' : ''}
+                {mode === 'depth' ? 'XTC or XTCH' : `CBZ, CB7, CBT, PDF, or XTC ${mode === 'merge' ? '(same type only)' : ''}`}
               </span>
             </div>
           </div>
@@ -328,9 +400,9 @@ export function MergePage() {
         <input
           id="merge-file-input"
           type="file"
-          accept=".cbz,.CBZ,.pdf,.PDF,.xtc,.XTC"
+          accept={mode === 'depth' ? '.xtc,.XTC,.xtch,.XTCH' : '.cbz,.CBZ,.cb7,.CB7,.cbt,.CBT,.pdf,.PDF,.xtc,.XTC'}
           multiple={mode === 'merge'}
-          aria-label={mode === 'merge' ? 'Choose files to merge' : 'Choose a file to split'}
+          aria-label={mode === 'merge' ? 'Choose files to merge' : mode === 'depth' ? 'Choose a file to convert' : 'Choose a file to split'}
           hidden
           onChange={handleFileInput}
         />
@@ -370,8 +442,8 @@ export function MergePage() {
             ))}
           </div>
 
-          {/* Page info for split mode */}
-          {mode === 'split' && totalPages !== null && (
+          {/* Page info for split and bit depth modes */}
+          {mode !== 'merge' && totalPages !== null && (
             <div className="page-info">
               Total pages: <strong>{totalPages}</strong>
             </div>
@@ -387,7 +459,7 @@ export function MergePage() {
           </div>
 
           {/* Output format - only for XTC input */}
-          {detectedType === 'xtc' && (
+          {detectedType === 'xtc' && mode !== 'depth' && (
             <div className="option">
               <label htmlFor="outputFormat">Output Format</label>
               <select
@@ -401,8 +473,8 @@ export function MergePage() {
             </div>
           )}
 
-          {/* Show output info for CBZ */}
-          {detectedType === 'cbz' && (
+          {/* Show output info for CBZ, CB7 and CBT */}
+          {(detectedType === 'cbz' || detectedType === 'cb7' || detectedType === 'cbt') && (
             <div className="option">
               <span className="option-label">Output Format</span>
               <div className="output-info">
@@ -478,6 +550,42 @@ export function MergePage() {
             </>
           )}
 
+          {mode === 'depth' && sourceIs2bit !== null && (
+            <>
+              <div className="option">
+                <span className="option-label">Output Format</span>
+                <div className="output-info">
+                  <span className="output-format-badge">{sourceIs2bit ? 'XTC' : 'XTCH'}</span>
+                  <span className="output-hint">
+                    {sourceIs2bit ? '1-bit, for older firmware' : '2-bit grayscale, pixels unchanged'}
+                  </span>
+                </div>
+              </div>
+
+              {sourceIs2bit && (
+                <div className="option">
+                  <label htmlFor="depthDithering">Dithering</label>
+                  <select
+                    id="depthDithering"
+                    value={depthDithering}
+                    onChange={(e) => setDepthDithering(e.target.value)}
+                  >
+                    <option value="floyd">Floyd-Steinberg</option>
+                    <option value="atkinson">Atkinson</option>
+                    <option value="sierra-lite">Sierra Lite</option>
+                    <option value="sierra">Sierra</option>
+                    <option value="burkes">Burkes</option>
+                    <option value="jarvis">Jarvis-Judice-Ninke</option>
+                    <option value="stucki">Stucki</option>
+                    <option value="ordered">Ordered</option>
+                    <option value="blue-noise">Blue Noise</option>
+                    <option value="none">None</option>
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+
           {/* Merge output preview */}
           {mode === 'merge' && files.length >= 2 && (
             <div className="output-preview">
@@ -496,7 +604,7 @@ export function MergePage() {
             onClick={handleProcess}
             disabled={isProcessing || !canProcess}
           >
-            <span>{mode === 'merge' ? 'Merge' : 'Split'}</span>
+            <span>{mode === 'merge' ? 'Merge' : mode === 'depth' ? 'Convert' : 'Split'}</span>
             <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M5 12h14M12 5l7 7-7 7"/>
             </svg>
@@ -512,7 +620,12 @@ export function MergePage() {
         <section className="progress-section">
           <div className="progress-header">
             <span className="progress-text">{progressText}</span>
-            <span className="progress-percent">{Math.round(progress * 100)}%</span>
+            <span className="progress-actions">
+              <span className="progress-percent">{Math.round(progress * 100)}%</span>
+              <button type="button" className="btn-cancel" onClick={handleCancel} disabled={isCancelling}>
+                {isCancelling ? 'Cancelling...' : 'Cancel'}
+              </button>
+            </span>
           </div>
           <div className="progress-track">
             <div
@@ -532,7 +645,7 @@ export function MergePage() {
       {results.length > 0 && !results.every(r => r.error) && (
         <section className="results-section">
           <div className="section-header">
-            <h2>Complete</h2>
+            <h2>{isPartial ? 'Cancelled' : 'Complete'}</h2>
             <span className="badge">{results.filter(r => !r.error).length}</span>
             {results.length > 1 && (
               <button type="button" className="btn-select-all" onClick={handleSelectAll}>
@@ -540,6 +653,9 @@ export function MergePage() {
               </button>
             )}
           </div>
+          {isPartial && (
+            <p className="help-text">Partial parts: only the parts finished before cancelling are listed.</p>
+          )}
           <div className="results-grid">
             {results.map((result, idx) => (
               <div
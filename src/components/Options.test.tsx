@@ -6,19 +6,41 @@ import { normalizeSplitModeForOrientation, Options } from './Options'
 function renderPdfOptions(orientation: ConversionOptions['orientation']) {
   const options: ConversionOptions = {
     device: 'X4',
+    customWidth: 480,
+    customHeight: 800,
     splitMode: 'nosplit',
     pageOverview: 'none',
+    readingDirection: 'ltr',
+    spreadPolicy: 'auto',
     dithering: 'atkinson',
     is2bit: false,
     contrast: 0,
+    brightness: 0,
+    gamma: 1,
+    sharpenAmount: 100,
+    sharpenRadius: 1,
+    shadowLift: 100,
     horizontalMargin: 0,
     verticalMargin: 0,
+    autoCrop: 'off',
+    descreen: false,
+    deskew: false,
+    despeckle: false,
     orientation,
     coverPortrait: false,
     landscapeFlipClockwise: false,
     showProgressPreview: false,
     imageMode: 'letterbox',
+    stripOverlap: 0,
+    collectionMode: 'separate',
+    useComicInfo: true,
+    tocNesting: 'indent',
+    tocDepth: 8,
     videoFps: 1,
+    textFont: 'liberation-sans',
+    textFontSize: 20,
+    textMargin: 24,
+    textLineSpacing: 1.4,
   }
 
   return renderToStaticMarkup(<Options options={options} onChange={() => {}} fileType="pdf" />)
@@ -32,3 +54,13 @@ test('offers two-column paper splitting only in portrait PDF mode', () => {
 test('clears portrait paper splitting when returning to landscape', () => {
   expect(normalizeSplitModeForOrientation('landscape', 'fourway')).toBe('overlap')
 })
+
+test('keeps webtoon strip mode in either orientation', () => {
+  expect(normalizeSplitModeForOrientation('portrait', 'strip')).toBe('strip')
+  expect(normalizeSplitModeForOrientation('landscape', 'strip')).toBe('strip')
+})
+
+test('keeps panel mode in either orientation', () => {
+  expect(normalizeSplitModeForOrientation('portrait', 'panels')).toBe('panels')
+  expect(normalizeSplitModeForOrientation('landscape', 'panels')).toBe('panels')
+})
@@ -1,16 +1,33 @@
 import { useState } from 'react'
 import type { ConversionOptions } from '../lib/converter'
+import {
+  CUSTOM_DIMENSION_RANGE,
+  DEVICE_PROFILES,
+  applyDeviceProfile,
+  getDeviceProfile,
+  supportsBitDepth
+} from '../lib/conversion/devices'
+import type { DeviceId } from '../lib/conversion/types'
+import { TEXT_FONTS } from '../lib/text/fonts'
+import { MAX_TOC_DEPTH } from '../lib/metadata/toc'
+import { TonePreview } from './TonePreview'
 
 interface OptionsProps {
   options: ConversionOptions
   onChange: (options: ConversionOptions) => void
-  fileType?: 'cbz' | 'pdf' | 'image' | 'video'
+  fileType?: 'cbz' | 'pdf' | 'image' | 'video' | 'text'
+}
+
+const DEVICE_LABELS: Partial<Record<DeviceId, string>> = {
+  X4: 'X4 / Pro',
+  custom: 'Custom'
 }
 
 export function normalizeSplitModeForOrientation(
   orientation: ConversionOptions['orientation'],
   splitMode: ConversionOptions['splitMode']
 ): ConversionOptions['splitMode'] {
+  if (splitMode === 'strip' || splitMode === 'panels') return splitMode
   return orientation === 'portrait' ? 'nosplit' : splitMode === 'fourway' ? 'overlap' : splitMode
 }
 
@@ -18,12 +35,22 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
   const [showAdvanced, setShowAdvanced] = useState(false)
   const isImageMode = fileType === 'image'
   const isVideoMode = fileType === 'video'
-  const supportsSplit = !isImageMode && !isVideoMode &&
-    (options.orientation === 'landscape' || fileType === 'pdf')
-  const supportsCoverPortrait = !isImageMode && !isVideoMode && options.orientation === 'landscape'
-  const showPageOverview = options.orientation === 'landscape' && supportsSplit &&
-    options.splitMode !== 'nosplit' &&
+  const isTextMode = fileType === 'text'
+  const isPageImageMode = !isImageMode && !isVideoMode && !isTextMode
+  const supportsSplit = isPageImageMode &&
+    (options.orientation === 'landscape' || fileType === 'pdf' || fileType === 'cbz')
+  const supportsCoverPortrait = isPageImageMode && options.orientation === 'landscape'
+  const showPageOverview = supportsSplit &&
+    (options.orientation === 'landscape' || options.splitMode === 'panels') &&
+    options.splitMode !== 'nosplit' && options.splitMode !== 'strip' &&
     (fileType === 'cbz' || fileType === 'pdf')
+  const deviceProfile = getDeviceProfile(options)
+
+  const applyDevice = (device: DeviceId): ConversionOptions => {
+    const next = applyDeviceProfile(options, device)
+    if (next.orientation === options.orientation) return next
+    return { ...next, splitMode: normalizeSplitModeForOrientation(next.orientation, next.splitMode) }
+  }
 
   return (
     <div className="options-stack">
@@ -34,25 +61,43 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
 
         <div className="device-control">
           <fieldset className="device-toggle" aria-label="Target device">
-            <button
-              type="button"
-              className={options.device === 'X4' ? 'active' : ''}
-              aria-pressed={options.device === 'X4'}
-              onClick={() => onChange({ ...options, device: 'X4' })}
-              title="XTEink X4 / X4 Pro (480 x 800)"
-            >
-              [X4 / Pro]
-            </button>
-            <button
-              type="button"
-              className={options.device === 'X3' ? 'active' : ''}
-              aria-pressed={options.device === 'X3'}
-              onClick={() => onChange({ ...options, device: 'X3' })}
-              title="XTEink X3 (528 x 792)"
-            >
-              [X3]
-            </button>
+            {DEVICE_PROFILES.map((profile) => (
+              <button
+                key={profile.id}
+                type="button"
+                className={options.device === profile.id ? 'active' : ''}
+                aria-pressed={options.device === profile.id}
+                onClick={() => onChange(applyDevice(profile.id))}
+                title={profile.id === 'custom' ? 'Custom screen size' : `${profile.name} (${profile.width} x ${profile.height})`}
+              >
+                [{DEVICE_LABELS[profile.id] ?? profile.id}]
+              </button>
+            ))}
           </fieldset>
+          {options.device === 'custom' && (
+            <div className="device-size">
+              <input
+                type="number"
+                aria-label="Screen width"
+                min={CUSTOM_DIMENSION_RANGE[0]}
+                max={CUSTOM_DIMENSION_RANGE[1]}
+                step="1"
+                value={options.customWidth}
+                onChange={(e) => onChange({ ...options, customWidth: parseInt(e.target.value, 10) || deviceProfile.width })}
+              />
+              <span className="unit">x</span>
+              <input
+                type="number"
+                aria-label="Screen height"
+                min={CUSTOM_DIMENSION_RANGE[0]}
+                max={CUSTOM_DIMENSION_RANGE[1]}
+                step="1"
+                value={options.customHeight}
+                onChange={(e) => onChange({ ...options, customHeight: parseInt(e.target.value, 10) || deviceProfile.height })}
+              />
+              <span className="unit">px</span>
+            </div>
+          )}
         </div>
       </aside>
 
@@ -61,26 +106,91 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
           <h2>Basic Settings</h2>
         </div>
 
-        <div className="option">
-          <label htmlFor="orientation">Orientation</label>
-          <select
-            id="orientation"
-            value={options.orientation}
-            onChange={(e) => {
-              const orientation = e.target.value as 'landscape' | 'portrait'
-              onChange({
-                ...options,
-                orientation,
-                splitMode: normalizeSplitModeForOrientation(orientation, options.splitMode)
-              })
-            }}
-          >
-            <option value="landscape">Landscape</option>
-            <option value="portrait">Portrait</option>
-          </select>
-        </div>
+        {isTextMode && (
+          <>
+            <div className="option">
+              <label htmlFor="textFont">Font</label>
+              <select
+                id="textFont"
+                value={options.textFont}
+                onChange={(e) => onChange({ ...options, textFont: e.target.value })}
+              >
+                {TEXT_FONTS.map((font) => (
+                  <option key={font.id} value={font.id}>{font.label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="option">
+              <label htmlFor="textFontSize">Font size</label>
+              <div className="input-with-unit">
+                <input
+                  type="number"
+                  id="textFontSize"
+                  min="10"
+                  max="60"
+                  step="1"
+                  value={options.textFontSize}
+                  onChange={(e) => onChange({ ...options, textFontSize: parseInt(e.target.value, 10) || 20 })}
+                />
+                <span className="unit">px</span>
+              </div>
+            </div>
+
+            <div className="option">
+              <label htmlFor="textMargin">Margins</label>
+              <div className="input-with-unit">
+                <input
+                  type="number"
+                  id="textMargin"
+                  min="0"
+                  max="120"
+                  step="2"
+                  value={options.textMargin}
+                  onChange={(e) => onChange({ ...options, textMargin: parseInt(e.target.value, 10) || 0 })}
+                />
+                <span className="unit">px</span>
+              </div>
+            </div>
+
+            <div className="option">
+              <label htmlFor="textLineSpacing">Line spacing</label>
+              <select
+                id="textLineSpacing"
+                value={options.textLineSpacing}
+                onChange={(e) => onChange({ ...options, textLineSpacing: parseFloat(e.target.value) })}
+              >
+                <option value="1.2">Tight</option>
+                <option value="1.4">Normal</option>
+                <option value="1.6">Relaxed</option>
+                <option value="1.8">Loose</option>
+              </select>
+            </div>
+          </>
+        )}
+
+        {!isTextMode && (
+          <div className="option">
+            <label htmlFor="orientation">Orientation</label>
+            <select
+              id="orientation"
+              value={options.orientation}
+              onChange={(e) => {
+                const orientation = e.target.value as 'landscape' | 'portrait'
+                onChange({
+                  ...options,
+                  orientation,
+                  splitMode: normalizeSplitModeForOrientation(orientation, options.splitMode)
+                })
+              }}
+            >
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+            </select>
+          </div>
+        )}
 
-        {options.orientation === 'landscape' && (
+        {!isTextMode && options.orientation === 'landscape' && (
           <div className="option option-checkbox">
             <label htmlFor="landscapeFlipClockwise" className="checkbox-label">
               <input
@@ -108,6 +218,34 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
           </div>
         )}
 
+        {fileType === 'cbz' && (
+          <div className="option">
+            <label htmlFor="collectionMode">Folders &amp; ZIP bundles</label>
+            <select
+              id="collectionMode"
+              value={options.collectionMode}
+              onChange={(e) => onChange({ ...options, collectionMode: e.target.value as ConversionOptions['collectionMode'] })}
+            >
+              <option value="separate">One XTC per volume</option>
+              <option value="merged">Single merged XTC</option>
+            </select>
+          </div>
+        )}
+
+        {fileType === 'cbz' && (
+          <div className="option option-checkbox">
+            <label htmlFor="useComicInfo" className="checkbox-label">
+              <input
+                type="checkbox"
+                id="useComicInfo"
+                checked={options.useComicInfo}
+                onChange={(e) => onChange({ ...options, useComicInfo: e.target.checked })}
+              />
+              <span>Use ComicInfo reading direction &amp; title</span>
+            </label>
+          </div>
+        )}
+
         {(isImageMode || isVideoMode) && (
           <div className="option">
             <label htmlFor="imageMode">Image Scaling</label>
@@ -124,17 +262,19 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
           </div>
         )}
 
-        <div className="option option-checkbox">
-          <label htmlFor="is2bit" className="checkbox-label">
-            <input
-              type="checkbox"
-              id="is2bit"
-              checked={options.is2bit}
-              onChange={(e) => onChange({ ...options, is2bit: e.target.checked })}
-            />
-            <span>2-bit grayscale (XTCH, experimental)</span>
-          </label>
-        </div>
+        {supportsBitDepth(deviceProfile, true) && (
+          <div className="option option-checkbox">
+            <label htmlFor="is2bit" className="checkbox-label">
+              <input
+                type="checkbox"
+                id="is2bit"
+                checked={options.is2bit}
+                onChange={(e) => onChange({ ...options, is2bit: e.target.checked })}
+              />
+              <span>2-bit grayscale (XTCH, experimental)</span>
+            </label>
+          </div>
+        )}
 
         {isVideoMode && (
           <div className="option">
@@ -167,11 +307,61 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
               {fileType === 'pdf' && options.orientation === 'portrait' && (
                 <option value="fourway">Two-column paper (4 pages)</option>
               )}
+              {fileType === 'cbz' && <option value="strip">Webtoon strip</option>}
+              <option value="panels">Panel by panel</option>
               <option value="nosplit">No split</option>
             </select>
           </div>
         )}
 
+        {supportsSplit && options.splitMode === 'strip' && (
+          <div className="option">
+            <label htmlFor="stripOverlap">Strip Overlap</label>
+            <select
+              id="stripOverlap"
+              value={options.stripOverlap}
+              onChange={(e) => onChange({ ...options, stripOverlap: parseInt(e.target.value, 10) })}
+            >
+              <option value="0">None</option>
+              <option value="5">5%</option>
+              <option value="10">10%</option>
+              <option value="15">15%</option>
+            </select>
+          </div>
+        )}
+
+        {isPageImageMode && options.splitMode !== 'strip' && options.splitMode !== 'panels' &&
+          options.splitMode !== 'fourway' && (
+          <div className="option">
+            <label htmlFor="spreadPolicy">Two-page Spreads</label>
+            <select
+              id="spreadPolicy"
+              value={options.spreadPolicy}
+              onChange={(e) => onChange({ ...options, spreadPolicy: e.target.value as ConversionOptions['spreadPolicy'] })}
+            >
+              <option value="auto">Same as other pages</option>
+              <option value="rotate">Keep whole, turned sideways</option>
+              <option value="split">Split into two pages</option>
+              <option value="both">Whole spread, then both pages</option>
+            </select>
+          </div>
+        )}
+
+        {supportsSplit && options.splitMode !== 'strip' && (
+          <div className="option">
+            <label htmlFor="readingDirection">Reading Direction</label>
+            <select
+              id="readingDirection"
+              value={options.readingDirection}
+              onChange={(e) => onChange({ ...options, readingDirection: e.target.value as ConversionOptions['readingDirection'] })}
+            >
+              <option value="auto">Auto (ComicInfo, else left to right)</option>
+              <option value="ltr">Left to right</option>
+              <option value="rtl">Right to left (manga)</option>
+            </select>
+          </div>
+        )}
+
         {showPageOverview && (
           <div className="option">
             <label htmlFor="pageOverview">Page Overview</label>
@@ -197,7 +387,12 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
             <option value="floyd">Floyd-Steinberg</option>
             <option value="atkinson">Atkinson</option>
             <option value="sierra-lite">Sierra Lite</option>
+            <option value="sierra">Sierra</option>
+            <option value="burkes">Burkes</option>
+            <option value="jarvis">Jarvis-Judice-Ninke</option>
+            <option value="stucki">Stucki</option>
             <option value="ordered">Ordered</option>
+            <option value="blue-noise">Blue Noise</option>
             <option value="none">None</option>
           </select>
         </div>
@@ -219,22 +414,165 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
               <h2>Advanced</h2>
             </div>
 
-            <div className="option">
-              <label htmlFor="contrast">Contrast</label>
-              <select
-                id="contrast"
-                value={options.contrast}
-                onChange={(e) => onChange({ ...options, contrast: parseInt(e.target.value, 10) })}
-              >
-                <option value="0">None</option>
-                <option value="2">Light</option>
-                <option value="4">Medium</option>
-                <option value="6">Strong</option>
-                <option value="8">Maximum</option>
-              </select>
-            </div>
+            {!isTextMode && (
+              <div className="option">
+                <label htmlFor="contrast">Contrast</label>
+                <select
+                  id="contrast"
+                  value={options.contrast}
+                  onChange={(e) => onChange({ ...options, contrast: parseInt(e.target.value, 10) })}
+                >
+                  <option value="0">None</option>
+                  <option value="2">Light</option>
+                  <option value="4">Medium</option>
+                  <option value="6">Strong</option>
+                  <option value="8">Maximum</option>
+                </select>
+              </div>
+            )}
+
+            {!isTextMode && (
+              <div className="option">
+                <label htmlFor="brightness">Brightness</label>
+                <div className="input-with-unit">
+                  <input
+                    type="number"
+                    id="brightness"
+                    min="-50"
+                    max="50"
+                    step="5"
+                    value={options.brightness}
+                    onChange={(e) => onChange({ ...options, brightness: parseFloat(e.target.value) || 0 })}
+                  />
+                  <span className="unit">%</span>
+                </div>
+              </div>
+            )}
+
+            {!isTextMode && (
+              <div className="option">
+                <label htmlFor="gamma">Gamma</label>
+                <input
+                  type="number"
+                  id="gamma"
+                  min="0.5"
+                  max="2.5"
+                  step="0.1"
+                  value={options.gamma}
+                  onChange={(e) => onChange({ ...options, gamma: parseFloat(e.target.value) || 1 })}
+                />
+              </div>
+            )}
 
-            {!isImageMode && !isVideoMode && (
+            {!isTextMode && (
+              <div className="option">
+                <label htmlFor="sharpenAmount">Sharpening</label>
+                <select
+                  id="sharpenAmount"
+                  value={options.sharpenAmount}
+                  onChange={(e) => onChange({ ...options, sharpenAmount: parseInt(e.target.value, 10) })}
+                >
+                  <option value="0">Off</option>
+                  <option value="50">Light</option>
+                  <option value="100">Default</option>
+                  <option value="150">Strong</option>
+                  <option value="200">Maximum</option>
+                </select>
+              </div>
+            )}
+
+            {!isTextMode && options.sharpenAmount > 0 && (
+              <div className="option">
+                <label htmlFor="sharpenRadius">Sharpening radius</label>
+                <select
+                  id="sharpenRadius"
+                  value={options.sharpenRadius}
+                  onChange={(e) => onChange({ ...options, sharpenRadius: parseInt(e.target.value, 10) })}
+                >
+                  <option value="1">1 px (fine lines)</option>
+                  <option value="2">2 px</option>
+                  <option value="3">3 px (bold art)</option>
+                </select>
+              </div>
+            )}
+
+            {!isTextMode && options.is2bit && (
+              <div className="option">
+                <label htmlFor="shadowLift">Shadow lift</label>
+                <select
+                  id="shadowLift"
+                  value={options.shadowLift}
+                  onChange={(e) => onChange({ ...options, shadowLift: parseInt(e.target.value, 10) })}
+                >
+                  <option value="0">Off</option>
+                  <option value="50">Light</option>
+                  <option value="100">Default</option>
+                  <option value="150">Strong</option>
+                  <option value="200">Maximum</option>
+                </select>
+              </div>
+            )}
+
+            {!isTextMode && <TonePreview options={options} />}
+
+            {isPageImageMode && (
+              <div className="option">
+                <label htmlFor="autoCrop">Auto-crop whitespace</label>
+                <select
+                  id="autoCrop"
+                  value={options.autoCrop}
+                  onChange={(e) => onChange({ ...options, autoCrop: e.target.value as ConversionOptions['autoCrop'] })}
+                >
+                  <option value="off">Off</option>
+                  <option value="page">Each page</option>
+                  <option value="book">Same crop for the whole book</option>
+                </select>
+              </div>
+            )}
+
+            {isPageImageMode && (
+              <div className="option option-checkbox">
+                <label htmlFor="descreen" className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    id="descreen"
+                    checked={options.descreen}
+                    onChange={(e) => onChange({ ...options, descreen: e.target.checked })}
+                  />
+                  <span>Descreen screentone (reduces moiré)</span>
+                </label>
+              </div>
+            )}
+
+            {isPageImageMode && (
+              <div className="option option-checkbox">
+                <label htmlFor="deskew" className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    id="deskew"
+                    checked={options.deskew}
+                    onChange={(e) => onChange({ ...options, deskew: e.target.checked })}
+                  />
+                  <span>Straighten tilted scans</span>
+                </label>
+              </div>
+            )}
+
+            {isPageImageMode && (
+              <div className="option option-checkbox">
+                <label htmlFor="despeckle" className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    id="despeckle"
+                    checked={options.despeckle}
+                    onChange={(e) => onChange({ ...options, despeckle: e.target.checked })}
+                  />
+                  <span>Remove scanner dust</span>
+                </label>
+              </div>
+            )}
+
+            {isPageImageMode && (
               <div className="option">
                 <label htmlFor="horizontalMargin">Horizontal margin crop</label>
                 <div className="input-with-unit">
@@ -252,7 +590,7 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
               </div>
             )}
 
-            {!isImageMode && !isVideoMode && (
+            {isPageImageMode && (
               <div className="option">
                 <label htmlFor="verticalMargin">Vertical margin crop</label>
                 <div className="input-with-unit">
@@ -270,6 +608,37 @@ export function Options({ options, onChange, fileType = 'cbz' }: OptionsProps) {
               </div>
             )}
 
+            {(fileType === 'cbz' || fileType === 'pdf' || fileType === 'text') && (
+              <div className="option">
+                <label htmlFor="tocNesting">Nested chapters</label>
+                <select
+                  id="tocNesting"
+                  value={options.tocNesting}
+                  onChange={(e) => onChange({ ...options, tocNesting: e.target.value as ConversionOptions['tocNesting'] })}
+                >
+                  <option value="indent">Indent sub-chapters</option>
+                  <option value="indent-level">Indent + level marker (xtcjs only)</option>
+                  <option value="flat">Flat list</option>
+                </select>
+              </div>
+            )}
+
+            {(fileType === 'cbz' || fileType === 'pdf' || fileType === 'text') && (
+              <div className="option">
+                <label htmlFor="tocDepth">Chapter levels</label>
+                <select
+                  id="tocDepth"
+                  value={options.tocDepth}
+                  onChange={(e) => onChange({ ...options, tocDepth: parseInt(e.target.value, 10) })}
+                >
+                  <option value="1">Top level only</option>
+                  <option value="2">2 levels</option>
+                  <option value="3">3 levels</option>
+                  <option value={MAX_TOC_DEPTH}>All</option>
+                </select>
+              </div>
+            )}
+
             <div className="option option-checkbox">
               <label htmlFor="showProgressPreview" className="checkbox-label">
                 <input
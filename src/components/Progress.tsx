@@ -3,9 +3,22 @@ interface ProgressProps {
   progress: number
   text: string
   previewUrl: string | null
+  /** The same page without descreening, shown side by side with the preview */
+  beforePreviewUrl?: string | null
+  /** Shows a Cancel button; `isCancelling` disables it while the work winds down */
+  onCancel?: () => void
+  isCancelling?: boolean
 }
 
-export function Progress({ visible, progress, text, previewUrl }: ProgressProps) {
+export function Progress({
+  visible,
+  progress,
+  text,
+  previewUrl,
+  beforePreviewUrl,
+  onCancel,
+  isCancelling = false
+}: ProgressProps) {
   if (!visible) {
     return null
   }
@@ -16,7 +29,14 @@ export function Progress({ visible, progress, text, previewUrl }: ProgressProps)
     <section className="progress-section">
       <div className="progress-header">
         <span className="progress-text">{text}</span>
-        <span className="progress-percent">{percent}%</span>
+        <span className="progress-actions">
+          <span className="progress-percent">{percent}%</span>
+          {onCancel && (
+            <button type="button" className="btn-cancel" onClick={onCancel} disabled={isCancelling}>
+              {isCancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          )}
+        </span>
       </div>
       <div className="progress-track">
         <div
@@ -24,7 +44,19 @@ export function Progress({ visible, progress, text, previewUrl }: ProgressProps)
           style={{ width: `${percent}%` }}
         />
       </div>
-      {previewUrl && (
+      {previewUrl && beforePreviewUrl && (
+        <div className="preview-container preview-compare">
+          <figure>
+            <img src={beforePreviewUrl} alt="Preview before descreening" />
+            <figcaption>Before descreen</figcaption>
+          </figure>
+          <figure>
+            <img src={previewUrl} alt="Preview" />
+            <figcaption>After</figcaption>
+          </figure>
+        </div>
+      )}
+      {previewUrl && !beforePreviewUrl && (
         <div className="preview-container">
           <img src={previewUrl} alt="Preview" />
         </div>
@@ -0,0 +1,107 @@
+import { useEffect, useRef } from 'react'
+import type { ConversionOptions } from '../lib/converter'
+import { applyDithering } from '../lib/processing/dithering'
+import { applyContrast } from '../lib/processing/image'
+
+const SAMPLE_WIDTH = 200
+const SAMPLE_HEIGHT = 150
+
+interface TonePreviewProps {
+  options: ConversionOptions
+}
+
+/**
+ * Draw a small grayscale test scene: a tone ramp, screentone, flat shading
+ * and line art, so tone settings can be judged without loading a book.
+ */
+function drawSample(ctx: CanvasRenderingContext2D): void {
+  ctx.fillStyle = '#fff'
+  ctx.fillRect(0, 0, SAMPLE_WIDTH, SAMPLE_HEIGHT)
+
+  const ramp = ctx.createLinearGradient(0, 0, SAMPLE_WIDTH, 0)
+  ramp.addColorStop(0, '#000')
+  ramp.addColorStop(1, '#fff')
+  ctx.fillStyle = ramp
+  ctx.fillRect(0, 0, SAMPLE_WIDTH, 30)
+
+  // Screentone patches from light to dark
+  ctx.fillStyle = '#000'
+  for (let patch = 0; patch < 4; patch++) {
+    const radius = 0.6 + patch * 0.5
+    for (let y = 38; y < 78; y += 4) {
+      for (let x = patch * 50 + 2; x < patch * 50 + 48; x += 4) {
+        ctx.beginPath()
+        ctx.arc(x + ((y / 4) % 2) * 2, y, radius, 0, Math.PI * 2)
+        ctx.fill()
+      }
+    }
+  }
+
+  // Flat shading steps
+  const steps = ['#333', '#666', '#999', '#ccc']
+  steps.forEach((color, index) => {
+    ctx.fillStyle = color
+    ctx.fillRect(index * 25, 86, 25, 56)
+  })
+
+  // Line art: a face outline and hatching
+  ctx.strokeStyle = '#000'
+  ctx.lineWidth = 1.5
+  ctx.beginPath()
+  ctx.arc(150, 114, 26, 0, Math.PI * 2)
+  ctx.stroke()
+  ctx.lineWidth = 1
+  for (let x = 108; x < 124; x += 3) {
+    ctx.beginPath()
+    ctx.moveTo(x, 90)
+    ctx.lineTo(x + 10, 140)
+    ctx.stroke()
+  }
+  ctx.fillRect(140, 106, 4, 6)
+  ctx.fillRect(156, 106, 4, 6)
+  ctx.beginPath()
+  ctx.arc(150, 120, 10, 0.2 * Math.PI, 0.8 * Math.PI)
+  ctx.stroke()
+}
+
+/**
+ * Before/after view of the tone, contrast and dithering settings on a
+ * built-in sample, redrawn whenever those settings change.
+ */
+export function TonePreview({ options }: TonePreviewProps) {
+  const beforeRef = useRef<HTMLCanvasElement>(null)
+  const afterRef = useRef<HTMLCanvasElement>(null)
+  const { contrast, dithering, is2bit, brightness, gamma, sharpenAmount, sharpenRadius, shadowLift } = options
+
+  useEffect(() => {
+    const before = beforeRef.current?.getContext('2d')
+    const after = afterRef.current?.getContext('2d', { willReadFrequently: true })
+    if (!before || !after) return
+
+    drawSample(before)
+    drawSample(after)
+    if (contrast > 0) {
+      applyContrast(after, SAMPLE_WIDTH, SAMPLE_HEIGHT, contrast)
+    }
+    applyDithering(after, SAMPLE_WIDTH, SAMPLE_HEIGHT, dithering, is2bit, {
+      brightness,
+      gamma,
+      sharpenAmount,
+      sharpenRadius,
+      shadowLift
+    })
+  }, [contrast, dithering, is2bit, brightness, gamma, sharpenAmount, sharpenRadius, shadowLift])
+
+  return (
+    <div className="tone-preview">
+      <figure>
+        <canvas ref={beforeRef} width={SAMPLE_WIDTH} height={SAMPLE_HEIGHT} />
+        <figcaption>Before</figcaption>
+      </figure>
+      <figure>
+        <canvas ref={afterRef} width={SAMPLE_WIDTH} height={SAMPLE_HEIGHT} />
+        <figcaption>After</figcaption>
+      </figure>
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+// Page images of CBZ, CB7 and CBT files for the merge and split tools
+
+import sevenZipWasm from '7z-wasm/7zz.wasm?url'
+import { readZipEntries, toArchiveEntries, type ArchiveEntry } from './conversion/archive-book'
+import { isArchiveImagePath } from './conversion/archive'
+import { extractSevenZip } from './conversion/sevenzip'
+import { readTarEntries } from './conversion/tar'
+
+let sevenZipWasmCache: ArrayBuffer | null = null
+
+export async function loadSevenZipWasm(): Promise<ArrayBuffer> {
+  if (sevenZipWasmCache) {
+    return sevenZipWasmCache
+  }
+  const response = await fetch(sevenZipWasm)
+  sevenZipWasmCache = await response.arrayBuffer()
+  return sevenZipWasmCache
+}
+
+/**
+ * Read the page images of a CBZ, CB7 or CBT file, sorted by path
+ */
+export async function readArchiveImages(file: File): Promise<ArchiveEntry[]> {
+  const lowerName = file.name.toLowerCase()
+  let entries: ArchiveEntry[]
+
+  if (lowerName.endsWith('.cb7')) {
+    const data = new Uint8Array(await file.arrayBuffer())
+    entries = toArchiveEntries(await extractSevenZip(data, await loadSevenZipWasm()))
+  } else if (lowerName.endsWith('.cbt')) {
+    entries = toArchiveEntries(readTarEntries(new Uint8Array(await file.arrayBuffer())))
+  } else {
+    entries = await readZipEntries(file)
+  }
+
+  return entries
+    .filter((entry) => isArchiveImagePath(entry.path))
+    .sort((a, b) => a.path.localeCompare(b.path))
+}
@@ -0,0 +1,51 @@
+import { expect, test } from 'bun:test'
+import { convertPageBitDepth, convertXtcBitDepth } from './bit-depth'
+import { imageDataToXth, imageDataToXtg } from './processing/xtg'
+import { buildXtcFromXtgPages } from './xtc-format'
+import { decodeXtcPage, parseXtcFile } from './xtc-reader'
+
+// Gradient through all four device gray levels, so row and column order both matter
+function createPixels(width: number, height: number, levels: number[]) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = levels[(x + y * 3) % levels.length]
+      data.fill(value, (y * width + x) * 4, (y * width + x) * 4 + 3)
+      data[(y * width + x) * 4 + 3] = 255
+    }
+  }
+  return { data, width, height }
+}
+
+test('1-bit pages move to 2-bit without changing a pixel', () => {
+  const pixels = createPixels(13, 10, [0, 255])
+  const page = convertPageBitDepth(imageDataToXtg(pixels), true, 'floyd')
+
+  const decoded = decodeXtcPage(page)
+  expect(decoded.is2bit).toBe(true)
+  expect(decoded.data).toEqual(pixels.data)
+})
+
+test('2-bit pages are dithered down to black and white', () => {
+  const pixels = createPixels(16, 12, [0, 85, 170, 255])
+  const page = convertPageBitDepth(imageDataToXth(pixels), false, 'floyd')
+
+  const decoded = decodeXtcPage(page)
+  expect(decoded.is2bit).toBe(false)
+  expect([decoded.width, decoded.height]).toEqual([16, 12])
+  expect(new Set(decoded.data)).toEqual(new Set([0, 255]))
+})
+
+test('converting a file keeps its metadata and table of contents', async () => {
+  const metadata = { title: 'Book', author: 'Author', toc: [{ title: 'One', startPage: 1, endPage: 2 }] }
+  const pages = [createPixels(8, 8, [0, 255]), createPixels(8, 8, [255, 0])].map(imageDataToXtg)
+  const xtc = await buildXtcFromXtgPages(pages, { metadata })
+
+  const result = await convertXtcBitDepth(new File([xtc], 'book.xtc'), true, 'floyd')
+  const parsed = await parseXtcFile(result.data)
+
+  expect(result.name).toBe('book.xtch')
+  expect(parsed.header.is2bit).toBe(true)
+  expect(parsed.header.pageCount).toBe(2)
+  expect(parsed.metadata).toEqual(metadata)
+})
@@ -0,0 +1,85 @@
+// Convert finished XTC files between 1-bit (XTC) and 2-bit (XTCH) pages
+
+import { buildXtcFromBuffers } from './xtc-format'
+import { decodeXtcPage, parseXtcFile } from './xtc-reader'
+import { DEFAULT_TONE_SETTINGS, ditherImageData, type ToneSettings } from './processing/dithering'
+import { imageDataToXth, imageDataToXtg } from './processing/xtg'
+import { stopOnAbort } from './concurrency'
+import type { MergeResult } from './merge'
+
+// The pages were already toned and sharpened when first converted
+const REDITHER_TONE: ToneSettings = {
+  ...DEFAULT_TONE_SETTINGS,
+  sharpenAmount: 0,
+  shadowLift: 0
+}
+
+/**
+ * Page count and bit depth of an XTC/XTCH file
+ */
+export async function readXtcBitDepth(file: File): Promise<{ is2bit: boolean; pageCount: number }> {
+  const parsed = await parseXtcFile(await file.arrayBuffer(), 0)
+  return { is2bit: parsed.header.is2bit, pageCount: parsed.header.pageCount }
+}
+
+/**
+ * Re-encode one XTG/XTH page at the target depth. 1-bit pixels are already
+ * device levels, so going up only changes the encoding; going down dithers the
+ * four gray levels to black and white.
+ */
+export function convertPageBitDepth(page: ArrayBuffer, targetIs2bit: boolean, dithering: string): ArrayBuffer {
+  const decoded = decodeXtcPage(page)
+  if (decoded.is2bit === targetIs2bit) {
+    return page
+  }
+  if (targetIs2bit) {
+    return imageDataToXth(decoded)
+  }
+
+  ditherImageData(decoded, dithering, false, REDITHER_TONE)
+  return imageDataToXtg(decoded)
+}
+
+/**
+ * Rebuild an XTC file as XTCH or the other way around, keeping its metadata
+ * and table of contents. Aborting `signal` rejects with its reason.
+ */
+export async function convertXtcBitDepth(
+  file: File,
+  targetIs2bit: boolean,
+  dithering: string,
+  onProgress: (progress: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<MergeResult> {
+  signal?.throwIfAborted()
+  onProgress = stopOnAbort(onProgress, signal)
+
+  const parsed = await parseXtcFile(await file.arrayBuffer())
+  if (parsed.header.is2bit === targetIs2bit) {
+    throw new Error(`${file.name} is already ${targetIs2bit ? 'XTCH (2-bit)' : 'XTC (1-bit)'}`)
+  }
+
+  const pages: ArrayBuffer[] = []
+  for (let i = 0; i < parsed.pageData.length; i++) {
+    pages.push(convertPageBitDepth(parsed.pageData[i], targetIs2bit, dithering))
+    onProgress((i + 1) / parsed.pageData.length)
+
+    // Let the UI breathe on long books
+    if (i % 20 === 19) {
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+  }
+
+  const data = await buildXtcFromBuffers(pages, {
+    metadata: parsed.metadata,
+    is2bit: targetIs2bit
+  })
+  const baseName = file.name.replace(/\.xtch?$/i, '')
+
+  return {
+    name: `${baseName}${targetIs2bit ? '.xtch' : '.xtc'}`,
+    data,
+    size: data.byteLength,
+    pageCount: pages.length
+  }
+}
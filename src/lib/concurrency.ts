@@ -37,3 +37,16 @@ export async function mapWithConcurrency<T, R>(
 
   return results
 }
+
+/**
+ * Wrap a progress callback so a long task stops at its next progress report
+ * once `signal` is aborted, rejecting with the signal's reason.
+ */
+export function stopOnAbort<T>(onProgress: (progress: T) => void, signal?: AbortSignal): (progress: T) => void {
+  if (!signal) return onProgress
+
+  return (progress) => {
+    signal.throwIfAborted()
+    onProgress(progress)
+  }
+}
@@ -0,0 +1,114 @@
+// Image archives read into a book, shared by the browser converter and headless
+// runtimes: page order, ComicInfo, inner volumes of a ZIP bundle and folder
+// chapters. Callers bring their own extractor for CBR/CB7/CBT data.
+
+import JSZip from 'jszip'
+import { parseComicInfo } from '../metadata/comicinfo'
+import type { BookMetadata } from '../metadata/types'
+import {
+  applyComicInfoDefaults,
+  isArchiveImagePath,
+  isComicInfoPath,
+  moveCoverToFront,
+  sortArchiveImages,
+  type ExtractedArchiveFile
+} from './archive'
+import { buildFolderToc, getBaseName, isNestedArchivePath, stripExtension } from './collection'
+import type { ConversionOptions } from './types'
+
+/** A file in an archive, read only when its page is converted */
+export interface ArchiveEntry {
+  path: string
+  read: () => Promise<Uint8Array>
+}
+
+/** Read every file of an archive into memory, picking the format by `name` */
+export type ArchiveExtractor = (name: string, data: Uint8Array) => Promise<ExtractedArchiveFile[]>
+
+export interface ArchiveBook {
+  /** Page images in book order, cover first */
+  pages: Array<ArchiveEntry & { originalPage: number }>
+  metadata: BookMetadata
+  /** Conversion options with the ComicInfo defaults applied */
+  options: ConversionOptions
+}
+
+export async function readZipEntries(data: Uint8Array | ArrayBuffer | Blob): Promise<ArchiveEntry[]> {
+  const zip = await JSZip.loadAsync(data)
+  return zip.file(/./).map((entry) => ({ path: entry.name, read: () => entry.async('uint8array') }))
+}
+
+export function toArchiveEntries(files: ExtractedArchiveFile[]): ArchiveEntry[] {
+  return files.map((file) => ({ path: file.path, read: async () => file.data }))
+}
+
+// Inner archives of a ZIP bundle, each under a folder named after it so every
+// volume becomes a chapter
+async function expandNestedArchives(archives: ArchiveEntry[], extract: ArchiveExtractor): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = []
+  const sortedArchives = [...archives].sort((a, b) => a.path.localeCompare(b.path))
+
+  for (const archive of sortedArchives) {
+    const chapter = stripExtension(getBaseName(archive.path))
+    const innerFiles = await extract(archive.path, await archive.read())
+    for (const innerFile of innerFiles) {
+      // Each volume's ComicInfo describes that volume, not the merged book
+      if (isComicInfoPath(innerFile.path)) continue
+      entries.push({ path: `${chapter}/${innerFile.path}`, read: async () => innerFile.data })
+    }
+  }
+  return entries
+}
+
+function parseComicInfoSafe(xmlContent: string): BookMetadata {
+  try {
+    return parseComicInfo(xmlContent)
+  } catch {
+    // Continue conversion without metadata.
+    return { toc: [] }
+  }
+}
+
+/**
+ * Read an image archive into a book. A ZIP of CBZ/CBR/CB7/CBT volumes is
+ * merged with one chapter per volume, and without a ComicInfo TOC every
+ * top-level folder becomes a chapter.
+ */
+export async function loadArchiveBook(
+  entries: ArchiveEntry[],
+  formatLabel: string,
+  options: ConversionOptions,
+  extract: ArchiveExtractor
+): Promise<ArchiveBook> {
+  const nestedArchives = entries.filter((entry) => isNestedArchivePath(entry.path))
+  if (nestedArchives.length > 0) {
+    entries = await expandNestedArchives(nestedArchives, extract)
+    formatLabel = 'ZIP'
+  }
+
+  const pages: ArchiveBook['pages'] = []
+  let comicInfoEntry: ArchiveEntry | null = null
+  for (const entry of entries) {
+    if (isArchiveImagePath(entry.path)) {
+      pages.push({ ...entry, originalPage: 0 })
+    }
+    if (isComicInfoPath(entry.path)) {
+      comicInfoEntry = entry
+    }
+  }
+
+  sortArchiveImages(pages)
+  if (pages.length === 0) {
+    throw new Error(`No images found in ${formatLabel}`)
+  }
+
+  const metadata = comicInfoEntry
+    ? parseComicInfoSafe(new TextDecoder('utf-8').decode(await comicInfoEntry.read()))
+    : { toc: [] }
+  if (metadata.toc.length === 0) {
+    metadata.toc = buildFolderToc(pages)
+  }
+  moveCoverToFront(pages, metadata)
+
+  return { pages, metadata, options: applyComicInfoDefaults(options, metadata) }
+}
@@ -0,0 +1,32 @@
+import { expect, test } from 'bun:test'
+import type { BookMetadata } from '../metadata/types'
+import { applyComicInfoDefaults } from './archive'
+import { getDefaultConversionOptions } from './defaults'
+
+function createManga(): BookMetadata {
+  return { toc: [], series: 'Blade Story', volume: 3, manga: 'YesAndRightToLeft' }
+}
+
+test('ComicInfo fills in the reading direction and a series title', () => {
+  const metadata = createManga()
+  const options = applyComicInfoDefaults(getDefaultConversionOptions('cbz'), metadata)
+
+  expect(options.readingDirection).toBe('rtl')
+  expect(metadata.title).toBe('Blade Story v03')
+})
+
+test('the series template replaces the ComicInfo title, which stays without one', () => {
+  const metadata = { ...createManga(), title: 'The Beginning' }
+  applyComicInfoDefaults(getDefaultConversionOptions('cbz'), metadata)
+  expect(metadata.title).toBe('Blade Story v03')
+
+  const oneShot: BookMetadata = { toc: [], title: 'The Beginning', series: 'Blade Story' }
+  applyComicInfoDefaults(getDefaultConversionOptions('cbz'), oneShot)
+  expect(oneShot.title).toBe('The Beginning')
+})
+
+test('an explicit reading direction wins over ComicInfo', () => {
+  const options = applyComicInfoDefaults({ ...getDefaultConversionOptions('cbz'), readingDirection: 'ltr' }, createManga())
+
+  expect(options.readingDirection).toBe('ltr')
+})
@@ -0,0 +1,138 @@
+// Archive helpers shared by the browser converter and headless runtimes
+
+import { formatComicTitle, getComicReadingDirection } from '../metadata/comicinfo'
+import type { BookMetadata } from '../metadata/types'
+import { getDeviceProfile, type DeviceProfile } from './devices'
+import type { ConversionOptions } from './types'
+
+export const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'])
+
+export function isArchiveImagePath(path: string): boolean {
+  const lowerPath = path.toLowerCase()
+  if (lowerPath.startsWith('__macos')) return false
+  return IMAGE_EXTENSIONS.has(lowerPath.substring(lowerPath.lastIndexOf('.')))
+}
+
+export function isComicInfoPath(path: string): boolean {
+  const lowerPath = path.toLowerCase()
+  return lowerPath === 'comicinfo.xml' || lowerPath.endsWith('/comicinfo.xml')
+}
+
+function normalizeArchivePath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/^\/+/, '')
+    .toLowerCase()
+}
+
+function getBaseName(path: string): string {
+  const slashIndex = path.lastIndexOf('/')
+  if (slashIndex < 0) return path
+  return path.slice(slashIndex + 1)
+}
+
+/**
+ * Sort archive images by path and assign 1-indexed original page numbers.
+ */
+export function sortArchiveImages<T extends { path: string; originalPage: number }>(imageFiles: T[]): void {
+  imageFiles.sort((a, b) => a.path.localeCompare(b.path))
+  imageFiles.forEach((imageFile, index) => {
+    imageFile.originalPage = index + 1
+  })
+}
+
+export function moveCoverToFront<T extends { path: string; originalPage: number }>(
+  imageFiles: T[],
+  metadata: BookMetadata
+): void {
+  if (imageFiles.length < 2) return
+
+  let coverIndex = -1
+
+  if (Number.isInteger(metadata.coverPage) && (metadata.coverPage ?? 0) > 0) {
+    coverIndex = imageFiles.findIndex(file => file.originalPage === metadata.coverPage)
+  }
+
+  if (coverIndex === -1 && metadata.coverImagePath) {
+    const normalizedCoverPath = normalizeArchivePath(metadata.coverImagePath)
+    coverIndex = imageFiles.findIndex(file =>
+      normalizeArchivePath(file.path) === normalizedCoverPath
+    )
+
+    if (coverIndex === -1) {
+      const coverBaseName = getBaseName(normalizedCoverPath)
+      coverIndex = imageFiles.findIndex(file =>
+        getBaseName(normalizeArchivePath(file.path)) === coverBaseName
+      )
+    }
+  }
+
+  if (coverIndex > 0) {
+    const [coverImage] = imageFiles.splice(coverIndex, 1)
+    imageFiles.unshift(coverImage)
+  }
+}
+
+/**
+ * Original pages that start a TOC chapter; strip slicing begins a new page there.
+ */
+export function getChapterStartPages(metadata: BookMetadata): Set<number> {
+  return new Set(metadata.toc.map((entry) => entry.startPage))
+}
+
+/** A file read fully into memory from a CBR, CB7 or CBT archive. */
+export interface ExtractedArchiveFile {
+  path: string
+  data: Uint8Array
+}
+
+/**
+ * Let ComicInfo fill in the book's defaults: a "Series v03" style title when
+ * it names the series and volume or issue (set on `metadata` in place), and
+ * the reading direction when the user left it at 'auto'.
+ */
+export function applyComicInfoDefaults(
+  options: ConversionOptions,
+  metadata: BookMetadata
+): ConversionOptions {
+  if (!options.useComicInfo) return options
+
+  metadata.title = formatComicTitle(metadata)
+
+  if (options.readingDirection !== 'auto') return options
+  const readingDirection = getComicReadingDirection(metadata)
+  return readingDirection ? { ...options, readingDirection } : options
+}
+
+/**
+ * Covers are usually full-bleed, unlike the pages a book-wide crop is measured
+ * on, so a cover is cropped to its own content instead.
+ */
+export function getCoverCropOptions(options: ConversionOptions): ConversionOptions {
+  return options.autoCrop === 'book' ? { ...options, autoCrop: 'page' } : options
+}
+
+export function getPageProcessingOptions(
+  baseOptions: ConversionOptions,
+  isCoverPage: boolean,
+  profile: DeviceProfile = getDeviceProfile(baseOptions)
+): ConversionOptions {
+  if (!isCoverPage) {
+    return baseOptions
+  }
+
+  let coverOptions = baseOptions
+
+  if (profile.fullPageCover && coverOptions.splitMode !== 'nosplit') {
+    coverOptions = { ...coverOptions, splitMode: 'nosplit' }
+  }
+
+  coverOptions = getCoverCropOptions(coverOptions)
+
+  if (coverOptions.coverPortrait && coverOptions.orientation === 'landscape') {
+    coverOptions = { ...coverOptions, orientation: 'portrait' }
+  }
+
+  return coverOptions
+}
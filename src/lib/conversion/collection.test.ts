@@ -0,0 +1,76 @@
+import { expect, test } from 'bun:test'
+import JSZip from 'jszip'
+import { buildFolderToc, groupByTopFolder, splitCollectionFile } from './collection'
+
+async function zipFile(name: string, files: Record<string, string | Uint8Array>): Promise<File> {
+  const zip = new JSZip()
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content)
+  }
+  return new File([await zip.generateAsync({ type: 'arraybuffer' })], name)
+}
+
+async function listZip(file: File): Promise<string[]> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer())
+  return zip.file(/./).map((entry) => entry.name).sort()
+}
+
+test('groups by top-level folder below a shared root', () => {
+  const groups = groupByTopFolder([
+    { path: 'Series/Vol 1/001.jpg' },
+    { path: 'Series/Vol 1/002.jpg' },
+    { path: 'Series/Vol 2/001.jpg' },
+    { path: 'Series/cover.jpg' },
+  ])
+
+  expect(Array.from(groups.keys())).toEqual(['Vol 1', 'Vol 2', ''])
+  expect(groups.get('Vol 1')).toHaveLength(2)
+})
+
+test('builds one chapter per folder', () => {
+  const toc = buildFolderToc([
+    { path: 'cover.jpg', originalPage: 1 },
+    { path: 'Chapter 1/001.jpg', originalPage: 2 },
+    { path: 'Chapter 1/002.jpg', originalPage: 3 },
+    { path: 'Chapter 2/001.jpg', originalPage: 4 },
+  ])
+
+  expect(toc).toEqual([
+    { title: 'Chapter 1', startPage: 2, endPage: 3 },
+    { title: 'Chapter 2', startPage: 4, endPage: 4 },
+  ])
+  expect(buildFolderToc([{ path: 'Vol 1/001.jpg', originalPage: 1 }])).toEqual([])
+})
+
+test('splits a ZIP of archives into its inner archives', async () => {
+  const bundle = await zipFile('bundle.zip', {
+    'Vol 2.cbz': await (await zipFile('inner.cbz', { '001.png': 'b' })).bytes(),
+    'Vol 1.cbz': await (await zipFile('inner.cbz', { '001.png': 'a' })).bytes(),
+    'readme.txt': 'hello',
+  })
+
+  const volumes = await splitCollectionFile(bundle)
+  expect(volumes.map((volume) => volume.name)).toEqual(['Vol 1.cbz', 'Vol 2.cbz'])
+  expect(await listZip(volumes[0])).toEqual(['001.png'])
+})
+
+test('repacks each image folder of a ZIP as a CBZ', async () => {
+  const bundle = await zipFile('Series.zip', {
+    'Series/Vol 1/001.png': 'a',
+    'Series/Vol 1/ComicInfo.xml': '<ComicInfo/>',
+    'Series/Vol 2/pages/001.png': 'b',
+  })
+
+  const volumes = await splitCollectionFile(bundle)
+  expect(volumes.map((volume) => volume.name)).toEqual(['Vol 1.cbz', 'Vol 2.cbz'])
+  expect(await listZip(volumes[0])).toEqual(['001.png', 'ComicInfo.xml'])
+  expect(await listZip(volumes[1])).toEqual(['pages/001.png'])
+})
+
+test('leaves CBZs and single-volume ZIPs alone', async () => {
+  const cbz = await zipFile('book.cbz', { 'Ch 1/001.png': 'a', 'Ch 2/001.png': 'b' })
+  const single = await zipFile('scans.zip', { 'Vol 1/001.png': 'a' })
+
+  expect(await splitCollectionFile(cbz)).toEqual([cbz])
+  expect(await splitCollectionFile(single)).toEqual([single])
+})
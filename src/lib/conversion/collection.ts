@@ -0,0 +1,134 @@
+// Folder and bundle imports: a dropped folder or a ZIP holding several volumes
+//
+// Dropped folders are packed into a ZIP (see src/lib/folder-import.ts), so both
+// cases arrive as an archive whose top-level sub-folders or inner archives are
+// volumes. They are either converted one XTC per volume or merged into a single
+// XTC with one TOC chapter per volume.
+
+import JSZip from 'jszip'
+import type { TocEntry } from '../metadata/types'
+import { isArchiveImagePath, isComicInfoPath } from './archive'
+
+const NESTED_ARCHIVE_PATTERN = /\.(cbz|cbr|cb7|cbt|zip)$/i
+const BUNDLE_FILE_PATTERN = /\.zip$/i
+
+export function isNestedArchivePath(path: string): boolean {
+  return !path.toLowerCase().startsWith('__macos') && NESTED_ARCHIVE_PATTERN.test(path)
+}
+
+/** Only plain ZIPs are split into volumes; sub-folders in a CBZ are its chapters. */
+export function isBundleFileName(name: string): boolean {
+  return BUNDLE_FILE_PATTERN.test(name)
+}
+
+function splitPath(path: string): string[] {
+  return path.replace(/\\/g, '/').split('/').filter(Boolean)
+}
+
+export function getBaseName(path: string): string {
+  const segments = splitPath(path)
+  return segments[segments.length - 1] ?? path
+}
+
+export function stripExtension(name: string): string {
+  const dot = name.lastIndexOf('.')
+  return dot > 0 ? name.slice(0, dot) : name
+}
+
+// Number of leading folders shared by every path
+function getSharedFolderDepth(folders: string[][]): number {
+  const minDepth = Math.min(...folders.map((segments) => segments.length))
+  for (let depth = 0; depth < minDepth; depth++) {
+    if (folders.some((segments) => segments[depth] !== folders[0][depth])) {
+      return depth
+    }
+  }
+  return minDepth
+}
+
+/**
+ * Group items by their top-level folder, looking past a root folder shared by
+ * every path. Items directly at that root are grouped under ''.
+ */
+export function groupByTopFolder<T extends { path: string }>(items: T[]): Map<string, T[]> {
+  const folders = items.map((item) => splitPath(item.path).slice(0, -1))
+  const sharedDepth = getSharedFolderDepth(folders)
+
+  const groups = new Map<string, T[]>()
+  items.forEach((item, index) => {
+    const key = folders[index][sharedDepth] ?? ''
+    const group = groups.get(key)
+    if (group) {
+      group.push(item)
+    } else {
+      groups.set(key, [item])
+    }
+  })
+  return groups
+}
+
+/**
+ * One TOC chapter per top-level folder, for books assembled from several
+ * folders or inner archives. Returns [] when there is only one folder.
+ */
+export function buildFolderToc(imageFiles: Array<{ path: string; originalPage: number }>): TocEntry[] {
+  if (imageFiles.length === 0) return []
+
+  const ordered = [...imageFiles].sort((a, b) => a.originalPage - b.originalPage)
+  const chapters = Array.from(groupByTopFolder(ordered)).filter(([folder]) => folder !== '')
+  if (chapters.length < 2) return []
+
+  return chapters
+    .map(([folder, files]) => ({
+      title: folder,
+      startPage: files[0].originalPage,
+      endPage: files[files.length - 1].originalPage,
+    }))
+    .sort((a, b) => a.startPage - b.startPage)
+}
+
+async function repackAsCbz(name: string, entries: Array<{ path: string; entry: JSZip.JSZipObject }>): Promise<File> {
+  const zip = new JSZip()
+  for (const { path, entry } of entries) {
+    zip.file(path, await entry.async('uint8array'))
+  }
+  // Images are already compressed; storing keeps repacking cheap.
+  const data = await zip.generateAsync({ type: 'arraybuffer', compression: 'STORE' })
+  return new File([data], `${name}.cbz`)
+}
+
+/**
+ * Split a ZIP bundle into one file per volume: its inner archives if it has
+ * any, otherwise one CBZ per top-level image folder. Anything else comes back
+ * unchanged.
+ */
+export async function splitCollectionFile(file: File): Promise<File[]> {
+  if (!isBundleFileName(file.name)) return [file]
+
+  const zip = await JSZip.loadAsync(await file.arrayBuffer())
+  const entries: Array<{ path: string; entry: JSZip.JSZipObject }> = []
+  zip.forEach((path, entry) => {
+    if (!entry.dir) entries.push({ path, entry })
+  })
+  entries.sort((a, b) => a.path.localeCompare(b.path))
+
+  const nestedArchives = entries.filter(({ path }) => isNestedArchivePath(path))
+  if (nestedArchives.length > 0) {
+    return Promise.all(nestedArchives.map(async ({ path, entry }) =>
+      new File([await entry.async('arraybuffer')], getBaseName(path))
+    ))
+  }
+
+  const volumeEntries = entries.filter(({ path }) => isArchiveImagePath(path) || isComicInfoPath(path))
+  const volumes = Array.from(groupByTopFolder(volumeEntries)).filter(([folder]) => folder !== '')
+  if (volumes.length < 2) return [file]
+
+  // Paths inside each volume start below its folder
+  const volumeDepth = getSharedFolderDepth(volumeEntries.map(({ path }) => splitPath(path).slice(0, -1))) + 1
+  return Promise.all(volumes.map(([folder, volume]) =>
+    repackAsCbz(folder, volume.map(({ path, entry }) => ({
+      path: splitPath(path).slice(volumeDepth).join('/'),
+      entry,
+    })))
+  ))
+}
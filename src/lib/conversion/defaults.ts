@@ -1,3 +1,61 @@
+import { DEFAULT_DEVICE_PROFILE, type DeviceProfile } from './devices'
+import { MAX_TOC_DEPTH } from '../metadata/toc'
+import type { ConversionOptions } from './types'
+
+export type ConverterFileType = 'cbz' | 'pdf' | 'image' | 'video' | 'text'
+
 export function getDefaultContrast(fileType: string): number {
   return fileType === 'pdf' ? 0 : 4
 }
+
+/**
+ * Recommended settings for each converter page (also used by the CLI), for
+ * the given target device.
+ */
+export function getDefaultConversionOptions(
+  fileType: ConverterFileType,
+  profile: DeviceProfile = DEFAULT_DEVICE_PROFILE
+): ConversionOptions {
+  const isStill = fileType === 'image' || fileType === 'video'
+  const isText = fileType === 'text'
+
+  return {
+    device: profile.id,
+    customWidth: profile.width,
+    customHeight: profile.height,
+    splitMode: isStill || isText ? 'nosplit' : 'overlap',
+    pageOverview: 'none',
+    readingDirection: 'auto',
+    spreadPolicy: 'auto',
+    // Rendered text is already sharp; plain thresholding keeps glyph edges clean
+    dithering: isText ? 'none' : (fileType === 'pdf' ? 'atkinson' : 'floyd'),
+    is2bit: false,
+    contrast: isText ? 0 : getDefaultContrast(fileType),
+    brightness: 0,
+    gamma: 1,
+    sharpenAmount: 100,
+    sharpenRadius: 1,
+    shadowLift: 100,
+    horizontalMargin: 0,
+    verticalMargin: 0,
+    autoCrop: 'off',
+    descreen: false,
+    deskew: false,
+    despeckle: false,
+    orientation: isStill || isText ? 'portrait' : profile.preferredOrientation,
+    coverPortrait: false,
+    landscapeFlipClockwise: false,
+    showProgressPreview: true,
+    imageMode: fileType === 'image' ? 'cover' : 'letterbox',
+    stripOverlap: 0,
+    collectionMode: 'separate',
+    useComicInfo: true,
+    tocNesting: 'indent',
+    tocDepth: MAX_TOC_DEPTH,
+    videoFps: 1.0,
+    textFont: 'liberation-sans',
+    textFontSize: 20,
+    textMargin: 24,
+    textLineSpacing: 1.4,
+  }
+}
@@ -0,0 +1,36 @@
+import { expect, test } from 'bun:test'
+import { buildXtcFromXtgPages } from '../xtc-format'
+import { getPageProcessingOptions } from './archive'
+import { getDefaultConversionOptions } from './defaults'
+import { applyDeviceProfile, getDeviceProfile, type DeviceProfile } from './devices'
+
+test('resolves built-in and custom device profiles', () => {
+  const options = getDefaultConversionOptions('cbz')
+
+  expect(getDeviceProfile({ ...options, device: 'X3' })).toMatchObject({ width: 528, height: 792 })
+  expect(getDeviceProfile({ ...options, device: 'custom', customWidth: 600, customHeight: 1024 }))
+    .toMatchObject({ id: 'custom', width: 600, height: 1024 })
+  expect(getDeviceProfile({ ...options, device: 'custom', customWidth: 20, customHeight: Number.NaN }))
+    .toMatchObject({ width: 100, height: 800 })
+  expect(getDeviceProfile({ ...options, device: 'X9' as never })).toMatchObject({ id: 'X4' })
+})
+
+test('only writes bit depths the target device can display', async () => {
+  const monochrome: DeviceProfile = { ...getDeviceProfile({ device: 'custom', customWidth: 480, customHeight: 800 }), bitDepths: [1] }
+
+  await expect(buildXtcFromXtgPages([new ArrayBuffer(8)], { is2bit: true, device: monochrome }))
+    .rejects.toThrow('does not support 2-bit pages')
+  expect(applyDeviceProfile({ ...getDefaultConversionOptions('cbz'), is2bit: true }, 'X3').is2bit).toBe(true)
+})
+
+test('orientation and cover handling follow the device profile', () => {
+  const x4 = getDeviceProfile({ device: 'X4', customWidth: 0, customHeight: 0 })
+  const portraitDevice: DeviceProfile = { ...x4, preferredOrientation: 'portrait', fullPageCover: false }
+
+  expect(getDefaultConversionOptions('cbz').orientation).toBe('landscape')
+  expect(getDefaultConversionOptions('cbz', portraitDevice).orientation).toBe('portrait')
+
+  const options = getDefaultConversionOptions('cbz')
+  expect(getPageProcessingOptions(options, true).splitMode).toBe('nosplit')
+  expect(getPageProcessingOptions(options, true, portraitDevice).splitMode).toBe('overlap')
+})
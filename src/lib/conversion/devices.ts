@@ -0,0 +1,107 @@
+// Target device profiles: screen size, supported formats and firmware behaviour
+
+import type { ConversionOptions, DeviceId } from './types'
+
+/** 1-bit pages are written as XTC, 2-bit grayscale pages as XTCH */
+export type BitDepth = 1 | 2
+
+export interface DeviceProfile {
+  id: DeviceId
+  name: string
+  /** Portrait screen size in pixels; every page is encoded at this size */
+  width: number
+  height: number
+  bitDepths: readonly BitDepth[]
+  /** Orientation comic and PDF pages are read in by default */
+  preferredOrientation: ConversionOptions['orientation']
+  /**
+   * Crosspoint uses XTC page 0 as the home preview, so the cover must stay a
+   * single unsplit page
+   */
+  fullPageCover: boolean
+}
+
+export const DEVICE_PROFILES: readonly DeviceProfile[] = [
+  {
+    id: 'X4',
+    name: 'XTEink X4 / X4 Pro',
+    width: 480,
+    height: 800,
+    bitDepths: [1, 2],
+    preferredOrientation: 'landscape',
+    fullPageCover: true
+  },
+  {
+    id: 'X3',
+    name: 'XTEink X3',
+    width: 528,
+    height: 792,
+    bitDepths: [1, 2],
+    preferredOrientation: 'landscape',
+    fullPageCover: true
+  },
+  {
+    // Width and height come from ConversionOptions.customWidth/customHeight
+    id: 'custom',
+    name: 'Custom',
+    width: 480,
+    height: 800,
+    bitDepths: [1, 2],
+    preferredOrientation: 'landscape',
+    fullPageCover: true
+  }
+]
+
+/** Limits for user-entered custom screen sizes (XTG stores them as 16-bit) */
+export const CUSTOM_DIMENSION_RANGE = [100, 4000] as const
+
+export const DEFAULT_DEVICE_PROFILE = DEVICE_PROFILES[0]
+
+function clampDimension(value: number, fallback: number): number {
+  if (!Number.isFinite(value)) return fallback
+  const [min, max] = CUSTOM_DIMENSION_RANGE
+  return Math.max(min, Math.min(max, Math.round(value)))
+}
+
+/**
+ * Profile for the options' target device, with the user's screen size
+ * filled in for the custom profile. Unknown devices fall back to the X4.
+ */
+export function getDeviceProfile(
+  options: Pick<ConversionOptions, 'device' | 'customWidth' | 'customHeight'>
+): DeviceProfile {
+  const profile = DEVICE_PROFILES.find((candidate) => candidate.id === options.device) ?? DEFAULT_DEVICE_PROFILE
+  if (profile.id !== 'custom') {
+    return profile
+  }
+
+  return {
+    ...profile,
+    width: clampDimension(options.customWidth, profile.width),
+    height: clampDimension(options.customHeight, profile.height)
+  }
+}
+
+export function supportsBitDepth(profile: DeviceProfile, is2bit: boolean): boolean {
+  return profile.bitDepths.includes(is2bit ? 2 : 1)
+}
+
+/**
+ * Switch options to another device. Grayscale output is dropped when the new
+ * device can't show it, and an orientation left at the old device's preference
+ * follows the new one.
+ */
+export function applyDeviceProfile(options: ConversionOptions, device: DeviceId): ConversionOptions {
+  const previous = getDeviceProfile(options)
+  const next = { ...options, device }
+  const profile = getDeviceProfile(next)
+
+  if (next.is2bit && !supportsBitDepth(profile, true)) {
+    next.is2bit = false
+  }
+  if (next.orientation === previous.preferredOrientation) {
+    next.orientation = profile.preferredOrientation
+  }
+
+  return next
+}
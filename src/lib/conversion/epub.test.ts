@@ -0,0 +1,118 @@
+import { beforeAll, expect, test } from 'bun:test'
+import { DOMParser as LinkedomDOMParser } from 'linkedom'
+import { readEpub, resolveEpubPath } from './epub'
+
+beforeAll(() => {
+  globalThis.DOMParser ??= LinkedomDOMParser as unknown as typeof DOMParser
+})
+
+function pageXhtml(imageHref: string, useSvg = false): string {
+  const body = useSvg
+    ? `<svg xmlns="http://www.w3.org/2000/svg"><image xlink:href="${imageHref}"/></svg>`
+    : `<img src="${imageHref}" alt=""/>`
+  return `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:xlink="http://www.w3.org/1999/xlink"><body>${body}</body></html>`
+}
+
+const files: Record<string, string> = {
+  'META-INF/container.xml': `<?xml version="1.0"?>
+<container xmlns="urn:oasis:names:tc:opendocument:xmlns:container" version="1.0">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`,
+  'OEBPS/content.opf': `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Volume 3</dc:title>
+    <dc:creator>Mangaka</dc:creator>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="cover" href="images/cover.jpg" media-type="image/jpeg" properties="cover-image"/>
+    <item id="p1" href="text/p1.xhtml" media-type="application/xhtml+xml"/>
+    <item id="credits" href="text/credits.xhtml" media-type="application/xhtml+xml"/>
+    <item id="p2" href="text/p2.xhtml" media-type="application/xhtml+xml"/>
+    <item id="p3" href="text/p3.xhtml" media-type="application/xhtml+xml"/>
+  </manifest>
+  <spine>
+    <itemref idref="p1"/>
+    <itemref idref="credits"/>
+    <itemref idref="p2"/>
+    <itemref idref="p3"/>
+  </spine>
+</package>`,
+  'OEBPS/nav.xhtml': `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>
+  <nav epub:type="toc"><ol>
+    <li><a href="text/p1.xhtml">Cover</a></li>
+    <li><a href="text/credits.xhtml#top">Chapter 1</a></li>
+  </ol></nav>
+</body></html>`,
+  'OEBPS/text/p1.xhtml': pageXhtml('../images/cover.jpg', true),
+  'OEBPS/text/credits.xhtml': '<html xmlns="http://www.w3.org/1999/xhtml"><body><p>Credits</p></body></html>',
+  'OEBPS/text/p2.xhtml': pageXhtml('../images/page%20002.jpg'),
+  'OEBPS/text/p3.xhtml': pageXhtml('../images/003.jpg'),
+}
+
+const readText = async (path: string) => files[path] ?? null
+
+test('resolves hrefs relative to the referencing file', () => {
+  expect(resolveEpubPath('OEBPS/text/p1.xhtml', '../images/a%20b.jpg#x')).toBe('OEBPS/images/a b.jpg')
+  expect(resolveEpubPath('content.opf', 'images/1.png')).toBe('images/1.png')
+})
+
+test('reads image pages in spine order with OPF metadata and nav TOC', async () => {
+  const { pages, metadata } = await readEpub(readText)
+
+  expect(pages).toEqual([
+    { path: 'OEBPS/images/cover.jpg', originalPage: 1 },
+    { path: 'OEBPS/images/page 002.jpg', originalPage: 2 },
+    { path: 'OEBPS/images/003.jpg', originalPage: 3 },
+  ])
+  expect(metadata.title).toBe('Volume 3')
+  expect(metadata.author).toBe('Mangaka')
+  expect(metadata.coverImagePath).toBe('OEBPS/images/cover.jpg')
+  // The text-only credits page anchors "Chapter 1" to the next image page.
+  expect(metadata.toc).toEqual([
+    { title: 'Cover', startPage: 1, endPage: 1 },
+    { title: 'Chapter 1', startPage: 2, endPage: 3 },
+  ])
+})
+
+test('falls back to the NCX when there is no nav document', async () => {
+  const ncxFiles: Record<string, string> = {
+    ...files,
+    'OEBPS/content.opf': files['OEBPS/content.opf']
+      .replace('<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+        '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>')
+      .replace('<spine>', '<spine toc="ncx">'),
+    'OEBPS/toc.ncx': `<?xml version="1.0"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1"><navMap>
+  <navPoint id="n1"><navLabel><text>Start</text></navLabel><content src="text/p3.xhtml"/></navPoint>
+</navMap></ncx>`,
+  }
+
+  const { metadata } = await readEpub(async (path) => ncxFiles[path] ?? null)
+  expect(metadata.toc).toEqual([{ title: 'Start', startPage: 3, endPage: 3 }])
+})
+
+test('keeps nested nav entries as sub-chapters', async () => {
+  const nestedFiles: Record<string, string> = {
+    ...files,
+    'OEBPS/nav.xhtml': `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>
+  <nav epub:type="toc"><ol>
+    <li><a href="text/p1.xhtml">Volume 1</a><ol>
+      <li><a href="text/p2.xhtml">Chapter 1</a></li>
+      <li><a href="text/p3.xhtml">Chapter 2</a></li>
+    </ol></li>
+  </ol></nav>
+</body></html>`,
+  }
+
+  const { metadata } = await readEpub(async (path) => nestedFiles[path] ?? null)
+  expect(metadata.toc).toEqual([
+    { title: 'Volume 1', startPage: 1, endPage: 3 },
+    { title: 'Chapter 1', startPage: 2, endPage: 2, level: 1 },
+    { title: 'Chapter 2', startPage: 3, endPage: 3, level: 1 },
+  ])
+})
@@ -0,0 +1,291 @@
+// EPUB reading for fixed-layout and image-based books
+//
+// Pages come from the OPF spine in reading order. Each spine item is either an
+// image or an XHTML wrapper around one (<img> or SVG <image>); text-only items
+// are skipped. Title, creator, cover and nav/NCX TOC go into BookMetadata.
+// The package-level parsing is shared with the reflowable text converter.
+
+import type { BookMetadata, TocEntry } from '../metadata/types'
+import { createTocEntry, fillTocEndPages, getTocLevel } from '../metadata/toc'
+
+export interface EpubImagePage {
+  path: string
+  originalPage: number
+}
+
+export interface EpubBook {
+  pages: EpubImagePage[]
+  metadata: BookMetadata
+}
+
+export interface EpubManifestItem {
+  id: string
+  path: string
+  mediaType: string
+  properties: string[]
+}
+
+/** A nav/NCX entry pointing at a spine document (fragment removed). */
+export interface EpubTocLink {
+  title: string
+  path: string
+  /** Nesting depth in the nav list or NCX, 0 for top-level entries */
+  level: number
+}
+
+export interface EpubPackage {
+  spine: EpubManifestItem[]
+  /** Title, author and cover hint; the TOC is left to the caller. */
+  metadata: BookMetadata
+  tocLinks: EpubTocLink[]
+}
+
+/** Reads a text file from the EPUB container by its full path, or null if missing. */
+export type EpubTextReader = (path: string) => Promise<string | null>
+
+const IMAGE_MEDIA_TYPE = /^image\//i
+const DOCUMENT_MEDIA_TYPE = /^(application\/xhtml\+xml|text\/html|image\/svg\+xml)$/i
+
+export function isEpubDocument(item: EpubManifestItem): boolean {
+  return DOCUMENT_MEDIA_TYPE.test(item.mediaType) && item.mediaType !== 'image/svg+xml'
+}
+
+export function parseXml(content: string, mimeType: DOMParserSupportedType = 'application/xhtml+xml'): Document {
+  return new DOMParser().parseFromString(content, mimeType)
+}
+
+// Match on the unprefixed tag name so `dc:title`, `opf:item` and `item` all work.
+export function findElements(root: Document | Element, localName: string): Element[] {
+  return Array.from(root.querySelectorAll('*')).filter((el) => {
+    const tagName = el.tagName
+    return tagName.slice(tagName.lastIndexOf(':') + 1).toLowerCase() === localName
+  })
+}
+
+function findText(root: Document | Element, localName: string): string | undefined {
+  for (const el of findElements(root, localName)) {
+    const text = el.textContent?.trim()
+    if (text) return text
+  }
+  return undefined
+}
+
+function stripFragment(href: string): string {
+  const hashIndex = href.indexOf('#')
+  return hashIndex < 0 ? href : href.slice(0, hashIndex)
+}
+
+/**
+ * Resolve an href relative to the file it appears in, returning a container path.
+ */
+export function resolveEpubPath(basePath: string, href: string): string {
+  let decoded = stripFragment(href)
+  try {
+    decoded = decodeURIComponent(decoded)
+  } catch {
+    // Keep the raw href when it isn't valid percent-encoding.
+  }
+
+  const segments = decoded.startsWith('/')
+    ? []
+    : basePath.split('/').slice(0, -1)
+
+  for (const segment of decoded.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+
+  return segments.join('/')
+}
+
+function findPageImage(documentPath: string, content: string): string | null {
+  const doc = parseXml(content)
+
+  for (const el of [...findElements(doc, 'img'), ...findElements(doc, 'image')]) {
+    const href = el.getAttribute('src') || el.getAttribute('xlink:href') || el.getAttribute('href')
+    if (href) {
+      return resolveEpubPath(documentPath, href)
+    }
+  }
+
+  return null
+}
+
+// Number of `localName` elements between an element and `root`
+function countAncestors(el: Element, root: Element, localName: string): number {
+  let count = 0
+  for (let parent = el.parentElement; parent && parent !== root; parent = parent.parentElement) {
+    const tagName = parent.tagName
+    if (tagName.slice(tagName.lastIndexOf(':') + 1).toLowerCase() === localName) count++
+  }
+  return count
+}
+
+function parseNavToc(navPath: string, content: string): EpubTocLink[] {
+  const doc = parseXml(content)
+  const navs = findElements(doc, 'nav')
+  const tocNav = navs.find((nav) => (nav.getAttribute('epub:type') || nav.getAttribute('type') || '').split(/\s+/).includes('toc')) ?? navs[0]
+  if (!tocNav) return []
+
+  return findElements(tocNav, 'a')
+    .map((link) => ({
+      title: link.textContent?.replace(/\s+/g, ' ').trim() ?? '',
+      path: resolveEpubPath(navPath, link.getAttribute('href') ?? ''),
+      level: Math.max(0, countAncestors(link, tocNav, 'li') - 1)
+    }))
+    .filter((entry) => entry.title && entry.path)
+}
+
+function parseNcxToc(ncxPath: string, content: string): EpubTocLink[] {
+  const doc = parseXml(content, 'text/xml')
+
+  return findElements(doc, 'navpoint')
+    .map((navPoint) => {
+      const label = findElements(navPoint, 'navlabel')[0]
+      const src = findElements(navPoint, 'content')[0]?.getAttribute('src') ?? ''
+      return {
+        title: label ? findText(label, 'text') ?? '' : '',
+        path: resolveEpubPath(ncxPath, src),
+        level: countAncestors(navPoint, doc.documentElement, 'navpoint')
+      }
+    })
+    .filter((entry) => entry.title && entry.path)
+}
+
+function buildToc(
+  entries: EpubTocLink[],
+  pageBySpinePath: Map<string, number>,
+  totalPages: number
+): TocEntry[] {
+  const toc: TocEntry[] = []
+
+  for (const entry of entries) {
+    const startPage = pageBySpinePath.get(entry.path)
+    if (startPage === undefined) continue
+    // Several entries can point into the same page; keep the first at each
+    // level, so a volume and its first chapter both stay.
+    if (toc.some((existing) => existing.startPage === startPage && getTocLevel(existing) === entry.level)) continue
+    toc.push(createTocEntry(entry.title, startPage, startPage, entry.level))
+  }
+
+  toc.sort((a, b) => a.startPage - b.startPage)
+  fillTocEndPages(toc, totalPages)
+
+  return toc
+}
+
+function findCoverPath(opf: Document, manifest: Map<string, EpubManifestItem>): string | undefined {
+  for (const item of manifest.values()) {
+    if (item.properties.includes('cover-image')) return item.path
+  }
+
+  const coverMeta = findElements(opf, 'meta').find((meta) => meta.getAttribute('name') === 'cover')
+  const coverId = coverMeta?.getAttribute('content')
+  const coverItem = coverId ? manifest.get(coverId) : undefined
+  return coverItem && IMAGE_MEDIA_TYPE.test(coverItem.mediaType) ? coverItem.path : undefined
+}
+
+/**
+ * Read the OPF package: spine order, metadata and nav/NCX TOC links.
+ */
+export async function readEpubPackage(readText: EpubTextReader): Promise<EpubPackage> {
+  const container = await readText('META-INF/container.xml')
+  if (!container) {
+    throw new Error('Invalid EPUB: missing META-INF/container.xml')
+  }
+
+  const rootfile = findElements(parseXml(container, 'text/xml'), 'rootfile')[0]
+  const opfPath = rootfile?.getAttribute('full-path')
+  const opfContent = opfPath ? await readText(opfPath) : null
+  if (!opfPath || !opfContent) {
+    throw new Error('Invalid EPUB: package document not found')
+  }
+
+  const opf = parseXml(opfContent, 'text/xml')
+  const manifest = new Map<string, EpubManifestItem>()
+  for (const item of findElements(opf, 'item')) {
+    const id = item.getAttribute('id')
+    const href = item.getAttribute('href')
+    if (!id || !href) continue
+    manifest.set(id, {
+      id,
+      path: resolveEpubPath(opfPath, href),
+      mediaType: item.getAttribute('media-type') ?? '',
+      properties: (item.getAttribute('properties') ?? '').split(/\s+/).filter(Boolean)
+    })
+  }
+
+  const spine: EpubManifestItem[] = []
+  for (const itemref of findElements(opf, 'itemref')) {
+    const item = manifest.get(itemref.getAttribute('idref') ?? '')
+    if (item) spine.push(item)
+  }
+
+  const metadata: BookMetadata = { toc: [] }
+  const title = findText(opf, 'title')
+  const author = findText(opf, 'creator')
+  if (title) metadata.title = title
+  if (author) metadata.author = author
+
+  const coverPath = findCoverPath(opf, manifest)
+  if (coverPath) metadata.coverImagePath = coverPath
+
+  let tocLinks: EpubTocLink[] = []
+  const navItem = Array.from(manifest.values()).find((item) => item.properties.includes('nav'))
+  const navContent = navItem ? await readText(navItem.path) : null
+  if (navItem && navContent) {
+    tocLinks = parseNavToc(navItem.path, navContent)
+  }
+  if (tocLinks.length === 0) {
+    const spineEl = findElements(opf, 'spine')[0]
+    const ncxItem = manifest.get(spineEl?.getAttribute('toc') ?? '') ??
+      Array.from(manifest.values()).find((item) => item.mediaType === 'application/x-dtbncx+xml')
+    const ncxContent = ncxItem ? await readText(ncxItem.path) : null
+    if (ncxItem && ncxContent) {
+      tocLinks = parseNcxToc(ncxItem.path, ncxContent)
+    }
+  }
+
+  return { spine, metadata, tocLinks }
+}
+
+/**
+ * Read the spine, image pages and metadata of an EPUB.
+ */
+export async function readEpub(readText: EpubTextReader): Promise<EpubBook> {
+  const { spine, metadata, tocLinks } = await readEpubPackage(readText)
+  const pages: EpubImagePage[] = []
+  const pageBySpinePath = new Map<string, number>()
+
+  for (const item of spine) {
+    let imagePath: string | null = null
+    if (IMAGE_MEDIA_TYPE.test(item.mediaType) && item.mediaType !== 'image/svg+xml') {
+      imagePath = item.path
+    } else if (DOCUMENT_MEDIA_TYPE.test(item.mediaType)) {
+      const content = await readText(item.path)
+      imagePath = content ? findPageImage(item.path, content) : null
+    }
+
+    // Text-only spine items still anchor TOC entries to the next image page.
+    pageBySpinePath.set(item.path, pages.length + 1)
+    if (imagePath) {
+      pages.push({ path: imagePath, originalPage: pages.length + 1 })
+    }
+  }
+
+  if (pages.length === 0) {
+    throw new Error('No images found in EPUB')
+  }
+
+  // Clamp TOC anchors that fall after the last image page
+  for (const [path, page] of pageBySpinePath) {
+    if (page > pages.length) pageBySpinePath.set(path, pages.length)
+  }
+  metadata.toc = buildToc(tocLinks, pageBySpinePath, pages.length)
+
+  return { pages, metadata }
+}
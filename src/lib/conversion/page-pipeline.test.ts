@@ -0,0 +1,12 @@
+import { expect, test } from 'bun:test'
+import { getDefaultConversionOptions } from './defaults'
+import { getPdfRenderScale } from './page-pipeline'
+
+test('derives the PDF render scale from the target screen', () => {
+  const options = getDefaultConversionOptions('pdf')
+
+  expect(getPdfRenderScale(595, 842, options)).toBeCloseTo(2, 1)
+  expect(getPdfRenderScale(842, 595, options)).toBeCloseTo(2, 1)
+  expect(getPdfRenderScale(595, 842, { ...options, device: 'custom', customWidth: 1072, customHeight: 1448 }))
+    .toBeCloseTo(3.65, 2)
+})
@@ -0,0 +1,891 @@
+// Page processing pipeline shared by the conversion worker, the main-thread
+// fallback and headless runtimes. Everything here only relies on OffscreenCanvas,
+// so it runs unchanged in a Web Worker, on the page, or anywhere an
+// OffscreenCanvas-compatible global is installed.
+
+import { applyDescreen } from '../processing/descreen'
+import { applyDithering } from '../processing/dithering'
+import { detectPanels } from '../processing/panels'
+import {
+  applyContrast,
+  applyDeskew,
+  applyDespeckle,
+  calculateFourWaySegments,
+  calculateOverlapSegments,
+  calculateSpreadHalves,
+  calculateSplitSegments,
+  findContentBounds,
+  isSpreadPage,
+  shouldSplitPage,
+  toGrayscale,
+  usesSpreadPolicy
+} from '../processing/image'
+import { findGutterRows, planStripPages } from '../processing/strip'
+import {
+  combineBookCropBounds,
+  findPageContentBounds,
+  getBookCropSampleIndices,
+  resolveAutoCrop,
+  toRelativeCropBounds,
+  type RelativeCropBounds
+} from '../processing/autocrop'
+import { imageDataToXtg, imageDataToXth } from '../processing/xtg'
+import { DEFAULT_DEVICE_PROFILE, getDeviceProfile } from './devices'
+import type { ConversionOptions, ReadingDirection } from './types'
+
+interface CropRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PipelinePageResult {
+  name: string
+  xtg: ArrayBuffer
+  previewJpeg?: ArrayBuffer
+  /** Preview of the same page without descreening, for comparison */
+  beforePreviewJpeg?: ArrayBuffer
+}
+
+const PREVIEW_WIDTH = 240
+const PREVIEW_HEIGHT = 400
+const PREVIEW_JPEG_QUALITY = 0.55
+const PDF_RENDER_OVERSAMPLE = 1.5
+
+function getPageName(pageNum: number, suffix: string): string {
+  return `${String(pageNum).padStart(4, '0')}_${suffix}.png`
+}
+
+// 'auto' that ComicInfo didn't settle reads left to right
+function getReadingDirection(options: ConversionOptions): ReadingDirection {
+  return options.readingDirection === 'rtl' ? 'rtl' : 'ltr'
+}
+
+function getTargetDimensions(options: ConversionOptions): { width: number; height: number } {
+  const { width, height } = getDeviceProfile(options)
+  return { width, height }
+}
+
+/**
+ * pdf.js scale that renders a page's short side at 1.5x the device's long
+ * side, leaving detail for margin crops and landscape splits. On an X4 this
+ * is close to 2x for A4 and Letter pages.
+ */
+export function getPdfRenderScale(pageWidth: number, pageHeight: number, options: ConversionOptions): number {
+  const { width, height } = getTargetDimensions(options)
+  return PDF_RENDER_OVERSAMPLE * Math.max(width, height) / Math.min(pageWidth, pageHeight)
+}
+
+function clampMarginPercent(value: number): number {
+  if (!Number.isFinite(value)) return 0
+  return Math.max(0, Math.min(20, value))
+}
+
+function getAxisCropRect(
+  sourceWidth: number,
+  sourceHeight: number,
+  options: ConversionOptions
+): CropRect {
+  const horizontalMargin = clampMarginPercent(options.horizontalMargin)
+  const verticalMargin = clampMarginPercent(options.verticalMargin)
+
+  const maxCropX = Math.floor((sourceWidth - 1) / 2)
+  const maxCropY = Math.floor((sourceHeight - 1) / 2)
+
+  const cropX = Math.min(Math.floor(sourceWidth * horizontalMargin / 100), maxCropX)
+  const cropY = Math.min(Math.floor(sourceHeight * verticalMargin / 100), maxCropY)
+
+  return {
+    x: cropX,
+    y: cropY,
+    width: Math.max(1, sourceWidth - cropX * 2),
+    height: Math.max(1, sourceHeight - cropY * 2)
+  }
+}
+
+function asCanvas2d(ctx: OffscreenCanvasRenderingContext2D): CanvasRenderingContext2D {
+  return ctx as unknown as CanvasRenderingContext2D
+}
+
+function rotateCanvas(canvas: OffscreenCanvas, degrees: number): OffscreenCanvas {
+  const rotated = degrees === -90 || degrees === 90
+    ? new OffscreenCanvas(canvas.height, canvas.width)
+    : new OffscreenCanvas(canvas.width, canvas.height)
+
+  const ctx = rotated.getContext('2d', { alpha: false })!
+  ctx.translate(rotated.width / 2, rotated.height / 2)
+  ctx.rotate(degrees * Math.PI / 180)
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2)
+  return rotated
+}
+
+function extractAndRotate(
+  source: OffscreenCanvas,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  degrees = 90
+): OffscreenCanvas {
+  const extract = new OffscreenCanvas(w, h)
+  const ctx = extract.getContext('2d', { alpha: false })!
+  ctx.drawImage(source, x, y, w, h, 0, 0, w, h)
+  return rotateCanvas(extract, degrees)
+}
+
+function extractRegion(
+  source: OffscreenCanvas,
+  x: number,
+  y: number,
+  w: number,
+  h: number
+): OffscreenCanvas {
+  const extract = new OffscreenCanvas(w, h)
+  const ctx = extract.getContext('2d', { alpha: false })!
+  ctx.drawImage(source, x, y, w, h, 0, 0, w, h)
+  return extract
+}
+
+function trimCanvasToContent(canvas: OffscreenCanvas): OffscreenCanvas {
+  const ctx = canvas.getContext('2d', { alpha: false })
+  if (!ctx) return canvas
+
+  const bounds = findContentBounds(ctx.getImageData(0, 0, canvas.width, canvas.height))
+  if (!bounds) return canvas
+  if (bounds.width === canvas.width && bounds.height === canvas.height && bounds.x === 0 && bounds.y === 0) {
+    return canvas
+  }
+
+  return extractRegion(canvas, bounds.x, bounds.y, bounds.width, bounds.height)
+}
+
+function resizeWithPadding(
+  canvas: OffscreenCanvas,
+  padColor = 255,
+  targetWidth: number = DEFAULT_DEVICE_PROFILE.width,
+  targetHeight: number = DEFAULT_DEVICE_PROFILE.height
+): OffscreenCanvas {
+  const result = new OffscreenCanvas(targetWidth, targetHeight)
+  const ctx = result.getContext('2d', { alpha: false })!
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+  ctx.fillStyle = `rgb(${padColor}, ${padColor}, ${padColor})`
+  ctx.fillRect(0, 0, targetWidth, targetHeight)
+
+  const scale = Math.min(targetWidth / canvas.width, targetHeight / canvas.height)
+  const newWidth = Math.floor(canvas.width * scale)
+  const newHeight = Math.floor(canvas.height * scale)
+  const x = Math.floor((targetWidth - newWidth) / 2)
+  const y = Math.floor((targetHeight - newHeight) / 2)
+  ctx.drawImage(canvas, 0, 0, canvas.width, canvas.height, x, y, newWidth, newHeight)
+  return result
+}
+
+function applyImageMode(
+  sourceCanvas: OffscreenCanvas,
+  targetWidth: number,
+  targetHeight: number,
+  imageMode: ConversionOptions['imageMode'],
+  padColor = 255
+): OffscreenCanvas {
+  if (imageMode === 'letterbox') {
+    return resizeWithPadding(sourceCanvas, padColor, targetWidth, targetHeight)
+  }
+
+  const result = new OffscreenCanvas(targetWidth, targetHeight)
+  const ctx = result.getContext('2d', { alpha: false })!
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+
+  if (imageMode === 'fill') {
+    ctx.drawImage(sourceCanvas, 0, 0, targetWidth, targetHeight)
+    return result
+  }
+
+  if (imageMode === 'crop') {
+    const sourceAspect = sourceCanvas.width / sourceCanvas.height
+    const targetAspect = targetWidth / targetHeight
+    let sx = 0
+    let sy = 0
+    let sw = sourceCanvas.width
+    let sh = sourceCanvas.height
+
+    if (sourceAspect > targetAspect) {
+      sw = Math.round(sourceCanvas.height * targetAspect)
+      sx = Math.floor((sourceCanvas.width - sw) / 2)
+    } else if (sourceAspect < targetAspect) {
+      sh = Math.round(sourceCanvas.width / targetAspect)
+      sy = Math.floor((sourceCanvas.height - sh) / 2)
+    }
+
+    ctx.drawImage(sourceCanvas, sx, sy, sw, sh, 0, 0, targetWidth, targetHeight)
+    return result
+  }
+
+  // cover: fill frame and crop overflow
+  const scale = Math.max(targetWidth / sourceCanvas.width, targetHeight / sourceCanvas.height)
+  const drawWidth = Math.round(sourceCanvas.width * scale)
+  const drawHeight = Math.round(sourceCanvas.height * scale)
+  const dx = Math.floor((targetWidth - drawWidth) / 2)
+  const dy = Math.floor((targetHeight - drawHeight) / 2)
+  ctx.drawImage(sourceCanvas, dx, dy, drawWidth, drawHeight)
+  return result
+}
+
+async function buildWorkerPage(
+  name: string,
+  canvas: OffscreenCanvas,
+  includePreview: boolean,
+  targetWidth: number,
+  targetHeight: number,
+  is2bit = false
+): Promise<PipelinePageResult> {
+  const ctx = canvas.getContext('2d', { alpha: false })!
+  const imageData = ctx.getImageData(0, 0, targetWidth, targetHeight)
+  const xtg = is2bit ? imageDataToXth(imageData) : imageDataToXtg(imageData)
+
+  if (!includePreview) {
+    return { name, xtg }
+  }
+
+  const previewCanvas = new OffscreenCanvas(PREVIEW_WIDTH, PREVIEW_HEIGHT)
+  const previewCtx = previewCanvas.getContext('2d', { alpha: false })!
+  previewCtx.fillStyle = 'rgb(255,255,255)'
+  previewCtx.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT)
+  previewCtx.drawImage(canvas, 0, 0, targetWidth, targetHeight, 0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT)
+  const previewBlob = await previewCanvas.convertToBlob({
+    type: 'image/jpeg',
+    quality: PREVIEW_JPEG_QUALITY
+  })
+
+  return {
+    name,
+    xtg,
+    previewJpeg: await previewBlob.arrayBuffer()
+  }
+}
+
+async function buildOverviewWorkerPage(
+  baseCanvas: OffscreenCanvas,
+  pageNum: number,
+  options: ConversionOptions,
+  landscapeRotation: number,
+  includePreview: boolean,
+  targetWidth: number,
+  targetHeight: number,
+  namePrefix = ''
+): Promise<PipelinePageResult> {
+  const overviewCanvas = options.pageOverview === 'portrait'
+    ? resizeWithPadding(baseCanvas, 255, targetWidth, targetHeight)
+    : resizeWithPadding(rotateCanvas(baseCanvas, landscapeRotation), 255, targetWidth, targetHeight)
+
+  applyDithering(
+    asCanvas2d(overviewCanvas.getContext('2d', { alpha: false })!),
+    targetWidth,
+    targetHeight,
+    options.dithering,
+    options.is2bit,
+    options
+  )
+
+  // Right-to-left books show the overview after the split pages
+  const overviewOrder = options.readingDirection === 'rtl' ? 9 : 1
+
+  return buildWorkerPage(
+    getPageName(pageNum, `${namePrefix}${overviewOrder}_overview_${options.pageOverview}`),
+    overviewCanvas,
+    includePreview,
+    targetWidth,
+    targetHeight,
+    options.is2bit
+  )
+}
+
+export type PageSource = ImageBitmap | OffscreenCanvas
+
+// Pages are measured for a book-wide crop at this width; fine detail doesn't matter
+const BOOK_CROP_SAMPLE_WIDTH = 400
+
+/**
+ * Measure one content crop for a whole book from a sample of its pages.
+ * Bounds are relative to the page after the margin crop, like the per-page crop.
+ */
+async function measureBookCrop(
+  pageCount: number,
+  loadPage: (index: number) => Promise<PageSource>,
+  options: ConversionOptions
+): Promise<RelativeCropBounds | null> {
+  const measured: RelativeCropBounds[] = []
+
+  for (const index of getBookCropSampleIndices(pageCount)) {
+    const source = await loadPage(index)
+    try {
+      const crop = getAxisCropRect(source.width, source.height, options)
+      const scale = Math.min(1, BOOK_CROP_SAMPLE_WIDTH / crop.width)
+      const width = Math.max(1, Math.round(crop.width * scale))
+      const height = Math.max(1, Math.round(crop.height * scale))
+
+      const canvas = new OffscreenCanvas(width, height)
+      const ctx = canvas.getContext('2d', { alpha: false })!
+      ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height)
+
+      const bounds = findPageContentBounds(ctx.getImageData(0, 0, width, height))
+      if (bounds) {
+        measured.push(toRelativeCropBounds(bounds, width, height))
+      }
+    } finally {
+      if ('close' in source) source.close()
+    }
+  }
+
+  return combineBookCropBounds(measured)
+}
+
+/**
+ * With auto-crop in 'book' mode, measure the book-wide crop up front and
+ * return page options that carry it. Otherwise the options are unchanged.
+ */
+export async function resolveBookCropOptions(
+  pageCount: number,
+  loadPage: (index: number) => Promise<PageSource>,
+  getPageOptions: (index: number) => ConversionOptions
+): Promise<(index: number) => ConversionOptions> {
+  if (pageCount === 0) return getPageOptions
+  const options = getPageOptions(pageCount - 1)
+  if (options.autoCrop !== 'book') return getPageOptions
+
+  const autoCropBounds = await measureBookCrop(pageCount, loadPage, options)
+  if (!autoCropBounds) return getPageOptions
+  return (index) => ({ ...getPageOptions(index), autoCropBounds })
+}
+
+/**
+ * Run one decoded source page through crop, contrast, split, dithering and XTG/XTH encoding.
+ */
+export async function processBitmap(
+  source: PageSource,
+  pageNum: number,
+  options: ConversionOptions,
+  includePreview: boolean
+): Promise<PipelinePageResult[]> {
+  const results = await processSourcePage(source, pageNum, options, includePreview)
+
+  // With descreening on, the progress preview also shows the page without it
+  const previewPage = results.find((page) => page.previewJpeg)
+  if (previewPage && options.descreen && options.showProgressPreview) {
+    const before = await processSourcePage(source, pageNum, { ...options, descreen: false }, true)
+    previewPage.beforePreviewJpeg = before.find((page) => page.previewJpeg)?.previewJpeg
+  }
+  return results
+}
+
+async function processSourcePage(
+  source: PageSource,
+  pageNum: number,
+  options: ConversionOptions,
+  includePreview: boolean
+): Promise<PipelinePageResult[]> {
+  let crop = getAxisCropRect(source.width, source.height, options)
+
+  const baseCanvas = new OffscreenCanvas(crop.width, crop.height)
+  const baseCtx = baseCanvas.getContext('2d', { alpha: false })!
+  baseCtx.drawImage(
+    source,
+    crop.x, crop.y,
+    crop.width, crop.height,
+    0, 0,
+    crop.width, crop.height
+  )
+
+  const contentCrop = resolveAutoCrop(options.autoCrop, options.autoCropBounds, crop.width, crop.height,
+    () => baseCtx.getImageData(0, 0, crop.width, crop.height))
+  if (contentCrop) {
+    crop = { x: crop.x + contentCrop.x, y: crop.y + contentCrop.y, width: contentCrop.width, height: contentCrop.height }
+    baseCanvas.width = crop.width
+    baseCanvas.height = crop.height
+    baseCtx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height)
+  }
+
+  const width = crop.width
+  const height = crop.height
+
+  if (options.contrast > 0) {
+    applyContrast(asCanvas2d(baseCtx), width, height, options.contrast)
+  }
+
+  toGrayscale(asCanvas2d(baseCtx), width, height)
+
+  if (options.descreen) {
+    applyDescreen(asCanvas2d(baseCtx), width, height)
+  }
+  if (options.deskew) {
+    applyDeskew(asCanvas2d(baseCtx), width, height)
+  }
+  if (options.despeckle) {
+    applyDespeckle(asCanvas2d(baseCtx), width, height)
+  }
+
+  if (usesSpreadPolicy(options.splitMode, options.spreadPolicy) &&
+      isSpreadPage(width, height, () => baseCtx.getImageData(0, 0, width, height))) {
+    return layoutSpread(baseCanvas, pageNum, options, includePreview)
+  }
+  return layoutPage(baseCanvas, pageNum, options, includePreview)
+}
+
+/**
+ * Lay out a two-page spread by the spread policy: the whole spread turned
+ * sideways, its halves as single pages in reading order, or both.
+ */
+async function layoutSpread(
+  baseCanvas: OffscreenCanvas,
+  pageNum: number,
+  options: ConversionOptions,
+  includePreview: boolean
+): Promise<PipelinePageResult[]> {
+  const { width: targetWidth, height: targetHeight } = getTargetDimensions(options)
+  const { width, height } = baseCanvas
+  const results: PipelinePageResult[] = []
+
+  if (options.spreadPolicy !== 'split') {
+    const rotatedCanvas = rotateCanvas(baseCanvas, options.landscapeFlipClockwise ? -90 : 90)
+    const finalCanvas = resizeWithPadding(rotatedCanvas, 255, targetWidth, targetHeight)
+    applyDithering(
+      asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
+      targetWidth,
+      targetHeight,
+      options.dithering,
+      options.is2bit,
+      options
+    )
+    results.push(await buildWorkerPage(
+      getPageName(pageNum, '0_spread'),
+      finalCanvas,
+      includePreview,
+      targetWidth,
+      targetHeight,
+      options.is2bit
+    ))
+  }
+
+  if (options.spreadPolicy !== 'rotate') {
+    const halves = calculateSpreadHalves(width, height, getReadingDirection(options))
+    for (let idx = 0; idx < halves.length; idx++) {
+      const half = halves[idx]
+      const letter = String.fromCharCode(97 + idx)
+      const halfCanvas = extractRegion(baseCanvas, half.x, half.y, half.w, half.h)
+      results.push(...await layoutPage(
+        halfCanvas,
+        pageNum,
+        options,
+        includePreview && results.length === 0,
+        `spread_${letter}_`
+      ))
+    }
+  }
+
+  return results
+}
+
+/**
+ * Split, rotate, dither and encode a prepared grayscale page. `namePrefix`
+ * keeps the pages cut from each half of a spread together.
+ */
+async function layoutPage(
+  baseCanvas: OffscreenCanvas,
+  pageNum: number,
+  options: ConversionOptions,
+  includePreview: boolean,
+  namePrefix = ''
+): Promise<PipelinePageResult[]> {
+  const { width: targetWidth, height: targetHeight } = getTargetDimensions(options)
+  const { width, height } = baseCanvas
+  const baseCtx = baseCanvas.getContext('2d', { alpha: false })!
+  const results: PipelinePageResult[] = []
+
+  const shouldSplit = shouldSplitPage(width, height, options.orientation, options.splitMode)
+
+  if (options.orientation === 'portrait' && !shouldSplit) {
+    const finalCanvas = applyImageMode(baseCanvas, targetWidth, targetHeight, options.imageMode, 255)
+    applyDithering(
+      asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
+      targetWidth,
+      targetHeight,
+      options.dithering,
+      options.is2bit,
+      options
+    )
+    results.push(await buildWorkerPage(
+      getPageName(pageNum, `${namePrefix}0_page`),
+      finalCanvas,
+      includePreview,
+      targetWidth,
+      targetHeight,
+      options.is2bit
+    ))
+    return results
+  }
+
+  const landscapeRotation = options.landscapeFlipClockwise ? -90 : 90
+  let previewAssigned = false
+
+  if (shouldSplit) {
+    const panels = options.splitMode === 'panels'
+      ? detectPanels(baseCtx.getImageData(0, 0, width, height), getReadingDirection(options))
+      : []
+    const showOverview = options.splitMode === 'panels'
+      ? panels.length > 0
+      : options.orientation === 'landscape'
+
+    if (showOverview && options.pageOverview !== 'none') {
+      results.push(await buildOverviewWorkerPage(
+        baseCanvas,
+        pageNum,
+        options,
+        landscapeRotation,
+        includePreview && !previewAssigned,
+        targetWidth,
+        targetHeight,
+        namePrefix
+      ))
+      previewAssigned = true
+    }
+
+    if (options.splitMode === 'overlap') {
+      const segments = calculateOverlapSegments(width, height)
+      for (let idx = 0; idx < segments.length; idx++) {
+        const seg = segments[idx]
+        const letter = String.fromCharCode(97 + idx)
+        const pageCanvas = extractAndRotate(baseCanvas, seg.x, seg.y, seg.w, seg.h, landscapeRotation)
+        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
+        applyDithering(
+          asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
+          targetWidth,
+          targetHeight,
+          options.dithering,
+          options.is2bit,
+          options
+        )
+
+        results.push(await buildWorkerPage(
+          getPageName(pageNum, `${namePrefix}3_${letter}`),
+          finalCanvas,
+          includePreview && !previewAssigned,
+          targetWidth,
+          targetHeight,
+          options.is2bit
+        ))
+        previewAssigned = true
+      }
+    } else if (options.splitMode === 'panels') {
+      // Pages without distinct panels are kept whole
+      const regions = panels.length > 0 ? panels : [{ x: 0, y: 0, w: width, h: height }]
+      for (let idx = 0; idx < regions.length; idx++) {
+        const panel = regions[idx]
+        const panelCanvas = extractRegion(baseCanvas, panel.x, panel.y, panel.w, panel.h)
+        const pageCanvas = options.orientation === 'portrait'
+          ? panelCanvas
+          : rotateCanvas(panelCanvas, landscapeRotation)
+        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
+        applyDithering(
+          asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
+          targetWidth,
+          targetHeight,
+          options.dithering,
+          options.is2bit,
+          options
+        )
+
+        results.push(await buildWorkerPage(
+          getPageName(pageNum, `${namePrefix}6_${String(idx).padStart(3, '0')}`),
+          finalCanvas,
+          includePreview && !previewAssigned,
+          targetWidth,
+          targetHeight,
+          options.is2bit
+        ))
+        previewAssigned = true
+      }
+    } else if (options.splitMode === 'fourway') {
+      const segments = calculateFourWaySegments(width, height, getReadingDirection(options))
+      for (let idx = 0; idx < segments.length; idx++) {
+        const seg = segments[idx]
+        const letter = String.fromCharCode(97 + idx)
+        const segmentCanvas = extractRegion(baseCanvas, seg.x, seg.y, seg.w, seg.h)
+        const trimmedSegment = trimCanvasToContent(segmentCanvas)
+        const pageCanvas = options.orientation === 'portrait'
+          ? trimmedSegment
+          : rotateCanvas(trimmedSegment, landscapeRotation)
+        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
+        applyDithering(
+          asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
+          targetWidth,
+          targetHeight,
+          options.dithering,
+          options.is2bit,
+          options
+        )
+
+        results.push(await buildWorkerPage(
+          getPageName(pageNum, `${namePrefix}4_${letter}`),
+          finalCanvas,
+          includePreview && !previewAssigned,
+          targetWidth,
+          targetHeight,
+          options.is2bit
+        ))
+        previewAssigned = true
+      }
+    } else {
+      const halves = calculateSplitSegments(width, height, getReadingDirection(options))
+
+      for (let idx = 0; idx < halves.length; idx++) {
+        const half = halves[idx]
+        const letter = String.fromCharCode(97 + idx)
+        const halfCanvas = extractAndRotate(baseCanvas, half.x, half.y, half.w, half.h, landscapeRotation)
+        const finalCanvas = resizeWithPadding(halfCanvas, 255, targetWidth, targetHeight)
+        applyDithering(
+          asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
+          targetWidth,
+          targetHeight,
+          options.dithering,
+          options.is2bit,
+          options
+        )
+        results.push(await buildWorkerPage(
+          getPageName(pageNum, `${namePrefix}2_${letter}`),
+          finalCanvas,
+          includePreview && !previewAssigned,
+          targetWidth,
+          targetHeight,
+          options.is2bit
+        ))
+        previewAssigned = true
+      }
+    }
+  } else {
+    const rotatedCanvas = rotateCanvas(baseCanvas, landscapeRotation)
+    const finalCanvas = resizeWithPadding(rotatedCanvas, 255, targetWidth, targetHeight)
+    applyDithering(
+      asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
+      targetWidth,
+      targetHeight,
+      options.dithering,
+      options.is2bit,
+      options
+    )
+    results.push(await buildWorkerPage(
+      getPageName(pageNum, `${namePrefix}0_spread`),
+      finalCanvas,
+      includePreview,
+      targetWidth,
+      targetHeight,
+      options.is2bit
+    ))
+  }
+
+  return results
+}
+
+export interface StripSourceLayout {
+  /** XTC pages that start within this source image */
+  pageCount: number
+  /** The image starts part-way down a page begun by an earlier image */
+  continuesPreviousPage: boolean
+}
+
+interface StripSegment {
+  pageNum: number
+  start: number
+}
+
+/**
+ * Slices consecutive source images as one continuous webtoon strip.
+ *
+ * Images are scaled to the screen width and stitched vertically; pages are cut
+ * at whitespace gutters where possible (see ../processing/strip.ts). Images
+ * whose options don't use the 'strip' split mode (e.g. the cover) go through
+ * processBitmap as usual. Call finish() after the last image, and pass
+ * `startsChapter` so each chapter begins on a fresh page.
+ */
+export class StripSlicer {
+  private pending: OffscreenCanvas | null = null
+  private pendingOptions: ConversionOptions | null = null
+  private segments: StripSegment[] = []
+  private layouts = new Map<number, StripSourceLayout>()
+
+  async processPage(
+    source: PageSource,
+    pageNum: number,
+    options: ConversionOptions,
+    startsChapter: boolean,
+    includePreview: boolean
+  ): Promise<PipelinePageResult[]> {
+    if (options.splitMode !== 'strip') {
+      const flushed = await this.finish(includePreview)
+      const pages = await processBitmap(source, pageNum, options, includePreview && flushed.length === 0)
+      this.layouts.set(pageNum, { pageCount: pages.length, continuesPreviousPage: false })
+      return [...flushed, ...pages]
+    }
+
+    const flushed = startsChapter ? await this.finish(includePreview) : []
+    const image = this.prepareImage(source, options)
+    const previousHeight = this.pending?.height ?? 0
+    const strip = new OffscreenCanvas(image.width, previousHeight + image.height)
+    const stripCtx = strip.getContext('2d', { alpha: false })!
+    if (this.pending) {
+      stripCtx.drawImage(this.pending, 0, 0)
+    }
+    stripCtx.drawImage(image, 0, previousHeight)
+
+    this.pending = strip
+    this.pendingOptions = options
+    this.segments.push({ pageNum, start: previousHeight })
+
+    const pages = await this.slice(false, includePreview && flushed.length === 0)
+    return [...flushed, ...pages]
+  }
+
+  /**
+   * Emit the rest of the strip as a final, possibly short, page.
+   */
+  async finish(includePreview = false): Promise<PipelinePageResult[]> {
+    if (!this.pending) return []
+    const pages = await this.slice(true, includePreview)
+    this.pending = null
+    this.pendingOptions = null
+    this.segments = []
+    return pages
+  }
+
+  getSourceLayout(pageNum: number): StripSourceLayout {
+    return this.layouts.get(pageNum) ?? { pageCount: 0, continuesPreviousPage: false }
+  }
+
+  // Crop margins, scale to the page width, then apply contrast and grayscale
+  private prepareImage(source: PageSource, options: ConversionOptions): OffscreenCanvas {
+    const { width: viewWidth } = getStripViewDimensions(options)
+    const crop = getAxisCropRect(source.width, source.height, options)
+    const height = Math.max(1, Math.round(crop.height * viewWidth / crop.width))
+
+    const canvas = new OffscreenCanvas(viewWidth, height)
+    const ctx = canvas.getContext('2d', { alpha: false })!
+    ctx.imageSmoothingEnabled = true
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, viewWidth, height)
+
+    if (options.contrast > 0) {
+      applyContrast(asCanvas2d(ctx), viewWidth, height, options.contrast)
+    }
+    toGrayscale(asCanvas2d(ctx), viewWidth, height)
+    return canvas
+  }
+
+  private async slice(final: boolean, includePreview: boolean): Promise<PipelinePageResult[]> {
+    const strip = this.pending!
+    const options = this.pendingOptions!
+    const { height: viewHeight } = getStripViewDimensions(options)
+    const overlapRows = Math.round(viewHeight * clampStripOverlap(options.stripOverlap) / 100)
+    const stripCtx = strip.getContext('2d', { alpha: false })!
+    const gutterRows = findGutterRows(stripCtx.getImageData(0, 0, strip.width, strip.height))
+    const plan = planStripPages(gutterRows, viewHeight, overlapRows, final)
+
+    const results: PipelinePageResult[] = []
+    for (const page of plan.pages) {
+      const owner = this.claimPage(page.y, page.y + page.height)
+      const layout = this.layouts.get(owner)!
+      const name = getPageName(owner, `5_${String(layout.pageCount).padStart(4, '0')}`)
+      layout.pageCount++
+
+      results.push(await this.buildStripPage(strip, page.y, page.height, name, options, includePreview && results.length === 0))
+    }
+
+    // Images left without a layout were only whitespace; they map to the next page
+    if (!final && plan.consumed > 0) {
+      this.dropRows(plan.consumed)
+    }
+
+    return results
+  }
+
+  // Settle the layout of every image this page touches and return the image it starts in
+  private claimPage(top: number, bottom: number): number {
+    let owner = this.segments[0].pageNum
+    for (const segment of this.segments) {
+      if (segment.start <= top) {
+        owner = segment.pageNum
+        if (!this.layouts.has(segment.pageNum)) {
+          this.layouts.set(segment.pageNum, { pageCount: 0, continuesPreviousPage: false })
+        }
+      } else if (segment.start < bottom && !this.layouts.has(segment.pageNum)) {
+        this.layouts.set(segment.pageNum, { pageCount: 0, continuesPreviousPage: true })
+      }
+    }
+    return owner
+  }
+
+  private dropRows(rows: number): void {
+    const strip = this.pending!
+    const remaining = strip.height - rows
+    if (remaining <= 0) {
+      this.pending = null
+      this.segments = []
+      return
+    }
+
+    this.pending = extractRegion(strip, 0, rows, strip.width, remaining)
+    // Keep the image the remaining rows start in; earlier ones are settled
+    let firstKept = 0
+    this.segments.forEach((segment, index) => {
+      if (segment.start <= rows) firstKept = index
+    })
+    this.segments = this.segments.slice(firstKept).map((segment) => ({
+      pageNum: segment.pageNum,
+      start: Math.max(0, segment.start - rows)
+    }))
+  }
+
+  private async buildStripPage(
+    strip: OffscreenCanvas,
+    y: number,
+    height: number,
+    name: string,
+    options: ConversionOptions,
+    includePreview: boolean
+  ): Promise<PipelinePageResult> {
+    const { width: targetWidth, height: targetHeight } = getTargetDimensions(options)
+    const view = getStripViewDimensions(options)
+
+    // Short pages stay top-aligned so the strip reads continuously
+    let pageCanvas = new OffscreenCanvas(view.width, view.height)
+    const ctx = pageCanvas.getContext('2d', { alpha: false })!
+    ctx.fillStyle = 'rgb(255,255,255)'
+    ctx.fillRect(0, 0, view.width, view.height)
+    ctx.drawImage(strip, 0, y, strip.width, height, 0, 0, strip.width, height)
+
+    if (options.orientation === 'landscape') {
+      pageCanvas = rotateCanvas(pageCanvas, options.landscapeFlipClockwise ? -90 : 90)
+    }
+
+    applyDithering(
+      asCanvas2d(pageCanvas.getContext('2d', { alpha: false })!),
+      targetWidth,
+      targetHeight,
+      options.dithering,
+      options.is2bit,
+      options
+    )
+    return buildWorkerPage(name, pageCanvas, includePreview, targetWidth, targetHeight, options.is2bit)
+  }
+}
+
+function clampStripOverlap(value: number): number {
+  if (!Number.isFinite(value)) return 0
+  return Math.max(0, Math.min(20, value))
+}
+
+// The strip is read on the screen as held: landscape pages are rotated afterwards
+function getStripViewDimensions(options: ConversionOptions): { width: number; height: number } {
+  const { width, height } = getTargetDimensions(options)
+  return options.orientation === 'landscape' ? { width: height, height: width } : { width, height }
+}
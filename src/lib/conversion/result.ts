@@ -0,0 +1,44 @@
+// Final assembly of encoded pages into an XTC/XTCH conversion result
+
+import type { XtcWriter } from '../xtc-format'
+import { PageMappingContext, adjustTocForMapping } from '../page-mapping'
+import type { BookMetadata } from '../metadata/types'
+import { getDeviceProfile } from './devices'
+import type { ConversionOptions, ConversionResult } from './types'
+
+export interface EncodedPage {
+  name: string
+  xtg: ArrayBuffer
+}
+
+export async function finalizeConversionResult(
+  outputName: string,
+  pages: XtcWriter,
+  mappingCtx: PageMappingContext,
+  metadata: BookMetadata,
+  sampledPreviews: string[],
+  options: Pick<ConversionOptions, 'is2bit' | 'device' | 'customWidth' | 'customHeight' | 'tocNesting' | 'tocDepth'>
+): Promise<ConversionResult> {
+  const { is2bit } = options
+
+  if (metadata.toc.length > 0) {
+    metadata.toc = adjustTocForMapping(metadata.toc, mappingCtx)
+  }
+
+  const xtcData = pages.finish({
+    metadata,
+    is2bit,
+    device: getDeviceProfile(options),
+    tocNesting: options.tocNesting,
+    tocDepth: options.tocDepth
+  })
+
+  return {
+    name: is2bit ? outputName.replace(/\.xtc$/i, '.xtch') : outputName,
+    data: xtcData,
+    size: xtcData.size,
+    pageCount: pages.pageCount,
+    pageImages: sampledPreviews,
+    previewMode: 'sparse'
+  }
+}
@@ -0,0 +1,53 @@
+// 7-Zip extraction for CB7 archives using the 7z-wasm build of 7zz
+
+import SevenZip, { type SevenZipModule } from '7z-wasm'
+import type { ExtractedArchiveFile } from './archive'
+
+const ARCHIVE_PATH = '/input.7z'
+const OUTPUT_DIR = '/output'
+
+function collectFiles(sevenZip: SevenZipModule, dir: string, prefix: string, files: ExtractedArchiveFile[]): void {
+  for (const name of sevenZip.FS.readdir(dir)) {
+    if (name === '.' || name === '..') continue
+    const fullPath = `${dir}/${name}`
+    const path = prefix ? `${prefix}/${name}` : name
+    if (sevenZip.FS.isDir(sevenZip.FS.stat(fullPath).mode)) {
+      collectFiles(sevenZip, fullPath, path, files)
+    } else {
+      files.push({ path, data: sevenZip.FS.readFile(fullPath) })
+    }
+  }
+}
+
+/**
+ * Extract every file of a 7z archive in memory.
+ *
+ * Each call gets a fresh module instance so the extracted data is released
+ * with it once the caller is done.
+ */
+export async function extractSevenZip(data: Uint8Array, wasmBinary: ArrayBuffer): Promise<ExtractedArchiveFile[]> {
+  const errors: string[] = []
+  const sevenZip = await SevenZip({
+    wasmBinary,
+    print: () => {},
+    printErr: (line) => errors.push(line),
+  })
+
+  sevenZip.FS.writeFile(ARCHIVE_PATH, data)
+  sevenZip.FS.mkdir(OUTPUT_DIR)
+
+  let exitCode: number
+  try {
+    exitCode = sevenZip.callMain(['x', ARCHIVE_PATH, `-o${OUTPUT_DIR}`, '-y']) as unknown as number
+  } catch {
+    exitCode = -1
+  }
+  if (exitCode !== 0) {
+    const reason = errors.map((line) => line.trim()).filter(Boolean)[0]
+    throw new Error(reason ? `Failed to extract 7z archive: ${reason}` : 'Failed to extract 7z archive')
+  }
+
+  const files: ExtractedArchiveFile[] = []
+  collectFiles(sevenZip, OUTPUT_DIR, '', files)
+  return files
+}
@@ -0,0 +1,61 @@
+import { expect, test } from 'bun:test'
+import { readTarEntries } from './tar'
+
+const encoder = new TextEncoder()
+
+function tarHeader(name: string, size: number, typeFlag = '0', prefix = ''): Uint8Array {
+  const header = new Uint8Array(512)
+  header.set(encoder.encode(name), 0)
+  header.set(encoder.encode(size.toString(8).padStart(11, '0')), 124)
+  header.set(encoder.encode(typeFlag), 156)
+  header.set(encoder.encode('ustar\u000000'), 257)
+  header.set(encoder.encode(prefix), 345)
+  return header
+}
+
+function tarEntry(name: string, content: string, typeFlag = '0', prefix = ''): Uint8Array[] {
+  const data = encoder.encode(content)
+  const padded = new Uint8Array(Math.ceil(data.length / 512) * 512)
+  padded.set(data)
+  return [tarHeader(name, data.length, typeFlag, prefix), padded]
+}
+
+function buildTar(...entries: Uint8Array[][]): Uint8Array {
+  const blocks = [...entries.flat(), new Uint8Array(1024)]
+  const tar = new Uint8Array(blocks.reduce((total, block) => total + block.length, 0))
+  let offset = 0
+  for (const block of blocks) {
+    tar.set(block, offset)
+    offset += block.length
+  }
+  return tar
+}
+
+test('reads regular files and skips directories', () => {
+  const files = readTarEntries(buildTar(
+    tarEntry('./pages/', '', '5'),
+    tarEntry('./pages/001.png', 'one'),
+    tarEntry('002.png', 'two'),
+  ))
+
+  expect(files.map((file) => file.path)).toEqual(['pages/001.png', '002.png'])
+  expect(new TextDecoder().decode(files[1].data)).toBe('two')
+})
+
+test('joins ustar prefixes and applies GNU and pax long names', () => {
+  const longName = `${'a'.repeat(120)}.png`
+  const files = readTarEntries(buildTar(
+    tarEntry('001.png', 'one', '0', 'chapter 1'),
+    tarEntry('././@LongLink', longName, 'L'),
+    tarEntry('truncated', 'two'),
+    tarEntry('PaxHeader', `26 path=pax/ComicInfo.xml\n`, 'x'),
+    tarEntry('ComicInfo.xml', '<ComicInfo/>'),
+  ))
+
+  expect(files.map((file) => file.path)).toEqual(['chapter 1/001.png', longName, 'pax/ComicInfo.xml'])
+})
+
+test('rejects truncated archives', () => {
+  const tar = buildTar(tarEntry('001.png', 'x'.repeat(600)))
+  expect(() => readTarEntries(tar.subarray(0, 700))).toThrow('truncated entry')
+})
@@ -0,0 +1,88 @@
+// Minimal tar reader for CBT archives (ustar, GNU long names and pax paths)
+
+import type { ExtractedArchiveFile } from './archive'
+
+const BLOCK_SIZE = 512
+const textDecoder = new TextDecoder('utf-8')
+
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return textDecoder.decode(end < 0 ? field : field.subarray(0, end))
+}
+
+function readSize(block: Uint8Array): number {
+  // GNU base-256 encoding for sizes that don't fit in 11 octal digits
+  if (block[124] & 0x80) {
+    let size = 0
+    for (let i = 125; i < 136; i++) {
+      size = size * 256 + block[i]
+    }
+    return size
+  }
+  const size = parseInt(readString(block, 124, 12).trim() || '0', 8)
+  if (!Number.isFinite(size)) {
+    throw new Error('Invalid tar archive: bad entry size')
+  }
+  return size
+}
+
+function readHeaderPath(header: Uint8Array): string {
+  const name = readString(header, 0, 100)
+  // Only POSIX ustar headers have a prefix field; old GNU headers use it for other data
+  const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : ''
+  return prefix ? `${prefix}/${name}` : name
+}
+
+function isZeroBlock(block: Uint8Array): boolean {
+  return block.every((byte) => byte === 0)
+}
+
+function parsePaxPath(data: Uint8Array): string | null {
+  // Records are "<length> <key>=<value>\n"
+  for (const record of textDecoder.decode(data).split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/)
+    if (match) return match[1]
+  }
+  return null
+}
+
+/**
+ * Read the regular files of an uncompressed tar archive.
+ */
+export function readTarEntries(data: Uint8Array): ExtractedArchiveFile[] {
+  const files: ExtractedArchiveFile[] = []
+  let offset = 0
+  let longName: string | null = null
+
+  while (offset + BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + BLOCK_SIZE)
+    if (isZeroBlock(header)) break
+
+    const size = readSize(header)
+    const typeFlag = String.fromCharCode(header[156] || 0x30)
+    const contentStart = offset + BLOCK_SIZE
+    if (contentStart + size > data.length) {
+      throw new Error('Invalid tar archive: truncated entry')
+    }
+    const content = data.subarray(contentStart, contentStart + size)
+    offset = contentStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE
+
+    if (typeFlag === 'L') {
+      longName = readString(content, 0, content.length)
+      continue
+    }
+    if (typeFlag === 'x') {
+      longName = parsePaxPath(content) ?? longName
+      continue
+    }
+
+    const path = longName ?? readHeaderPath(header)
+    longName = null
+    if (typeFlag !== '0' && typeFlag !== '7') continue
+
+    files.push({ path: path.replace(/^\.\//, ''), data: content })
+  }
+
+  return files
+}
@@ -1,26 +1,78 @@
-export type SplitMode = 'overlap' | 'split' | 'fourway' | 'nosplit'
+import type { RelativeCropBounds } from '../processing/autocrop'
+import type { TocNesting } from '../metadata/types'
+
+export type SplitMode = 'overlap' | 'split' | 'fourway' | 'nosplit' | 'strip' | 'panels'
 export type PageOverviewMode = 'none' | 'portrait' | 'landscape'
+/** Page order of split segments; manga reads right to left */
+export type ReadingDirection = 'ltr' | 'rtl'
+/**
+ * Two-page spreads: 'auto' leaves them to the split mode and orientation;
+ * otherwise keep them whole turned sideways, split them into their pages, or both
+ */
+export type SpreadPolicy = 'auto' | 'rotate' | 'split' | 'both'
+/** Whitespace crop measured on each page, or once across the whole book */
+export type AutoCropMode = 'off' | 'page' | 'book'
+/** Target device; 'custom' uses the customWidth x customHeight screen size */
+export type DeviceId = 'X4' | 'X3' | 'custom'
+/** How ZIP bundles and dropped folders with several volumes are converted */
+export type CollectionMode = 'separate' | 'merged'
 
 export interface ConversionOptions {
-  device: 'X4' | 'X3'
+  device: DeviceId
+  /** Portrait screen size in pixels for the custom device profile */
+  customWidth: number
+  customHeight: number
   splitMode: SplitMode
   pageOverview: PageOverviewMode
+  /** 'auto' takes the direction from ComicInfo, else left to right */
+  readingDirection: ReadingDirection | 'auto'
+  spreadPolicy: SpreadPolicy
   dithering: string
   is2bit: boolean
   contrast: number
+  /** Brightness offset in percent of full white (-50 to 50) */
+  brightness: number
+  /** Midtone gamma; above 1 lightens, below 1 darkens */
+  gamma: number
+  /** Sharpening in percent of the default strength */
+  sharpenAmount: number
+  /** Sharpening blur radius in pixels */
+  sharpenRadius: number
+  /** 2-bit shadow lift in percent of the default curve */
+  shadowLift: number
   horizontalMargin: number
   verticalMargin: number
+  autoCrop: AutoCropMode
+  /** Book-wide crop, measured by the converter when autoCrop is 'book' */
+  autoCropBounds?: RelativeCropBounds
+  /** Smooth halftone screentone into flat gray before dithering */
+  descreen: boolean
+  deskew: boolean
+  despeckle: boolean
   orientation: 'landscape' | 'portrait'
   coverPortrait: boolean
   landscapeFlipClockwise: boolean
   showProgressPreview: boolean
   imageMode: 'cover' | 'letterbox' | 'fill' | 'crop'
+  /** Percent of a page repeated when a webtoon strip is cut without a gutter */
+  stripOverlap: number
+  collectionMode: CollectionMode
+  /** Take reading direction and a series title from ComicInfo.xml */
+  useComicInfo: boolean
+  /** How PDF/EPUB outline levels are written into the XTC TOC */
+  tocNesting: TocNesting
+  /** Deepest outline level kept in the TOC (1 keeps top-level entries only) */
+  tocDepth: number
   videoFps: number
+  textFont: string
+  textFontSize: number
+  textMargin: number
+  textLineSpacing: number
 }
 
 export interface ConversionResult {
   name: string
-  data?: ArrayBuffer
+  data?: Blob
   size?: number
   pageCount?: number
   pageImages?: string[]
@@ -4,6 +4,7 @@ export interface WorkerProcessedPage {
   name: string
   xtg: ArrayBuffer
   previewJpeg?: ArrayBuffer
+  beforePreviewJpeg?: ArrayBuffer
 }
 
 interface WorkerResponse {
@@ -15,7 +16,7 @@ interface WorkerResponse {
 interface QueueJob {
   id: number
   pageNum: number
-  blob: Blob
+  source: Blob | ImageBitmap
   options: ConversionOptions
   includePreview: boolean
   resolve: (pages: WorkerProcessedPage[]) => void
@@ -42,63 +43,48 @@ export class ConvertWorkerPool {
 
   constructor(poolSize: number) {
     for (let i = 0; i < poolSize; i++) {
-      const worker = new Worker(new URL('../workers/convert-page.worker.ts', import.meta.url), { type: 'module' })
-      const slot: WorkerSlot = { worker, busy: false }
-
-      worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
-        const message = event.data
-        const job = slot.currentJob
-        if (!job || job.id !== message.jobId) {
-          return
-        }
-
-        slot.busy = false
-        slot.currentJob = undefined
-
-        if (message.error) {
-          job.reject(new Error(message.error))
-        } else {
-          job.resolve(message.pages || [])
-        }
-
-        this.pump()
-      }
-
-      worker.onerror = (event: ErrorEvent) => {
-        const job = slot.currentJob
-        slot.busy = false
-        slot.currentJob = undefined
-
-        if (job) {
-          job.reject(new Error(event.message || 'Page worker crashed'))
-        }
-        this.pump()
-      }
-
+      const slot = { busy: false } as WorkerSlot
+      this.startWorker(slot)
       this.slots.push(slot)
     }
   }
 
+  /**
+   * Process one page in the next free worker. Bitmaps are transferred, so
+   * they can't be used again on the calling side.
+   */
   processPage(
     pageNum: number,
-    blob: Blob,
+    source: Blob | ImageBitmap,
     options: ConversionOptions,
-    includePreview: boolean
+    includePreview: boolean,
+    signal?: AbortSignal
   ): Promise<WorkerProcessedPage[]> {
     if (this.isDestroyed) {
       return Promise.reject(new Error('Worker pool is destroyed'))
     }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason)
+    }
 
     return new Promise((resolve, reject) => {
+      const onAbort = () => this.cancelJob(job, signal!.reason)
       const job: QueueJob = {
         id: this.nextJobId++,
         pageNum,
-        blob,
+        source,
         options,
         includePreview,
-        resolve,
-        reject
+        resolve: (pages) => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(pages)
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(error)
+        }
       }
+      signal?.addEventListener('abort', onAbort, { once: true })
       this.queue.push(job)
       this.pump()
     })
@@ -118,10 +104,69 @@ export class ConvertWorkerPool {
 
     while (this.queue.length > 0) {
       const job = this.queue.shift()!
+      if (!(job.source instanceof Blob)) job.source.close()
       job.reject(new Error('Worker pool destroyed'))
     }
   }
 
+  private startWorker(slot: WorkerSlot): void {
+    const worker = new Worker(new URL('../workers/convert-page.worker.ts', import.meta.url), { type: 'module' })
+    slot.worker = worker
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data
+      const job = slot.currentJob
+      if (!job || job.id !== message.jobId) {
+        return
+      }
+
+      slot.busy = false
+      slot.currentJob = undefined
+
+      if (message.error) {
+        job.reject(new Error(message.error))
+      } else {
+        job.resolve(message.pages || [])
+      }
+
+      this.pump()
+    }
+
+    worker.onerror = (event: ErrorEvent) => {
+      const job = slot.currentJob
+      slot.busy = false
+      slot.currentJob = undefined
+
+      if (job) {
+        job.reject(new Error(event.message || 'Page worker crashed'))
+      }
+      this.pump()
+    }
+  }
+
+  /**
+   * Drop a queued job, or stop the worker running it and start a fresh one
+   */
+  private cancelJob(job: QueueJob, reason: unknown): void {
+    const queueIndex = this.queue.indexOf(job)
+    if (queueIndex >= 0) {
+      this.queue.splice(queueIndex, 1)
+      // Bitmaps are owned by the pool once queued
+      if (!(job.source instanceof Blob)) job.source.close()
+    } else {
+      const slot = this.slots.find((candidate) => candidate.currentJob === job)
+      if (!slot) return
+
+      slot.worker.terminate()
+      slot.busy = false
+      slot.currentJob = undefined
+      if (!this.isDestroyed) this.startWorker(slot)
+    }
+
+    job.reject(reason instanceof Error ? reason : new Error('Page processing cancelled'))
+    this.pump()
+  }
+
   private pump(): void {
     if (this.isDestroyed) return
 
@@ -135,10 +180,10 @@ export class ConvertWorkerPool {
       slot.worker.postMessage({
         jobId: job.id,
         pageNum: job.pageNum,
-        blob: job.blob,
+        source: job.source,
         options: job.options,
         includePreview: job.includePreview
-      })
+      }, job.source instanceof Blob ? [] : [job.source])
     }
   }
 }
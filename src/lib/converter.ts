@@ -1,18 +1,39 @@
-// Browser conversion logic for CBZ/CBR/PDF/Image/Video to XTC
+// Browser conversion logic for CBZ/CBR/CB7/CBT/EPUB/PDF/Image/Video/Text to XTC
 
 import JSZip from 'jszip'
 import { createExtractorFromData } from 'node-unrar-js'
 import unrarWasm from 'node-unrar-js/esm/js/unrar.wasm?url'
 import { applyDithering } from './processing/dithering'
-import { toGrayscale, applyContrast, calculateOverlapSegments, calculateFourWaySegments, findContentBounds, shouldSplitPage } from './processing/image'
-import { rotateCanvas, extractAndRotate, extractRegion, resizeWithPadding, getTargetDimensions } from './processing/canvas'
 import { imageDataToXtg, imageDataToXth } from './processing/xtg'
-import { buildXtcFromXtgPages } from './xtc-format'
+import { XtcWriter } from './xtc-format'
 import { extractPdfMetadata } from './metadata/pdf-outline'
-import { parseComicInfo } from './metadata/comicinfo'
-import { PageMappingContext, adjustTocForMapping } from './page-mapping'
+import { PageMappingContext } from './page-mapping'
 import { ConvertWorkerPool, isWorkerPipelineSupported } from './conversion/worker-pool'
-import { loadPdfDocument } from './pdfjs'
+import {
+  getPdfRenderScale,
+  processBitmap,
+  resolveBookCropOptions,
+  StripSlicer,
+  type PipelinePageResult
+} from './conversion/page-pipeline'
+import {
+  getCoverCropOptions,
+  getChapterStartPages,
+  getPageProcessingOptions,
+  moveCoverToFront,
+  type ExtractedArchiveFile
+} from './conversion/archive'
+import { loadArchiveBook, readZipEntries, toArchiveEntries, type ArchiveBook } from './conversion/archive-book'
+import { extractSevenZip } from './conversion/sevenzip'
+import { loadSevenZipWasm } from './archive-images'
+import { readTarEntries } from './conversion/tar'
+import { finalizeConversionResult, type EncodedPage } from './conversion/result'
+import { getDeviceProfile } from './conversion/devices'
+import { readEpub } from './conversion/epub'
+import { parseMarkdown, parsePlainText, readEpubText, type TextDocument } from './text/document'
+import { getStyleFontSize, layoutText, type TextStyle } from './text/layout'
+import { loadTextFont } from './text/fonts'
+import { loadPdfDocument, type PDFDocumentProxy } from './pdfjs'
 import type { BookMetadata } from './metadata'
 import type { ConversionOptions, ConversionResult } from './conversion/types'
 
@@ -22,24 +43,24 @@ const PERF_PIPELINE_V2 = true
 const PREVIEW_EVERY_N_PAGES = 5
 const MAX_STORED_PREVIEWS = 12
 const PREVIEW_JPEG_QUALITY = 0.55
-const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'])
+
+/**
+ * Progress callback. `beforePreviewUrl` is the same page without
+ * descreening, sent alongside the preview when descreening is on.
+ */
+export type ConversionProgressCallback = (
+  progress: number,
+  previewUrl: string | null,
+  beforePreviewUrl?: string | null
+) => void
 
 interface ProcessedPage {
   name: string
   canvas: HTMLCanvasElement
 }
 
-interface EncodedPage {
-  name: string
-  xtg: ArrayBuffer
-}
-
-interface CropRect {
-  x: number
-  y: number
-  width: number
-  height: number
-}
+/** An encoded image from an archive, or a page rendered on the main thread */
+type SourceImage = Blob | ImageBitmap
 
 interface LoadedVideoMetadata {
   width: number
@@ -47,189 +68,9 @@ interface LoadedVideoMetadata {
   duration: number
 }
 
-function buildOverviewPage(
-  canvas: HTMLCanvasElement,
-  pageNum: number,
-  targetWidth: number,
-  targetHeight: number,
-  options: ConversionOptions,
-  landscapeRotation: number
-): ProcessedPage {
-  const overviewCanvas = options.pageOverview === 'portrait'
-    ? resizeWithPadding(canvas, 255, targetWidth, targetHeight)
-    : resizeWithPadding(rotateCanvas(canvas, landscapeRotation), 255, targetWidth, targetHeight)
-
-  applyDithering(overviewCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-  return {
-    name: `${String(pageNum).padStart(4, '0')}_1_overview_${options.pageOverview}.png`,
-    canvas: overviewCanvas
-  }
-}
-
-function trimCanvasToContent(canvas: HTMLCanvasElement): HTMLCanvasElement {
-  const ctx = canvas.getContext('2d')
-  if (!ctx) return canvas
-
-  const bounds = findContentBounds(ctx.getImageData(0, 0, canvas.width, canvas.height))
-  if (!bounds) return canvas
-  if (bounds.width === canvas.width && bounds.height === canvas.height && bounds.x === 0 && bounds.y === 0) {
-    return canvas
-  }
-
-  return extractRegion(canvas, bounds.x, bounds.y, bounds.width, bounds.height)
-}
-
-function clampMarginPercent(value: number): number {
-  if (!Number.isFinite(value)) return 0
-  return Math.max(0, Math.min(20, value))
-}
-
-function getAxisCropRect(
-  sourceWidth: number,
-  sourceHeight: number,
-  options: ConversionOptions
-): CropRect {
-  const horizontalMargin = clampMarginPercent(options.horizontalMargin)
-  const verticalMargin = clampMarginPercent(options.verticalMargin)
-
-  const maxCropX = Math.floor((sourceWidth - 1) / 2)
-  const maxCropY = Math.floor((sourceHeight - 1) / 2)
-
-  const cropX = Math.min(Math.floor(sourceWidth * horizontalMargin / 100), maxCropX)
-  const cropY = Math.min(Math.floor(sourceHeight * verticalMargin / 100), maxCropY)
-
-  return {
-    x: cropX,
-    y: cropY,
-    width: Math.max(1, sourceWidth - cropX * 2),
-    height: Math.max(1, sourceHeight - cropY * 2)
-  }
-}
-
-function normalizeArchivePath(path: string): string {
-  return path
-    .replace(/\\/g, '/')
-    .replace(/^\.\//, '')
-    .replace(/^\/+/, '')
-    .toLowerCase()
-}
-
-function getBaseName(path: string): string {
-  const slashIndex = path.lastIndexOf('/')
-  if (slashIndex < 0) return path
-  return path.slice(slashIndex + 1)
-}
-
-function moveCoverToFront<T extends { path: string; originalPage: number }>(
-  imageFiles: T[],
-  metadata: BookMetadata
-): void {
-  if (imageFiles.length < 2) return
-
-  let coverIndex = -1
-
-  if (Number.isInteger(metadata.coverPage) && (metadata.coverPage ?? 0) > 0) {
-    coverIndex = imageFiles.findIndex(file => file.originalPage === metadata.coverPage)
-  }
-
-  if (coverIndex === -1 && metadata.coverImagePath) {
-    const normalizedCoverPath = normalizeArchivePath(metadata.coverImagePath)
-    coverIndex = imageFiles.findIndex(file =>
-      normalizeArchivePath(file.path) === normalizedCoverPath
-    )
-
-    if (coverIndex === -1) {
-      const coverBaseName = getBaseName(normalizedCoverPath)
-      coverIndex = imageFiles.findIndex(file =>
-        getBaseName(normalizeArchivePath(file.path)) === coverBaseName
-      )
-    }
-  }
-
-  if (coverIndex > 0) {
-    const [coverImage] = imageFiles.splice(coverIndex, 1)
-    imageFiles.unshift(coverImage)
-  }
-}
-
-function getPageProcessingOptions(
-  baseOptions: ConversionOptions,
-  isCoverPage: boolean
-): ConversionOptions {
-  if (!isCoverPage) {
-    return baseOptions
-  }
-
-  let coverOptions = baseOptions
-
-  // Crosspoint uses XTC page 0 as the home preview, so keep cover full-size.
-  if (coverOptions.splitMode !== 'nosplit') {
-    coverOptions = { ...coverOptions, splitMode: 'nosplit' }
-  }
-
-  if (coverOptions.coverPortrait && coverOptions.orientation === 'landscape') {
-    coverOptions = { ...coverOptions, orientation: 'portrait' }
-  }
-
-  return coverOptions
-}
-
 function getOutputDimensions(options: ConversionOptions): { width: number; height: number } {
-  return getTargetDimensions(options.device)
-}
-
-function applyImageMode(
-  sourceCanvas: HTMLCanvasElement,
-  targetWidth: number,
-  targetHeight: number,
-  imageMode: ConversionOptions['imageMode'],
-  padColor = 255
-): HTMLCanvasElement {
-  if (imageMode === 'letterbox') {
-    return resizeWithPadding(sourceCanvas, padColor, targetWidth, targetHeight)
-  }
-
-  const result = document.createElement('canvas')
-  result.width = targetWidth
-  result.height = targetHeight
-  const ctx = result.getContext('2d')!
-  ctx.imageSmoothingEnabled = true
-  ctx.imageSmoothingQuality = 'high'
-
-  if (imageMode === 'fill') {
-    ctx.drawImage(sourceCanvas, 0, 0, targetWidth, targetHeight)
-    return result
-  }
-
-  if (imageMode === 'crop') {
-    const sourceAspect = sourceCanvas.width / sourceCanvas.height
-    const targetAspect = targetWidth / targetHeight
-    let sx = 0
-    let sy = 0
-    let sw = sourceCanvas.width
-    let sh = sourceCanvas.height
-
-    if (sourceAspect > targetAspect) {
-      sw = Math.round(sourceCanvas.height * targetAspect)
-      sx = Math.floor((sourceCanvas.width - sw) / 2)
-    } else if (sourceAspect < targetAspect) {
-      sh = Math.round(sourceCanvas.width / targetAspect)
-      sy = Math.floor((sourceCanvas.height - sh) / 2)
-    }
-
-    ctx.drawImage(sourceCanvas, sx, sy, sw, sh, 0, 0, targetWidth, targetHeight)
-    return result
-  }
-
-  // cover: fill frame and crop overflow
-  const scale = Math.max(targetWidth / sourceCanvas.width, targetHeight / sourceCanvas.height)
-  const drawWidth = Math.round(sourceCanvas.width * scale)
-  const drawHeight = Math.round(sourceCanvas.height * scale)
-  const dx = Math.floor((targetWidth - drawWidth) / 2)
-  const dy = Math.floor((targetHeight - drawHeight) / 2)
-  ctx.drawImage(sourceCanvas, dx, dy, drawWidth, drawHeight)
-  return result
+  const { width, height } = getDeviceProfile(options)
+  return { width, height }
 }
 
 function shouldGenerateSampledPreview(pageNum: number, totalPages: number): boolean {
@@ -254,18 +95,6 @@ function calculateWorkerPoolSize(): number {
   return poolSize
 }
 
-async function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
-  return new Promise((resolve, reject) => {
-    canvas.toBlob((blob) => {
-      if (!blob) {
-        reject(new Error('Failed to encode canvas preview'))
-        return
-      }
-      resolve(blob)
-    }, type, quality)
-  })
-}
-
 async function blobToDataUrl(blob: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
@@ -284,41 +113,96 @@ function encodeCanvasPage(page: ProcessedPage, is2bit = false): EncodedPage {
   }
 }
 
-async function finalizeConversionResult(
-  outputName: string,
-  encodedPages: EncodedPage[],
-  mappingCtx: PageMappingContext,
-  metadata: BookMetadata,
-  sampledPreviews: string[],
-  is2bit = false
-): Promise<ConversionResult> {
-  encodedPages.sort((a, b) => a.name.localeCompare(b.name))
+/**
+ * Webtoon strips flow across images, so they are sliced in order on the main
+ * thread instead of page by page in the worker pool.
+ */
+async function processStripSourcePages(
+  totalPages: number,
+  getSource: (index: number) => Promise<SourceImage>,
+  getPageOptions: (index: number) => ConversionOptions,
+  getOriginalPage: (index: number) => number,
+  chapterStartPages: ReadonlySet<number>,
+  onProgress: ConversionProgressCallback,
+  signal?: AbortSignal
+): Promise<{ writer: XtcWriter; mappingCtx: PageMappingContext; sampledPreviews: string[] }> {
+  const sampledPreviews: string[] = []
+  const writer = new XtcWriter()
+  const slicer = new StripSlicer()
 
-  if (metadata.toc.length > 0) {
-    metadata.toc = adjustTocForMapping(metadata.toc, mappingCtx)
-  }
+  for (let index = 0; index < totalPages; index++) {
+    signal?.throwIfAborted()
+    const pageOptions = getPageOptions(index)
+    const pageNum = index + 1
+    const includePreview = sampledPreviews.length < MAX_STORED_PREVIEWS &&
+      shouldGenerateSampledPreview(pageNum, totalPages)
+    const bitmap = await toImageBitmap(await getSource(index))
 
-  const xtcData = await buildXtcFromXtgPages(encodedPages.map((page) => page.xtg), { metadata, is2bit })
+    let pages
+    try {
+      pages = await slicer.processPage(
+        bitmap,
+        pageNum,
+        pageOptions,
+        index > 0 && chapterStartPages.has(getOriginalPage(index)),
+        includePreview
+      )
+    } finally {
+      bitmap.close()
+    }
+    if (index === totalPages - 1) {
+      pages.push(...await slicer.finish())
+    }
+    for (const page of pages) writer.addPage(page.name, page.xtg)
+
+    let previewForProgress: string | null = null
+    const previewBytes = pages.find((page) => page.previewJpeg)?.previewJpeg
+    if (previewBytes) {
+      const previewBlob = new Blob([previewBytes], { type: 'image/jpeg' })
+      if (pageOptions.showProgressPreview) {
+        previewForProgress = URL.createObjectURL(previewBlob)
+      }
+      sampledPreviews.push(await blobToDataUrl(previewBlob))
+    }
 
-  return {
-    name: is2bit ? outputName.replace(/\.xtc$/i, '.xtch') : outputName,
-    data: xtcData,
-    size: xtcData.byteLength,
-    pageCount: encodedPages.length,
-    pageImages: sampledPreviews,
-    previewMode: 'sparse'
+    onProgress(pageNum / totalPages, previewForProgress)
+  }
+
+  const mappingCtx = new PageMappingContext()
+  for (let index = 0; index < totalPages; index++) {
+    const layout = slicer.getSourceLayout(index + 1)
+    mappingCtx.addOriginalPage(getOriginalPage(index), layout.pageCount, layout.continuesPreviousPage)
   }
+
+  return { writer, mappingCtx, sampledPreviews }
 }
 
-async function processArchiveSourcePages(
+/**
+ * Process source pages in the worker pool, falling back to the main thread
+ * when workers are unavailable or fail.
+ */
+async function processSourcePages(
   totalPages: number,
-  getBlob: (index: number) => Promise<Blob>,
-  getPageOptions: (index: number) => ConversionOptions,
+  getSource: (index: number) => Promise<SourceImage>,
+  getBasePageOptions: (index: number) => ConversionOptions,
   getOriginalPage: (index: number) => number,
-  onProgress: (progress: number, previewUrl: string | null) => void
-): Promise<{ encodedPages: EncodedPage[]; mappingCtx: PageMappingContext; sampledPreviews: string[] }> {
+  chapterStartPages: ReadonlySet<number>,
+  onProgress: ConversionProgressCallback,
+  signal?: AbortSignal
+): Promise<{ writer: XtcWriter; mappingCtx: PageMappingContext; sampledPreviews: string[] }> {
+  const getPageOptions = await resolveBookCropOptions(
+    totalPages,
+    async (index) => toImageBitmap(await getSource(index)),
+    getBasePageOptions
+  )
+  if (getPageOptions(totalPages - 1).splitMode === 'strip') {
+    return processStripSourcePages(totalPages, getSource, getPageOptions, getOriginalPage, chapterStartPages, onProgress, signal)
+  }
+
   const sampledPreviews: string[] = []
-  const pageResultsByIndex: EncodedPage[][] = new Array(totalPages)
+  // Pages go to the writer as they finish; only their counts are kept for the mapping
+  const writer = new XtcWriter()
+  const pageCountsByIndex: number[] = new Array(totalPages).fill(0)
 
   let pool: ConvertWorkerPool | null = null
   let workerDisabled = false
@@ -339,6 +223,7 @@ async function processArchiveSourcePages(
         return
       }
 
+      signal?.throwIfAborted()
       const index = nextIndex++
       if (index >= totalPages) {
         return
@@ -348,36 +233,19 @@ async function processArchiveSourcePages(
       const pageNum = index + 1
       const includePreview = sampledPreviews.length < MAX_STORED_PREVIEWS &&
         shouldGenerateSampledPreview(pageNum, totalPages)
-      const imgBlob = await getBlob(index)
+      let source = await getSource(index)
 
       let previewForProgress: string | null = null
-      let previewForStorage: string | null = null
-      let pageResults: EncodedPage[] = []
+      let beforePreviewForProgress: string | null = null
+      let pageResults: PipelinePageResult[] | null = null
+      let sentToWorker = false
 
       if (pool && !workerDisabled) {
         try {
-          const workerPages = await pool.processPage(pageNum, imgBlob, pageOptions, includePreview)
-          pageResults = workerPages.map((page) => ({ name: page.name, xtg: page.xtg }))
-
-          if (includePreview) {
-            let previewBytes: Uint8Array | undefined
-            for (const page of workerPages) {
-              if (page.previewJpeg) {
-                previewBytes = page.previewJpeg
-                break
-              }
-            }
-            if (previewBytes) {
-              const previewBlob = new Blob([previewBytes], { type: 'image/jpeg' })
-              if (pageOptions.showProgressPreview) {
-                previewForProgress = URL.createObjectURL(previewBlob)
-              }
-              if (sampledPreviews.length < MAX_STORED_PREVIEWS) {
-                previewForStorage = await blobToDataUrl(previewBlob)
-              }
-            }
-          }
-        } catch {
+          sentToWorker = true
+          pageResults = await pool.processPage(pageNum, source, pageOptions, includePreview, signal)
+        } catch (err) {
+          if (signal?.aborted) throw err
           if (!workerDisabled) {
             workerDisabled = true
             pool.destroy()
@@ -386,28 +254,33 @@ async function processArchiveSourcePages(
         }
       }
 
-      if (pageResults.length === 0) {
-        const pages = await processImage(imgBlob, pageNum, pageOptions)
-        pageResults = pages.map((page) => encodeCanvasPage(page, pageOptions.is2bit))
+      if (!pageResults) {
+        // A bitmap handed to a worker was transferred away, so render the page again
+        if (sentToWorker && !(source instanceof Blob)) {
+          source = await getSource(index)
+        }
+        pageResults = await processOnMainThread(source, pageNum, pageOptions, includePreview)
+      }
 
-        if (includePreview && pages.length > 0 && pages[0].canvas) {
-          const previewDataUrl = pages[0].canvas.toDataURL('image/jpeg', PREVIEW_JPEG_QUALITY)
-          if (pageOptions.showProgressPreview) {
-            previewForProgress = previewDataUrl
-          }
-          if (sampledPreviews.length < MAX_STORED_PREVIEWS) {
-            previewForStorage = previewDataUrl
+      const previewPage = includePreview ? pageResults.find((page) => page.previewJpeg) : undefined
+      if (previewPage?.previewJpeg) {
+        const previewBlob = new Blob([previewPage.previewJpeg], { type: 'image/jpeg' })
+        if (pageOptions.showProgressPreview) {
+          previewForProgress = URL.createObjectURL(previewBlob)
+          if (previewPage.beforePreviewJpeg) {
+            beforePreviewForProgress = URL.createObjectURL(new Blob([previewPage.beforePreviewJpeg], { type: 'image/jpeg' }))
           }
         }
+        if (sampledPreviews.length < MAX_STORED_PREVIEWS) {
+          sampledPreviews.push(await blobToDataUrl(previewBlob))
+        }
       }
 
-      pageResultsByIndex[index] = pageResults
-      if (previewForStorage && sampledPreviews.length < MAX_STORED_PREVIEWS) {
-        sampledPreviews.push(previewForStorage)
-      }
+      for (const page of pageResults) writer.addPage(page.name, page.xtg)
+      pageCountsByIndex[index] = pageResults.length
 
       completed++
-      onProgress(completed / totalPages, previewForProgress)
+      onProgress(completed / totalPages, previewForProgress, beforePreviewForProgress)
     }
   }
 
@@ -418,38 +291,64 @@ async function processArchiveSourcePages(
   }
 
   const mappingCtx = new PageMappingContext()
-  const encodedPages: EncodedPage[] = []
   for (let i = 0; i < totalPages; i++) {
-    const pages = pageResultsByIndex[i] || []
-    mappingCtx.addOriginalPage(getOriginalPage(i), pages.length)
-    encodedPages.push(...pages)
+    mappingCtx.addOriginalPage(getOriginalPage(i), pageCountsByIndex[i])
   }
 
-  return { encodedPages, mappingCtx, sampledPreviews }
+  return { writer, mappingCtx, sampledPreviews }
 }
 
 /**
- * Convert a file to XTC format (supports CBZ, CBR, PDF, image, and video)
+ * Stop at the next progress report once the conversion is cancelled. Previews
+ * made after the cancel never reach the page, so their object URLs are revoked here.
+ */
+function withAbortCheck(onProgress: ConversionProgressCallback, signal?: AbortSignal): ConversionProgressCallback {
+  if (!signal) return onProgress
+
+  return (progress, previewUrl, beforePreviewUrl) => {
+    if (signal.aborted) {
+      for (const url of [previewUrl, beforePreviewUrl]) {
+        if (url?.startsWith('blob:')) URL.revokeObjectURL(url)
+      }
+      signal.throwIfAborted()
+    }
+    onProgress(progress, previewUrl, beforePreviewUrl)
+  }
+}
+
+/**
+ * Convert a file to XTC format (supports CBZ, CBR, CB7, CBT, EPUB, PDF, image, video, and text).
+ * Aborting `signal` rejects with its reason and stops any page workers.
  */
 export async function convertToXtc(
   file: File,
-  fileType: 'cbz' | 'cbr' | 'pdf' | 'image' | 'video',
+  fileType: 'cbz' | 'cbr' | 'cb7' | 'cbt' | 'epub' | 'pdf' | 'image' | 'video' | 'text',
   options: ConversionOptions,
-  onProgress: (progress: number, previewUrl: string | null) => void
+  onProgress: ConversionProgressCallback,
+  signal?: AbortSignal
 ): Promise<ConversionResult> {
+  signal?.throwIfAborted()
+  onProgress = withAbortCheck(onProgress, signal)
+
   if (fileType === 'image') {
     return convertImageToXtc(file, options, onProgress)
   }
   if (fileType === 'video') {
     return convertVideoToXtc(file, options, onProgress)
   }
+  if (fileType === 'text') {
+    return convertTextToXtc(file, options, onProgress)
+  }
   if (fileType === 'pdf') {
-    return convertPdfToXtc(file, options, onProgress)
+    return convertPdfToXtc(file, options, onProgress, signal)
+  }
+  if (fileType === 'cbr' || fileType === 'cb7' || fileType === 'cbt') {
+    return convertExtractableArchiveToXtc(file, fileType.toUpperCase(), options, onProgress, signal)
   }
-  if (fileType === 'cbr') {
-    return convertCbrToXtc(file, options, onProgress)
+  if (fileType === 'epub') {
+    return convertEpubToXtc(file, options, onProgress, signal)
   }
-  return convertCbzToXtc(file, options, onProgress)
+  return convertCbzToXtc(file, options, onProgress, signal)
 }
 
 /**
@@ -458,67 +357,90 @@ export async function convertToXtc(
 async function convertCbzToXtc(
   file: File,
   options: ConversionOptions,
-  onProgress: (progress: number, previewUrl: string | null) => void
+  onProgress: ConversionProgressCallback,
+  signal?: AbortSignal
 ): Promise<ConversionResult> {
-  const zip = await JSZip.loadAsync(file)
-
-  const imageFiles: Array<{ path: string; entry: any; originalPage: number }> = []
-  let comicInfoEntry: any = null
-
-  zip.forEach((relativePath: string, zipEntry: any) => {
-    if (zipEntry.dir) return
-    if (relativePath.toLowerCase().startsWith('__macos')) return
+  const book = await loadArchiveBook(await readZipEntries(file), 'CBZ', options, extractArchiveFiles)
+  return convertArchiveBookToXtc(file, book, options, onProgress, signal)
+}
 
-    const ext = relativePath.toLowerCase().substring(relativePath.lastIndexOf('.'))
-    if (IMAGE_EXTENSIONS.has(ext)) {
-      imageFiles.push({ path: relativePath, entry: zipEntry, originalPage: 0 })
-    }
+/**
+ * Convert the pages of an archive read by loadArchiveBook
+ */
+async function convertArchiveBookToXtc(
+  file: File,
+  book: ArchiveBook,
+  options: ConversionOptions,
+  onProgress: ConversionProgressCallback,
+  signal?: AbortSignal
+): Promise<ConversionResult> {
+  const { pages, metadata } = book
+
+  const { writer, mappingCtx, sampledPreviews } = await processSourcePages(
+    pages.length,
+    async (index) => new Blob([new Uint8Array(await pages[index].read())]),
+    (index) => getPageProcessingOptions(book.options, index === 0),
+    (index) => pages[index].originalPage,
+    getChapterStartPages(metadata),
+    onProgress,
+    signal
+  )
 
-    if (relativePath.toLowerCase() === 'comicinfo.xml' ||
-        relativePath.toLowerCase().endsWith('/comicinfo.xml')) {
-      comicInfoEntry = zipEntry
-    }
-  })
+  return finalizeConversionResult(
+    getOutputName(file.name),
+    writer,
+    mappingCtx,
+    metadata,
+    sampledPreviews,
+    options
+  )
+}
 
-  imageFiles.sort((a, b) => a.path.localeCompare(b.path))
-  imageFiles.forEach((imageFile, index) => {
-    imageFile.originalPage = index + 1
+/**
+ * Convert a fixed-layout or image-based EPUB to XTC format
+ */
+async function convertEpubToXtc(
+  file: File,
+  options: ConversionOptions,
+  onProgress: ConversionProgressCallback,
+  signal?: AbortSignal
+): Promise<ConversionResult> {
+  const zip = await JSZip.loadAsync(file)
+  const { pages, metadata } = await readEpub(async (path) => {
+    const entry = zip.file(path)
+    return entry ? entry.async('string') : null
   })
 
-  if (imageFiles.length === 0) {
-    throw new Error('No images found in CBZ')
-  }
-
-  let metadata: BookMetadata = { toc: [] }
-  if (comicInfoEntry) {
-    try {
-      const xmlContent = await comicInfoEntry.async('string')
-      metadata = parseComicInfo(xmlContent)
-    } catch {
-      // Continue conversion without metadata.
+  const imageFiles = pages.map((page) => {
+    const entry = zip.file(page.path)
+    if (!entry) {
+      throw new Error(`Missing EPUB image: ${page.path}`)
     }
-  }
+    return { path: page.path, entry, originalPage: page.originalPage }
+  })
   moveCoverToFront(imageFiles, metadata)
 
-  const { encodedPages, mappingCtx, sampledPreviews } = await processArchiveSourcePages(
+  const { writer, mappingCtx, sampledPreviews } = await processSourcePages(
     imageFiles.length,
     (index) => imageFiles[index].entry.async('blob'),
     (index) => getPageProcessingOptions(options, index === 0),
     (index) => imageFiles[index].originalPage,
-    onProgress
+    getChapterStartPages(metadata),
+    onProgress,
+    signal
   )
 
   return finalizeConversionResult(
-    file.name.replace(/\.cbz$/i, '.xtc'),
-    encodedPages,
+    getOutputName(file.name),
+    writer,
     mappingCtx,
     metadata,
     sampledPreviews,
-    options.is2bit
+    options
   )
 }
 
-// Cache for loaded wasm binary
+// Cache for loaded wasm binaries
 let wasmBinaryCache: ArrayBuffer | null = null
 
 async function loadUnrarWasm(): Promise<ArrayBuffer> {
@@ -531,77 +453,51 @@ async function loadUnrarWasm(): Promise<ArrayBuffer> {
 }
 
 /**
- * Convert a CBR file to XTC format
+ * Read every file of a CBZ/ZIP, CBR, CB7 or CBT archive into memory
  */
-async function convertCbrToXtc(
-  file: File,
-  options: ConversionOptions,
-  onProgress: (progress: number, previewUrl: string | null) => void
-): Promise<ConversionResult> {
-  const [wasmBinary, arrayBuffer] = await Promise.all([
-    loadUnrarWasm(),
-    file.arrayBuffer(),
-  ])
-  const extractor = await createExtractorFromData({ data: arrayBuffer, wasmBinary })
+async function extractArchiveFiles(name: string, data: Uint8Array): Promise<ExtractedArchiveFile[]> {
+  const lowerName = name.toLowerCase()
 
-  const imageFiles: Array<{ path: string; data: Uint8Array; originalPage: number }> = []
-  let comicInfoContent: string | null = null
-
-  const { files } = extractor.extract()
-  for (const extractedFile of files) {
-    if (extractedFile.fileHeader.flags.directory) continue
-
-    const path = extractedFile.fileHeader.name
-    if (path.toLowerCase().startsWith('__macos')) continue
-
-    const ext = path.toLowerCase().substring(path.lastIndexOf('.'))
-    if (IMAGE_EXTENSIONS.has(ext) && extractedFile.extraction) {
-      imageFiles.push({ path, data: extractedFile.extraction, originalPage: 0 })
-    }
-
-    if ((path.toLowerCase() === 'comicinfo.xml' ||
-         path.toLowerCase().endsWith('/comicinfo.xml')) &&
-        extractedFile.extraction) {
-      const decoder = new TextDecoder('utf-8')
-      comicInfoContent = decoder.decode(extractedFile.extraction)
+  if (lowerName.endsWith('.cbr')) {
+    const extractor = await createExtractorFromData({
+      data: data.slice().buffer as ArrayBuffer,
+      wasmBinary: await loadUnrarWasm()
+    })
+    const extractedFiles: ExtractedArchiveFile[] = []
+    const { files } = extractor.extract()
+    for (const extractedFile of files) {
+      if (extractedFile.fileHeader.flags.directory || !extractedFile.extraction) continue
+      extractedFiles.push({ path: extractedFile.fileHeader.name, data: extractedFile.extraction })
     }
+    return extractedFiles
   }
-
-  imageFiles.sort((a, b) => a.path.localeCompare(b.path))
-  imageFiles.forEach((imageFile, index) => {
-    imageFile.originalPage = index + 1
-  })
-
-  if (imageFiles.length === 0) {
-    throw new Error('No images found in CBR')
+  if (lowerName.endsWith('.cb7')) {
+    return extractSevenZip(data, await loadSevenZipWasm())
   }
-
-  let metadata: BookMetadata = { toc: [] }
-  if (comicInfoContent) {
-    try {
-      metadata = parseComicInfo(comicInfoContent)
-    } catch {
-      // Continue conversion without metadata.
-    }
+  if (lowerName.endsWith('.cbt')) {
+    return readTarEntries(data)
   }
-  moveCoverToFront(imageFiles, metadata)
 
-  const { encodedPages, mappingCtx, sampledPreviews } = await processArchiveSourcePages(
-    imageFiles.length,
-    async (index) => new Blob([new Uint8Array(imageFiles[index].data)]),
-    (index) => getPageProcessingOptions(options, index === 0),
-    (index) => imageFiles[index].originalPage,
-    onProgress
-  )
+  const zip = await JSZip.loadAsync(data)
+  return Promise.all(zip.file(/./).map(async (entry) => ({
+    path: entry.name,
+    data: await entry.async('uint8array'),
+  })))
+}
 
-  return finalizeConversionResult(
-    file.name.replace(/\.cbr$/i, '.xtc'),
-    encodedPages,
-    mappingCtx,
-    metadata,
-    sampledPreviews,
-    options.is2bit
-  )
+/**
+ * Convert a CBR, CB7 or CBT file to XTC format
+ */
+async function convertExtractableArchiveToXtc(
+  file: File,
+  formatLabel: string,
+  options: ConversionOptions,
+  onProgress: ConversionProgressCallback,
+  signal?: AbortSignal
+): Promise<ConversionResult> {
+  const files = await extractArchiveFiles(file.name, new Uint8Array(await file.arrayBuffer()))
+  const book = await loadArchiveBook(toArchiveEntries(files), formatLabel, options, extractArchiveFiles)
+  return convertArchiveBookToXtc(file, book, options, onProgress, signal)
 }
 
 function getOutputName(fileName: string): string {
@@ -623,23 +519,23 @@ function getImageOutputName(fileName: string, is2bit: boolean): string {
 async function convertImageToXtc(
   file: File,
   options: ConversionOptions,
-  onProgress: (progress: number, previewUrl: string | null) => void
+  onProgress: ConversionProgressCallback
 ): Promise<ConversionResult> {
-  const imagePages = await processImage(file, 1, {
-    ...options,
-    splitMode: 'nosplit'
-  })
+  const imagePages = await processOnMainThread(file, 1, { ...options, splitMode: 'nosplit' }, true)
+    .catch(() => {
+      throw new Error('Failed to decode image')
+    })
 
-  if (imagePages.length === 0) {
-    throw new Error('Failed to decode image')
+  const writer = new XtcWriter()
+  for (const page of imagePages) {
+    writer.addPage(page.name, page.xtg)
   }
 
-  const encodedPages = imagePages.map((page) => encodeCanvasPage(page, options.is2bit))
-
   let previewUrl: string | null = null
   const sampledPreviews: string[] = []
-  if (imagePages[0]?.canvas) {
-    const previewDataUrl = imagePages[0].canvas.toDataURL('image/jpeg', PREVIEW_JPEG_QUALITY)
+  const previewJpeg = imagePages[0]?.previewJpeg
+  if (previewJpeg) {
+    const previewDataUrl = await blobToDataUrl(new Blob([previewJpeg], { type: 'image/jpeg' }))
     sampledPreviews.push(previewDataUrl)
     if (options.showProgressPreview) {
       previewUrl = previewDataUrl
@@ -647,18 +543,13 @@ async function convertImageToXtc(
   }
   onProgress(1, previewUrl)
 
-  encodedPages.sort((a, b) => a.name.localeCompare(b.name))
-
-  const xtcData = await buildXtcFromXtgPages(
-    encodedPages.map((page) => page.xtg),
-    { metadata: { toc: [] }, is2bit: options.is2bit }
-  )
+  const xtcData = writer.finish({ metadata: { toc: [] }, is2bit: options.is2bit, device: getDeviceProfile(options) })
 
   return {
     name: getImageOutputName(file.name, options.is2bit),
     data: xtcData,
-    size: xtcData.byteLength,
-    pageCount: encodedPages.length,
+    size: xtcData.size,
+    pageCount: writer.pageCount,
     pageImages: sampledPreviews,
     previewMode: 'sparse'
   }
@@ -731,7 +622,7 @@ async function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
 async function convertVideoToXtc(
   file: File,
   options: ConversionOptions,
-  onProgress: (progress: number, previewUrl: string | null) => void
+  onProgress: ConversionProgressCallback
 ): Promise<ConversionResult> {
   const url = URL.createObjectURL(file)
   const video = document.createElement('video')
@@ -747,12 +638,7 @@ async function convertVideoToXtc(
     const duration = videoMetadata.duration
     const frameCount = duration > 0 ? Math.max(1, Math.floor(duration * fps)) : 1
 
-    const captureCanvas = document.createElement('canvas')
-    captureCanvas.width = videoMetadata.width
-    captureCanvas.height = videoMetadata.height
-    const captureCtx = captureCanvas.getContext('2d', { willReadFrequently: true })!
-
-    const encodedPages: EncodedPage[] = []
+    const writer = new XtcWriter()
     const sampledPreviews: string[] = []
     const mappingCtx = new PageMappingContext()
     const frameOptions = { ...options, splitMode: 'nosplit' as const }
@@ -763,16 +649,18 @@ async function convertVideoToXtc(
         : 0
 
       await seekVideo(video, frameTime)
-      captureCtx.drawImage(video, 0, 0, captureCanvas.width, captureCanvas.height)
+      const includePreview = sampledPreviews.length < MAX_STORED_PREVIEWS &&
+        shouldGenerateSampledPreview(i + 1, frameCount)
 
-      const pages = processCanvasAsImage(captureCanvas, i + 1, frameOptions)
-      encodedPages.push(...pages.map((page) => encodeCanvasPage(page, frameOptions.is2bit)))
+      const pages = await processOnMainThread(await createImageBitmap(video), i + 1, frameOptions, includePreview)
+      for (const page of pages) {
+        writer.addPage(page.name, page.xtg)
+      }
       mappingCtx.addOriginalPage(i + 1, pages.length)
 
-      const includePreview = sampledPreviews.length < MAX_STORED_PREVIEWS &&
-        shouldGenerateSampledPreview(i + 1, frameCount)
-      if (includePreview && pages.length > 0 && pages[0].canvas) {
-        const previewDataUrl = pages[0].canvas.toDataURL('image/jpeg', PREVIEW_JPEG_QUALITY)
+      const previewJpeg = pages[0]?.previewJpeg
+      if (previewJpeg) {
+        const previewDataUrl = await blobToDataUrl(new Blob([previewJpeg], { type: 'image/jpeg' }))
         sampledPreviews.push(previewDataUrl)
         onProgress((i + 1) / frameCount, options.showProgressPreview ? previewDataUrl : null)
       } else {
@@ -782,11 +670,11 @@ async function convertVideoToXtc(
 
     return finalizeConversionResult(
       getOutputName(file.name),
-      encodedPages,
+      writer,
       mappingCtx,
       { toc: [] },
       sampledPreviews,
-      options.is2bit
+      options
     )
   } finally {
     URL.revokeObjectURL(url)
@@ -795,337 +683,193 @@ async function convertVideoToXtc(
   }
 }
 
+async function readTextDocument(file: File): Promise<TextDocument> {
+  const lowerName = file.name.toLowerCase()
+  const title = file.name.replace(/\.[^.]+$/, '')
+
+  if (lowerName.endsWith('.epub')) {
+    const zip = await JSZip.loadAsync(file)
+    const document = await readEpubText(async (path) => {
+      const entry = zip.file(path)
+      return entry ? entry.async('string') : null
+    })
+    document.metadata.title ??= title
+    return document
+  }
+
+  const content = await file.text()
+  const blocks = /\.(md|markdown)$/.test(lowerName) ? parseMarkdown(content) : parsePlainText(content)
+  if (blocks.length === 0) {
+    throw new Error('No text found in file')
+  }
+  return { blocks, metadata: { title, toc: [] } }
+}
+
 /**
- * Convert a PDF file to XTC format
+ * Typeset a text, Markdown or reflowable EPUB file into XTC pages.
  */
-async function convertPdfToXtc(
+async function convertTextToXtc(
   file: File,
   options: ConversionOptions,
-  onProgress: (progress: number, previewUrl: string | null) => void
+  onProgress: ConversionProgressCallback
 ): Promise<ConversionResult> {
-  const arrayBuffer = await file.arrayBuffer()
-  const pdf = await loadPdfDocument(arrayBuffer)
+  const [{ blocks, metadata }, font] = await Promise.all([
+    readTextDocument(file),
+    loadTextFont(options.textFont),
+  ])
+  const { width, height } = getOutputDimensions(options)
 
-  let metadata: BookMetadata = { toc: [] }
-  try {
-    metadata = await extractPdfMetadata(pdf)
-  } catch {
-    // Continue conversion without metadata.
-  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+  const fontFor = (style: TextStyle) =>
+    `${style === 'heading' ? 'bold ' : ''}${getStyleFontSize(style, options.textFontSize)}px ${font.cssFamily}`
+
+  const layout = layoutText(blocks, {
+    width,
+    height,
+    margin: options.textMargin,
+    fontSize: options.textFontSize,
+    lineSpacing: options.textLineSpacing,
+  }, (text, style) => {
+    ctx.font = fontFor(style)
+    return ctx.measureText(text).width
+  })
 
-  const encodedPages: EncodedPage[] = []
+  const writer = new XtcWriter()
   const sampledPreviews: string[] = []
   const mappingCtx = new PageMappingContext()
-  const numPages = pdf.numPages
-
-  for (let i = 1; i <= numPages; i++) {
-    const page = await pdf.getPage(i)
-    const scale = 2.0
-    const viewport = page.getViewport({ scale })
+  const totalPages = layout.pages.length
 
-    const canvas = document.createElement('canvas')
-    canvas.width = viewport.width
-    canvas.height = viewport.height
-
-    await page.render({
-      canvas,
-      viewport,
-      background: 'rgb(255,255,255)'
-    }).promise
+  for (let i = 0; i < totalPages; i++) {
+    ctx.fillStyle = '#fff'
+    ctx.fillRect(0, 0, width, height)
+    ctx.fillStyle = '#000'
+    ctx.textBaseline = 'alphabetic'
+    for (const line of layout.pages[i]) {
+      ctx.font = fontFor(line.style)
+      ctx.fillText(line.text, line.x, line.baseline)
+    }
 
-    const pages = processCanvasAsImage(canvas, i, options)
-    encodedPages.push(...pages.map((page) => encodeCanvasPage(page, options.is2bit)))
-    mappingCtx.addOriginalPage(i, pages.length)
+    applyDithering(ctx, width, height, options.dithering, options.is2bit, options)
+    const { name, xtg } = encodeCanvasPage({
+      name: `${String(i + 1).padStart(4, '0')}_0_text.png`,
+      canvas
+    }, options.is2bit)
+    writer.addPage(name, xtg)
+    mappingCtx.addOriginalPage(i + 1, 1)
 
     const includePreview = sampledPreviews.length < MAX_STORED_PREVIEWS &&
-      shouldGenerateSampledPreview(i, numPages)
-    if (includePreview && pages.length > 0 && pages[0].canvas) {
-      const previewBlob = await canvasToBlob(pages[0].canvas, 'image/jpeg', PREVIEW_JPEG_QUALITY)
-      const previewDataUrl = await blobToDataUrl(previewBlob)
-      onProgress(i / numPages, options.showProgressPreview ? previewDataUrl : null)
-
-      if (sampledPreviews.length < MAX_STORED_PREVIEWS) {
-        sampledPreviews.push(previewDataUrl)
-      }
+      shouldGenerateSampledPreview(i + 1, totalPages)
+    if (includePreview) {
+      const previewDataUrl = canvas.toDataURL('image/jpeg', PREVIEW_JPEG_QUALITY)
+      sampledPreviews.push(previewDataUrl)
+      onProgress((i + 1) / totalPages, options.showProgressPreview ? previewDataUrl : null)
     } else {
-      onProgress(i / numPages, null)
+      onProgress((i + 1) / totalPages, null)
+    }
+
+    // Let the UI breathe on long books
+    if (i % 20 === 19) {
+      await new Promise((resolve) => setTimeout(resolve, 0))
     }
   }
 
   return finalizeConversionResult(
-    file.name.replace(/\.pdf$/i, '.xtc'),
-    encodedPages,
+    getOutputName(file.name),
+    writer,
     mappingCtx,
-    metadata,
+    { ...metadata, toc: layout.toc },
     sampledPreviews,
-    options.is2bit
+    options
   )
 }
 
 /**
- * Process a canvas (from PDF rendering) through the same pipeline as images
+ * Convert a PDF file to XTC format
  */
-function processCanvasAsImage(
-  sourceCanvas: HTMLCanvasElement,
-  pageNum: number,
-  options: ConversionOptions
-): ProcessedPage[] {
-  const { width: targetWidth, height: targetHeight } = getOutputDimensions(options)
-  const results: ProcessedPage[] = []
-  const canvas = document.createElement('canvas')
-  const ctx = canvas.getContext('2d')!
-
-  const crop = getAxisCropRect(sourceCanvas.width, sourceCanvas.height, options)
-  canvas.width = crop.width
-  canvas.height = crop.height
-  ctx.drawImage(
-    sourceCanvas,
-    crop.x, crop.y,
-    crop.width, crop.height,
-    0, 0,
-    crop.width, crop.height
-  )
-
-  const width = crop.width
-  const height = crop.height
+async function convertPdfToXtc(
+  file: File,
+  options: ConversionOptions,
+  onProgress: ConversionProgressCallback,
+  signal?: AbortSignal
+): Promise<ConversionResult> {
+  const arrayBuffer = await file.arrayBuffer()
+  const pdf = await loadPdfDocument(arrayBuffer)
 
-  if (options.contrast > 0) {
-    applyContrast(ctx, width, height, options.contrast)
+  let metadata: BookMetadata = { toc: [] }
+  try {
+    metadata = await extractPdfMetadata(pdf)
+  } catch {
+    // Continue conversion without metadata.
   }
 
-  toGrayscale(ctx, width, height)
-
-  const shouldSplit = shouldSplitPage(width, height, options.orientation, options.splitMode)
-
-  if (options.orientation === 'portrait' && !shouldSplit) {
-    const finalCanvas = applyImageMode(
-      canvas,
-      targetWidth,
-      targetHeight,
-      options.imageMode,
-      255
+  try {
+    const { writer, mappingCtx, sampledPreviews } = await processSourcePages(
+      pdf.numPages,
+      (index) => renderPdfPage(pdf, index + 1, options),
+      (index) => index === 0 ? getCoverCropOptions(options) : options,
+      (index) => index + 1,
+      new Set(),
+      onProgress,
+      signal
     )
-    applyDithering(finalCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-    results.push({
-      name: `${String(pageNum).padStart(4, '0')}_0_page.png`,
-      canvas: finalCanvas
-    })
-    return results
-  }
 
-  const landscapeRotation = options.landscapeFlipClockwise ? -90 : 90
-  if (shouldSplit) {
-    if (options.orientation === 'landscape' && options.pageOverview !== 'none') {
-      results.push(buildOverviewPage(canvas, pageNum, targetWidth, targetHeight, options, landscapeRotation))
-    }
-
-    if (options.splitMode === 'overlap') {
-      const segments = calculateOverlapSegments(width, height)
-      segments.forEach((seg, idx) => {
-        const letter = String.fromCharCode(97 + idx)
-        const pageCanvas = extractAndRotate(canvas, seg.x, seg.y, seg.w, seg.h, landscapeRotation)
-        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
-        applyDithering(finalCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-        results.push({
-          name: `${String(pageNum).padStart(4, '0')}_3_${letter}.png`,
-          canvas: finalCanvas
-        })
-      })
-    } else if (options.splitMode === 'fourway') {
-      const segments = calculateFourWaySegments(width, height)
-      segments.forEach((seg, idx) => {
-        const letter = String.fromCharCode(97 + idx)
-        const segmentCanvas = extractRegion(canvas, seg.x, seg.y, seg.w, seg.h)
-        const trimmedSegment = trimCanvasToContent(segmentCanvas)
-        const pageCanvas = options.orientation === 'portrait'
-          ? trimmedSegment
-          : rotateCanvas(trimmedSegment, landscapeRotation)
-        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
-        applyDithering(finalCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-        results.push({
-          name: `${String(pageNum).padStart(4, '0')}_4_${letter}.png`,
-          canvas: finalCanvas
-        })
-      })
-    } else {
-      const halfHeight = Math.floor(height / 2)
-
-      const topCanvas = extractAndRotate(canvas, 0, 0, width, halfHeight, landscapeRotation)
-      const topFinal = resizeWithPadding(topCanvas, 255, targetWidth, targetHeight)
-      applyDithering(topFinal.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-      results.push({
-        name: `${String(pageNum).padStart(4, '0')}_2_a.png`,
-        canvas: topFinal
-      })
-
-      const bottomCanvas = extractAndRotate(canvas, 0, halfHeight, width, halfHeight, landscapeRotation)
-      const bottomFinal = resizeWithPadding(bottomCanvas, 255, targetWidth, targetHeight)
-      applyDithering(bottomFinal.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-      results.push({
-        name: `${String(pageNum).padStart(4, '0')}_2_b.png`,
-        canvas: bottomFinal
-      })
-    }
-  } else {
-    const rotatedCanvas = rotateCanvas(canvas, landscapeRotation)
-    const finalCanvas = resizeWithPadding(rotatedCanvas, 255, targetWidth, targetHeight)
-    applyDithering(finalCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-    results.push({
-      name: `${String(pageNum).padStart(4, '0')}_0_spread.png`,
-      canvas: finalCanvas
-    })
+    return finalizeConversionResult(
+      getOutputName(file.name),
+      writer,
+      mappingCtx,
+      metadata,
+      sampledPreviews,
+      options
+    )
+  } finally {
+    await pdf.destroy()
   }
-
-  return results
 }
 
-/**
- * Process a single image
- */
-async function processImage(
-  imgBlob: Blob,
-  pageNum: number,
+// Pages are rendered here, where pdf.js lives, and processed in the worker pool
+async function renderPdfPage(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
   options: ConversionOptions
-): Promise<ProcessedPage[]> {
-  return new Promise((resolve) => {
-    const img = new Image()
-    const objectUrl = URL.createObjectURL(imgBlob)
-
-    img.onload = () => {
-      URL.revokeObjectURL(objectUrl)
-      const pages = processLoadedImage(img, pageNum, options)
-      resolve(pages)
-    }
-    img.onerror = () => {
-      URL.revokeObjectURL(objectUrl)
-      console.error(`Failed to load image for page ${pageNum}`)
-      resolve([])
-    }
-    img.src = objectUrl
+): Promise<ImageBitmap> {
+  const page = await pdf.getPage(pageNumber)
+  const baseViewport = page.getViewport({ scale: 1 })
+  const viewport = page.getViewport({
+    scale: getPdfRenderScale(baseViewport.width, baseViewport.height, options)
   })
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.floor(viewport.width)
+  canvas.height = Math.floor(viewport.height)
+  await page.render({
+    canvas,
+    viewport,
+    background: 'rgb(255,255,255)'
+  }).promise
+  page.cleanup()
+  return createImageBitmap(canvas)
+}
+
+async function toImageBitmap(source: SourceImage): Promise<ImageBitmap> {
+  return source instanceof Blob ? createImageBitmap(source) : source
 }
 
 /**
- * Process a loaded image element
+ * Run a page through the shared pipeline on the main thread, for when workers
+ * are unavailable and for single images and video frames. Closes the bitmap.
  */
-function processLoadedImage(
-  img: HTMLImageElement,
+async function processOnMainThread(
+  source: SourceImage,
   pageNum: number,
-  options: ConversionOptions
-): ProcessedPage[] {
-  const { width: targetWidth, height: targetHeight } = getOutputDimensions(options)
-  const results: ProcessedPage[] = []
-  const canvas = document.createElement('canvas')
-  const ctx = canvas.getContext('2d')!
-
-  const crop = getAxisCropRect(img.width, img.height, options)
-  canvas.width = crop.width
-  canvas.height = crop.height
-  ctx.drawImage(
-    img,
-    crop.x, crop.y,
-    crop.width, crop.height,
-    0, 0,
-    crop.width, crop.height
-  )
-
-  const width = crop.width
-  const height = crop.height
-
-  if (options.contrast > 0) {
-    applyContrast(ctx, width, height, options.contrast)
-  }
-
-  toGrayscale(ctx, width, height)
-
-  const shouldSplit = shouldSplitPage(width, height, options.orientation, options.splitMode)
-
-  if (options.orientation === 'portrait' && !shouldSplit) {
-    const finalCanvas = applyImageMode(
-      canvas,
-      targetWidth,
-      targetHeight,
-      options.imageMode,
-      255
-    )
-    applyDithering(finalCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-    results.push({
-      name: `${String(pageNum).padStart(4, '0')}_0_page.png`,
-      canvas: finalCanvas
-    })
-    return results
-  }
-
-  const landscapeRotation = options.landscapeFlipClockwise ? -90 : 90
-  if (shouldSplit) {
-    if (options.orientation === 'landscape' && options.pageOverview !== 'none') {
-      results.push(buildOverviewPage(canvas, pageNum, targetWidth, targetHeight, options, landscapeRotation))
-    }
-
-    if (options.splitMode === 'overlap') {
-      const segments = calculateOverlapSegments(width, height)
-      segments.forEach((seg, idx) => {
-        const letter = String.fromCharCode(97 + idx)
-        const pageCanvas = extractAndRotate(canvas, seg.x, seg.y, seg.w, seg.h, landscapeRotation)
-        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
-        applyDithering(finalCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-        results.push({
-          name: `${String(pageNum).padStart(4, '0')}_3_${letter}.png`,
-          canvas: finalCanvas
-        })
-      })
-    } else if (options.splitMode === 'fourway') {
-      const segments = calculateFourWaySegments(width, height)
-      segments.forEach((seg, idx) => {
-        const letter = String.fromCharCode(97 + idx)
-        const segmentCanvas = extractRegion(canvas, seg.x, seg.y, seg.w, seg.h)
-        const trimmedSegment = trimCanvasToContent(segmentCanvas)
-        const pageCanvas = options.orientation === 'portrait'
-          ? trimmedSegment
-          : rotateCanvas(trimmedSegment, landscapeRotation)
-        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
-        applyDithering(finalCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-        results.push({
-          name: `${String(pageNum).padStart(4, '0')}_4_${letter}.png`,
-          canvas: finalCanvas
-        })
-      })
-    } else {
-      const halfHeight = Math.floor(height / 2)
-
-      const topCanvas = extractAndRotate(canvas, 0, 0, width, halfHeight, landscapeRotation)
-      const topFinal = resizeWithPadding(topCanvas, 255, targetWidth, targetHeight)
-      applyDithering(topFinal.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-      results.push({
-        name: `${String(pageNum).padStart(4, '0')}_2_a.png`,
-        canvas: topFinal
-      })
-
-      const bottomCanvas = extractAndRotate(canvas, 0, halfHeight, width, halfHeight, landscapeRotation)
-      const bottomFinal = resizeWithPadding(bottomCanvas, 255, targetWidth, targetHeight)
-      applyDithering(bottomFinal.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-      results.push({
-        name: `${String(pageNum).padStart(4, '0')}_2_b.png`,
-        canvas: bottomFinal
-      })
-    }
-  } else {
-    const rotatedCanvas = rotateCanvas(canvas, landscapeRotation)
-    const finalCanvas = resizeWithPadding(rotatedCanvas, 255, targetWidth, targetHeight)
-    applyDithering(finalCanvas.getContext('2d')!, targetWidth, targetHeight, options.dithering, options.is2bit)
-
-    results.push({
-      name: `${String(pageNum).padStart(4, '0')}_0_spread.png`,
-      canvas: finalCanvas
-    })
+  options: ConversionOptions,
+  includePreview: boolean
+): Promise<PipelinePageResult[]> {
+  const bitmap = await toImageBitmap(source)
+  try {
+    return await processBitmap(bitmap, pageNum, options, includePreview)
+  } finally {
+    bitmap.close()
   }
-
-  return results
 }
@@ -0,0 +1,83 @@
+// Read dropped folders (webkitGetAsEntry) and pack image folders into ZIP bundles
+
+import JSZip from 'jszip'
+import { isArchiveImagePath, isComicInfoPath } from './conversion/archive'
+
+interface FolderFile {
+  path: string
+  file: File
+}
+
+function readEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject))
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+async function collectFolderFiles(entry: FileSystemEntry, prefix: string, files: FolderFile[]): Promise<void> {
+  if (entry.isFile) {
+    files.push({ path: `${prefix}${entry.name}`, file: await readFile(entry as FileSystemFileEntry) })
+    return
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  // readEntries returns results in batches until it yields an empty list
+  for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+    for (const child of batch) {
+      await collectFolderFiles(child, `${prefix}${entry.name}/`, files)
+    }
+  }
+}
+
+async function packFolder(name: string, files: FolderFile[]): Promise<File> {
+  const zip = new JSZip()
+  for (const { path, file } of files) {
+    // Paths are relative to the dropped folder
+    zip.file(path.slice(name.length + 1), file)
+  }
+  const blob = await zip.generateAsync({ type: 'blob', compression: 'STORE' })
+  return new File([blob], `${name}.zip`)
+}
+
+/**
+ * Resolve dropped items into files. Plain files pass through; folders are
+ * either packed into a ZIP bundle (`packImages`, for the comic converter) or
+ * flattened into the files they contain.
+ *
+ * Returns null when the browser doesn't expose directory entries.
+ */
+export async function readDroppedItems(
+  items: DataTransferItemList,
+  packImages: boolean
+): Promise<File[] | null> {
+  const entries = Array.from(items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => item.webkitGetAsEntry?.() ?? null)
+  if (entries.length === 0 || entries.some((entry) => entry === null)) {
+    return null
+  }
+
+  const result: File[] = []
+  for (const entry of entries as FileSystemEntry[]) {
+    const files: FolderFile[] = []
+    await collectFolderFiles(entry, '', files)
+
+    if (entry.isFile) {
+      result.push(...files.map(({ file }) => file))
+      continue
+    }
+
+    const pageFiles = packImages
+      ? files.filter(({ path }) => isArchiveImagePath(path) || isComicInfoPath(path))
+      : []
+    if (pageFiles.some(({ path }) => isArchiveImagePath(path))) {
+      result.push(await packFolder(entry.name, pageFiles))
+    }
+    // Everything else in the folder (archives, documents, ...) is imported as is
+    result.push(...files.filter((folderFile) => !pageFiles.includes(folderFile)).map(({ file }) => file))
+  }
+
+  return result
+}
@@ -0,0 +1,46 @@
+import { expect, test } from 'bun:test'
+import JSZip from 'jszip'
+import { detectFileType, mergeFiles } from './merge'
+
+function buildTar(files: Record<string, string>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const blocks: Uint8Array[] = []
+  for (const [name, content] of Object.entries(files)) {
+    const data = encoder.encode(content)
+    const header = new Uint8Array(512)
+    header.set(encoder.encode(name), 0)
+    header.set(encoder.encode(data.length.toString(8).padStart(11, '0')), 124)
+    header.set(encoder.encode('0'), 156)
+    const padded = new Uint8Array(Math.ceil(data.length / 512) * 512)
+    padded.set(data)
+    blocks.push(header, padded)
+  }
+  blocks.push(new Uint8Array(1024))
+  const tar = new Uint8Array(blocks.reduce((total, block) => total + block.length, 0))
+  let offset = 0
+  for (const block of blocks) {
+    tar.set(block, offset)
+    offset += block.length
+  }
+  return tar
+}
+
+test('detects CB7 and CBT archives', () => {
+  expect(detectFileType(new File([], 'book.CB7'))).toBe('cb7')
+  expect(detectFileType(new File([], 'book.cbt'))).toBe('cbt')
+})
+
+test('merges CBT archives into one CBZ in page order', async () => {
+  const files = [
+    new File([buildTar({ '002.png': 'two', '001.png': 'one' })], 'vol1.cbt'),
+    new File([buildTar({ 'ComicInfo.xml': '<ComicInfo />', '001.jpg': 'three' })], 'vol2.cbt'),
+  ]
+
+  const result = await mergeFiles(files, 'cbz', () => {})
+
+  expect(result.name).toBe('merged.cbz')
+  expect(result.pageCount).toBe(3)
+  const zip = await JSZip.loadAsync(result.data)
+  const pages = await Promise.all(zip.file(/./).map(async (entry) => [entry.name, await entry.async('string')]))
+  expect(pages).toEqual([['00001.png', 'one'], ['00002.png', 'two'], ['00003.jpg', 'three']])
+})
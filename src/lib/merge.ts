@@ -1,4 +1,4 @@
-// Merge logic for CBZ, PDF, and XTC files
+// Merge logic for CBZ, CB7, CBT, PDF, and XTC files
 
 import JSZip from 'jszip'
 import { PDFDocument } from 'pdf-lib'
@@ -6,13 +6,12 @@ import { buildXtc } from './xtc-format'
 import { extractXtcPages, extractXtcRawPages, parseXtcFile } from './xtc-reader'
 import { loadPdfDocument } from './pdfjs'
 import { TARGET_WIDTH, TARGET_HEIGHT } from './processing/canvas'
-import { mapWithConcurrency } from './concurrency'
+import { mapWithConcurrency, stopOnAbort } from './concurrency'
+import { readArchiveImages } from './archive-images'
 
-export type FileType = 'cbz' | 'cbr' | 'pdf' | 'xtc' | 'unknown'
+export type FileType = 'cbz' | 'cbr' | 'cb7' | 'cbt' | 'pdf' | 'xtc' | 'unknown'
 export type OutputFormat = 'xtc' | 'cbz' | 'pdf'
 
-const IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'])
-
 export interface MergeResult {
   name: string
   data: ArrayBuffer
@@ -39,6 +38,10 @@ export function detectFileType(file: File): FileType {
       return 'cbz'
     case 'cbr':
       return 'cbr'
+    case 'cb7':
+      return 'cb7'
+    case 'cbt':
+      return 'cbt'
     case 'pdf':
       return 'pdf'
     case 'xtc':
@@ -72,21 +75,26 @@ export function validateSameType(files: File[]): { valid: boolean; type: FileTyp
 }
 
 /**
- * Merge files into a single output
+ * Merge files into a single output. Aborting `signal` rejects with its reason.
  */
 export async function mergeFiles(
   files: File[],
   outputFormat: OutputFormat,
-  onProgress: (progress: MergeProgress) => void
+  onProgress: (progress: MergeProgress) => void,
+  signal?: AbortSignal
 ): Promise<MergeResult> {
   const validation = validateSameType(files)
   if (!validation.valid) {
     throw new Error(validation.error)
   }
+  signal?.throwIfAborted()
+  onProgress = stopOnAbort(onProgress, signal)
 
   switch (validation.type) {
     case 'cbz':
-      return mergeCbzFiles(files, outputFormat, onProgress)
+    case 'cb7':
+    case 'cbt':
+      return mergeArchiveFiles(files, outputFormat, onProgress)
     case 'pdf':
       return mergePdfFiles(files, outputFormat, onProgress)
     case 'xtc':
@@ -97,9 +105,9 @@ export async function mergeFiles(
 }
 
 /**
- * Merge CBZ files
+ * Merge CBZ, CB7 or CBT files
  */
-async function mergeCbzFiles(
+async function mergeArchiveFiles(
   files: File[],
   outputFormat: OutputFormat,
   onProgress: (progress: MergeProgress) => void
@@ -116,24 +124,11 @@ async function mergeCbzFiles(
       pageProgress: 0,
     })
 
-    const zip = await JSZip.loadAsync(file)
-    const imageFiles: Array<{ path: string; entry: any }> = []
-
-    zip.forEach((relativePath: string, zipEntry: any) => {
-      if (zipEntry.dir) return
-      if (relativePath.toLowerCase().startsWith('__macos')) return
-
-      const ext = relativePath.toLowerCase().substring(relativePath.lastIndexOf('.'))
-      if (IMAGE_EXTENSIONS.has(ext)) {
-        imageFiles.push({ path: relativePath, entry: zipEntry })
-      }
-    })
-
-    imageFiles.sort((a, b) => a.path.localeCompare(b.path))
+    const imageFiles = await readArchiveImages(file)
 
     let completedImages = 0
     const imageBlobs = await mapWithConcurrency(imageFiles, async (imgFile) => {
-      const blob = await imgFile.entry.async('blob')
+      const blob = new Blob([new Uint8Array(await imgFile.read())])
       completedImages++
       onProgress({
         file: file.name,
@@ -258,30 +253,34 @@ async function mergePdfFiles(
     const pdf = await loadPdfDocument(arrayBuffer)
     const numPages = pdf.numPages
 
-    for (let i = 1; i <= numPages; i++) {
-      const page = await pdf.getPage(i)
-      const scale = 2.0
-      const viewport = page.getViewport({ scale })
-
-      const canvas = document.createElement('canvas')
-      canvas.width = viewport.width
-      canvas.height = viewport.height
-
-      await page.render({
-        canvas,
-        viewport,
-        background: 'rgb(255,255,255)',
-      }).promise
-
-      allCanvases.push(canvas)
-
-      onProgress({
-        file: file.name,
-        fileIndex: fileIdx,
-        totalFiles: files.length,
-        pageProgress: i / numPages,
-        previewUrl: canvas.toDataURL('image/png'),
-      })
+    try {
+      for (let i = 1; i <= numPages; i++) {
+        const page = await pdf.getPage(i)
+        const scale = 2.0
+        const viewport = page.getViewport({ scale })
+
+        const canvas = document.createElement('canvas')
+        canvas.width = viewport.width
+        canvas.height = viewport.height
+
+        await page.render({
+          canvas,
+          viewport,
+          background: 'rgb(255,255,255)',
+        }).promise
+
+        allCanvases.push(canvas)
+
+        onProgress({
+          file: file.name,
+          fileIndex: fileIdx,
+          totalFiles: files.length,
+          pageProgress: i / numPages,
+          previewUrl: canvas.toDataURL('image/png'),
+        })
+      }
+    } finally {
+      await pdf.destroy()
     }
   }
 
@@ -404,7 +403,8 @@ export async function buildCbz(images: { name: string; blob: Blob }[]): Promise<
   const zip = new JSZip()
 
   for (const img of images) {
-    zip.file(img.name, img.blob)
+    // JSZip only reads Blobs in browsers, bytes work in every runtime
+    zip.file(img.name, await img.blob.arrayBuffer())
   }
 
   return zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' })
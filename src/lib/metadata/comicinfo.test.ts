@@ -0,0 +1,48 @@
+import { beforeAll, expect, test } from 'bun:test'
+import { DOMParser as LinkedomDOMParser } from 'linkedom'
+import { formatComicTitle, getComicReadingDirection, parseComicInfo } from './comicinfo'
+
+beforeAll(() => {
+  globalThis.DOMParser ??= LinkedomDOMParser as unknown as typeof DOMParser
+})
+
+test('reads series, language and manga fields', () => {
+  const metadata = parseComicInfo(`<?xml version="1.0"?>
+<ComicInfo>
+  <Title>The Beginning</Title>
+  <Series>Blade Story</Series>
+  <Number>12</Number>
+  <Volume>3</Volume>
+  <LanguageISO>ja</LanguageISO>
+  <Manga>YesAndRightToLeft</Manga>
+</ComicInfo>`)
+
+  expect(metadata).toMatchObject({
+    title: 'The Beginning',
+    series: 'Blade Story',
+    number: '12',
+    volume: 3,
+    language: 'ja',
+    manga: 'YesAndRightToLeft'
+  })
+})
+
+test('ignores unknown manga values', () => {
+  const metadata = parseComicInfo('<ComicInfo><Manga>Unknown</Manga></ComicInfo>')
+
+  expect(metadata.manga).toBeUndefined()
+})
+
+test('formats series titles by volume, then issue number', () => {
+  expect(formatComicTitle({ toc: [], title: 'Chapter', series: 'Blade Story', volume: 3, number: '12' }))
+    .toBe('Blade Story v03')
+  expect(formatComicTitle({ toc: [], series: 'Blade Story', number: '12' })).toBe('Blade Story #12')
+  expect(formatComicTitle({ toc: [], title: 'One Shot', series: 'Blade Story' })).toBe('One Shot')
+})
+
+test('derives reading direction from the manga flag', () => {
+  expect(getComicReadingDirection({ toc: [], manga: 'YesAndRightToLeft' })).toBe('rtl')
+  expect(getComicReadingDirection({ toc: [], manga: 'Yes', language: 'ja' })).toBe('rtl')
+  expect(getComicReadingDirection({ toc: [], manga: 'Yes', language: 'ko' })).toBeUndefined()
+  expect(getComicReadingDirection({ toc: [], manga: 'No' })).toBe('ltr')
+})
@@ -1,6 +1,8 @@
 // ComicInfo.xml parsing for CBZ/CBR metadata
 
-import type { BookMetadata, TocEntry } from './types'
+import type { BookMetadata, ComicInfoManga, TocEntry } from './types'
+
+const MANGA_VALUES: ComicInfoManga[] = ['Yes', 'YesAndRightToLeft', 'No']
 
 /**
  * Parse ComicInfo.xml content and extract metadata
@@ -33,6 +35,21 @@ export function parseComicInfo(xmlContent: string): BookMetadata {
       metadata.author = artistEl.textContent.trim()
     }
 
+    const series = readText(doc, 'Series')
+    if (series) metadata.series = series
+
+    const number = readText(doc, 'Number')
+    if (number) metadata.number = number
+
+    const volume = Number.parseInt(readText(doc, 'Volume') ?? '', 10)
+    if (Number.isFinite(volume) && volume >= 0) metadata.volume = volume
+
+    const language = readText(doc, 'LanguageISO')
+    if (language) metadata.language = language
+
+    const manga = MANGA_VALUES.find((value) => value.toLowerCase() === readText(doc, 'Manga')?.toLowerCase())
+    if (manga) metadata.manga = manga
+
     // Extract TOC from Pages elements if available
     const pages = doc.querySelectorAll('Pages > Page')
     if (pages.length > 0) {
@@ -62,6 +79,36 @@ export function parseComicInfo(xmlContent: string): BookMetadata {
   return metadata
 }
 
+function readText(doc: Document, tagName: string): string | undefined {
+  const text = doc.querySelector(tagName)?.textContent?.trim()
+  return text || undefined
+}
+
+/**
+ * Title in the "Series v03" / "Series #12" form when ComicInfo names the
+ * series and its volume or issue number; otherwise the plain title.
+ */
+export function formatComicTitle(metadata: BookMetadata): string | undefined {
+  if (metadata.series && metadata.volume !== undefined) {
+    return `${metadata.series} v${String(metadata.volume).padStart(2, '0')}`
+  }
+  if (metadata.series && metadata.number) {
+    return `${metadata.series} #${metadata.number}`
+  }
+  return metadata.title ?? metadata.series
+}
+
+/**
+ * Reading direction stated by ComicInfo, if any. Plain `Manga=Yes` only
+ * counts for Japanese books, since taggers often use it loosely.
+ */
+export function getComicReadingDirection(metadata: BookMetadata): 'ltr' | 'rtl' | undefined {
+  if (metadata.manga === 'YesAndRightToLeft') return 'rtl'
+  if (metadata.manga === 'Yes' && metadata.language?.toLowerCase().startsWith('ja')) return 'rtl'
+  if (metadata.manga === 'No') return 'ltr'
+  return undefined
+}
+
 /**
  * Extract TOC entries from ComicInfo Pages elements
  * Pages with Bookmark attribute are treated as chapter markers
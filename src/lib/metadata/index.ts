@@ -1,5 +1,6 @@
 // Re-export metadata types and utilities
 
 export * from './types'
+export * from './toc'
 export { extractPdfMetadata } from './pdf-outline'
 export { parseComicInfo, findComicInfoXml } from './comicinfo'
@@ -2,6 +2,7 @@
 
 import type { PDFDocumentProxy } from '../pdfjs'
 import type { BookMetadata, TocEntry } from './types'
+import { createTocEntry, fillTocEndPages } from './toc'
 
 interface PdfOutlineItem {
   title: string
@@ -45,35 +46,35 @@ export async function extractPdfMetadata(pdf: PDFDocumentProxy): Promise<BookMet
 }
 
 /**
- * Flatten nested outline into a flat TOC list with page numbers
+ * Flatten nested outline into a TOC list with page numbers, keeping each
+ * item's depth as its level
  */
 async function flattenOutline(
   pdf: PDFDocumentProxy,
   items: PdfOutlineItem[]
 ): Promise<TocEntry[]> {
-  const result = await flattenOutlineItems(pdf, items)
-  applyTocEndPages(pdf, result)
+  const result = await flattenOutlineItems(pdf, items, 0)
+  fillTocEndPages(result, pdf.numPages)
   return result
 }
 
 async function flattenOutlineItems(
   pdf: PDFDocumentProxy,
-  items: PdfOutlineItem[]
+  items: PdfOutlineItem[],
+  level: number
 ): Promise<TocEntry[]> {
   const entriesByItem = await Promise.all(items.map(async (item) => {
     const entries: TocEntry[] = []
     const pageNum = await resolveDestinationPage(pdf, item.dest)
+    // End page is calculated once the whole outline is known
+    const childLevel = pageNum !== null ? level + 1 : level
     if (pageNum !== null) {
-      entries.push({
-        title: item.title,
-        startPage: pageNum,
-        endPage: pageNum  // Will be calculated later
-      })
+      entries.push(createTocEntry(item.title, pageNum, pageNum, level))
     }
 
     // Recursively process nested items
     if (item.items && item.items.length > 0) {
-      entries.push(...await flattenOutlineItems(pdf, item.items))
+      entries.push(...await flattenOutlineItems(pdf, item.items, childLevel))
     }
     return entries
   }))
@@ -81,17 +82,6 @@ async function flattenOutlineItems(
   return entriesByItem.flat()
 }
 
-function applyTocEndPages(pdf: PDFDocumentProxy, result: TocEntry[]): void {
-  // Calculate end pages based on next chapter start
-  for (let i = 0; i < result.length; i++) {
-    if (i < result.length - 1) {
-      result[i].endPage = result[i + 1].startPage - 1
-    } else {
-      result[i].endPage = pdf.numPages
-    }
-  }
-}
-
 /**
  * Resolve a PDF destination to a page number
  */
@@ -0,0 +1,78 @@
+import { expect, test } from 'bun:test'
+import { imageDataToXtg } from '../processing/xtg'
+import { buildXtcFromBuffers } from '../xtc-format'
+import { parseXtcFile } from '../xtc-reader'
+import { fillTocEndPages, formatTocForXtc, getMaxTocTitleLength, parseTocTitle } from './toc'
+import type { TocEntry } from './types'
+
+function createToc(): TocEntry[] {
+  return [
+    { title: 'Volume 1', startPage: 1, endPage: 0 },
+    { title: 'Chapter 1', startPage: 2, endPage: 0, level: 1 },
+    { title: 'Chapter 2', startPage: 5, endPage: 0, level: 1 },
+    { title: 'Volume 2', startPage: 9, endPage: 0 },
+    { title: 'Chapter 3', startPage: 9, endPage: 0, level: 1 }
+  ]
+}
+
+test('volumes end where the next volume starts, chapters where the next sibling does', () => {
+  const toc = createToc()
+  fillTocEndPages(toc, 12)
+
+  expect(toc.map((entry) => [entry.startPage, entry.endPage])).toEqual([[1, 8], [2, 4], [5, 8], [9, 12], [9, 12]])
+})
+
+test('indent nesting writes levels as title prefixes and depth drops deeper entries', () => {
+  const toc = createToc()
+
+  expect(formatTocForXtc(toc).map((entry) => entry.title)).toEqual([
+    'Volume 1', '  Chapter 1', '  Chapter 2', 'Volume 2', '  Chapter 3'
+  ])
+  expect(formatTocForXtc(toc, 'flat').map((entry) => entry.title)).toEqual([
+    'Volume 1', 'Chapter 1', 'Chapter 2', 'Volume 2', 'Chapter 3'
+  ])
+  expect(formatTocForXtc(toc, 'indent', 1).map((entry) => entry.title)).toEqual(['Volume 1', 'Volume 2'])
+  expect(parseTocTitle('    Part A', 2)).toEqual({ title: 'Part A', level: 2 })
+  expect(parseTocTitle('  Spaced title', 0)).toEqual({ title: '  Spaced title', level: 0 })
+  expect(parseTocTitle(' Odd spacing', 1)).toEqual({ title: ' Odd spacing', level: 0 })
+  expect(getMaxTocTitleLength(2)).toBe(75)
+  expect(getMaxTocTitleLength(2, 'indent-level')).toBe(75)
+  expect(getMaxTocTitleLength(2, 'flat')).toBe(79)
+})
+
+test('leading spaces in titles without a level byte are kept', async () => {
+  const toc: TocEntry[] = [{ title: '  Prologue', startPage: 1, endPage: 1 }]
+  const page = imageDataToXtg({ data: new Uint8ClampedArray(4).fill(255), width: 1, height: 1 })
+
+  const parsed = await parseXtcFile(await buildXtcFromBuffers([page], { metadata: { toc }, tocNesting: 'flat' }), 0)
+  expect(parsed.metadata?.toc).toEqual(toc)
+})
+
+test('plain indent nesting leaves the reserved TOC bytes zero', async () => {
+  const toc = createToc()
+  fillTocEndPages(toc, 12)
+  const page = imageDataToXtg({ data: new Uint8ClampedArray(4).fill(255), width: 1, height: 1 })
+  const xtc = await buildXtcFromBuffers(Array.from({ length: 12 }, () => page), { metadata: { toc } })
+  const parsed = await parseXtcFile(xtc, 0)
+
+  const tocOffset = Number(parsed.header.tocOffset)
+  expect(tocOffset).toBeGreaterThan(0)
+  const reserved = toc.flatMap((_, index) => [...new Uint8Array(xtc, tocOffset + index * 96 + 84, 12)])
+  expect(reserved.every((byte) => byte === 0)).toBe(true)
+  expect(parsed.metadata?.toc.map((entry) => [entry.title, entry.level])).toEqual([
+    ['Volume 1', undefined], ['  Chapter 1', undefined], ['  Chapter 2', undefined], ['Volume 2', undefined], ['  Chapter 3', undefined]
+  ])
+})
+
+test('nested levels survive a round trip through an XTC file', async () => {
+  const toc = createToc()
+  fillTocEndPages(toc, 12)
+  const page = imageDataToXtg({ data: new Uint8ClampedArray(4).fill(255), width: 1, height: 1 })
+  const pages = Array.from({ length: 12 }, () => page)
+
+  const leveled = await parseXtcFile(await buildXtcFromBuffers(pages, { metadata: { toc }, tocNesting: 'indent-level' }), 0)
+  expect(leveled.metadata?.toc).toEqual(toc)
+
+  const flat = await parseXtcFile(await buildXtcFromBuffers(pages, { metadata: { toc }, tocNesting: 'flat' }), 0)
+  expect(flat.metadata?.toc.every((entry) => entry.level === undefined)).toBe(true)
+})
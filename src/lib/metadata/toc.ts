@@ -0,0 +1,85 @@
+// Nested TOC helpers: chapter end pages, and writing levels into flat XTC titles
+//
+// XTC TOC entries have no depth field. With 'indent' nesting each level is
+// written as a TOC_INDENT prefix in the title, so readers that only show
+// titles still see the nesting. A prefix alone can't be told apart from a
+// title that starts with spaces, so these titles are read back verbatim.
+//
+// 'indent-level' also stores the level in the first reserved byte of the
+// entry (offset 84). That byte is an xtcjs extension, not part of the XTC
+// format, which leaves it zero; it is only written when asked for, and only
+// titles whose level byte matches their prefix are read back as nested.
+// 'flat' writes titles as they are.
+
+import type { TocEntry, TocNesting } from './types'
+
+/** Title prefix for one level of nesting */
+export const TOC_INDENT = '  '
+
+/** Deepest level a TOC may keep (levels count from 0) */
+export const MAX_TOC_DEPTH = 8
+
+/** Bytes an XTC TOC title holds, not counting the null terminator */
+export const MAX_TOC_TITLE_LENGTH = 79
+
+export function getTocLevel(entry: TocEntry): number {
+  return entry.level ?? 0
+}
+
+/**
+ * TOC entry with `level` set only for nested entries, so flat TOCs keep their
+ * plain shape.
+ */
+export function createTocEntry(title: string, startPage: number, endPage: number, level = 0): TocEntry {
+  return level > 0 ? { title, startPage, endPage, level } : { title, startPage, endPage }
+}
+
+/**
+ * Set each entry's end page to the page before the next entry at the same or
+ * a shallower level starts, so volumes span their chapters.
+ */
+export function fillTocEndPages(toc: TocEntry[], lastPage: number): void {
+  for (let i = 0; i < toc.length; i++) {
+    const level = getTocLevel(toc[i])
+    const next = toc.slice(i + 1).find((entry) => getTocLevel(entry) <= level)
+    toc[i].endPage = next ? Math.max(toc[i].startPage, next.startPage - 1) : lastPage
+  }
+}
+
+/**
+ * Longest title an entry at `level` can keep once its indent prefix is
+ * written.
+ */
+export function getMaxTocTitleLength(level: number, nesting: TocNesting = 'indent'): number {
+  return nesting === 'flat' ? MAX_TOC_TITLE_LENGTH : MAX_TOC_TITLE_LENGTH - TOC_INDENT.length * level
+}
+
+/**
+ * TOC as written into an XTC file: entries deeper than `depth` levels are
+ * dropped, and with indent nesting the remaining levels become title
+ * prefixes. Only 'indent-level' keeps `level`, for the entry's level byte.
+ */
+export function formatTocForXtc(toc: TocEntry[], nesting: TocNesting = 'indent', depth = MAX_TOC_DEPTH): TocEntry[] {
+  return toc
+    .filter((entry) => getTocLevel(entry) < depth)
+    .map((entry) => {
+      if (nesting === 'flat') {
+        return createTocEntry(entry.title, entry.startPage, entry.endPage)
+      }
+      const title = TOC_INDENT.repeat(getTocLevel(entry)) + entry.title
+      return createTocEntry(title, entry.startPage, entry.endPage, nesting === 'indent-level' ? getTocLevel(entry) : 0)
+    })
+}
+
+/**
+ * Strip the indent prefix of a title read with its entry's level byte. The
+ * prefix is only removed when the level byte says it was written for nesting;
+ * otherwise the title is kept as it is, leading spaces included.
+ */
+export function parseTocTitle(title: string, level: number): { title: string; level: number } {
+  const prefix = TOC_INDENT.repeat(level)
+  if (level <= 0 || level >= MAX_TOC_DEPTH || !title.startsWith(prefix)) {
+    return { title, level: 0 }
+  }
+  return { title: title.slice(prefix.length), level }
+}
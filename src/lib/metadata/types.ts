@@ -4,16 +4,31 @@ export interface TocEntry {
   title: string
   startPage: number  // 1-indexed original page
   endPage: number    // 1-indexed original page
+  level?: number     // Nesting depth; absent or 0 for top-level entries
 }
 
+/**
+ * How nested TOC levels are written into an XTC: title indent prefixes,
+ * prefixes plus the xtcjs level byte (see ./toc.ts), or plain titles
+ */
+export type TocNesting = 'indent' | 'indent-level' | 'flat'
+
 export interface BookMetadata {
   title?: string
   author?: string
   toc: TocEntry[]
   coverPage?: number      // 1-indexed original page
   coverImagePath?: string // Optional path hint from ComicInfo
+  series?: string
+  number?: string         // Issue number as written, e.g. "12" or "12.5"
+  volume?: number
+  language?: string       // ISO code from ComicInfo LanguageISO
+  manga?: ComicInfoManga
 }
 
+/** ComicInfo `Manga` values; only YesAndRightToLeft states the reading order */
+export type ComicInfoManga = 'Yes' | 'YesAndRightToLeft' | 'No'
+
 export interface XtcMetadataOptions {
   metadata?: BookMetadata
 }
@@ -0,0 +1,73 @@
+import { expect, test } from 'bun:test'
+import { applyPageEdit, createPageIds, type EditableBook } from './page-edit'
+
+function createBook(pageCount: number): EditableBook {
+  return {
+    pages: Array.from({ length: pageCount }, () => new ArrayBuffer(1)),
+    toc: [
+      { title: 'One', startPage: 1, endPage: 3 },
+      { title: 'Two', startPage: 4, endPage: 6 }
+    ]
+  }
+}
+
+test('deleting pages shifts later chapters and drops emptied ones', () => {
+  const book = createBook(6)
+  const edited = applyPageEdit(book, { type: 'delete', index: 1 })
+
+  expect(edited.pages).toEqual([book.pages[0], book.pages[2], ...book.pages.slice(3)])
+  expect(edited.toc.map((entry) => [entry.startPage, entry.endPage])).toEqual([[1, 2], [3, 5]])
+
+  const single = applyPageEdit(
+    { pages: book.pages.slice(0, 2), toc: [{ title: 'Ad', startPage: 2, endPage: 2 }] },
+    { type: 'delete', index: 1 }
+  )
+  expect(single.toc).toEqual([])
+})
+
+test('moved pages leave their chapter and join the one they land in', () => {
+  const book = createBook(6)
+  const edited = applyPageEdit(book, { type: 'move', from: 2, to: 5 })
+
+  expect(edited.pages[5]).toBe(book.pages[2])
+  expect(edited.toc.map((entry) => [entry.startPage, entry.endPage])).toEqual([[1, 2], [3, 6]])
+})
+
+test('duplicated and inserted pages extend the chapter next to them', () => {
+  const book = createBook(6)
+  const duplicated = applyPageEdit(book, { type: 'duplicate', index: 2 })
+  expect(duplicated.pages[3]).toBe(book.pages[2])
+  expect(duplicated.toc.map((entry) => [entry.startPage, entry.endPage])).toEqual([[1, 4], [5, 7]])
+
+  const page = new ArrayBuffer(1)
+  const appended = applyPageEdit(book, { type: 'insert', index: 6, page })
+  expect(appended.pages[6]).toBe(page)
+  expect(appended.toc.map((entry) => [entry.startPage, entry.endPage])).toEqual([[1, 3], [4, 7]])
+})
+
+test('replacing the cover keeps page numbers', () => {
+  const book = createBook(6)
+  const cover = new ArrayBuffer(1)
+  const edited = applyPageEdit(book, { type: 'replace', index: 0, page: cover })
+
+  expect(edited.pages[0]).toBe(cover)
+  expect(edited.toc).toEqual(book.toc)
+})
+
+test('refuses to delete the last page', () => {
+  expect(() => applyPageEdit({ pages: [new ArrayBuffer(1)], toc: [] }, { type: 'delete', index: 0 }))
+    .toThrow('A book needs at least one page')
+})
+
+test('page ids follow their pages and new pages get fresh ones', () => {
+  const book = { ...createBook(4), ids: createPageIds(4) }
+  const moved = applyPageEdit(book, { type: 'move', from: 0, to: 3 })
+  expect(moved.ids).toEqual([book.ids[1], book.ids[2], book.ids[3], book.ids[0]])
+
+  const duplicated = applyPageEdit(moved, { type: 'duplicate', index: 3 })
+  expect(duplicated.ids.slice(0, 4)).toEqual(moved.ids)
+  expect(book.ids).not.toContain(duplicated.ids[4])
+
+  const replaced = applyPageEdit(duplicated, { type: 'replace', index: 0, page: new ArrayBuffer(1) })
+  expect(replaced.ids).toEqual(duplicated.ids)
+})
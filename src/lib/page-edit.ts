@@ -0,0 +1,164 @@
+// Page-level edits on a finished XTC file, with the TOC following the pages
+
+import type { TocEntry } from './metadata/types'
+import { applyDithering } from './processing/dithering'
+import { resizeWithPadding } from './processing/canvas'
+import { toGrayscale } from './processing/image'
+import { imageDataToXth, imageDataToXtg } from './processing/xtg'
+
+export interface EditableBook {
+  /** Encoded XTG/XTH pages in reading order */
+  pages: ArrayBuffer[]
+  toc: TocEntry[]
+  /**
+   * Id of each page slot, kept while the page moves; duplicated and inserted
+   * pages get new ones. Pages share buffers, so the buffer can't be the id.
+   */
+  ids?: number[]
+}
+
+export type PageEdit =
+  | { type: 'delete'; index: number }
+  /** `to` is the page's index after the move */
+  | { type: 'move'; from: number; to: number }
+  | { type: 'duplicate'; index: number }
+  /** The new page lands at `index`, before the page currently there */
+  | { type: 'insert'; index: number; page: ArrayBuffer }
+  | { type: 'replace'; index: number; page: ArrayBuffer }
+
+/**
+ * One page of the edited book. `source` keeps an old page's place in its
+ * chapters; pages without one join the chapters of their `anchor` neighbour.
+ */
+interface PageSlot {
+  data: ArrayBuffer
+  id?: number
+  source?: number
+  anchor?: number
+}
+
+let nextPageId = 1
+
+/**
+ * New page slot ids, unique for the session
+ */
+export function createPageIds(count: number): number[] {
+  return Array.from({ length: count }, () => nextPageId++)
+}
+
+/**
+ * Chapter ranges for the new page order. A chapter spans the new positions of
+ * its remaining pages and of pages anchored to them; chapters left with no
+ * pages are dropped.
+ */
+function remapToc(toc: TocEntry[], slots: PageSlot[]): TocEntry[] {
+  const remapped: TocEntry[] = []
+  for (const entry of toc) {
+    const contains = (oldIndex: number | undefined) =>
+      oldIndex !== undefined && oldIndex >= entry.startPage - 1 && oldIndex <= entry.endPage - 1
+
+    let start = -1
+    let end = -1
+    slots.forEach((slot, index) => {
+      if (contains(slot.source) || contains(slot.anchor)) {
+        if (start === -1) start = index
+        end = index
+      }
+    })
+
+    if (start !== -1) {
+      remapped.push({ ...entry, startPage: start + 1, endPage: end + 1 })
+    }
+  }
+  return remapped
+}
+
+// Slot for a page that joins the chapters of whatever ends up next to it
+function anchoredSlot(slots: PageSlot[], position: number, data: ArrayBuffer, id?: number): PageSlot {
+  const neighbour = position > 0 ? slots[position - 1] : slots[position]
+  return { data, id, anchor: neighbour?.source ?? neighbour?.anchor }
+}
+
+/**
+ * Apply one page edit and remap the TOC to the new page numbers.
+ */
+export function applyPageEdit(book: EditableBook, edit: PageEdit): Required<EditableBook> {
+  const count = book.pages.length
+  const checkIndex = (index: number, max = count - 1) => {
+    if (!Number.isInteger(index) || index < 0 || index > max) {
+      throw new Error(`Page ${index + 1} does not exist`)
+    }
+  }
+  const slots: PageSlot[] = book.pages.map((data, source) => ({ data, id: book.ids?.[source], source }))
+
+  switch (edit.type) {
+    case 'delete':
+      checkIndex(edit.index)
+      if (count === 1) {
+        throw new Error('A book needs at least one page')
+      }
+      slots.splice(edit.index, 1)
+      break
+    case 'move': {
+      checkIndex(edit.from)
+      checkIndex(edit.to)
+      if (edit.from === edit.to) break
+      const [moved] = slots.splice(edit.from, 1)
+      slots.splice(edit.to, 0, anchoredSlot(slots, edit.to, moved.data, moved.id))
+      break
+    }
+    case 'duplicate':
+      checkIndex(edit.index)
+      slots.splice(edit.index + 1, 0, { data: book.pages[edit.index], anchor: edit.index })
+      break
+    case 'insert':
+      checkIndex(edit.index, count)
+      slots.splice(edit.index, 0, anchoredSlot(slots, edit.index, edit.page))
+      break
+    case 'replace':
+      checkIndex(edit.index)
+      slots[edit.index] = { ...slots[edit.index], data: edit.page }
+      break
+  }
+
+  return {
+    pages: slots.map((slot) => slot.data),
+    toc: remapToc(book.toc, slots),
+    ids: slots.map((slot) => slot.id ?? createPageIds(1)[0])
+  }
+}
+
+/**
+ * Pixel size stored in an XTG/XTH page header
+ */
+export function getPageSize(page: ArrayBuffer): { width: number; height: number } {
+  const view = new DataView(page)
+  return { width: view.getUint16(4, true), height: view.getUint16(6, true) }
+}
+
+/**
+ * Fit an image onto a page of the given size and encode it like a converted
+ * page: grayscale, dithered, then XTG or XTH.
+ */
+export async function encodeImageAsPage(
+  image: Blob,
+  width: number,
+  height: number,
+  is2bit: boolean,
+  dithering = 'floyd'
+): Promise<ArrayBuffer> {
+  const bitmap = await createImageBitmap(image)
+  const source = document.createElement('canvas')
+  source.width = bitmap.width
+  source.height = bitmap.height
+  source.getContext('2d')!.drawImage(bitmap, 0, 0)
+  bitmap.close()
+
+  const canvas = resizeWithPadding(source, 255, width, height)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!
+  toGrayscale(ctx, width, height)
+  applyDithering(ctx, width, height, dithering, is2bit)
+
+  const imageData = ctx.getImageData(0, 0, width, height)
+  return is2bit ? imageDataToXth(imageData) : imageDataToXtg(imageData)
+}
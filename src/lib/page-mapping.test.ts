@@ -0,0 +1,22 @@
+import { expect, test } from 'bun:test'
+import { adjustTocForMapping, PageMappingContext } from './page-mapping'
+
+test('maps chapters through a varying number of panels per page', () => {
+  const mapping = new PageMappingContext()
+  // Cover kept whole, then pages of 4, 1 (no panels found) and 6 panels
+  mapping.addOriginalPage(1, 1)
+  mapping.addOriginalPage(2, 4)
+  mapping.addOriginalPage(3, 1)
+  mapping.addOriginalPage(4, 6)
+
+  expect(mapping.getTotalXtcPages()).toBe(12)
+  expect(adjustTocForMapping([
+    { title: 'Cover', startPage: 1, endPage: 1 },
+    { title: 'Chapter 1', startPage: 2, endPage: 3 },
+    { title: 'Chapter 2', startPage: 4, endPage: 4 }
+  ], mapping)).toEqual([
+    { title: 'Cover', startPage: 1, endPage: 1 },
+    { title: 'Chapter 1', startPage: 2, endPage: 6 },
+    { title: 'Chapter 2', startPage: 7, endPage: 12 }
+  ])
+})
@@ -1,6 +1,7 @@
 // Page mapping for TOC adjustment based on conversion mode
 
 import type { TocEntry } from './metadata/types'
+import { fillTocEndPages } from './metadata/toc'
 
 export interface PageMapping {
   originalPage: number  // 1-indexed
@@ -16,12 +17,14 @@ export class PageMappingContext {
   private currentXtcPage = 1
 
   /**
-   * Record that an original page was converted to N XTC pages
+   * Record that an original page was converted to N XTC pages.
+   * `continuesPreviousPage` marks an original page whose content starts on
+   * the last XTC page already recorded (webtoon strips spanning images).
    */
-  addOriginalPage(originalPage: number, xtcPageCount: number): void {
+  addOriginalPage(originalPage: number, xtcPageCount: number, continuesPreviousPage = false): void {
     this.mappings.push({
       originalPage,
-      xtcStartPage: this.currentXtcPage,
+      xtcStartPage: continuesPreviousPage ? Math.max(1, this.currentXtcPage - 1) : this.currentXtcPage,
       xtcPageCount
     })
     this.currentXtcPage += xtcPageCount
@@ -62,25 +65,12 @@ export function adjustTocForMapping(
     return []
   }
 
-  const totalXtcPages = mappingCtx.getTotalXtcPages()
-
-  return toc.map((entry, index) => {
-    const adjustedStartPage = mappingCtx.getXtcPage(entry.startPage)
-
-    // Calculate end page: either the page before the next chapter starts,
-    // or the last page for the final chapter
-    let adjustedEndPage: number
-    if (index < toc.length - 1) {
-      const nextChapterStart = mappingCtx.getXtcPage(toc[index + 1].startPage)
-      adjustedEndPage = nextChapterStart - 1
-    } else {
-      adjustedEndPage = totalXtcPages
-    }
-
-    return {
-      title: entry.title,
-      startPage: adjustedStartPage,
-      endPage: adjustedEndPage
-    }
-  })
+  const adjusted = toc.map((entry) => ({
+    ...entry,
+    startPage: mappingCtx.getXtcPage(entry.startPage)
+  }))
+  // Each chapter runs until the next one at its level (or above) starts,
+  // or to the last page
+  fillTocEndPages(adjusted, mappingCtx.getTotalXtcPages())
+  return adjusted
 }
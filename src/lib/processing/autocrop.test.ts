@@ -0,0 +1,57 @@
+import { expect, test } from 'bun:test'
+import { combineBookCropBounds, findPageContentBounds, getBookCropSampleIndices } from './autocrop'
+
+// Paint a grayscale page: `fill` is the paper, rectangles are ink
+function createPage(
+  width: number,
+  height: number,
+  fill: number,
+  rects: Array<{ x: number; y: number; w: number; h: number; value: number }>
+): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).fill(fill)
+  for (const { x, y, w, h, value } of rects) {
+    for (let row = y; row < y + h; row++) {
+      for (let col = x; col < x + w; col++) {
+        const offset = (row * width + col) * 4
+        data[offset] = data[offset + 1] = data[offset + 2] = value
+      }
+    }
+  }
+  return { data, width, height } as ImageData
+}
+
+test('finds the text block on off-white scanned paper', () => {
+  const page = createPage(200, 300, 225, [{ x: 40, y: 50, w: 120, h: 200, value: 20 }])
+
+  // 1.5% padding around the ink
+  expect(findPageContentBounds(page)).toEqual({ x: 37, y: 45, width: 126, height: 210 })
+})
+
+test('ignores speckles, scanner edges and an isolated page number', () => {
+  const page = createPage(200, 300, 255, [
+    { x: 0, y: 0, w: 200, h: 6, value: 0 },
+    { x: 40, y: 50, w: 120, h: 180, value: 0 },
+    { x: 95, y: 270, w: 10, h: 6, value: 0 },
+    { x: 10, y: 150, w: 1, h: 1, value: 0 },
+  ])
+
+  expect(findPageContentBounds(page)).toEqual({ x: 37, y: 45, width: 126, height: 190 })
+})
+
+test('leaves blank pages alone', () => {
+  expect(findPageContentBounds(createPage(100, 100, 255, []))).toBeNull()
+})
+
+test('combines page crops without letting outliers cancel them', () => {
+  const typical = { left: 0.1, top: 0.1, right: 0.9, bottom: 0.9 }
+  const pages = [...Array(9).fill(typical), { left: 0, top: 0, right: 1, bottom: 1 }]
+
+  expect(combineBookCropBounds(pages)).toEqual(typical)
+  expect(combineBookCropBounds([])).toBeNull()
+})
+
+test('samples pages evenly after the cover', () => {
+  expect(getBookCropSampleIndices(5)).toEqual([1, 2, 3, 4])
+  expect(getBookCropSampleIndices(1)).toEqual([0])
+  expect(getBookCropSampleIndices(100)).toHaveLength(24)
+})
@@ -0,0 +1,220 @@
+// Whitespace auto-crop: find the printed area of a page, ignoring scan noise,
+// dark scanner edges and isolated page numbers or running headers
+
+export interface CropBounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Crop bounds as fractions of the page size, so they apply to any page */
+export interface RelativeCropBounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+// Lines need this share of ink pixels (and at least 2) to count as content
+const MIN_INK_FRACTION = 0.005
+// Nearly solid lines at the edges are scanner borders, up to this depth
+const BORDER_INK_FRACTION = 0.9
+const MAX_BORDER_FRACTION = 0.05
+// Gaps shorter than this are within one block of content
+const BLOCK_GAP_FRACTION = 0.01
+// Small edge blocks this far from the rest are page numbers or headers
+const MAX_MARGINAL_BLOCK_FRACTION = 0.04
+const MIN_MARGINAL_GAP_FRACTION = 0.03
+const PADDING_FRACTION = 0.015
+// Give up rather than crop a page down to a sliver
+const MIN_CROP_FRACTION = 0.25
+const MAX_BOOK_SAMPLES = 24
+
+function getLuminance(data: Uint8ClampedArray, offset: number): number {
+  return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2]
+}
+
+// Ink is anything clearly darker than the paper, which is rarely pure white in scans
+function getInkThreshold(imageData: ImageData): number {
+  const { data } = imageData
+  const histogram = new Array(256).fill(0)
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(getLuminance(data, i))]++
+  }
+
+  const target = (data.length / 4) * 0.1
+  let count = 0
+  let paper = 255
+  for (let value = 255; value >= 0; value--) {
+    count += histogram[value]
+    if (count >= target) {
+      paper = value
+      break
+    }
+  }
+  return paper * 0.75
+}
+
+function skipBorder(inkCounts: number[], lineLength: number, from: number, step: 1 | -1): number {
+  const maxDepth = Math.floor(inkCounts.length * MAX_BORDER_FRACTION)
+  let index = from
+  while (
+    Math.abs(index - from) < maxDepth &&
+    inkCounts[index] >= lineLength * BORDER_INK_FRACTION
+  ) {
+    index += step
+  }
+  return index
+}
+
+/**
+ * Find the extent of content along one axis from per-line ink counts.
+ */
+function findContentRange(inkCounts: number[], lineLength: number): [number, number] | null {
+  const length = inkCounts.length
+  const start = skipBorder(inkCounts, lineLength, 0, 1)
+  const end = skipBorder(inkCounts, lineLength, length - 1, -1)
+  const minInk = Math.max(2, lineLength * MIN_INK_FRACTION)
+  const maxGap = Math.max(1, Math.round(length * BLOCK_GAP_FRACTION))
+
+  const blocks: Array<[number, number]> = []
+  for (let index = start; index <= end; index++) {
+    if (inkCounts[index] < minInk) continue
+    const last = blocks[blocks.length - 1]
+    if (last && index - last[1] <= maxGap) {
+      last[1] = index
+    } else {
+      blocks.push([index, index])
+    }
+  }
+  if (blocks.length === 0) return null
+
+  const isMarginal = (block: [number, number], neighbour: [number, number]) =>
+    block[1] - block[0] + 1 <= length * MAX_MARGINAL_BLOCK_FRACTION &&
+    Math.abs(neighbour[0] - block[1]) >= length * MIN_MARGINAL_GAP_FRACTION &&
+    Math.abs(block[0] - neighbour[1]) >= length * MIN_MARGINAL_GAP_FRACTION
+
+  if (blocks.length > 1 && isMarginal(blocks[0], blocks[1])) {
+    blocks.shift()
+  }
+  if (blocks.length > 1 && isMarginal(blocks[blocks.length - 1], blocks[blocks.length - 2])) {
+    blocks.pop()
+  }
+
+  const padding = Math.round(length * PADDING_FRACTION)
+  return [
+    Math.max(start, blocks[0][0] - padding),
+    Math.min(end, blocks[blocks.length - 1][1] + padding)
+  ]
+}
+
+/**
+ * Find the printed area of a page. Returns null for blank pages and when the
+ * result would be implausibly small.
+ */
+export function findPageContentBounds(imageData: ImageData): CropBounds | null {
+  const { data, width, height } = imageData
+  const threshold = getInkThreshold(imageData)
+
+  const rowInk = new Array(height).fill(0)
+  for (let y = 0; y < height; y++) {
+    const rowOffset = y * width * 4
+    for (let x = 0; x < width; x++) {
+      if (getLuminance(data, rowOffset + x * 4) < threshold) rowInk[y]++
+    }
+  }
+  const rows = findContentRange(rowInk, width)
+  if (!rows) return null
+
+  // Columns only look at the rows kept, so dropped page numbers don't widen the crop
+  const columnInk = new Array(width).fill(0)
+  for (let y = rows[0]; y <= rows[1]; y++) {
+    const rowOffset = y * width * 4
+    for (let x = 0; x < width; x++) {
+      if (getLuminance(data, rowOffset + x * 4) < threshold) columnInk[x]++
+    }
+  }
+  const columns = findContentRange(columnInk, rows[1] - rows[0] + 1)
+  if (!columns) return null
+
+  const bounds = {
+    x: columns[0],
+    y: rows[0],
+    width: columns[1] - columns[0] + 1,
+    height: rows[1] - rows[0] + 1
+  }
+  if (bounds.width < width * MIN_CROP_FRACTION || bounds.height < height * MIN_CROP_FRACTION) {
+    return null
+  }
+  return bounds
+}
+
+export function toRelativeCropBounds(bounds: CropBounds, width: number, height: number): RelativeCropBounds {
+  return {
+    left: bounds.x / width,
+    top: bounds.y / height,
+    right: (bounds.x + bounds.width) / width,
+    bottom: (bounds.y + bounds.height) / height
+  }
+}
+
+export function fromRelativeCropBounds(bounds: RelativeCropBounds, width: number, height: number): CropBounds {
+  const x = Math.max(0, Math.floor(bounds.left * width))
+  const y = Math.max(0, Math.floor(bounds.top * height))
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width, Math.ceil(bounds.right * width)) - x),
+    height: Math.max(1, Math.min(height, Math.ceil(bounds.bottom * height)) - y)
+  }
+}
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.round(fraction * (sorted.length - 1))]
+}
+
+/**
+ * One crop for the whole book. Each edge goes as far out as nearly all pages
+ * need, so a few odd pages (spreads, full-bleed art) don't cancel the crop.
+ */
+export function combineBookCropBounds(pages: RelativeCropBounds[]): RelativeCropBounds | null {
+  if (pages.length === 0) return null
+  return {
+    left: percentile(pages.map((page) => page.left), 0.1),
+    top: percentile(pages.map((page) => page.top), 0.1),
+    right: percentile(pages.map((page) => page.right), 0.9),
+    bottom: percentile(pages.map((page) => page.bottom), 0.9)
+  }
+}
+
+/**
+ * Pages measured for a book-wide crop: evenly spaced, skipping the cover.
+ */
+export function getBookCropSampleIndices(pageCount: number): number[] {
+  const first = pageCount > 1 ? 1 : 0
+  const available = pageCount - first
+  const count = Math.min(available, MAX_BOOK_SAMPLES)
+  return Array.from({ length: count }, (_, index) =>
+    first + Math.floor(index * available / count)
+  )
+}
+
+/**
+ * Content crop for one page in the given auto-crop mode, relative to the
+ * image passed in. `readImageData` is only called when the page is measured.
+ */
+export function resolveAutoCrop(
+  mode: 'off' | 'page' | 'book',
+  bookBounds: RelativeCropBounds | undefined,
+  width: number,
+  height: number,
+  readImageData: () => ImageData
+): CropBounds | null {
+  if (mode === 'off') return null
+  if (mode === 'book' && bookBounds) {
+    return fromRelativeCropBounds(bookBounds, width, height)
+  }
+  return findPageContentBounds(readImageData())
+}
@@ -0,0 +1,265 @@
+// Generated by scripts/blue-noise-mask.ts, do not edit by hand.
+//
+// Void-and-cluster ranks for a 64x64 tileable blue-noise mask
+// (sigma 1.5, seed 0x5eed), row-major, 16 per line.
+
+export const BLUE_NOISE_SIZE = 64
+
+export const BLUE_NOISE_RANKS = [
+  61, 3035, 2034, 3429, 187, 1732, 3973, 345, 3552, 964, 2181, 2860, 3815, 2390, 3059, 1380,
+  3953, 2292, 3191, 3833, 26, 3698, 823, 2962, 1558, 3216, 59, 2394, 3141, 2053, 3305, 648,
+  1438, 1977, 3106, 732, 2971, 2266, 3749, 1816, 1191, 563, 1679, 1014, 2155, 697, 3522, 2038,
+  946, 4090, 2242, 3626, 326, 3850, 3003, 1784, 3660, 1291, 183, 1944, 1470, 3085, 1705, 3381,
+  2735, 1227, 3683, 1000, 2529, 3171, 1233, 2024, 3224, 157, 1723, 429, 2030, 999, 107, 3338,
+  1659, 381, 927, 2605, 1209, 2386, 2056, 222, 4005, 2118, 872, 2852, 382, 3655, 1609, 2914,
+  984, 3395, 53, 1772, 1115, 506, 3195, 819, 3435, 2918, 3704, 2594, 91, 2784, 1220, 2448,
+  214, 1755, 1356, 3048, 1618, 596, 2572, 988, 447, 2203, 2793, 3294, 866, 2628, 1091, 2083,
+  702, 2379, 1786, 606, 3841, 2213, 855, 2765, 1581, 2498, 3699, 3276, 1407, 3569, 2521, 777,
+  2170, 3621, 1911, 3020, 674, 3227, 1382, 3433, 1076, 2559, 1639, 3913, 1242, 787, 2351, 4023,
+  406, 2692, 3721, 2423, 4045, 2019, 1474, 2611, 141, 1961, 399, 1462, 3131, 3975, 1585, 3256,
+  3771, 581, 3423, 854, 2017, 3491, 1328, 3235, 3981, 736, 1718, 3628, 373, 3919, 241, 3600,
+  1408, 4009, 281, 2933, 1541, 37, 3644, 488, 3932, 746, 1189, 2703, 643, 1752, 2948, 3826,
+  1169, 2823, 523, 1433, 4041, 289, 2740, 1862, 370, 3554, 597, 3188, 1956, 2713, 101, 1835,
+  1218, 2151, 1535, 875, 3046, 234, 3543, 2216, 3964, 1256, 3347, 2305, 764, 1924, 308, 870,
+  2190, 2888, 2470, 266, 2817, 2329, 200, 1872, 2479, 2944, 1124, 2422, 1364, 2192, 1844, 3006,
+  466, 3221, 2010, 3513, 1178, 2659, 1801, 3037, 1374, 2294, 3075, 65, 4055, 2120, 479, 1542,
+  195, 3270, 2483, 1790, 3391, 2204, 748, 3785, 3045, 1359, 2251, 198, 3798, 1463, 3426, 2981,
+  3587, 587, 3204, 337, 1354, 2802, 1029, 612, 1694, 2774, 528, 3672, 1126, 3439, 2667, 3055,
+  1468, 1106, 1863, 3998, 1021, 3751, 663, 3570, 1485, 122, 3854, 537, 3138, 3427, 792, 2535,
+  1637, 1083, 2750, 756, 2320, 3310, 994, 2104, 205, 3438, 1941, 982, 2460, 1223, 3328, 2649,
+  2054, 3944, 903, 81, 2867, 1066, 1633, 2358, 938, 2651, 1793, 2966, 1054, 2441, 557, 932,
+  2286, 1666, 3852, 2509, 3448, 1757, 3871, 2561, 3211, 952, 1997, 2930, 1671, 446, 2074, 3856,
+  50, 3637, 520, 3143, 1414, 1741, 3078, 2171, 1040, 3213, 2035, 1598, 2723, 52, 1258, 3737,
+  2256, 133, 3828, 1728, 239, 4063, 599, 3609, 2844, 524, 1596, 3689, 3140, 361, 3592, 704,
+  1079, 1668, 2333, 3613, 1335, 3903, 474, 3419, 55, 4072, 688, 3605, 322, 3339, 2047, 3972,
+  315, 2830, 1016, 1982, 668, 2253, 20, 1502, 338, 3820, 2405, 83, 4073, 2506, 1301, 734,
+  1815, 3284, 2618, 2131, 147, 2672, 884, 439, 2731, 3707, 760, 2367, 980, 4094, 1806, 2903,
+  900, 3306, 2477, 1309, 3068, 1978, 1584, 2486, 1215, 3971, 2687, 759, 1425, 2290, 1769, 2974,
+  3764, 418, 3047, 610, 2067, 2534, 3192, 1942, 2800, 1246, 2129, 1491, 2764, 1762, 1182, 2648,
+  1441, 3501, 127, 2997, 1240, 3677, 3142, 2033, 3406, 1315, 720, 1525, 3110, 937, 3511, 2876,
+  2341, 1527, 832, 1257, 3867, 3434, 2354, 4044, 1275, 1781, 248, 3559, 3056, 2147, 324, 3523,
+  1528, 1960, 436, 3575, 728, 2785, 342, 3291, 873, 1779, 2225, 311, 2898, 3900, 86, 1327,
+  2154, 2676, 1251, 3369, 1758, 164, 976, 1513, 3640, 388, 3201, 2406, 825, 3786, 40, 3175,
+  719, 2407, 1725, 4074, 423, 2747, 752, 1077, 2331, 2953, 3722, 2631, 1918, 292, 2162, 509,
+  4008, 232, 3560, 2904, 645, 1914, 1565, 33, 3380, 2495, 2896, 1478, 470, 1195, 2646, 635,
+  2996, 4013, 2736, 990, 2183, 3879, 1453, 2287, 3650, 28, 3208, 3556, 1003, 1973, 2599, 810,
+  3400, 184, 4033, 893, 2775, 3819, 3054, 598, 2271, 1771, 1033, 3899, 462, 3005, 2223, 1587,
+  3730, 1088, 3301, 2160, 1392, 2387, 1687, 3991, 504, 1814, 213, 1121, 3350, 3838, 1424, 3167,
+  1170, 2533, 1714, 2252, 309, 3184, 1092, 2934, 2072, 572, 1070, 3942, 1970, 3187, 3821, 2334,
+  1074, 7, 1825, 1391, 3444, 137, 1104, 2945, 595, 2052, 1243, 2469, 1613, 500, 3165, 3685,
+  1550, 1920, 2401, 1482, 350, 2113, 1207, 2592, 3987, 3303, 172, 2873, 1963, 1283, 3462, 569,
+  2760, 2012, 204, 888, 3641, 3083, 249, 3458, 2837, 902, 3595, 2254, 622, 1736, 2763, 789,
+  1950, 3728, 989, 3389, 1411, 3702, 2602, 785, 3843, 1702, 3273, 2443, 801, 1669, 233, 1365,
+  3296, 3654, 2357, 538, 3098, 2476, 1851, 3804, 2635, 1562, 3849, 703, 2938, 4079, 1150, 2258,
+  317, 3011, 634, 3220, 3629, 1624, 3497, 286, 833, 1329, 2543, 1546, 3676, 876, 2587, 1850,
+  325, 3848, 2942, 2603, 555, 1917, 1175, 2580, 1471, 2045, 3189, 1352, 2998, 178, 2355, 3470,
+  62, 2957, 363, 2688, 727, 2059, 193, 1312, 3532, 366, 2150, 76, 3688, 2818, 3482, 2051,
+  465, 852, 2879, 3934, 1684, 804, 3354, 428, 993, 3067, 274, 3421, 2133, 175, 1818, 2769,
+  981, 3836, 2581, 1132, 2267, 559, 2893, 1855, 3021, 2139, 3529, 603, 2322, 230, 3936, 1010,
+  3286, 1504, 1139, 1674, 3212, 3946, 812, 2235, 146, 3882, 412, 2528, 4038, 985, 3674, 1266,
+  2174, 1567, 3909, 1871, 3134, 4002, 2456, 3033, 1574, 2630, 1008, 3093, 1415, 589, 958, 2570,
+  3077, 1500, 2093, 1204, 221, 2791, 2122, 1442, 3530, 2234, 1840, 956, 1381, 2565, 3642, 708,
+  3476, 1339, 1805, 95, 3890, 962, 2467, 1405, 3827, 25, 1084, 3111, 1722, 2832, 1401, 3040,
+  2383, 647, 3452, 2219, 51, 1344, 2858, 3544, 3044, 1131, 1761, 712, 2000, 1553, 2598, 534,
+  3248, 757, 2373, 415, 1183, 1643, 527, 1986, 861, 3322, 4061, 1867, 2717, 2195, 3977, 1740,
+  3748, 268, 2550, 3231, 3684, 1046, 4030, 109, 2502, 660, 3924, 2732, 3316, 545, 1631, 3109,
+  2116, 425, 3309, 2712, 1962, 3123, 220, 3342, 666, 2675, 1959, 4080, 384, 3431, 2173, 70,
+  1912, 4020, 349, 2538, 3734, 1974, 438, 1630, 667, 2126, 3726, 2788, 3397, 269, 2976, 1861,
+  3777, 2720, 1362, 3617, 2640, 910, 3214, 3811, 135, 2283, 609, 1197, 343, 3290, 126, 1137,
+  1953, 3425, 725, 1791, 503, 2428, 1575, 3199, 1188, 2905, 1620, 143, 2208, 3969, 1160, 24,
+  2489, 1488, 4021, 750, 1261, 3585, 1720, 2167, 1154, 3616, 1510, 860, 2482, 671, 1164, 3664,
+  821, 2868, 1765, 1057, 716, 3364, 2353, 3807, 2634, 3319, 23, 1300, 909, 2308, 3915, 1130,
+  188, 960, 3052, 2099, 11, 3503, 2227, 1248, 2806, 1530, 3745, 2504, 3573, 1508, 2862, 2400,
+  920, 2794, 1366, 3581, 2182, 3079, 706, 1919, 3571, 458, 3713, 1299, 886, 2863, 1983, 3762,
+  2955, 945, 2261, 3001, 483, 2510, 849, 4000, 2415, 313, 2801, 3336, 2057, 3809, 1662, 3181,
+  2620, 1244, 3598, 3095, 2706, 1526, 1181, 294, 963, 1495, 2432, 3039, 3618, 477, 1431, 2166,
+  3498, 1746, 550, 4049, 1852, 2890, 344, 1763, 3475, 460, 2999, 1803, 881, 2066, 3873, 497,
+  1650, 4081, 73, 2695, 1211, 283, 3757, 2564, 913, 2275, 1811, 3172, 2463, 351, 3282, 786,
+  1827, 3525, 196, 1652, 3805, 1444, 2897, 435, 1348, 3084, 1832, 99, 1331, 2920, 284, 2265,
+  510, 1557, 160, 2073, 478, 4091, 3249, 2811, 1857, 3960, 358, 2009, 1690, 2665, 3263, 679,
+  2869, 2388, 3312, 1439, 753, 1122, 3886, 2532, 922, 2143, 1141, 60, 3102, 617, 1326, 3245,
+  2336, 3062, 2006, 871, 3911, 1649, 2864, 1307, 38, 3355, 2748, 654, 3861, 1688, 1349, 2637,
+  525, 1213, 2729, 2096, 3287, 56, 3549, 2029, 3416, 729, 3940, 1056, 2585, 3459, 867, 3951,
+  1965, 3344, 3866, 2392, 955, 1796, 116, 2148, 3536, 613, 3164, 1142, 761, 4095, 84, 1600,
+  3834, 1194, 158, 2751, 2309, 3100, 1580, 642, 3265, 4026, 2686, 3663, 2247, 3480, 2652, 299,
+  1102, 556, 1481, 3262, 2321, 638, 3472, 2144, 4058, 1509, 383, 1157, 2090, 3437, 202, 4051,
+  2352, 3703, 3124, 605, 992, 2371, 1754, 1086, 2593, 1577, 2310, 3574, 604, 1874, 1393, 2472,
+  1027, 2935, 741, 1409, 3546, 2515, 3030, 858, 1314, 2582, 2221, 3756, 2916, 2289, 1075, 2601,
+  1948, 492, 3706, 2018, 3447, 270, 3679, 2081, 201, 1865, 1397, 359, 1572, 987, 1853, 3782,
+  2094, 2612, 3489, 339, 2804, 1884, 255, 1052, 2929, 1875, 3695, 2389, 3041, 912, 2822, 2032,
+  1545, 278, 1902, 1369, 4010, 2796, 653, 3845, 145, 2877, 379, 2062, 3159, 225, 2790, 3562,
+  22, 1808, 2673, 305, 3215, 1158, 547, 3895, 1713, 3361, 128, 1466, 417, 1846, 3210, 3533,
+  859, 3061, 1341, 630, 1651, 1031, 2721, 1280, 2936, 766, 3186, 2574, 3954, 2952, 121, 3356,
+  827, 3980, 1789, 1145, 3763, 1371, 3223, 2491, 565, 862, 3236, 138, 1626, 583, 3577, 1081,
+  3238, 791, 2464, 3360, 347, 1556, 3101, 2161, 3373, 940, 3755, 1239, 1641, 4060, 2130, 651,
+  3193, 1222, 3659, 2169, 1682, 3752, 2302, 2838, 331, 1030, 1951, 2671, 3568, 694, 1372, 328,
+  2231, 3914, 2540, 2954, 3623, 2445, 539, 3876, 2222, 3589, 1089, 513, 2064, 740, 2459, 1449,
+  426, 2870, 10, 2466, 681, 2186, 3955, 1607, 3602, 2109, 2679, 1337, 3922, 2517, 1845, 45,
+  2752, 3930, 1120, 2680, 2020, 3723, 1219, 468, 1868, 1413, 3259, 2662, 769, 3016, 1067, 1570,
+  3779, 2382, 578, 2977, 877, 77, 1436, 1886, 3599, 2959, 4012, 839, 3099, 2363, 3962, 2856,
+  1582, 207, 1821, 933, 119, 1947, 3137, 1538, 31, 1770, 2420, 3750, 1297, 3449, 1760, 3072,
+  3670, 2194, 1420, 3606, 3154, 935, 156, 2979, 357, 1099, 3761, 535, 2043, 3332, 1253, 3789,
+  2149, 486, 1709, 3481, 90, 908, 2437, 2766, 3984, 2293, 574, 170, 2433, 3509, 407, 2708,
+  1905, 262, 1475, 3931, 1952, 2744, 3324, 755, 2361, 1383, 508, 2138, 1619, 0, 997, 2028,
+  3488, 1173, 3225, 2328, 3993, 1230, 3490, 837, 2655, 3358, 312, 1663, 2758, 212, 3883, 1138,
+  1860, 915, 3013, 444, 1680, 2742, 1276, 1967, 3456, 2424, 1751, 2886, 974, 372, 3002, 811,
+  1472, 3169, 2325, 705, 2925, 1660, 3565, 257, 800, 1675, 2932, 3851, 1777, 1350, 2210, 3889,
+  814, 3149, 3414, 1043, 2412, 467, 3997, 1190, 168, 2615, 3463, 1111, 3824, 2755, 3252, 511,
+  2596, 737, 3793, 433, 1514, 2826, 365, 2301, 4067, 1262, 2943, 784, 3257, 2284, 591, 2642,
+  240, 2523, 3424, 2011, 3898, 2374, 3710, 551, 2807, 1418, 64, 3250, 4065, 2391, 1695, 3516,
+  2579, 171, 3686, 1322, 4075, 2202, 3122, 1345, 3293, 3625, 1151, 2071, 897, 3246, 79, 2928,
+  1265, 2503, 2097, 190, 3547, 1711, 3057, 2050, 3778, 3012, 1768, 243, 2461, 1303, 1826, 3744,
+  1519, 2992, 1908, 2650, 691, 2091, 3050, 1097, 1893, 549, 2157, 3927, 1069, 1939, 1511, 3374,
+  4082, 1367, 673, 1206, 115, 799, 1583, 3217, 953, 3870, 744, 2180, 1497, 250, 2845, 532,
+  1929, 1100, 2813, 2036, 391, 1065, 571, 1913, 2569, 9, 2376, 464, 3553, 2591, 684, 1708,
+  3596, 518, 1612, 2849, 1368, 943, 2478, 628, 1573, 885, 2248, 3313, 710, 3638, 282, 914,
+  2300, 78, 1336, 3611, 3253, 1715, 3806, 131, 3624, 3133, 1590, 2563, 94, 3708, 3032, 868,
+  1719, 2263, 3653, 2902, 2551, 3331, 2103, 295, 2319, 1837, 2714, 3512, 1063, 2007, 3671, 1333,
+  3994, 3326, 767, 1622, 3382, 2682, 3760, 2913, 950, 1559, 4043, 3070, 1477, 1898, 3957, 2279,
+  1050, 3090, 4066, 763, 3797, 3237, 41, 2821, 3643, 440, 4068, 1430, 2931, 1934, 3178, 2557,
+  4042, 3345, 1018, 2238, 238, 848, 2468, 1417, 2719, 939, 390, 3527, 1377, 2369, 451, 2803,
+  54, 3234, 501, 1864, 1454, 4034, 1112, 2941, 3561, 1271, 210, 3092, 602, 2547, 3242, 865,
+  2240, 277, 2426, 3869, 63, 2349, 1428, 306, 3440, 1972, 675, 2710, 215, 1162, 3341, 369,
+  2693, 124, 1880, 2343, 409, 2163, 1778, 3343, 1316, 1993, 2623, 996, 364, 2232, 1216, 639,
+  1672, 2078, 536, 2835, 3986, 1192, 3484, 568, 2243, 3352, 1836, 2883, 718, 3194, 1026, 2076,
+  3578, 2645, 1073, 3759, 245, 699, 2653, 1627, 611, 3966, 2429, 1640, 3795, 1245, 3, 1834,
+  3076, 1539, 2947, 1176, 3219, 1798, 890, 3916, 2419, 3209, 1038, 2159, 3810, 2865, 803, 2002,
+  3711, 1515, 3471, 1114, 2734, 1490, 3586, 1053, 2398, 209, 3112, 3483, 1704, 3929, 2859, 3541,
+  211, 3024, 3645, 1469, 2553, 1901, 2969, 1604, 3917, 208, 1198, 2115, 3992, 1700, 3767, 1263,
+  567, 1569, 2198, 3073, 2414, 3460, 1994, 43, 3279, 2065, 925, 450, 2834, 2212, 3945, 2711,
+  512, 3775, 685, 2100, 422, 3567, 2193, 582, 1665, 154, 3701, 1384, 541, 2395, 1667, 3010,
+  1247, 2447, 625, 2986, 3738, 834, 280, 2778, 717, 3878, 1517, 580, 2473, 46, 944, 1523,
+  2683, 1134, 1949, 790, 385, 3337, 100, 965, 1958, 2544, 3614, 494, 2625, 179, 2277, 2912,
+  1938, 4015, 318, 781, 1739, 1013, 3023, 3735, 1212, 2727, 3152, 1876, 3411, 749, 1615, 1036,
+  3506, 1346, 2567, 1629, 2889, 1110, 2674, 3126, 1252, 2851, 2545, 1848, 3136, 3550, 42, 3897,
+  442, 3329, 2108, 165, 1819, 2418, 4032, 1896, 3412, 2209, 1094, 2978, 3731, 2098, 3302, 2384,
+  3825, 333, 3226, 3881, 1691, 2272, 3792, 2725, 3157, 696, 1386, 2995, 924, 1505, 3325, 831,
+  3496, 1353, 3182, 2739, 3918, 1447, 443, 2295, 778, 1532, 279, 3753, 1395, 177, 3202, 2410,
+  1989, 104, 3359, 3910, 798, 3709, 113, 1930, 3990, 826, 3500, 254, 954, 1294, 2236, 856,
+  2663, 1012, 3959, 1450, 3228, 1234, 496, 3029, 1625, 106, 2643, 1817, 842, 1332, 499, 1843,
+  715, 2211, 2600, 1290, 2906, 594, 1159, 1498, 304, 4062, 2324, 3415, 1923, 3799, 434, 2500,
+  110, 2313, 991, 2005, 191, 3519, 2626, 1775, 4025, 3371, 2484, 1061, 2070, 2656, 3662, 378,
+  2975, 916, 2199, 303, 1891, 2377, 1492, 3408, 353, 2288, 1555, 2086, 4083, 2833, 1547, 3254,
+  1980, 1712, 2827, 723, 3580, 2660, 2134, 863, 1285, 3816, 3281, 405, 3507, 2746, 4047, 3008,
+  1459, 3464, 972, 19, 1998, 3446, 2475, 3656, 2117, 882, 1735, 32, 2743, 1149, 3031, 1689,
+  2815, 3725, 530, 3370, 2380, 1140, 658, 2939, 108, 2165, 636, 3007, 3965, 809, 1797, 1286,
+  4069, 1576, 2738, 3156, 1318, 3283, 689, 2494, 1129, 3026, 573, 3278, 397, 2451, 601, 3832,
+  199, 3494, 380, 2298, 1064, 30, 3145, 3649, 2824, 623, 2337, 1476, 2044, 150, 2453, 926,
+  271, 3742, 1646, 3118, 4031, 830, 395, 1820, 2951, 3357, 1272, 3675, 672, 2218, 3979, 901,
+  3255, 1185, 1869, 1501, 2895, 3844, 2055, 3308, 1025, 1681, 3515, 1324, 419, 2342, 3130, 552,
+  2259, 3517, 644, 1037, 3982, 430, 2881, 3853, 1744, 3690, 2749, 1259, 3754, 1750, 3015, 1133,
+  2487, 1323, 3088, 1632, 3774, 1995, 1551, 307, 2465, 1976, 1020, 3943, 3121, 1167, 1707, 3260,
+  1971, 2753, 542, 2411, 1325, 2770, 3275, 1096, 136, 2664, 531, 2458, 3196, 1552, 251, 2089,
+  640, 2616, 4003, 14, 841, 1693, 341, 1403, 3669, 2733, 263, 1916, 2808, 1507, 3454, 1048,
+  2871, 228, 1841, 2530, 2152, 1645, 931, 2068, 18, 844, 2224, 1887, 970, 88, 2145, 3661,
+  806, 2027, 4054, 614, 2425, 3327, 899, 4014, 1701, 3473, 224, 2853, 738, 3604, 473, 3857,
+  2296, 1201, 3398, 1858, 227, 2205, 1623, 3887, 2276, 1400, 3958, 1783, 971, 2696, 3436, 1340,
+  2403, 320, 2967, 2146, 3404, 2577, 3127, 2245, 780, 2442, 3907, 3241, 918, 3803, 29, 2025,
+  3872, 1426, 3103, 3773, 148, 3583, 2636, 3367, 1451, 3128, 302, 3563, 2678, 3207, 1402, 476,
+  3384, 2629, 120, 2937, 1284, 408, 2690, 1241, 544, 3173, 1406, 1812, 2560, 2085, 2983, 1432,
+  117, 775, 3952, 2880, 1001, 3740, 570, 3019, 807, 3461, 2041, 167, 3766, 480, 1907, 3840,
+  1706, 3545, 1378, 1034, 3700, 620, 1236, 4059, 130, 1512, 1107, 2214, 356, 2586, 1685, 2452,
+  782, 2684, 1161, 590, 1487, 2985, 386, 1193, 2370, 4029, 2549, 1543, 735, 3976, 2347, 2921,
+  1804, 1506, 1060, 3518, 1878, 3880, 3065, 2237, 3612, 2621, 851, 3697, 4, 1278, 661, 2724,
+  3564, 2527, 1549, 449, 3298, 1435, 2531, 1899, 296, 2728, 1082, 3000, 2346, 1199, 2836, 847,
+  2191, 3091, 505, 1888, 2417, 231, 2861, 1935, 3378, 2988, 1776, 607, 3627, 3053, 1143, 3304,
+  456, 3631, 2241, 3362, 2450, 1979, 765, 3791, 1877, 593, 1101, 3388, 375, 1936, 1155, 169,
+  3908, 676, 2798, 2280, 815, 1529, 69, 986, 1753, 288, 2132, 3036, 2393, 4084, 3366, 1774,
+  2102, 1041, 3058, 1940, 2282, 58, 3528, 1208, 3715, 1561, 3311, 693, 1499, 3610, 3288, 144,
+  4092, 921, 2552, 3901, 1467, 3267, 1676, 721, 2507, 453, 3837, 2782, 1410, 1954, 237, 3988,
+  1524, 1903, 72, 907, 4057, 1250, 3442, 2786, 267, 2970, 1703, 2158, 2771, 3719, 820, 2548,
+  3108, 2114, 3622, 265, 3176, 2546, 2008, 3781, 2922, 1334, 3925, 1093, 403, 1642, 936, 236,
+  3787, 368, 3445, 711, 3933, 2850, 878, 3097, 2246, 498, 2522, 3989, 1945, 402, 2496, 1586,
+  1273, 3376, 89, 2891, 795, 2206, 3769, 1116, 3534, 2060, 975, 2416, 3292, 797, 2306, 2754,
+  1007, 3198, 2797, 1591, 3094, 206, 1653, 2262, 978, 3258, 3921, 75, 1287, 3051, 1597, 3450,
+  1238, 471, 1698, 1342, 3814, 485, 3321, 713, 2385, 3407, 566, 1933, 3295, 2741, 2176, 3150,
+  2438, 1373, 1745, 2588, 1153, 1648, 2048, 259, 3896, 1730, 977, 8, 2239, 1035, 2972, 637,
+  2657, 1726, 2125, 1128, 3467, 421, 2632, 36, 1457, 3104, 226, 1306, 401, 3739, 1729, 3493,
+  554, 2215, 3831, 389, 2135, 2624, 584, 3651, 1321, 2396, 730, 2613, 3572, 526, 2278, 323,
+  1990, 3855, 2431, 2924, 1004, 1824, 2767, 1184, 153, 1617, 2669, 3590, 1416, 700, 3682, 1203,
+  608, 3985, 2965, 152, 3691, 482, 3466, 2700, 1269, 2960, 3535, 2644, 3197, 3780, 1799, 3646,
+  514, 3074, 360, 3790, 1822, 1347, 2973, 4004, 2344, 1748, 3902, 3465, 2136, 2866, 1210, 176,
+  2597, 1305, 733, 3432, 1042, 3884, 2919, 2014, 159, 3776, 1518, 2003, 942, 1767, 4076, 2812,
+  1017, 3269, 770, 112, 2226, 3469, 1445, 3968, 2188, 3087, 948, 229, 2340, 3004, 80, 1606,
+  2819, 1946, 904, 2175, 3147, 2446, 1412, 816, 2197, 619, 1906, 1448, 731, 1255, 161, 2270,
+  1022, 3928, 1440, 2332, 3183, 678, 1922, 947, 481, 2874, 773, 2609, 1628, 624, 4070, 3155,
+  2001, 3705, 1670, 2497, 1882, 1396, 828, 3418, 1743, 2768, 420, 2946, 3379, 2492, 1267, 13,
+  3579, 1484, 2627, 3115, 3894, 646, 301, 2524, 754, 3680, 1999, 3995, 1152, 1802, 3813, 2525,
+  3348, 336, 3520, 1282, 655, 1885, 4071, 3243, 102, 3817, 3116, 273, 4035, 2105, 2820, 3468,
+  1975, 2508, 768, 2816, 223, 3712, 2220, 3239, 3607, 1171, 2026, 82, 3251, 1058, 2421, 1540,
+  894, 3318, 454, 2961, 123, 3158, 371, 2514, 1002, 3299, 1226, 3941, 182, 707, 3180, 1926,
+  2335, 491, 1785, 1166, 1991, 1566, 3034, 3375, 1756, 1298, 374, 2575, 3229, 813, 2111, 522,
+  1055, 2317, 1579, 3862, 2773, 244, 995, 2842, 1534, 2457, 1032, 2779, 1603, 3340, 853, 1522,
+  3601, 67, 3280, 1087, 1657, 2558, 1270, 139, 1601, 2488, 3422, 1437, 3800, 1900, 330, 3017,
+  2, 2702, 1085, 4027, 2046, 3576, 1595, 3967, 2101, 585, 2364, 1710, 2168, 1452, 3822, 2878,
+  758, 4001, 3330, 194, 3635, 2707, 1071, 2124, 17, 2882, 3478, 1563, 452, 2840, 3413, 1429,
+  4048, 3081, 35, 2505, 3266, 1696, 2330, 3633, 1996, 392, 3720, 2244, 562, 2520, 300, 2917,
+  616, 1782, 4053, 2107, 3537, 517, 3877, 2777, 739, 4039, 362, 3043, 564, 2762, 3619, 2187,
+  3893, 1813, 2327, 1360, 779, 2402, 1187, 2846, 34, 3597, 3114, 843, 3658, 2576, 410, 1072,
+  1560, 2715, 2140, 896, 2435, 445, 3495, 793, 4088, 2249, 698, 2434, 3905, 1264, 162, 2709,
+  1794, 627, 2016, 1119, 742, 3499, 329, 1237, 670, 3317, 1733, 1268, 3540, 1866, 3865, 1217,
+  2454, 3086, 1295, 327, 2908, 864, 1894, 3144, 2303, 1773, 1028, 2092, 2455, 822, 1260, 484,
+  1434, 3455, 592, 3772, 2761, 416, 3405, 722, 1854, 1465, 2617, 316, 1172, 3394, 1831, 3117,
+  3714, 352, 1249, 2984, 3948, 1404, 1889, 2993, 1536, 1136, 3151, 1829, 911, 2049, 3681, 2381,
+  892, 3594, 2892, 3747, 1494, 2123, 3042, 2622, 4006, 2872, 840, 3060, 44, 998, 3179, 2127,
+  3794, 928, 2689, 1605, 2316, 3386, 1427, 1108, 260, 3377, 2839, 1358, 3935, 1699, 3487, 2909,
+  929, 2583, 216, 1915, 3063, 1673, 2201, 3812, 3049, 1051, 4052, 2013, 2855, 641, 2233, 185,
+  2462, 1910, 3403, 1608, 709, 2260, 242, 3668, 2654, 400, 3830, 103, 3508, 2949, 1594, 310,
+  3200, 1277, 413, 2307, 163, 3858, 829, 1838, 1520, 174, 2499, 2031, 3961, 2704, 1544, 346,
+  1734, 149, 3505, 682, 3906, 21, 2080, 3818, 2647, 692, 3639, 114, 3206, 404, 2356, 1909,
+  3351, 1602, 3168, 1147, 3632, 111, 973, 2658, 475, 2348, 189, 3230, 1593, 3904, 1313, 3551,
+  1005, 657, 3802, 48, 2825, 3261, 1006, 2413, 632, 2042, 2789, 1483, 2362, 507, 1113, 3950,
+  1955, 2554, 3387, 1724, 2831, 1200, 3323, 455, 2350, 1117, 3485, 1399, 553, 2359, 776, 3420,
+  2829, 2273, 1927, 3038, 1039, 2590, 3264, 502, 1683, 2250, 979, 1987, 2555, 1125, 3743, 68,
+  669, 4050, 2281, 796, 2519, 1480, 3314, 1988, 1296, 3636, 1788, 805, 2501, 355, 3018, 1638,
+  2699, 3160, 2185, 2573, 1823, 3860, 1311, 3393, 1731, 3724, 1221, 3368, 747, 3240, 2229, 2857,
+  683, 1537, 966, 4019, 586, 2526, 2022, 3647, 2991, 3808, 335, 3203, 1800, 3727, 2994, 1310,
+  4011, 1080, 437, 3648, 1387, 1810, 818, 2963, 3514, 1375, 4016, 2982, 588, 1578, 2745, 2095,
+  1355, 2787, 264, 2037, 3868, 2923, 319, 3970, 745, 2781, 3385, 1394, 3716, 957, 2365, 92,
+  4089, 1205, 427, 1423, 879, 487, 2075, 151, 2854, 857, 261, 2578, 1897, 3732, 1727, 47,
+  3657, 3064, 218, 2178, 3022, 1461, 1, 967, 1654, 2088, 817, 2757, 1165, 181, 2084, 519,
+  3277, 1564, 2474, 2809, 246, 4085, 2189, 1168, 140, 2718, 334, 1749, 3346, 3891, 891, 3066,
+  3584, 1078, 3289, 1647, 575, 1186, 2304, 1716, 3082, 93, 2179, 441, 2737, 2023, 3504, 1839,
+  771, 2040, 3383, 2894, 3717, 3107, 2633, 4037, 1376, 3129, 2112, 3920, 1015, 393, 1351, 2677,
+  1045, 2375, 3477, 1807, 850, 3746, 3372, 2716, 560, 2537, 1503, 4086, 2291, 3538, 961, 2607,
+  49, 3783, 783, 2015, 3185, 579, 2427, 3665, 1931, 3271, 836, 2297, 1196, 377, 2439, 203,
+  1809, 2372, 411, 3736, 2641, 3392, 874, 3588, 1460, 2556, 1135, 4018, 3132, 1254, 618, 3069,
+  3620, 2513, 1592, 125, 2315, 1156, 1658, 665, 2268, 3593, 1634, 533, 2926, 2404, 3146, 4087,
+  2058, 548, 1292, 3842, 287, 2360, 1904, 1319, 3875, 3441, 98, 3028, 687, 1616, 3139, 1892,
+  656, 2228, 3502, 1109, 1655, 3443, 1443, 414, 2539, 1554, 3829, 2841, 3557, 1937, 3166, 1548,
+  3983, 714, 2958, 1304, 1932, 6, 2795, 2082, 387, 3801, 1957, 726, 1697, 217, 2619, 1419,
+  275, 1023, 3956, 677, 3542, 1985, 298, 3417, 1068, 5, 2726, 1289, 3410, 1571, 272, 808,
+  3396, 1656, 2900, 2606, 1146, 3218, 652, 2910, 354, 2230, 1235, 1921, 2639, 376, 3926, 1398,
+  3025, 1274, 2848, 197, 2638, 846, 2927, 3912, 1019, 600, 2079, 85, 1456, 701, 3733, 1044,
+  2698, 2137, 3531, 917, 2430, 4064, 1370, 662, 3205, 968, 2899, 3539, 2326, 3363, 3923, 1764,
+  2911, 2172, 3161, 1842, 959, 2843, 3846, 2471, 3014, 1928, 3974, 845, 2196, 3823, 2004, 1177,
+  2490, 97, 3268, 461, 2128, 1589, 3615, 1049, 1830, 3285, 869, 3788, 3232, 1144, 2106, 2541,
+  3365, 332, 3996, 1847, 3696, 2142, 57, 1890, 2685, 3526, 2987, 1059, 2584, 2156, 2875, 490,
+  1385, 166, 1636, 3163, 348, 1737, 2950, 3630, 2399, 1795, 129, 1489, 529, 1090, 2077, 835,
+  3673, 398, 1232, 2666, 432, 3297, 1281, 794, 1531, 495, 2512, 3096, 186, 690, 2670, 3608,
+  1458, 3885, 1870, 930, 4040, 2701, 74, 2449, 3978, 2691, 1464, 515, 2274, 155, 3666, 906,
+  1964, 1521, 2339, 629, 1361, 3105, 1148, 3320, 1389, 276, 1742, 3244, 4077, 252, 3479, 1859,
+  3353, 3859, 2756, 631, 3770, 1103, 2217, 285, 1202, 3428, 2730, 3963, 2542, 3162, 16, 2783,
+  1363, 3390, 2378, 3892, 1644, 2257, 134, 2110, 3222, 3555, 1738, 1224, 3694, 1849, 3274, 431,
+  2990, 664, 2366, 3492, 1357, 577, 3177, 1686, 762, 297, 2956, 1759, 3457, 2759, 1661, 521,
+  2595, 3558, 969, 3247, 2493, 463, 4017, 2318, 649, 3847, 2397, 546, 1302, 1664, 772, 2518,
+  949, 2269, 1231, 1966, 2562, 3300, 788, 3947, 1599, 576, 2119, 887, 1288, 1787, 3765, 2444,
+  626, 1968, 105, 774, 2780, 3524, 1446, 4078, 2697, 256, 934, 2338, 2828, 1422, 1009, 2285,
+  1717, 1118, 2847, 173, 3080, 1969, 3796, 2264, 1330, 3334, 2063, 3937, 695, 1343, 3071, 3949,
+  1179, 2915, 96, 3784, 1747, 2792, 883, 1621, 3027, 2069, 919, 3634, 2907, 2311, 3888, 3170,
+  71, 2980, 396, 3582, 1479, 118, 1873, 2884, 2481, 3148, 3741, 253, 3009, 3409, 424, 1588,
+  4056, 3119, 1486, 3718, 1095, 469, 2989, 633, 1123, 1984, 3863, 558, 3453, 66, 4022, 3135,
+  258, 3758, 2087, 1493, 2536, 895, 1180, 247, 3566, 2516, 1098, 27, 2566, 898, 2207, 219,
+  650, 1879, 2255, 1317, 321, 2039, 3399, 132, 3729, 1214, 2705, 15, 1992, 1011, 457, 1496,
+  2121, 1721, 4036, 889, 3113, 2299, 3548, 1338, 192, 983, 1943, 1516, 2368, 743, 2177, 1127,
+  2885, 905, 2604, 2164, 3233, 1925, 2436, 1692, 3603, 2589, 3120, 1568, 2061, 2571, 802, 1981,
+  2511, 3430, 751, 3938, 394, 3521, 2968, 2668, 1895, 489, 3768, 1635, 3174, 3652, 1828, 3474,
+  2480, 3272, 4093, 838, 3089, 3687, 1105, 2608, 1883, 472, 3333, 1614, 3125, 3510, 2610, 3693,
+  1047, 3402, 2485, 561, 2810, 1062, 448, 3874, 2184, 3401, 2722, 493, 3999, 2805, 3591, 1833,
+  293, 3451, 516, 1677, 180, 3939, 941, 3335, 39, 1388, 824, 290, 2901, 1174, 3678, 1533,
+  540, 1293, 1856, 3190, 2312, 1678, 680, 4024, 1473, 880, 2887, 2141, 1163, 291, 2799, 1390,
+  923, 1611, 459, 2694, 1455, 2323, 659, 2964, 1421, 2440, 4028, 724, 1279, 314, 1881, 686,
+  2776, 235, 1308, 2021, 1610, 3349, 1792, 2614, 621, 1229, 3692, 1766, 951, 1320, 142, 2568,
+  3864, 2314, 1225, 3667, 2661, 1379, 367, 2814, 2200, 4007, 2408, 3307, 3835, 1780, 340, 2940,
+  3315, 2681, 12, 1024, 2772, 1228, 2153, 87, 3153, 2409, 3486, 615, 4046, 2345, 543, 3839
+]
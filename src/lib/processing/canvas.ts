@@ -1,80 +1,10 @@
-// Canvas utility functions for rotation and resizing
+// Canvas utility functions for resizing
 
-const DEVICE_DIMENSIONS = {
-  X4: { width: 480, height: 800 },
-  X3: { width: 528, height: 792 }
-} as const;
-
-export type TargetDevice = keyof typeof DEVICE_DIMENSIONS;
+import { DEFAULT_DEVICE_PROFILE } from '../conversion/devices';
 
 // Default target dimensions for XTEink X4
-export const TARGET_WIDTH = DEVICE_DIMENSIONS.X4.width;
-export const TARGET_HEIGHT = DEVICE_DIMENSIONS.X4.height;
-
-export function getTargetDimensions(device: TargetDevice = 'X4') {
-  return DEVICE_DIMENSIONS[device] || DEVICE_DIMENSIONS.X4;
-}
-
-/**
- * Rotate canvas by specified degrees
- */
-export function rotateCanvas(canvas: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
-  const rotated = document.createElement('canvas');
-
-  if (degrees === -90 || degrees === 90) {
-    rotated.width = canvas.height;
-    rotated.height = canvas.width;
-  } else {
-    rotated.width = canvas.width;
-    rotated.height = canvas.height;
-  }
-
-  const ctx = rotated.getContext('2d')!;
-  ctx.translate(rotated.width / 2, rotated.height / 2);
-  ctx.rotate(degrees * Math.PI / 180);
-  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
-
-  return rotated;
-}
-
-/**
- * Extract a region from canvas and rotate it
- */
-export function extractAndRotate(
-  srcCanvas: HTMLCanvasElement,
-  x: number,
-  y: number,
-  w: number,
-  h: number,
-  degrees = 90
-): HTMLCanvasElement {
-  const extractCanvas = document.createElement('canvas');
-  extractCanvas.width = w;
-  extractCanvas.height = h;
-  const ctx = extractCanvas.getContext('2d')!;
-  ctx.drawImage(srcCanvas, x, y, w, h, 0, 0, w, h);
-
-  return rotateCanvas(extractCanvas, degrees);
-}
-
-/**
- * Extract a region from canvas without rotation (for portrait mode)
- */
-export function extractRegion(
-  srcCanvas: HTMLCanvasElement,
-  x: number,
-  y: number,
-  w: number,
-  h: number
-): HTMLCanvasElement {
-  const extractCanvas = document.createElement('canvas');
-  extractCanvas.width = w;
-  extractCanvas.height = h;
-  const ctx = extractCanvas.getContext('2d')!;
-  ctx.drawImage(srcCanvas, x, y, w, h, 0, 0, w, h);
-
-  return extractCanvas;
-}
+export const TARGET_WIDTH = DEFAULT_DEVICE_PROFILE.width;
+export const TARGET_HEIGHT = DEFAULT_DEVICE_PROFILE.height;
 
 /**
  * Resize canvas with padding to fit target dimensions
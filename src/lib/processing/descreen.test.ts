@@ -0,0 +1,54 @@
+import { expect, test } from 'bun:test'
+import { descreenImageData } from './descreen'
+
+function createGrayImage(width: number, height: number, getValue: (x: number, y: number) => number): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4
+      data[offset] = data[offset + 1] = data[offset + 2] = getValue(x, y)
+      data[offset + 3] = 255
+    }
+  }
+  return { data, width, height } as ImageData
+}
+
+function getDeviation(imageData: ImageData, x0: number, y0: number, x1: number, y1: number): number {
+  const values: number[] = []
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      values.push(imageData.data[(y * imageData.width + x) * 4])
+    }
+  }
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length)
+}
+
+// Round dots on a 6px grid, rotated 45° like a typical manga screen
+function isScreenDot(x: number, y: number): boolean {
+  const u = (x + y) / Math.SQRT2
+  const v = (x - y) / Math.SQRT2
+  const du = ((u % 6) + 6) % 6 - 3
+  const dv = ((v % 6) + 6) % 6 - 3
+  return du * du + dv * dv < 4
+}
+
+test('flattens halftone screentone into gray', () => {
+  const image = createGrayImage(96, 96, (x, y) => isScreenDot(x, y) ? 0 : 255)
+  const before = getDeviation(image, 24, 24, 72, 72)
+
+  expect(descreenImageData(image)).toBeGreaterThan(0)
+  expect(before).toBeGreaterThan(80)
+  expect(getDeviation(image, 24, 24, 72, 72)).toBeLessThan(20)
+})
+
+test('leaves line art and hatching alone', () => {
+  // Diagonal hatching and a few solid strokes
+  const image = createGrayImage(96, 96, (x, y) =>
+    (x + y) % 6 < 2 || (y > 40 && y < 44) ? 0 : 255
+  )
+  const original = image.data.slice()
+
+  expect(descreenImageData(image)).toBe(0)
+  expect(image.data).toEqual(original)
+})
@@ -0,0 +1,194 @@
+// Descreening: find halftone screentone and smooth it into flat gray, so the
+// dot pattern doesn't beat against the panel grid and the dithering (moiré)
+
+const TILE_SIZE = 24
+const MIN_PERIOD = 2
+const MAX_PERIOD = 10
+// Tiles flatter than this are plain tone, not a screen
+const MIN_TILE_DEVIATION = 24
+// Autocorrelation a peak needs to count as a repeating pattern
+const MIN_PERIODIC_CORRELATION = 0.35
+// Lines and hatching correlate far more along their direction than across
+// it; halftone dots look about the same in every direction
+const MAX_DIRECTIONAL_SPREAD = 0.4
+
+interface TileAnalysis {
+  /** Enough contrast to be a screen or line art rather than flat tone */
+  textured: boolean
+  /** Halftone period in pixels along x and y, when the tile is a screen */
+  period: [number, number] | null
+}
+
+/**
+ * Normalized autocorrelation of one tile at a shift. Shifted pixels may lie
+ * outside the tile, so the tile's full pattern period is seen.
+ */
+function tileCorrelation(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  mean: number,
+  variance: number,
+  dx: number,
+  dy: number
+): number {
+  let sum = 0
+  let count = 0
+  for (let y = y0; y < y1; y++) {
+    const sy = y + dy
+    if (sy < 0 || sy >= height) continue
+    for (let x = x0; x < x1; x++) {
+      const sx = x + dx
+      if (sx < 0 || sx >= width) continue
+      sum += (pixels[(y * width + x) * 4] - mean) * (pixels[(sy * width + sx) * 4] - mean)
+      count++
+    }
+  }
+  return count > 0 ? sum / (count * variance) : 0
+}
+
+// First autocorrelation peak along one axis, or 0 when there is none
+function findPeriod(correlationAt: (lag: number) => number): number {
+  const values: number[] = []
+  for (let lag = MIN_PERIOD - 1; lag <= MAX_PERIOD + 1; lag++) {
+    values.push(correlationAt(lag))
+  }
+  for (let i = 1; i < values.length - 1; i++) {
+    if (
+      values[i] >= MIN_PERIODIC_CORRELATION &&
+      values[i] > values[i - 1] &&
+      values[i] >= values[i + 1]
+    ) {
+      return i + MIN_PERIOD - 1
+    }
+  }
+  return 0
+}
+
+function analyzeTile(
+  imageData: ImageData,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+): TileAnalysis {
+  const { data, width, height } = imageData
+  let sum = 0
+  let sumSquares = 0
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const value = data[(y * width + x) * 4]
+      sum += value
+      sumSquares += value * value
+    }
+  }
+  const count = (x1 - x0) * (y1 - y0)
+  const mean = sum / count
+  const variance = sumSquares / count - mean * mean
+  if (variance < MIN_TILE_DEVIATION * MIN_TILE_DEVIATION) {
+    return { textured: false, period: null }
+  }
+
+  const correlation = (dx: number, dy: number) =>
+    tileCorrelation(data, width, height, x0, y0, x1, y1, mean, variance, dx, dy)
+
+  const directional = [correlation(1, 0), correlation(0, 1), correlation(1, 1), correlation(1, -1)]
+  if (Math.max(...directional) - Math.min(...directional) > MAX_DIRECTIONAL_SPREAD) {
+    return { textured: true, period: null }
+  }
+
+  const periodX = findPeriod((lag) => correlation(lag, 0))
+  const periodY = periodX > 0 ? findPeriod((lag) => correlation(0, lag)) : 0
+  return {
+    textured: true,
+    period: periodX > 0 && periodY > 0 ? [periodX, periodY] : null
+  }
+}
+
+/**
+ * Smooth halftone regions of a grayscale image into flat gray in place.
+ * Each screened tile is averaged over one pattern period, which cancels the
+ * dots exactly while leaving the tone. Textured tiles next to a screen are
+ * treated the same way so screen edges don't keep a rim of dots.
+ * Returns the number of tiles smoothed.
+ */
+export function descreenImageData(imageData: ImageData): number {
+  const { data, width, height } = imageData
+  const tilesX = Math.ceil(width / TILE_SIZE)
+  const tilesY = Math.ceil(height / TILE_SIZE)
+  const tiles: TileAnalysis[] = []
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const x0 = tx * TILE_SIZE
+      const y0 = ty * TILE_SIZE
+      tiles.push(analyzeTile(imageData, x0, y0, Math.min(width, x0 + TILE_SIZE), Math.min(height, y0 + TILE_SIZE)))
+    }
+  }
+
+  const periods: Array<[number, number] | null> = tiles.map((tile, index) => {
+    if (tile.period) return tile.period
+    if (!tile.textured) return null
+    const tx = index % tilesX
+    const ty = (index - tx) / tilesX
+    for (let ny = Math.max(0, ty - 1); ny <= Math.min(tilesY - 1, ty + 1); ny++) {
+      for (let nx = Math.max(0, tx - 1); nx <= Math.min(tilesX - 1, tx + 1); nx++) {
+        const neighbour = tiles[ny * tilesX + nx].period
+        if (neighbour) return neighbour
+      }
+    }
+    return null
+  })
+  if (periods.every((period) => period === null)) return 0
+
+  // Summed-area table for box averages of any size
+  const stride = width + 1
+  const integral = new Float64Array(stride * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += data[(y * width + x) * 4]
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum
+    }
+  }
+
+  let smoothed = 0
+  periods.forEach((period, index) => {
+    if (!period) return
+    smoothed++
+    const [periodX, periodY] = period
+    const tx = index % tilesX
+    const ty = (index - tx) / tilesX
+    const x0 = tx * TILE_SIZE
+    const y0 = ty * TILE_SIZE
+
+    for (let y = y0; y < Math.min(height, y0 + TILE_SIZE); y++) {
+      const top = Math.max(0, y - Math.floor(periodY / 2))
+      const bottom = Math.min(height, top + periodY)
+      for (let x = x0; x < Math.min(width, x0 + TILE_SIZE); x++) {
+        const left = Math.max(0, x - Math.floor(periodX / 2))
+        const right = Math.min(width, left + periodX)
+        const total = integral[bottom * stride + right] - integral[top * stride + right] -
+          integral[bottom * stride + left] + integral[top * stride + left]
+        const value = total / ((right - left) * (bottom - top))
+        const offset = (y * width + x) * 4
+        data[offset] = data[offset + 1] = data[offset + 2] = value
+      }
+    }
+  })
+
+  return smoothed
+}
+
+/**
+ * Descreen a grayscale canvas (see descreenImageData)
+ */
+export function applyDescreen(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+  const imageData = ctx.getImageData(0, 0, width, height)
+  if (descreenImageData(imageData) > 0) {
+    ctx.putImageData(imageData, 0, 0)
+  }
+}
@@ -0,0 +1,54 @@
+import { expect, test } from 'bun:test'
+import { applyDithering, DEFAULT_TONE_SETTINGS, type ToneSettings } from './dithering'
+
+function createFlatContext(width: number, height: number, value: number) {
+  const imageData = {
+    data: new Uint8ClampedArray(width * height * 4).fill(value),
+    width,
+    height
+  } as ImageData
+  const ctx = {
+    getImageData: () => imageData,
+    putImageData: () => {}
+  } as unknown as CanvasRenderingContext2D
+  return { ctx, imageData }
+}
+
+function getLevels(imageData: ImageData): Map<number, number> {
+  const levels = new Map<number, number>()
+  for (let i = 0; i < imageData.data.length; i += 4) {
+    const value = imageData.data[i]
+    levels.set(value, (levels.get(value) ?? 0) + 1)
+  }
+  return levels
+}
+
+test('new algorithms keep the tone of a flat gray and output only device levels', () => {
+  for (const algorithm of ['jarvis', 'stucki', 'burkes', 'sierra', 'blue-noise']) {
+    const { ctx, imageData } = createFlatContext(64, 64, 64)
+    applyDithering(ctx, 64, 64, algorithm)
+    const levels = getLevels(imageData)
+    expect([...levels.keys()].sort((a, b) => a - b)).toEqual([0, 255])
+    const whiteShare = levels.get(255)! / (64 * 64)
+    expect(Math.abs(whiteShare - 0.25)).toBeLessThan(0.05)
+
+    const gray = createFlatContext(64, 64, 128)
+    applyDithering(gray.ctx, 64, 64, algorithm, true)
+    for (const value of getLevels(gray.imageData).keys()) {
+      expect([0, 85, 170, 255]).toContain(value)
+    }
+  }
+})
+
+test('brightness and gamma lighten the dithered result', () => {
+  const whiteShare = (tone: Partial<ToneSettings>) => {
+    const { ctx, imageData } = createFlatContext(64, 64, 96)
+    applyDithering(ctx, 64, 64, 'floyd', false, { ...DEFAULT_TONE_SETTINGS, ...tone })
+    return (getLevels(imageData).get(255) ?? 0) / (64 * 64)
+  }
+
+  const base = whiteShare({})
+  expect(whiteShare({ brightness: 20 })).toBeGreaterThan(base + 0.1)
+  expect(whiteShare({ gamma: 1.5 })).toBeGreaterThan(base + 0.1)
+  expect(whiteShare({ gamma: 0.7 })).toBeLessThan(base - 0.1)
+})
@@ -2,13 +2,16 @@
 // Each algorithm has different characteristics for handling manga art
 //
 // Pipeline applied here (after grayscale/resize, right before bit-packing):
-//   1. Unsharp mask  - recovers line-art crispness lost when downscaling to panel size
-//   2. Tone curve    - 2-bit only: lifts shadows so dark shading doesn't crush to black
+//   1. Tone          - user brightness and gamma
+//   2. Unsharp mask  - recovers line-art crispness lost when downscaling to panel size
+//   3. Shadow lift   - 2-bit only: lifts shadows so dark shading doesn't crush to black
 //                      on the panel (the e-ink dark-gray level renders darker than its
 //                      nominal sRGB value, which makes shadow areas merge into black)
-//   3. Quantization  - serpentine error diffusion (alternating scan direction removes
+//   4. Quantization  - serpentine error diffusion (alternating scan direction removes
 //                      the diagonal "worm" artifacts of classic one-way diffusion)
 
+import { BLUE_NOISE_RANKS, BLUE_NOISE_SIZE } from './blue-noise-mask'
+
 const LEVELS_2BIT = [0, 85, 170, 255]
 
 // Shadow-lift LUT for 2-bit output. Gamma < 1 lifts midtones/shadows while keeping
@@ -16,21 +19,60 @@ const LEVELS_2BIT = [0, 85, 170, 255]
 // than nominal. A linear toe below 24 keeps solid blacks solid.
 const SHADOW_LIFT_GAMMA = 0.75
 const SHADOW_TOE = 24
-const shadowLiftLut = buildShadowLiftLut()
+const shadowLiftLuts = new Map<number, Float32Array>()
 
-function buildShadowLiftLut(): Float32Array {
+function getShadowLiftLut(gamma: number): Float32Array {
+  let lut = shadowLiftLuts.get(gamma)
+  if (!lut) {
+    lut = buildShadowLiftLut(gamma)
+    shadowLiftLuts.set(gamma, lut)
+  }
+  return lut
+}
+
+function buildShadowLiftLut(gamma: number): Float32Array {
   const lut = new Float32Array(256)
-  const toeTop = 255 * Math.pow(SHADOW_TOE / 255, SHADOW_LIFT_GAMMA)
+  const toeTop = 255 * Math.pow(SHADOW_TOE / 255, gamma)
   for (let v = 0; v < 256; v++) {
     if (v < SHADOW_TOE) {
       lut[v] = (v / SHADOW_TOE) * toeTop
     } else {
-      lut[v] = 255 * Math.pow(v / 255, SHADOW_LIFT_GAMMA)
+      lut[v] = 255 * Math.pow(v / 255, gamma)
     }
   }
   return lut
 }
 
+// Unsharp mask strength at 100%. Slightly lighter for 2-bit: it keeps more
+// real tonal data, so it needs less artificial edge boost.
+const SHARPEN_AMOUNT_1BIT = 0.7
+const SHARPEN_AMOUNT_2BIT = 0.45
+
+/**
+ * User tone adjustments, applied before quantization. Field names match
+ * ConversionOptions so the options can be passed in directly.
+ */
+export interface ToneSettings {
+  /** Added to every pixel, in percent of full white (-50 to 50) */
+  brightness: number
+  /** Midtone gamma; above 1 lightens, below 1 darkens */
+  gamma: number
+  /** Unsharp mask strength in percent of the default (0 disables it) */
+  sharpenAmount: number
+  /** Unsharp mask blur radius in pixels */
+  sharpenRadius: number
+  /** 2-bit shadow lift in percent of the default curve (0 disables it) */
+  shadowLift: number
+}
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+  brightness: 0,
+  gamma: 1,
+  sharpenAmount: 100,
+  sharpenRadius: 1,
+  shadowLift: 100
+}
+
 function quantizePixel(value: number, is2bit: boolean): number {
   if (!is2bit) {
     return value >= 128 ? 255 : 0
@@ -50,10 +92,25 @@ export function applyDithering(
   width: number,
   height: number,
   algorithm: string,
-  is2bit = false
+  is2bit = false,
+  tone: ToneSettings = DEFAULT_TONE_SETTINGS
 ): void {
   const imageData = ctx.getImageData(0, 0, width, height)
-  const data = imageData.data
+  ditherImageData(imageData, algorithm, is2bit, tone)
+  ctx.putImageData(imageData, 0, 0)
+}
+
+/**
+ * Tone-adjust and dither grayscale pixels to device levels in place
+ * (see applyDithering)
+ */
+export function ditherImageData(
+  imageData: Pick<ImageData, 'data' | 'width' | 'height'>,
+  algorithm: string,
+  is2bit = false,
+  tone: ToneSettings = DEFAULT_TONE_SETTINGS
+): void {
+  const { data, width, height } = imageData
 
   // Single luminance working buffer shared by all stages
   const pixels = new Float32Array(width * height)
@@ -61,12 +118,15 @@ export function applyDithering(
     pixels[i] = data[i * 4]
   }
 
-  // Slightly lighter sharpening for 2-bit: it keeps more real tonal data,
-  // so it needs less artificial edge boost.
-  sharpenLuminance(pixels, width, height, is2bit ? 0.45 : 0.7)
+  applyTone(pixels, tone.brightness, tone.gamma)
+
+  const sharpenAmount = (is2bit ? SHARPEN_AMOUNT_2BIT : SHARPEN_AMOUNT_1BIT) * tone.sharpenAmount / 100
+  sharpenLuminance(pixels, width, height, sharpenAmount, tone.sharpenRadius)
 
-  if (is2bit) {
-    applyShadowLift(pixels)
+  if (is2bit && tone.shadowLift > 0) {
+    // 100% is the default curve; higher values lift further
+    const gamma = Math.max(0.25, 1 - (1 - SHADOW_LIFT_GAMMA) * tone.shadowLift / 100)
+    applyShadowLift(pixels, getShadowLiftLut(gamma))
   }
 
   switch (algorithm) {
@@ -85,6 +145,21 @@ export function applyDithering(
     case 'ordered':
       applyOrdered(pixels, width, height, is2bit)
       break
+    case 'jarvis':
+      applyErrorDiffusion(pixels, width, height, is2bit, JARVIS_JUDICE_NINKE)
+      break
+    case 'stucki':
+      applyErrorDiffusion(pixels, width, height, is2bit, STUCKI)
+      break
+    case 'burkes':
+      applyErrorDiffusion(pixels, width, height, is2bit, BURKES)
+      break
+    case 'sierra':
+      applyErrorDiffusion(pixels, width, height, is2bit, SIERRA)
+      break
+    case 'blue-noise':
+      applyBlueNoise(pixels, width, height, is2bit)
+      break
     default:
       applyFloydSteinberg(pixels, width, height, is2bit)
   }
@@ -93,41 +168,71 @@ export function applyDithering(
     const val = Math.max(0, Math.min(255, pixels[i]))
     data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = val
   }
+}
 
-  ctx.putImageData(imageData, 0, 0)
+/**
+ * Brightness offset and gamma on the luminance buffer
+ */
+function applyTone(pixels: Float32Array, brightness: number, gamma: number): void {
+  if (brightness === 0 && gamma === 1) return
+
+  const offset = brightness * 255 / 100
+  const exponent = 1 / gamma
+  for (let i = 0; i < pixels.length; i++) {
+    const v = Math.max(0, Math.min(255, pixels[i] + offset))
+    pixels[i] = 255 * Math.pow(v / 255, exponent)
+  }
+}
+
+// Binomial blur weights for each radius; radius 1 is [1 2 1]
+function getBinomialKernel(radius: number): number[] {
+  let kernel = [1]
+  for (let i = 0; i < radius * 2; i++) {
+    kernel = [...kernel, 0].map((value, index) => value + (index > 0 ? kernel[index - 1] : 0))
+  }
+  const sum = kernel.reduce((total, value) => total + value, 0)
+  return kernel.map((value) => value / sum)
 }
 
 /**
- * Unsharp mask on the luminance buffer (3x3 gaussian blur as base).
+ * Unsharp mask on the luminance buffer (separable binomial blur as base;
+ * radius 1 is the 3x3 gaussian [1 2 1; 2 4 2; 1 2 1] / 16).
  * Restores edge contrast on line art and text after downscaling.
  */
 function sharpenLuminance(
   pixels: Float32Array,
   width: number,
   height: number,
-  amount: number
+  amount: number,
+  radius: number
 ): void {
   if (amount <= 0 || width < 3 || height < 3) return
 
+  const r = Math.max(1, Math.round(radius))
+  const kernel = getBinomialKernel(r)
+  const horizontal = new Float32Array(pixels.length)
   const blurred = new Float32Array(pixels.length)
 
   for (let y = 0; y < height; y++) {
-    const yUp = y > 0 ? y - 1 : 0
-    const yDown = y < height - 1 ? y + 1 : height - 1
-    const rowUp = yUp * width
     const row = y * width
-    const rowDown = yDown * width
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = -r; k <= r; k++) {
+        const sx = Math.max(0, Math.min(width - 1, x + k))
+        sum += kernel[k + r] * pixels[row + sx]
+      }
+      horizontal[row + x] = sum
+    }
+  }
 
+  for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const xL = x > 0 ? x - 1 : 0
-      const xR = x < width - 1 ? x + 1 : width - 1
-
-      // [1 2 1; 2 4 2; 1 2 1] / 16
-      blurred[row + x] = (
-        pixels[rowUp + xL] + 2 * pixels[rowUp + x] + pixels[rowUp + xR] +
-        2 * pixels[row + xL] + 4 * pixels[row + x] + 2 * pixels[row + xR] +
-        pixels[rowDown + xL] + 2 * pixels[rowDown + x] + pixels[rowDown + xR]
-      ) / 16
+      let sum = 0
+      for (let k = -r; k <= r; k++) {
+        const sy = Math.max(0, Math.min(height - 1, y + k))
+        sum += kernel[k + r] * horizontal[sy * width + x]
+      }
+      blurred[y * width + x] = sum
     }
   }
 
@@ -140,7 +245,7 @@ function sharpenLuminance(
 /**
  * Shadow-lifting tone curve for 2-bit output (see SHADOW_LIFT_GAMMA above).
  */
-function applyShadowLift(pixels: Float32Array): void {
+function applyShadowLift(pixels: Float32Array, shadowLiftLut: Float32Array): void {
   for (let i = 0; i < pixels.length; i++) {
     const v = Math.max(0, Math.min(255, pixels[i]))
     const lo = Math.floor(v)
@@ -283,6 +388,107 @@ function applyFloydSteinberg(
   }
 }
 
+/**
+ * Error diffusion kernel: [dx, dy, weight] taps relative to the current pixel,
+ * with dx pointing in the scan direction, and the sum of weights as divisor.
+ */
+interface DiffusionKernel {
+  taps: Array<[number, number, number]>
+  divisor: number
+}
+
+/**
+ * Jarvis-Judice-Ninke: wide 3-row kernel, smoothest gradients
+ *             X   7   5
+ *     3   5   7   5   3
+ *     1   3   5   3   1
+ */
+const JARVIS_JUDICE_NINKE: DiffusionKernel = {
+  taps: [
+    [1, 0, 7], [2, 0, 5],
+    [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+    [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1]
+  ],
+  divisor: 48
+}
+
+/**
+ * Stucki: same reach as Jarvis-Judice-Ninke, weighted toward near pixels
+ * for a slightly crisper result
+ *             X   8   4
+ *     2   4   8   4   2
+ *     1   2   4   2   1
+ */
+const STUCKI: DiffusionKernel = {
+  taps: [
+    [1, 0, 8], [2, 0, 4],
+    [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+    [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1]
+  ],
+  divisor: 42
+}
+
+/**
+ * Burkes: Stucki without the third row, faster and a little sharper
+ *             X   8   4
+ *     2   4   8   4   2
+ */
+const BURKES: DiffusionKernel = {
+  taps: [
+    [1, 0, 8], [2, 0, 4],
+    [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2]
+  ],
+  divisor: 32
+}
+
+/**
+ * Sierra (full): between Floyd-Steinberg and Jarvis-Judice-Ninke
+ *             X   5   3
+ *     2   4   5   4   2
+ *         2   3   2
+ */
+const SIERRA: DiffusionKernel = {
+  taps: [
+    [1, 0, 5], [2, 0, 3],
+    [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+    [-1, 2, 2], [0, 2, 3], [1, 2, 2]
+  ],
+  divisor: 32
+}
+
+/**
+ * Serpentine error diffusion with an arbitrary kernel
+ */
+function applyErrorDiffusion(
+  pixels: Float32Array,
+  width: number,
+  height: number,
+  is2bit: boolean,
+  kernel: DiffusionKernel
+): void {
+  const { taps, divisor } = kernel
+
+  for (let y = 0; y < height; y++) {
+    const reverse = (y & 1) === 1
+    const dir = reverse ? -1 : 1
+
+    for (let i = 0; i < width; i++) {
+      const x = reverse ? width - 1 - i : i
+      const idx = y * width + x
+      const oldPixel = pixels[idx]
+      const newPixel = quantizePixel(oldPixel, is2bit)
+      pixels[idx] = newPixel
+      const error = clampError(oldPixel - newPixel) / divisor
+
+      for (const [dx, dy, weight] of taps) {
+        const tx = x + dx * dir
+        if (tx < 0 || tx >= width || y + dy >= height) continue
+        pixels[idx + dy * width + dx * dir] += error * weight
+      }
+    }
+  }
+}
+
 // 8x8 Bayer matrix - finer pattern than 4x4, smoother gradients in screentones
 const BAYER_8 = [
   [0, 32, 8, 40, 2, 34, 10, 42],
@@ -324,3 +530,46 @@ function applyOrdered(
     }
   }
 }
+
+// Blue-noise threshold mask, expanded from the shipped ranks on first use
+let blueNoiseMask: Float32Array | null = null
+
+function getBlueNoiseMask(): Float32Array {
+  if (!blueNoiseMask) {
+    const cells = BLUE_NOISE_RANKS.length
+    blueNoiseMask = Float32Array.from(BLUE_NOISE_RANKS, (rank) => (rank + 0.5) / cells)
+  }
+  return blueNoiseMask
+}
+
+/**
+ * Blue-noise threshold dithering
+ * Like ordered dithering there is no error bleeding, but the mask has no
+ * regular structure, so it doesn't crosshatch against screentone
+ */
+function applyBlueNoise(
+  pixels: Float32Array,
+  width: number,
+  height: number,
+  is2bit: boolean
+): void {
+  const mask = getBlueNoiseMask()
+  const size = BLUE_NOISE_SIZE
+  // 2-bit level spacing is 85; spread the mask across one level interval
+  const amplitude2bit = 85
+
+  for (let y = 0; y < height; y++) {
+    const row = (y % size) * size
+    for (let x = 0; x < width; x++) {
+      const idx = y * width + x
+      const maskValue = mask[row + x % size]
+
+      if (is2bit) {
+        const adjusted = pixels[idx] + (maskValue - 0.5) * amplitude2bit
+        pixels[idx] = quantizePixel(Math.max(0, Math.min(255, adjusted)), true)
+      } else {
+        pixels[idx] = pixels[idx] > maskValue * 255 ? 255 : 0
+      }
+    }
+  }
+}
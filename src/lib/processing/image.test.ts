@@ -1,5 +1,14 @@
 import { expect, test } from 'bun:test'
-import { shouldSplitPage } from './image'
+import {
+  calculateFourWaySegments,
+  calculateSplitSegments,
+  calculateSpreadHalves,
+  estimateSkewAngle,
+  isSpreadPage,
+  removeSpeckles,
+  rotateImageData,
+  shouldSplitPage
+} from './image'
 
 test('splits portrait pages only for four-page paper mode', () => {
   expect(shouldSplitPage(1200, 1800, 'portrait', 'fourway')).toBe(true)
@@ -10,3 +19,76 @@ test('preserves landscape split rules', () => {
   expect(shouldSplitPage(1200, 1800, 'landscape', 'overlap')).toBe(true)
   expect(shouldSplitPage(1800, 1200, 'landscape', 'overlap')).toBe(false)
 })
+
+test('reads the right column first in right-to-left four-way splits', () => {
+  const ltr = calculateFourWaySegments(100, 200)
+  const rtl = calculateFourWaySegments(100, 200, 'rtl')
+
+  expect(ltr.map(({ x, y }) => [x, y])).toEqual([[0, 0], [0, 100], [50, 0], [50, 100]])
+  expect(rtl.map(({ x, y }) => [x, y])).toEqual([[50, 0], [50, 100], [0, 0], [0, 100]])
+})
+
+test('keeps top-to-bottom order in right-to-left half splits', () => {
+  expect(calculateSplitSegments(100, 200).map(({ x, y }) => [x, y])).toEqual([[0, 0], [0, 100]])
+  expect(calculateSplitSegments(100, 200, 'rtl').map(({ x, y }) => [x, y])).toEqual([[0, 0], [0, 100]])
+})
+
+test('reads the right page of a spread first right to left', () => {
+  expect(calculateSpreadHalves(200, 100).map(({ x }) => x)).toEqual([0, 100])
+  expect(calculateSpreadHalves(200, 100, 'rtl').map(({ x }) => x)).toEqual([100, 0])
+})
+
+function createGrayImage(width: number, height: number, isInk: (x: number, y: number) => boolean): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isInk(x, y)) {
+        const offset = (y * width + x) * 4
+        data[offset] = data[offset + 1] = data[offset + 2] = 0
+      }
+    }
+  }
+  return { data, width, height } as ImageData
+}
+
+test('estimates and corrects the tilt of text lines', () => {
+  const slope = Math.tan(2 * Math.PI / 180)
+  // Lines of "text" every 20px, falling 2° to the right
+  const image = createGrayImage(300, 200, (x, y) => {
+    const row = y - x * slope
+    return x > 20 && x < 280 && row > 10 && row % 20 < 3
+  })
+
+  expect(Math.abs(estimateSkewAngle(image) - 2)).toBeLessThanOrEqual(0.15)
+  rotateImageData(image, estimateSkewAngle(image))
+  expect(Math.abs(estimateSkewAngle(image))).toBeLessThanOrEqual(0.2)
+})
+
+test('removes isolated specks but keeps screentone and text', () => {
+  const image = createGrayImage(100, 100, (x, y) =>
+    (x === 10 && y === 10) ||
+    (x >= 50 && x < 80 && y >= 50 && y < 80 && x % 3 === 0 && y % 3 === 0) ||
+    (x >= 20 && x < 40 && y >= 60 && y < 64)
+  )
+  const inkAt = (x: number, y: number) => image.data[(y * 100 + x) * 4] === 0
+
+  removeSpeckles(image)
+
+  expect(inkAt(10, 10)).toBe(false)
+  expect(inkAt(60, 60)).toBe(true)
+  expect(inkAt(30, 62)).toBe(true)
+})
+
+test('detects spreads by shape or by a centre gutter', () => {
+  const blank = () => createGrayImage(200, 210, () => false)
+  expect(isSpreadPage(300, 200, blank)).toBe(true)
+  expect(isSpreadPage(140, 200, blank)).toBe(false)
+
+  // Nearly square scan: two text blocks with a blank fold between them
+  const scan = createGrayImage(200, 210, (x, y) => y > 20 && y < 190 && y % 6 < 2 && (x > 10 && x < 92 || x > 108 && x < 190))
+  expect(isSpreadPage(200, 210, () => scan)).toBe(true)
+
+  // Same size, one text block across the middle
+  const single = createGrayImage(200, 210, (x, y) => y > 20 && y < 190 && y % 6 < 2 && x > 10 && x < 190)
+  expect(isSpreadPage(200, 210, () => single)).toBe(false)
+})
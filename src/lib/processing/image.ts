@@ -177,31 +177,338 @@ export function findContentBounds(
 
 /**
  * Split a page into four reading-order quadrants for two-column layouts.
+ * Right-to-left pages start with the right column.
  */
 export function calculateFourWaySegments(
   width: number,
-  height: number
+  height: number,
+  readingDirection: 'ltr' | 'rtl' = 'ltr'
 ): Array<{ x: number; y: number; w: number; h: number }> {
   const halfWidth = Math.floor(width / 2)
   const rightWidth = width - halfWidth
   const halfHeight = Math.floor(height / 2)
   const bottomHeight = height - halfHeight
 
-  return [
+  const leftColumn = [
     { x: 0, y: 0, w: halfWidth, h: halfHeight },
-    { x: 0, y: halfHeight, w: halfWidth, h: bottomHeight },
+    { x: 0, y: halfHeight, w: halfWidth, h: bottomHeight }
+  ]
+  const rightColumn = [
     { x: halfWidth, y: 0, w: rightWidth, h: halfHeight },
     { x: halfWidth, y: halfHeight, w: rightWidth, h: bottomHeight }
   ]
+
+  return readingDirection === 'rtl'
+    ? [...rightColumn, ...leftColumn]
+    : [...leftColumn, ...rightColumn]
+}
+
+/**
+ * Order segments row by row, top first; within a row right-to-left pages
+ * start with the rightmost segment. Rows are never reversed.
+ */
+function orderSegments(
+  segments: Array<{ x: number; y: number; w: number; h: number }>,
+  readingDirection: 'ltr' | 'rtl'
+): Array<{ x: number; y: number; w: number; h: number }> {
+  return [...segments].sort((a, b) => a.y - b.y || (readingDirection === 'rtl' ? b.x - a.x : a.x - b.x))
+}
+
+/**
+ * Top and bottom halves for 'split' mode in reading order. The halves are
+ * stacked, so right-to-left pages are still read top first.
+ */
+export function calculateSplitSegments(
+  width: number,
+  height: number,
+  readingDirection: 'ltr' | 'rtl' = 'ltr'
+): Array<{ x: number; y: number; w: number; h: number }> {
+  const halfHeight = Math.floor(height / 2)
+  return orderSegments([
+    { x: 0, y: 0, w: width, h: halfHeight },
+    { x: 0, y: halfHeight, w: width, h: halfHeight }
+  ], readingDirection)
+}
+
+/**
+ * Left and right pages of a two-page spread in reading order.
+ */
+export function calculateSpreadHalves(
+  width: number,
+  height: number,
+  readingDirection: 'ltr' | 'rtl' = 'ltr'
+): Array<{ x: number; y: number; w: number; h: number }> {
+  const halfWidth = Math.floor(width / 2)
+  const left = { x: 0, y: 0, w: halfWidth, h: height }
+  const right = { x: halfWidth, y: 0, w: halfWidth, h: height }
+  return readingDirection === 'rtl' ? [right, left] : [left, right]
 }
 
 export function shouldSplitPage(
   width: number,
   height: number,
   orientation: 'landscape' | 'portrait',
-  splitMode: 'overlap' | 'split' | 'fourway' | 'nosplit'
+  splitMode: 'overlap' | 'split' | 'fourway' | 'nosplit' | 'strip' | 'panels'
 ): boolean {
+  // Strip pages are sliced across images instead (see ./strip.ts)
+  if (splitMode === 'strip') return false
+  // Any page may hold several panels (see ./panels.ts)
+  if (splitMode === 'panels') return true
   return orientation === 'portrait'
     ? splitMode === 'fourway'
     : width < height && splitMode !== 'nosplit'
 }
+
+// Nearly square pages count as spreads when a blank gutter runs down the middle
+const MIN_GUTTER_SPREAD_ASPECT = 0.9
+const SPREAD_GUTTER_SEARCH = 0.05
+const SPREAD_GUTTER_INK_FRACTION = 0.01
+const SPREAD_INK_LEVEL = 160
+
+/**
+ * Whether the spread policy decides how wide pages are laid out. Two-column
+ * paper, panel and strip modes handle wide pages themselves.
+ */
+export function usesSpreadPolicy(
+  splitMode: 'overlap' | 'split' | 'fourway' | 'nosplit' | 'strip' | 'panels',
+  spreadPolicy: 'auto' | 'rotate' | 'split' | 'both'
+): boolean {
+  return spreadPolicy !== 'auto' && splitMode !== 'fourway' && splitMode !== 'panels' && splitMode !== 'strip'
+}
+
+/**
+ * Detect a two-page spread: wider than tall, or nearly square with a blank
+ * gutter down the centre. `readImageData` is only called for the gutter check.
+ */
+export function isSpreadPage(width: number, height: number, readImageData: () => ImageData): boolean {
+  if (width > height) return true
+  if (width < height * MIN_GUTTER_SPREAD_ASPECT) return false
+
+  const { data } = readImageData()
+  const maxInk = height * SPREAD_GUTTER_INK_FRACTION
+  const minGutter = Math.max(2, Math.round(width * 0.005))
+  const inkInColumn = (x: number) => {
+    let count = 0
+    for (let y = 0; y < height; y++) {
+      if (data[(y * width + x) * 4] < SPREAD_INK_LEVEL) count++
+    }
+    return count
+  }
+
+  const from = Math.floor(width * (0.5 - SPREAD_GUTTER_SEARCH))
+  const to = Math.ceil(width * (0.5 + SPREAD_GUTTER_SEARCH))
+  let run = 0
+  let hasGutter = false
+  for (let x = from; x < to && !hasGutter; x++) {
+    run = inkInColumn(x) <= maxInk ? run + 1 : 0
+    hasGutter = run >= minGutter
+  }
+  if (!hasGutter) return false
+
+  // Both pages need content, or this is a single page with a wide margin
+  const hasContent = (start: number, end: number) => {
+    for (let x = start; x < end; x += 4) {
+      if (inkInColumn(x) > maxInk) return true
+    }
+    return false
+  }
+  return hasContent(0, from) && hasContent(to, width)
+}
+
+// Pixels darker than this are ink for deskew and despeckle
+const INK_THRESHOLD = 128
+const MAX_SKEW_DEGREES = 3
+const SKEW_STEP_DEGREES = 0.1
+const MAX_SKEW_SAMPLES = 30000
+
+/**
+ * Estimate how far text lines are tilted, in degrees (positive when lines
+ * fall to the right), by finding the angle whose row projection of ink is
+ * sharpest.
+ */
+export function estimateSkewAngle(imageData: ImageData): number {
+  const { data, width, height } = imageData
+
+  let inkCount = 0
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] < INK_THRESHOLD) inkCount++
+  }
+  if (inkCount === 0) return 0
+
+  // Sample ink pixels evenly so large scans stay fast
+  const stride = Math.max(1, Math.ceil(inkCount / MAX_SKEW_SAMPLES))
+  const xs: number[] = []
+  const ys: number[] = []
+  let seen = 0
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] >= INK_THRESHOLD) continue
+      if (seen++ % stride === 0) {
+        xs.push(x)
+        ys.push(y)
+      }
+    }
+  }
+
+  const maxShift = Math.ceil(width * Math.tan(MAX_SKEW_DEGREES * Math.PI / 180))
+  const bins = new Float64Array(height + maxShift * 2 + 1)
+  let bestAngle = 0
+  let bestScore = -1
+
+  const steps = Math.round(MAX_SKEW_DEGREES / SKEW_STEP_DEGREES)
+  for (let step = -steps; step <= steps; step++) {
+    const angle = step * SKEW_STEP_DEGREES
+    const slope = Math.tan(angle * Math.PI / 180)
+    bins.fill(0)
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] - xs[i] * slope) + maxShift]++
+    }
+
+    let score = 0
+    for (let i = 0; i < bins.length; i++) {
+      score += bins[i] * bins[i]
+    }
+    // Prefer the smallest correction among equally sharp angles
+    if (score > bestScore || (score === bestScore && Math.abs(angle) < Math.abs(bestAngle))) {
+      bestScore = score
+      bestAngle = angle
+    }
+  }
+
+  return Math.round(bestAngle * 10) / 10
+}
+
+/**
+ * Rotate image data about its centre by `degrees` (bilinear), filling the
+ * uncovered corners with white.
+ */
+export function rotateImageData(imageData: ImageData, degrees: number): void {
+  const { data, width, height } = imageData
+  const source = new Uint8ClampedArray(data)
+  const radians = degrees * Math.PI / 180
+  const cos = Math.cos(radians)
+  const sin = Math.sin(radians)
+  const cx = (width - 1) / 2
+  const cy = (height - 1) / 2
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = x - cx
+      const dy = y - cy
+      const sx = cx + cos * dx - sin * dy
+      const sy = cy + sin * dx + cos * dy
+      const offset = (y * width + x) * 4
+
+      let value = 255
+      if (sx >= 0 && sy >= 0 && sx <= width - 1 && sy <= height - 1) {
+        const x0 = Math.floor(sx)
+        const y0 = Math.floor(sy)
+        const x1 = Math.min(width - 1, x0 + 1)
+        const y1 = Math.min(height - 1, y0 + 1)
+        const fx = sx - x0
+        const fy = sy - y0
+        const top = source[(y0 * width + x0) * 4] * (1 - fx) + source[(y0 * width + x1) * 4] * fx
+        const bottom = source[(y1 * width + x0) * 4] * (1 - fx) + source[(y1 * width + x1) * 4] * fx
+        value = top * (1 - fy) + bottom * fy
+      }
+      data[offset] = data[offset + 1] = data[offset + 2] = value
+    }
+  }
+}
+
+/**
+ * Straighten a tilted scan. Expects a grayscale canvas.
+ */
+export function applyDeskew(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number
+): void {
+  const imageData = ctx.getImageData(0, 0, width, height)
+  const angle = estimateSkewAngle(imageData)
+  if (angle === 0) return
+
+  rotateImageData(imageData, angle)
+  ctx.putImageData(imageData, 0, 0)
+}
+
+/**
+ * Whiten small ink specks (scanner dust) that have no other ink around them.
+ * Screentone dots and text survive because they sit close to other ink.
+ * Expects grayscale image data.
+ */
+export function removeSpeckles(imageData: ImageData, isolationRadius = 3): void {
+  const { data, width, height } = imageData
+  const maxSpeckSize = Math.max(4, Math.round(width * height / 200000))
+  const labels = new Int32Array(width * height)
+  const stack: number[] = []
+  const component: number[] = []
+  let nextLabel = 1
+
+  const isInk = (index: number) => data[index * 4] < INK_THRESHOLD
+
+  for (let start = 0; start < labels.length; start++) {
+    if (labels[start] !== 0 || !isInk(start)) continue
+
+    const label = nextLabel++
+    labels[start] = label
+    stack.push(start)
+    component.length = 0
+    let minX = width
+    let minY = height
+    let maxX = 0
+    let maxY = 0
+
+    // Flood fill the 8-connected component, giving up once it is too big to be a speck
+    while (stack.length > 0) {
+      const index = stack.pop()!
+      if (component.length <= maxSpeckSize) component.push(index)
+      const x = index % width
+      const y = (index - x) / width
+      minX = Math.min(minX, x)
+      maxX = Math.max(maxX, x)
+      minY = Math.min(minY, y)
+      maxY = Math.max(maxY, y)
+
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+          const neighbour = ny * width + nx
+          if (labels[neighbour] === 0 && isInk(neighbour)) {
+            labels[neighbour] = label
+            stack.push(neighbour)
+          }
+        }
+      }
+    }
+    if (component.length > maxSpeckSize) continue
+
+    let isolated = true
+    for (let y = Math.max(0, minY - isolationRadius); isolated && y <= Math.min(height - 1, maxY + isolationRadius); y++) {
+      for (let x = Math.max(0, minX - isolationRadius); x <= Math.min(width - 1, maxX + isolationRadius); x++) {
+        const index = y * width + x
+        if (isInk(index) && labels[index] !== label) {
+          isolated = false
+          break
+        }
+      }
+    }
+    if (!isolated) continue
+
+    for (const index of component) {
+      data[index * 4] = data[index * 4 + 1] = data[index * 4 + 2] = 255
+    }
+  }
+}
+
+/**
+ * Remove isolated specks before dithering, which would otherwise exaggerate them.
+ */
+export function applyDespeckle(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number
+): void {
+  const imageData = ctx.getImageData(0, 0, width, height)
+  removeSpeckles(imageData)
+  ctx.putImageData(imageData, 0, 0)
+}
@@ -0,0 +1,67 @@
+import { expect, test } from 'bun:test'
+import { detectPanels } from './panels'
+
+function createPage(width: number, height: number, isInk: (x: number, y: number) => boolean): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4).fill(255)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isInk(x, y)) {
+        const offset = (y * width + x) * 4
+        data[offset] = data[offset + 1] = data[offset + 2] = 0
+      }
+    }
+  }
+  return { data, width, height } as ImageData
+}
+
+// Panel outlines, 2px borders
+function isOnBorder(x: number, y: number, panels: Array<[number, number, number, number]>): boolean {
+  return panels.some(([x0, y0, x1, y1]) =>
+    x >= x0 && x < x1 && y >= y0 && y < y1 &&
+    (x < x0 + 2 || x >= x1 - 2 || y < y0 + 2 || y >= y1 - 2)
+  )
+}
+
+const LAYOUT: Array<[number, number, number, number]> = [
+  [10, 10, 290, 130],
+  [10, 140, 140, 260],
+  [160, 140, 290, 260],
+  [10, 270, 95, 390],
+  [105, 270, 195, 390],
+  [205, 270, 290, 390]
+]
+
+test('finds bordered panels in reading order and groups small ones', () => {
+  const page = createPage(300, 400, (x, y) => isOnBorder(x, y, LAYOUT))
+  const panels = detectPanels(page)
+
+  expect(panels).toHaveLength(4)
+  expect(panels[0]).toMatchObject({ x: 7, y: 7 })
+  expect(panels[1].x).toBeLessThan(panels[2].x)
+  // The three narrow bottom panels share one screen
+  expect(panels[3].y).toBe(267)
+  expect(panels[3].x + panels[3].w).toBeGreaterThanOrEqual(290)
+})
+
+test('orders panels right to left for manga', () => {
+  const page = createPage(300, 400, (x, y) => isOnBorder(x, y, LAYOUT))
+  const panels = detectPanels(page, 'rtl')
+
+  expect(panels[1].x).toBeGreaterThan(panels[2].x)
+})
+
+test('separates panels along a slanted gutter', () => {
+  const page = createPage(300, 400, (x, y) => {
+    const edge = 200 - x * 0.25
+    return x > 10 && x < 290 && y > 10 && y < 390 && Math.abs(y - edge) > 6
+  })
+  const panels = detectPanels(page)
+
+  expect(panels).toHaveLength(2)
+  expect(panels[0].y).toBeLessThan(panels[1].y)
+})
+
+test('keeps a single-panel page whole', () => {
+  const page = createPage(300, 400, (x, y) => isOnBorder(x, y, [[10, 10, 290, 390]]))
+  expect(detectPanels(page)).toEqual([])
+})
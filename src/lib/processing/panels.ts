@@ -0,0 +1,339 @@
+// Comic panel detection: find panels by cutting along gutters (recursive
+// XY-cut), then by connected ink regions for irregular layouts, and return
+// them in reading order
+
+export interface PanelRegion {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+interface GridRect {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+// Detection runs on a grid with at most this many cells along the long side
+const GRID_SIZE = 600
+// Cells darker than this hold ink; gutters are (nearly) free of it
+const INK_LEVEL = 200
+const GUTTER_INK_FRACTION = 0.01
+// Gutters narrower than this (share of the page's long side) are ignored
+const MIN_GUTTER_FRACTION = 0.006
+// Regions smaller than this (share of page area) are not panels of their own
+const MIN_PANEL_FRACTION = 0.01
+// Connected ink regions at least this large (share of the region) are panels
+const MIN_COMPONENT_FRACTION = 0.08
+// Consecutive panels below SMALL_PANEL_FRACTION of the page share a screen
+// while their combined box stays under MAX_GROUP_FRACTION
+const SMALL_PANEL_FRACTION = 0.1
+const MAX_GROUP_FRACTION = 0.3
+const PADDING_FRACTION = 0.01
+
+interface InkGrid {
+  ink: Uint8Array
+  width: number
+  height: number
+  cell: number
+}
+
+// A cell is ink when its darkest pixel is, so thin panel borders survive
+function buildInkGrid(imageData: ImageData): InkGrid {
+  const { data, width, height } = imageData
+  const cell = Math.max(1, Math.ceil(Math.max(width, height) / GRID_SIZE))
+  const gridWidth = Math.ceil(width / cell)
+  const gridHeight = Math.ceil(height / cell)
+  const ink = new Uint8Array(gridWidth * gridHeight)
+
+  for (let y = 0; y < height; y++) {
+    const gridRow = Math.floor(y / cell) * gridWidth
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4] < INK_LEVEL) {
+        ink[gridRow + Math.floor(x / cell)] = 1
+      }
+    }
+  }
+  return { ink, width: gridWidth, height: gridHeight, cell }
+}
+
+function area(rect: GridRect): number {
+  return (rect.x1 - rect.x0) * (rect.y1 - rect.y0)
+}
+
+function union(a: GridRect, b: GridRect): GridRect {
+  return {
+    x0: Math.min(a.x0, b.x0),
+    y0: Math.min(a.y0, b.y0),
+    x1: Math.max(a.x1, b.x1),
+    y1: Math.max(a.y1, b.y1)
+  }
+}
+
+function intersectionArea(a: GridRect, b: GridRect): number {
+  const width = Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0)
+  const height = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0)
+  return width > 0 && height > 0 ? width * height : 0
+}
+
+// Ink per row (horizontal) or per column (vertical) within a region
+function inkProfile(grid: InkGrid, rect: GridRect, horizontal: boolean): number[] {
+  const profile: number[] = []
+  const [start, end] = horizontal ? [rect.y0, rect.y1] : [rect.x0, rect.x1]
+  for (let line = start; line < end; line++) {
+    let count = 0
+    if (horizontal) {
+      for (let x = rect.x0; x < rect.x1; x++) count += grid.ink[line * grid.width + x]
+    } else {
+      for (let y = rect.y0; y < rect.y1; y++) count += grid.ink[y * grid.width + line]
+    }
+    profile.push(count)
+  }
+  return profile
+}
+
+function trimToInk(grid: InkGrid, rect: GridRect): GridRect | null {
+  const rows = inkProfile(grid, rect, true)
+  const columns = inkProfile(grid, rect, false)
+  const top = rows.findIndex((count) => count > 0)
+  if (top < 0) return null
+  let bottom = rows.length - 1
+  while (rows[bottom] === 0) bottom--
+  const left = columns.findIndex((count) => count > 0)
+  let right = columns.length - 1
+  while (columns[right] === 0) right--
+  return { x0: rect.x0 + left, y0: rect.y0 + top, x1: rect.x0 + right + 1, y1: rect.y0 + bottom + 1 }
+}
+
+/**
+ * Split a region at gutters running all the way across it, returning the
+ * pieces between them, or null when there is no such gutter.
+ */
+function cutAtGutters(grid: InkGrid, rect: GridRect, horizontal: boolean, minGutter: number): GridRect[] | null {
+  const profile = inkProfile(grid, rect, horizontal)
+  const lineLength = horizontal ? rect.x1 - rect.x0 : rect.y1 - rect.y0
+  const maxInk = Math.floor(lineLength * GUTTER_INK_FRACTION)
+  const start = horizontal ? rect.y0 : rect.x0
+
+  const pieces: GridRect[] = []
+  let pieceStart = 0
+  let gutterStart = -1
+  for (let index = 0; index <= profile.length; index++) {
+    const isGutter = index < profile.length && profile[index] <= maxInk
+    if (isGutter) {
+      if (gutterStart < 0) gutterStart = index
+      continue
+    }
+    if (gutterStart >= 0) {
+      const isInterior = gutterStart > 0 && index < profile.length
+      if (isInterior && index - gutterStart >= minGutter) {
+        pieces.push(horizontal
+          ? { ...rect, y0: start + pieceStart, y1: start + gutterStart }
+          : { ...rect, x0: start + pieceStart, x1: start + gutterStart })
+        pieceStart = index
+      }
+      gutterStart = -1
+    }
+  }
+  if (pieces.length === 0) return null
+  pieces.push(horizontal
+    ? { ...rect, y0: start + pieceStart }
+    : { ...rect, x0: start + pieceStart })
+  return pieces
+}
+
+// Group rectangles into rows by vertical overlap, then order each row
+function sortInReadingOrder(rects: GridRect[], rightToLeft: boolean): GridRect[] {
+  const rows: GridRect[][] = []
+  for (const rect of [...rects].sort((a, b) => a.y0 - b.y0)) {
+    const row = rows.find((candidate) => candidate.some((other) => {
+      const overlap = Math.min(rect.y1, other.y1) - Math.max(rect.y0, other.y0)
+      return overlap > Math.min(rect.y1 - rect.y0, other.y1 - other.y0) / 2
+    }))
+    if (row) row.push(rect)
+    else rows.push([rect])
+  }
+  return rows.flatMap((row) => row.sort((a, b) => rightToLeft ? b.x1 - a.x1 : a.x0 - b.x0))
+}
+
+/**
+ * Split a region without straight gutters into its large connected ink
+ * regions (panels with slanted or broken gutters). Small regions, such as
+ * balloons and sound effects outside panel borders, join the nearest panel.
+ */
+function splitByComponents(grid: InkGrid, rect: GridRect, rightToLeft: boolean): GridRect[] {
+  const regionWidth = rect.x1 - rect.x0
+  const regionHeight = rect.y1 - rect.y0
+  const labels = new Int32Array(regionWidth * regionHeight)
+  const components: GridRect[] = []
+  const stack: number[] = []
+
+  for (let start = 0; start < labels.length; start++) {
+    const sx = start % regionWidth
+    const sy = (start - sx) / regionWidth
+    if (labels[start] || !grid.ink[(rect.y0 + sy) * grid.width + rect.x0 + sx]) continue
+
+    const label = components.length + 1
+    const bounds = { x0: sx, y0: sy, x1: sx + 1, y1: sy + 1 }
+    labels[start] = label
+    stack.push(start)
+    while (stack.length > 0) {
+      const index = stack.pop()!
+      const x = index % regionWidth
+      const y = (index - x) / regionWidth
+      bounds.x0 = Math.min(bounds.x0, x)
+      bounds.y0 = Math.min(bounds.y0, y)
+      bounds.x1 = Math.max(bounds.x1, x + 1)
+      bounds.y1 = Math.max(bounds.y1, y + 1)
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(regionHeight - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(regionWidth - 1, x + 1); nx++) {
+          const neighbour = ny * regionWidth + nx
+          if (labels[neighbour] || !grid.ink[(rect.y0 + ny) * grid.width + rect.x0 + nx]) continue
+          labels[neighbour] = label
+          stack.push(neighbour)
+        }
+      }
+    }
+    components.push({
+      x0: rect.x0 + bounds.x0,
+      y0: rect.y0 + bounds.y0,
+      x1: rect.x0 + bounds.x1,
+      y1: rect.y0 + bounds.y1
+    })
+  }
+
+  const minArea = area(rect) * MIN_COMPONENT_FRACTION
+  let panels = components.filter((component) => area(component) >= minArea)
+  if (panels.length < 2) return [rect]
+
+  // Large regions nested in or overlapping another belong to it
+  panels = panels.filter((panel) => !panels.some((other) =>
+    other !== panel && area(other) >= area(panel) && intersectionArea(panel, other) > area(panel) / 2
+  ))
+  if (panels.length < 2) return [rect]
+
+  for (const component of components) {
+    if (area(component) >= minArea) continue
+    const cx = (component.x0 + component.x1) / 2
+    const cy = (component.y0 + component.y1) / 2
+    let nearest = 0
+    let nearestDistance = Infinity
+    panels.forEach((panel, index) => {
+      const dx = Math.max(panel.x0 - cx, 0, cx - panel.x1)
+      const dy = Math.max(panel.y0 - cy, 0, cy - panel.y1)
+      const distance = dx * dx + dy * dy
+      if (distance < nearestDistance) {
+        nearest = index
+        nearestDistance = distance
+      }
+    })
+    panels[nearest] = union(panels[nearest], component)
+  }
+
+  return sortInReadingOrder(panels, rightToLeft)
+}
+
+function findPanelRects(
+  grid: InkGrid,
+  rect: GridRect,
+  rightToLeft: boolean,
+  minGutter: number
+): GridRect[] {
+  const trimmed = trimToInk(grid, rect)
+  if (!trimmed) return []
+
+  const rows = cutAtGutters(grid, trimmed, true, minGutter)
+  if (rows) {
+    return rows.flatMap((row) => findPanelRects(grid, row, rightToLeft, minGutter))
+  }
+
+  const columns = cutAtGutters(grid, trimmed, false, minGutter)
+  if (columns) {
+    const ordered = rightToLeft ? columns.reverse() : columns
+    return ordered.flatMap((column) => findPanelRects(grid, column, rightToLeft, minGutter))
+  }
+
+  return splitByComponents(grid, trimmed, rightToLeft)
+}
+
+// Fold regions too small to be panels into their neighbour in reading order
+function mergeFragments(rects: GridRect[], minArea: number): GridRect[] {
+  const merged: GridRect[] = []
+  let pending: GridRect | null = null
+  for (const rect of rects) {
+    const current: GridRect = pending ? union(pending, rect) : rect
+    pending = null
+    if (area(current) < minArea) {
+      if (merged.length > 0) {
+        merged[merged.length - 1] = union(merged[merged.length - 1], current)
+      } else {
+        pending = current
+      }
+      continue
+    }
+    merged.push(current)
+  }
+  if (pending) {
+    if (merged.length > 0) merged[merged.length - 1] = union(merged[merged.length - 1], pending)
+    else merged.push(pending)
+  }
+  return merged
+}
+
+// Put runs of small consecutive panels on one screen
+function groupSmallPanels(rects: GridRect[], pageArea: number): GridRect[] {
+  const groups: GridRect[] = []
+  let group: GridRect | null = null
+  let groupIsSmall = false
+
+  for (const rect of rects) {
+    const isSmall = area(rect) < pageArea * SMALL_PANEL_FRACTION
+    if (group && groupIsSmall && isSmall) {
+      const combined = union(group, rect)
+      const coversOther = rects.some((other) =>
+        other !== rect && intersectionArea(combined, other) > area(other) / 2 &&
+        intersectionArea(group!, other) <= area(other) / 2
+      )
+      if (area(combined) <= pageArea * MAX_GROUP_FRACTION && !coversOther) {
+        group = combined
+        continue
+      }
+    }
+    if (group) groups.push(group)
+    group = rect
+    groupIsSmall = isSmall
+  }
+  if (group) groups.push(group)
+  return groups
+}
+
+/**
+ * Find the panels of a grayscale page in reading order, with small panels
+ * grouped together. Returns an empty list when the page doesn't divide into
+ * at least two panels, so callers can keep the whole page.
+ */
+export function detectPanels(imageData: ImageData, readingDirection: 'ltr' | 'rtl' = 'ltr'): PanelRegion[] {
+  const grid = buildInkGrid(imageData)
+  const page: GridRect = { x0: 0, y0: 0, x1: grid.width, y1: grid.height }
+  const pageArea = area(page)
+  const minGutter = Math.max(2, Math.round(Math.max(grid.width, grid.height) * MIN_GUTTER_FRACTION))
+
+  const rects = findPanelRects(grid, page, readingDirection === 'rtl', minGutter)
+  const panels = groupSmallPanels(mergeFragments(rects, pageArea * MIN_PANEL_FRACTION), pageArea)
+  if (panels.length < 2) return []
+
+  const { width, height } = imageData
+  const padding = Math.round(Math.min(width, height) * PADDING_FRACTION)
+  return panels.map((panel) => {
+    const x = Math.max(0, panel.x0 * grid.cell - padding)
+    const y = Math.max(0, panel.y0 * grid.cell - padding)
+    return {
+      x,
+      y,
+      w: Math.min(width, panel.x1 * grid.cell + padding) - x,
+      h: Math.min(height, panel.y1 * grid.cell + padding) - y
+    }
+  })
+}
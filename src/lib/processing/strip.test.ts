@@ -0,0 +1,45 @@
+import { expect, test } from 'bun:test'
+import { findGutterRows, planStripPages } from './strip'
+
+function gutters(pattern: string): number[] {
+  // '.' is a gutter row, '#' a row of artwork
+  return Array.from(pattern, (row) => (row === '.' ? 1 : 0))
+}
+
+test('flags flat rows as gutters', () => {
+  const width = 2
+  const data = new Uint8ClampedArray([
+    250, 250, 250, 255, 255, 255, 255, 255,
+    0, 0, 0, 255, 255, 255, 255, 255,
+    20, 20, 20, 255, 30, 30, 30, 255,
+  ])
+
+  expect(Array.from(findGutterRows({ data, width, height: 3 } as ImageData))).toEqual([1, 0, 1])
+})
+
+test('cuts pages at the lowest gutter and skips the whitespace after it', () => {
+  const plan = planStripPages(gutters('..######..####..##'), 10, 0, true)
+
+  expect(plan.pages).toEqual([
+    { y: 2, height: 6 },
+    { y: 10, height: 8 },
+  ])
+  expect(plan.consumed).toBe(18)
+})
+
+test('cuts at full height with overlap when there is no gutter', () => {
+  const plan = planStripPages(gutters('#'.repeat(25)), 10, 2, true)
+
+  expect(plan.pages).toEqual([
+    { y: 0, height: 10 },
+    { y: 8, height: 10 },
+    { y: 16, height: 9 },
+  ])
+})
+
+test('keeps the last partial page for the next image unless final', () => {
+  const plan = planStripPages(gutters('######..####'), 10, 0, false)
+
+  expect(plan.pages).toEqual([{ y: 0, height: 6 }])
+  expect(plan.consumed).toBe(8)
+})
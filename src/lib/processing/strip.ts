@@ -0,0 +1,98 @@
+// Webtoon strip slicing: cut a tall stitched strip into screen-height pages
+
+export interface StripPage {
+  y: number
+  height: number
+}
+
+export interface StripPlan {
+  pages: StripPage[]
+  /** Rows before this offset are done; the rest waits for more of the strip */
+  consumed: number
+}
+
+// Rows whose pixels all lie within this range count as a gutter
+const GUTTER_TOLERANCE = 16
+// Look for gutters only in the lower part of a page so pages stay well filled
+const MIN_PAGE_FILL = 0.6
+
+/**
+ * Flag the rows of a grayscale image that are a single flat tone, i.e. the
+ * whitespace (or solid background) between panels where a cut is safe.
+ */
+export function findGutterRows(imageData: ImageData): Uint8Array {
+  const { data, width, height } = imageData
+  const gutters = new Uint8Array(height)
+
+  for (let y = 0; y < height; y++) {
+    let min = 255
+    let max = 0
+    const rowStart = y * width * 4
+    for (let i = rowStart; i < rowStart + width * 4; i += 4) {
+      const value = data[i]
+      if (value < min) min = value
+      if (value > max) max = value
+    }
+    gutters[y] = max - min <= GUTTER_TOLERANCE ? 1 : 0
+  }
+
+  return gutters
+}
+
+/**
+ * Plan page cuts for a strip. Each page ends at the lowest gutter in its
+ * bottom part, and the whitespace after a cut is skipped. When there is no
+ * gutter the page is cut at full height and the next one repeats `overlap`
+ * rows so artwork cut through stays readable.
+ *
+ * Unless `final` is set, the last partial page is left unconsumed so it can
+ * be joined with the next image.
+ */
+export function planStripPages(
+  gutterRows: ArrayLike<number>,
+  pageHeight: number,
+  overlap: number,
+  final: boolean
+): StripPlan {
+  const total = gutterRows.length
+  const repeatRows = Math.max(0, Math.min(Math.floor(overlap), Math.floor(pageHeight / 2)))
+  const pages: StripPage[] = []
+
+  const skipGutters = (from: number) => {
+    let row = from
+    while (row < total && gutterRows[row]) row++
+    return row
+  }
+
+  let y = skipGutters(0)
+  while (y < total) {
+    const remaining = total - y
+    if (remaining <= pageHeight) {
+      if (!final) break
+      pages.push({ y, height: remaining })
+      y = total
+      break
+    }
+
+    let cut = -1
+    const minCut = y + Math.ceil(pageHeight * MIN_PAGE_FILL)
+    for (let row = y + pageHeight; row >= minCut; row--) {
+      if (gutterRows[row]) {
+        cut = row
+        break
+      }
+    }
+    // End the page where that gutter begins rather than in its whitespace
+    while (cut > minCut && gutterRows[cut - 1]) cut--
+
+    if (cut >= 0) {
+      pages.push({ y, height: cut - y })
+      y = skipGutters(cut)
+    } else {
+      pages.push({ y, height: pageHeight })
+      y += pageHeight - repeatRows
+    }
+  }
+
+  return { pages, consumed: y }
+}
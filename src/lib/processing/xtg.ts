@@ -9,7 +9,7 @@ function createDigestSeed(data: Uint8Array): Uint8Array {
 /**
  * Convert ImageData to XTG format (XTEink Graphics).
  */
-export function imageDataToXtg(imageData: ImageData): ArrayBuffer {
+export function imageDataToXtg(imageData: Pick<ImageData, 'data' | 'width' | 'height'>): ArrayBuffer {
   const w = imageData.width
   const h = imageData.height
   const data = imageData.data
@@ -32,7 +32,7 @@ export function imageDataToXtg(imageData: ImageData): ArrayBuffer {
   return buildPageBuffer('XTG', w, h, pixelData)
 }
 
-export function imageDataToXth(imageData: ImageData): ArrayBuffer {
+export function imageDataToXth(imageData: Pick<ImageData, 'data' | 'width' | 'height'>): ArrayBuffer {
   const w = imageData.width
   const h = imageData.height
   const data = imageData.data
@@ -0,0 +1,72 @@
+import { expect, test } from 'bun:test'
+import JSZip from 'jszip'
+import { getPageCount, splitFile } from './split'
+import { buildXtcFromXtgPages } from './xtc-format'
+
+function createXtgPage(): ArrayBuffer {
+  const page = new ArrayBuffer(32)
+  const view = new DataView(page)
+  view.setUint16(4, 8, true)
+  view.setUint16(6, 8, true)
+  return page
+}
+
+test('keeps the parts finished before a split is cancelled', async () => {
+  const xtc = await buildXtcFromXtgPages(Array.from({ length: 6 }, createXtgPage))
+  const file = new File([xtc], 'book.xtc')
+  const ranges = [{ start: 1, end: 2 }, { start: 3, end: 4 }, { start: 5, end: 6 }]
+  const controller = new AbortController()
+
+  const results = await splitFile(file, ranges, 'xtc', (progress) => {
+    if (progress.rangeIndex === 0 && progress.pageProgress === 1) controller.abort()
+  }, controller.signal)
+
+  expect(results.map((result) => result.name)).toEqual(['book_part1.xtc'])
+  expect(results[0].pageCount).toBe(2)
+})
+
+function buildTar(files: Record<string, string>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const blocks: Uint8Array[] = []
+  for (const [name, content] of Object.entries(files)) {
+    const data = encoder.encode(content)
+    const header = new Uint8Array(512)
+    header.set(encoder.encode(name), 0)
+    header.set(encoder.encode(data.length.toString(8).padStart(11, '0')), 124)
+    header.set(encoder.encode('0'), 156)
+    const padded = new Uint8Array(Math.ceil(data.length / 512) * 512)
+    padded.set(data)
+    blocks.push(header, padded)
+  }
+  blocks.push(new Uint8Array(1024))
+  const tar = new Uint8Array(blocks.reduce((total, block) => total + block.length, 0))
+  let offset = 0
+  for (const block of blocks) {
+    tar.set(block, offset)
+    offset += block.length
+  }
+  return tar
+}
+
+test('splits a CBT archive into CBZ parts in page order', async () => {
+  const file = new File([buildTar({
+    'pages/003.png': 'three',
+    'pages/001.png': 'one',
+    'ComicInfo.xml': '<ComicInfo />',
+    'pages/002.png': 'two',
+  })], 'book.cbt')
+
+  expect(await getPageCount(file)).toBe(3)
+
+  const results = await splitFile(file, [{ start: 1, end: 2 }, { start: 3, end: 3 }], 'cbz', () => {})
+
+  expect(results.map((result) => result.name)).toEqual(['book_part1.cbz', 'book_part2.cbz'])
+  const parts = await Promise.all(results.map(async (result) => {
+    const zip = await JSZip.loadAsync(result.data)
+    return Promise.all(zip.file(/./).map(async (entry) => [entry.name, await entry.async('string')]))
+  }))
+  expect(parts).toEqual([
+    [['00001.png', 'one'], ['00002.png', 'two']],
+    [['00001.png', 'three']],
+  ])
+})
@@ -1,12 +1,12 @@
-// Split logic for CBZ, PDF, and XTC files
+// Split logic for CBZ, CB7, CBT, PDF, and XTC files
 
-import JSZip from 'jszip'
 import { buildXtc } from './xtc-format'
 import { parseXtcFile } from './xtc-reader'
 import { buildCbz, splitPdf, type OutputFormat, detectFileType } from './merge'
 import { loadPdfDocument } from './pdfjs'
 import { TARGET_WIDTH, TARGET_HEIGHT } from './processing/canvas'
-import { mapWithConcurrency } from './concurrency'
+import { mapWithConcurrency, stopOnAbort } from './concurrency'
+import { readArchiveImages } from './archive-images'
 
 export interface PageRange {
   start: number
@@ -99,7 +99,9 @@ export async function getPageCount(file: File): Promise<number> {
 
   switch (type) {
     case 'cbz':
-      return getCbzPageCount(file)
+    case 'cb7':
+    case 'cbt':
+      return (await readArchiveImages(file)).length
     case 'pdf':
       return getPdfPageCount(file)
     case 'xtc':
@@ -111,21 +113,6 @@ export async function getPageCount(file: File): Promise<number> {
   }
 }
 
-async function getCbzPageCount(file: File): Promise<number> {
-  const zip = await JSZip.loadAsync(file)
-  const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp']
-  let count = 0
-
-  zip.forEach((relativePath: string, zipEntry: any) => {
-    if (zipEntry.dir) return
-    if (relativePath.toLowerCase().startsWith('__macos')) return
-    const ext = relativePath.toLowerCase().substring(relativePath.lastIndexOf('.'))
-    if (imageExtensions.includes(ext)) count++
-  })
-
-  return count
-}
-
 async function getPdfPageCount(file: File): Promise<number> {
   const arrayBuffer = await file.arrayBuffer()
   const pdf = await loadPdfDocument(arrayBuffer)
@@ -135,53 +122,54 @@ async function getPdfPageCount(file: File): Promise<number> {
 /**
  * Split a file into multiple parts based on page ranges
  * Optimized: only extracts the pages needed for each range
+ * Aborting `signal` stops the split and returns the parts finished so far.
  */
 export async function splitFile(
   file: File,
   ranges: PageRange[],
   outputFormat: OutputFormat,
-  onProgress: (progress: SplitProgress) => void
+  onProgress: (progress: SplitProgress) => void,
+  signal?: AbortSignal
 ): Promise<SplitResult[]> {
   const type = detectFileType(file)
-
-  switch (type) {
-    case 'cbz':
-      return splitCbzFile(file, ranges, outputFormat, onProgress)
-    case 'pdf':
-      return splitPdfFile(file, ranges, outputFormat, onProgress)
-    case 'xtc':
-      return splitXtcFile(file, ranges, outputFormat, onProgress)
-    default:
-      throw new Error('Unsupported file type')
+  const results: SplitResult[] = []
+  const report = stopOnAbort(onProgress, signal)
+
+  try {
+    switch (type) {
+      case 'cbz':
+      case 'cb7':
+      case 'cbt':
+        await splitArchiveFile(file, ranges, outputFormat, report, results)
+        break
+      case 'pdf':
+        await splitPdfFile(file, ranges, outputFormat, report, results)
+        break
+      case 'xtc':
+        await splitXtcFile(file, ranges, outputFormat, report, results)
+        break
+      default:
+        throw new Error('Unsupported file type')
+    }
+  } catch (err) {
+    if (!signal?.aborted) throw err
   }
+
+  return results
 }
 
 /**
- * Split CBZ - only extract images for each range
+ * Split CBZ, CB7 or CBT - only read images for each range
  */
-async function splitCbzFile(
+async function splitArchiveFile(
   file: File,
   ranges: PageRange[],
   outputFormat: OutputFormat,
-  onProgress: (progress: SplitProgress) => void
-): Promise<SplitResult[]> {
-  const zip = await JSZip.loadAsync(file)
-  const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp']
-  const imageFiles: Array<{ path: string; entry: any }> = []
-
-  zip.forEach((relativePath: string, zipEntry: any) => {
-    if (zipEntry.dir) return
-    if (relativePath.toLowerCase().startsWith('__macos')) return
-    const ext = relativePath.toLowerCase().substring(relativePath.lastIndexOf('.'))
-    if (imageExtensions.includes(ext)) {
-      imageFiles.push({ path: relativePath, entry: zipEntry })
-    }
-  })
-
-  imageFiles.sort((a, b) => a.path.localeCompare(b.path))
-
-  const baseName = file.name.replace(/\.cbz$/i, '')
-  const results: SplitResult[] = []
+  onProgress: (progress: SplitProgress) => void,
+  results: SplitResult[]
+): Promise<void> {
+  const imageFiles = await readArchiveImages(file)
+  const baseName = file.name.replace(/\.(cbz|cb7|cbt)$/i, '')
 
   for (let rangeIdx = 0; rangeIdx < ranges.length; rangeIdx++) {
     const range = ranges[rangeIdx]
@@ -197,7 +185,7 @@ async function splitCbzFile(
     const rangeEntries = imageFiles.slice(range.start - 1, range.end)
     let completedImages = 0
     const rangeImages = await mapWithConcurrency(rangeEntries, async (imgFile, index) => {
-      const blob = await imgFile.entry.async('blob')
+      const blob = new Blob([new Uint8Array(await imgFile.read())])
       const ext = imgFile.path.substring(imgFile.path.lastIndexOf('.'))
 
       completedImages++
@@ -241,8 +229,6 @@ async function splitCbzFile(
       })
     }
   }
-
-  return results
 }
 
 /**
@@ -252,8 +238,9 @@ async function splitPdfFile(
   file: File,
   ranges: PageRange[],
   outputFormat: OutputFormat,
-  onProgress: (progress: SplitProgress) => void
-): Promise<SplitResult[]> {
+  onProgress: (progress: SplitProgress) => void,
+  results: SplitResult[]
+): Promise<void> {
   const baseName = file.name.replace(/\.pdf$/i, '')
 
   // For PDF output, use pdf-lib for efficient splitting
@@ -266,7 +253,6 @@ async function splitPdfFile(
     })
 
     const pdfResults = await splitPdf(file, ranges)
-    const results: SplitResult[] = []
 
     for (let rangeIdx = 0; rangeIdx < ranges.length; rangeIdx++) {
       const { data, pageCount } = pdfResults[rangeIdx]
@@ -285,86 +271,86 @@ async function splitPdfFile(
       })
     }
 
-    return results
+    return
   }
 
   // For CBZ or XTC output, render PDF pages to canvases
   const arrayBuffer = await file.arrayBuffer()
   const pdf = await loadPdfDocument(arrayBuffer)
 
-  const results: SplitResult[] = []
-
-  for (let rangeIdx = 0; rangeIdx < ranges.length; rangeIdx++) {
-    const range = ranges[rangeIdx]
-    const pageCount = range.end - range.start + 1
-
-    onProgress({
-      phase: 'building',
-      rangeIndex: rangeIdx,
-      totalRanges: ranges.length,
-      pageProgress: 0,
-    })
-
-    // Only render pages for this range
-    const rangeCanvases: HTMLCanvasElement[] = []
-    for (let pageNum = range.start; pageNum <= range.end; pageNum++) {
-      const page = await pdf.getPage(pageNum)
-      const scale = 2.0
-      const viewport = page.getViewport({ scale })
-
-      const canvas = document.createElement('canvas')
-      canvas.width = viewport.width
-      canvas.height = viewport.height
-
-      await page.render({
-        canvas,
-        viewport,
-        background: 'rgb(255,255,255)',
-      }).promise
-
-      rangeCanvases.push(canvas)
+  try {
+    for (let rangeIdx = 0; rangeIdx < ranges.length; rangeIdx++) {
+      const range = ranges[rangeIdx]
+      const pageCount = range.end - range.start + 1
 
       onProgress({
         phase: 'building',
         rangeIndex: rangeIdx,
         totalRanges: ranges.length,
-        pageProgress: rangeCanvases.length / pageCount,
-        previewUrl: canvas.toDataURL('image/png'),
+        pageProgress: 0,
       })
-    }
 
-    if (outputFormat === 'cbz') {
-      const images = rangeCanvases.map((canvas, i) => ({
-        name: `${String(i + 1).padStart(5, '0')}.png`,
-        blob: dataURLtoBlob(canvas.toDataURL('image/png')),
-      }))
-      const data = await buildCbz(images)
-
-      results.push({
-        name: `${baseName}_part${rangeIdx + 1}.cbz`,
-        data,
-        size: data.byteLength,
-        pageCount: rangeCanvases.length,
-      })
-    } else {
-      const pages = rangeCanvases.map((canvas, i) => ({
-        name: `${String(i).padStart(5, '0')}.png`,
-        canvas: resizeCanvasForXtc(canvas),
-      }))
-      const pageImages = pages.map(p => p.canvas.toDataURL('image/png'))
-      const data = await buildXtc(pages)
+      // Only render pages for this range
+      const rangeCanvases: HTMLCanvasElement[] = []
+      for (let pageNum = range.start; pageNum <= range.end; pageNum++) {
+        const page = await pdf.getPage(pageNum)
+        const scale = 2.0
+        const viewport = page.getViewport({ scale })
+
+        const canvas = document.createElement('canvas')
+        canvas.width = viewport.width
+        canvas.height = viewport.height
+
+        await page.render({
+          canvas,
+          viewport,
+          background: 'rgb(255,255,255)',
+        }).promise
+
+        rangeCanvases.push(canvas)
+
+        onProgress({
+          phase: 'building',
+          rangeIndex: rangeIdx,
+          totalRanges: ranges.length,
+          pageProgress: rangeCanvases.length / pageCount,
+          previewUrl: canvas.toDataURL('image/png'),
+        })
+      }
 
-      results.push({
-        name: `${baseName}_part${rangeIdx + 1}.xtc`,
-        data,
-        size: data.byteLength,
-        pageCount: pages.length,
-        pageImages,
-      })
+      if (outputFormat === 'cbz') {
+        const images = rangeCanvases.map((canvas, i) => ({
+          name: `${String(i + 1).padStart(5, '0')}.png`,
+          blob: dataURLtoBlob(canvas.toDataURL('image/png')),
+        }))
+        const data = await buildCbz(images)
+
+        results.push({
+          name: `${baseName}_part${rangeIdx + 1}.cbz`,
+          data,
+          size: data.byteLength,
+          pageCount: rangeCanvases.length,
+        })
+      } else {
+        const pages = rangeCanvases.map((canvas, i) => ({
+          name: `${String(i).padStart(5, '0')}.png`,
+          canvas: resizeCanvasForXtc(canvas),
+        }))
+        const pageImages = pages.map(p => p.canvas.toDataURL('image/png'))
+        const data = await buildXtc(pages)
+
+        results.push({
+          name: `${baseName}_part${rangeIdx + 1}.xtc`,
+          data,
+          size: data.byteLength,
+          pageCount: pages.length,
+          pageImages,
+        })
+      }
     }
+  } finally {
+    await pdf.destroy()
   }
-
-  return results
 }
 
 /**
@@ -374,13 +360,13 @@ async function splitXtcFile(
   file: File,
   ranges: PageRange[],
   outputFormat: OutputFormat,
-  onProgress: (progress: SplitProgress) => void
-): Promise<SplitResult[]> {
+  onProgress: (progress: SplitProgress) => void,
+  results: SplitResult[]
+): Promise<void> {
   const buffer = await file.arrayBuffer()
   const parsed = await parseXtcFile(buffer)
 
   const baseName = file.name.replace(/\.xtc$/i, '')
-  const results: SplitResult[] = []
 
   for (let rangeIdx = 0; rangeIdx < ranges.length; rangeIdx++) {
     const range = ranges[rangeIdx]
@@ -427,8 +413,6 @@ async function splitXtcFile(
       pageProgress: 1,
     })
   }
-
-  return results
 }
 
 /**
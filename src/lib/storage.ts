@@ -9,7 +9,8 @@ export interface StoredConversion {
   id: string
   sessionId: string
   name: string
-  data: ArrayBuffer
+  /** Blob for new results; records from older versions hold an ArrayBuffer */
+  data: Blob | ArrayBuffer
   size: number
   pageCount: number
   pageImages: string[]
@@ -89,7 +90,7 @@ export async function storeConversion(
   sessionId: string,
   conversion: {
     name: string
-    data?: ArrayBuffer
+    data?: Blob
     size?: number
     pageCount?: number
     pageImages?: string[]
@@ -103,7 +104,7 @@ export async function storeConversion(
     id: generateId(),
     sessionId,
     name: conversion.name,
-    data: conversion.data || new ArrayBuffer(0),
+    data: conversion.data || new Blob([]),
     size: conversion.size || 0,
     pageCount: conversion.pageCount || 0,
     pageImages: conversion.pageImages || [],
@@ -144,11 +145,12 @@ async function getConversion(id: string): Promise<StoredConversion | null> {
 }
 
 /**
- * Get just the ArrayBuffer data for download
+ * Get just the file data for download
  */
 export async function getConversionData(id: string): Promise<ArrayBuffer | null> {
   const record = await getConversion(id)
-  return record?.data || null
+  if (!record?.data) return null
+  return record.data instanceof Blob ? record.data.arrayBuffer() : record.data
 }
 
 /**
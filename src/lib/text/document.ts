@@ -0,0 +1,232 @@
+// Plain text, Markdown and reflowable EPUB parsing into typesettable blocks
+
+import {
+  findElements,
+  isEpubDocument,
+  parseXml,
+  readEpubPackage,
+  type EpubTextReader
+} from '../conversion/epub'
+import type { BookMetadata } from '../metadata/types'
+
+export interface TextBlock {
+  type: 'heading' | 'paragraph' | 'separator'
+  text: string
+  /** Starts a new page and adds a TOC entry with this title */
+  chapter?: string
+  /** Nesting level of the `chapter` entry, from the EPUB nav/NCX; unset for top level */
+  chapterLevel?: number
+  /** Starts a new page without a TOC entry (e.g. a new EPUB spine document) */
+  pageBreak?: boolean
+}
+
+export interface TextDocument {
+  blocks: TextBlock[]
+  metadata: BookMetadata
+}
+
+const CHAPTER_HEADING = /^(chapter|part|book|prologue|epilogue|interlude|afterword|foreword|preface|cap[ií]tulo|chapitre|kapitel)\b|^第[0-9０-９一二三四五六七八九十百千]+[章話回部]/i
+const MAX_HEADING_LENGTH = 80
+const SEPARATOR_LINE = /^\s*([*\-_~#=•·]\s*){3,}$/
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function isChapterHeading(line: string): boolean {
+  return line.length <= MAX_HEADING_LENGTH && CHAPTER_HEADING.test(line)
+}
+
+/**
+ * Split plain text into paragraphs and detect chapter headings.
+ *
+ * Files with blank lines between paragraphs are treated as hard-wrapped;
+ * otherwise every line is its own paragraph.
+ */
+export function parsePlainText(content: string): TextBlock[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n')
+  const hasBlankLineParagraphs = /\n[ \t]*\n/.test(content.replace(/\r\n?/g, '\n').trim())
+  const blocks: TextBlock[] = []
+
+  const pushParagraph = (text: string) => {
+    const normalized = normalizeWhitespace(text)
+    if (!normalized) return
+    if (SEPARATOR_LINE.test(normalized)) {
+      blocks.push({ type: 'separator', text: '' })
+    } else if (isChapterHeading(normalized)) {
+      blocks.push({ type: 'heading', text: normalized, chapter: normalized })
+    } else {
+      blocks.push({ type: 'paragraph', text: normalized })
+    }
+  }
+
+  if (!hasBlankLineParagraphs) {
+    lines.forEach(pushParagraph)
+    return blocks
+  }
+
+  let paragraph: string[] = []
+  for (const line of lines) {
+    if (line.trim() === '') {
+      pushParagraph(paragraph.join(' '))
+      paragraph = []
+      continue
+    }
+    // A heading line stays separate even without a blank line after it
+    if (paragraph.length === 0 && isChapterHeading(line.trim())) {
+      pushParagraph(line)
+      continue
+    }
+    paragraph.push(line)
+  }
+  pushParagraph(paragraph.join(' '))
+
+  return blocks
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/<[^>]+>/g, '')
+}
+
+/**
+ * Parse Markdown into blocks. `#` and `##` headings become chapters.
+ */
+export function parseMarkdown(content: string): TextBlock[] {
+  const blocks: TextBlock[] = []
+  let paragraph: string[] = []
+
+  const flush = () => {
+    const text = normalizeWhitespace(stripInlineMarkdown(paragraph.join(' ')))
+    if (text) blocks.push({ type: 'paragraph', text })
+    paragraph = []
+  }
+
+  for (const rawLine of content.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim()
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/)
+    if (heading) {
+      flush()
+      const text = normalizeWhitespace(stripInlineMarkdown(heading[2]))
+      if (text) {
+        blocks.push(heading[1].length <= 2
+          ? { type: 'heading', text, chapter: text }
+          : { type: 'heading', text })
+      }
+      continue
+    }
+
+    if (line === '') {
+      flush()
+      continue
+    }
+
+    if (SEPARATOR_LINE.test(line)) {
+      flush()
+      blocks.push({ type: 'separator', text: '' })
+      continue
+    }
+
+    const listItem = line.match(/^([-*+]|\d+[.)])\s+(.*)$/)
+    if (listItem) {
+      flush()
+      paragraph.push(`• ${listItem[2]}`)
+      flush()
+      continue
+    }
+
+    paragraph.push(line.replace(/^>\s?/, ''))
+  }
+  flush()
+
+  return blocks
+}
+
+const EPUB_HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6'])
+const EPUB_BLOCK_TAGS = new Set(['p', 'div', 'li', 'blockquote', 'pre', 'section', 'article', 'aside', 'figcaption', 'dd', 'dt', 'td', 'hr', ...EPUB_HEADING_TAGS])
+
+function getTagName(el: Element): string {
+  const tagName = el.tagName
+  return tagName.slice(tagName.lastIndexOf(':') + 1).toLowerCase()
+}
+
+function hasBlockChildren(el: Element): boolean {
+  return Array.from(el.children).some((child) => EPUB_BLOCK_TAGS.has(getTagName(child)))
+}
+
+function collectEpubBlocks(el: Element, blocks: TextBlock[]): void {
+  for (const child of Array.from(el.children)) {
+    const tagName = getTagName(child)
+
+    if (tagName === 'hr') {
+      blocks.push({ type: 'separator', text: '' })
+      continue
+    }
+    if (tagName === 'script' || tagName === 'style' || tagName === 'nav') {
+      continue
+    }
+    if (!EPUB_BLOCK_TAGS.has(tagName) || hasBlockChildren(child)) {
+      collectEpubBlocks(child, blocks)
+      continue
+    }
+
+    const text = normalizeWhitespace(child.textContent ?? '')
+    if (!text) continue
+
+    if (EPUB_HEADING_TAGS.has(tagName)) {
+      blocks.push({ type: 'heading', text, chapter: tagName === 'h1' || tagName === 'h2' ? text : undefined })
+    } else {
+      blocks.push({ type: 'paragraph', text })
+    }
+  }
+}
+
+/**
+ * Extract the text of a reflowable EPUB in spine order.
+ *
+ * Chapters come from the nav/NCX when present (each entry starts at its spine
+ * document), otherwise from <h1>/<h2> headings.
+ */
+export async function readEpubText(readText: EpubTextReader): Promise<TextDocument> {
+  const { spine, metadata, tocLinks } = await readEpubPackage(readText)
+  const chapterByPath = new Map<string, { title: string; level: number }>()
+  for (const link of tocLinks) {
+    if (!chapterByPath.has(link.path)) chapterByPath.set(link.path, link)
+  }
+
+  const blocks: TextBlock[] = []
+  for (const item of spine) {
+    if (!isEpubDocument(item)) continue
+    const content = await readText(item.path)
+    if (!content) continue
+
+    const doc = parseXml(content)
+    const body = findElements(doc, 'body')[0] ?? doc.documentElement
+    const documentBlocks: TextBlock[] = []
+    if (body) collectEpubBlocks(body, documentBlocks)
+    if (documentBlocks.length === 0) continue
+
+    if (tocLinks.length > 0) {
+      for (const block of documentBlocks) delete block.chapter
+      const chapter = chapterByPath.get(item.path)
+      if (chapter) {
+        documentBlocks[0].chapter = chapter.title
+        if (chapter.level > 0) documentBlocks[0].chapterLevel = chapter.level
+      }
+    }
+    documentBlocks[0].pageBreak = true
+    blocks.push(...documentBlocks)
+  }
+
+  if (blocks.length === 0) {
+    throw new Error('No text found in EPUB')
+  }
+
+  return { blocks, metadata: { title: metadata.title, author: metadata.author, toc: [] } }
+}
@@ -0,0 +1,62 @@
+// Fonts available to the text typesetter
+//
+// Liberation Sans ships with pdfjs-dist, so Vite bundles it with the app and
+// output doesn't depend on what the browser has installed.
+
+import liberationSansRegularUrl from 'pdfjs-dist/standard_fonts/LiberationSans-Regular.ttf?url'
+import liberationSansBoldUrl from 'pdfjs-dist/standard_fonts/LiberationSans-Bold.ttf?url'
+
+export interface TextFont {
+  id: string
+  label: string
+  /** CSS font-family list used for canvas text */
+  cssFamily: string
+  /** Bundled faces, registered under `family` before use */
+  sources?: {
+    family: string
+    regular: string
+    bold: string
+  }
+}
+
+export const TEXT_FONTS: TextFont[] = [
+  {
+    id: 'liberation-sans',
+    label: 'Liberation Sans',
+    cssFamily: '"XTC Liberation Sans", sans-serif',
+    sources: { family: 'XTC Liberation Sans', regular: liberationSansRegularUrl, bold: liberationSansBoldUrl },
+  },
+  { id: 'serif', label: 'Serif (system)', cssFamily: 'serif' },
+  { id: 'monospace', label: 'Monospace (system)', cssFamily: 'monospace' },
+]
+
+const loadedFonts = new Map<string, Promise<TextFont>>()
+
+/**
+ * Resolve a font by id and make sure its faces are ready for canvas rendering.
+ */
+export function loadTextFont(id: string): Promise<TextFont> {
+  const font = TEXT_FONTS.find((candidate) => candidate.id === id) ?? TEXT_FONTS[0]
+
+  let loading = loadedFonts.get(font.id)
+  if (!loading) {
+    loading = (async () => {
+      if (font.sources) {
+        const { family, regular, bold } = font.sources
+        const faces = [
+          new FontFace(family, `url(${regular})`, { weight: '400' }),
+          new FontFace(family, `url(${bold})`, { weight: '700' }),
+        ]
+        for (const face of await Promise.all(faces.map((face) => face.load()))) {
+          document.fonts.add(face)
+        }
+      }
+      return font
+    })()
+    // Allow a retry after a failed download
+    loading.catch(() => loadedFonts.delete(font.id))
+    loadedFonts.set(font.id, loading)
+  }
+
+  return loading
+}
@@ -0,0 +1,89 @@
+import { expect, test } from 'bun:test'
+import { parseMarkdown, parsePlainText } from './document'
+import { layoutText, wrapText } from './layout'
+
+// Fixed-width glyphs keep line breaks predictable
+const measure = (text: string) => text.length * 10
+
+test('detects chapters and paragraphs in plain text', () => {
+  const blocks = parsePlainText('Chapter 1\nIt was a dark\nand stormy night.\n\nThe end.\n\n* * *\n\nCapítulo 2\n\nOtra vez.')
+
+  expect(blocks).toEqual([
+    { type: 'heading', text: 'Chapter 1', chapter: 'Chapter 1' },
+    { type: 'paragraph', text: 'It was a dark and stormy night.' },
+    { type: 'paragraph', text: 'The end.' },
+    { type: 'separator', text: '' },
+    { type: 'heading', text: 'Capítulo 2', chapter: 'Capítulo 2' },
+    { type: 'paragraph', text: 'Otra vez.' },
+  ])
+})
+
+test('treats each line as a paragraph when there are no blank lines', () => {
+  expect(parsePlainText('One\nTwo')).toEqual([
+    { type: 'paragraph', text: 'One' },
+    { type: 'paragraph', text: 'Two' },
+  ])
+})
+
+test('parses markdown headings, lists and inline markup', () => {
+  const blocks = parseMarkdown('# Part **One**\n\nSome *emphasis* and a [link](x.md).\n\n### Aside\n\n- item')
+
+  expect(blocks).toEqual([
+    { type: 'heading', text: 'Part One', chapter: 'Part One' },
+    { type: 'paragraph', text: 'Some emphasis and a link.' },
+    { type: 'heading', text: 'Aside' },
+    { type: 'paragraph', text: '• item' },
+  ])
+})
+
+test('wraps on spaces and breaks words longer than a line', () => {
+  expect(wrapText('aaa bbb ccc', 70, 0, measure)).toEqual(['aaa bbb', 'ccc'])
+  expect(wrapText('abcdefghij', 40, 0, measure)).toEqual(['abcd', 'efgh', 'ij'])
+  expect(wrapText('aaa bbb', 70, 20, measure)).toEqual(['aaa', 'bbb'])
+})
+
+test('starts chapters on new pages and builds the TOC', () => {
+  const layout = layoutText(
+    [
+      { type: 'heading', text: 'One', chapter: 'One' },
+      { type: 'paragraph', text: 'word '.repeat(40) },
+      { type: 'heading', text: 'Two', chapter: 'Two' },
+      { type: 'paragraph', text: 'short' },
+    ],
+    { width: 200, height: 200, margin: 10, fontSize: 10, lineSpacing: 2 },
+    measure
+  )
+
+  // 40 words at three per line need 14 lines, which spill onto a second page
+  expect(layout.pages.length).toBe(3)
+  expect(layout.pages[2][0]).toMatchObject({ text: 'Two', style: 'heading' })
+  expect(layout.toc).toEqual([
+    { title: 'One', startPage: 1, endPage: 2 },
+    { title: 'Two', startPage: 3, endPage: 3 },
+  ])
+  for (const page of layout.pages) {
+    for (const line of page) {
+      expect(line.baseline).toBeLessThanOrEqual(190)
+    }
+  }
+})
+
+test('nests sub-chapters under their part in the TOC', () => {
+  const layout = layoutText(
+    [
+      { type: 'paragraph', text: 'Part', chapter: 'Part One', pageBreak: true },
+      { type: 'paragraph', text: 'first', chapter: 'Chapter 1', chapterLevel: 1, pageBreak: true },
+      { type: 'paragraph', text: 'second', chapter: 'Chapter 2', chapterLevel: 1, pageBreak: true },
+      { type: 'paragraph', text: 'Part', chapter: 'Part Two', pageBreak: true },
+    ],
+    { width: 200, height: 200, margin: 10, fontSize: 10, lineSpacing: 2 },
+    measure
+  )
+
+  expect(layout.toc).toEqual([
+    { title: 'Part One', startPage: 1, endPage: 3 },
+    { title: 'Chapter 1', startPage: 2, endPage: 2, level: 1 },
+    { title: 'Chapter 2', startPage: 3, endPage: 3, level: 1 },
+    { title: 'Part Two', startPage: 4, endPage: 4 },
+  ])
+})
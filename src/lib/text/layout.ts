@@ -0,0 +1,186 @@
+// Page layout for typeset text: greedy line breaking into fixed-size pages
+
+import type { TocEntry } from '../metadata/types'
+import { createTocEntry, fillTocEndPages } from '../metadata/toc'
+import type { TextBlock } from './document'
+
+export type TextStyle = 'body' | 'heading'
+
+export interface TextLayoutSettings {
+  width: number
+  height: number
+  margin: number
+  fontSize: number
+  lineSpacing: number
+}
+
+export interface TextLine {
+  text: string
+  x: number
+  baseline: number
+  style: TextStyle
+}
+
+export interface TextLayout {
+  pages: TextLine[][]
+  toc: TocEntry[]
+}
+
+/** Returns the rendered width of `text` in pixels for the given style. */
+export type MeasureText = (text: string, style: TextStyle) => number
+
+export const HEADING_SCALE = 1.4
+const PARAGRAPH_INDENT_EM = 1.5
+const SEPARATOR_TEXT = '*  *  *'
+
+export function getStyleFontSize(style: TextStyle, fontSize: number): number {
+  return style === 'heading' ? Math.round(fontSize * HEADING_SCALE) : fontSize
+}
+
+function breakLongWord(word: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const parts: string[] = []
+  let current = ''
+
+  for (const char of Array.from(word)) {
+    if (current && measure(current + char) > maxWidth) {
+      parts.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  if (current) parts.push(current)
+
+  return parts
+}
+
+/**
+ * Greedy word wrap. Words wider than a line (or unspaced CJK text) are broken
+ * between characters.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  firstLineIndent: number,
+  measure: (text: string) => number
+): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  const available = () => maxWidth - (lines.length === 0 ? firstLineIndent : 0)
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (measure(candidate) <= available()) {
+      line = candidate
+      continue
+    }
+
+    if (line) {
+      lines.push(line)
+      line = ''
+    }
+
+    if (measure(word) <= available()) {
+      line = word
+      continue
+    }
+
+    const parts = breakLongWord(word, available(), measure)
+    line = parts.pop() ?? ''
+    for (const part of parts) {
+      lines.push(part)
+    }
+  }
+  if (line) lines.push(line)
+
+  return lines
+}
+
+/**
+ * Lay out blocks into pages. Chapters start on a new page and become TOC
+ * entries pointing at that page (1-indexed).
+ */
+export function layoutText(
+  blocks: TextBlock[],
+  settings: TextLayoutSettings,
+  measure: MeasureText
+): TextLayout {
+  const contentWidth = Math.max(1, settings.width - settings.margin * 2)
+  const bottom = settings.height - settings.margin
+  const pages: TextLine[][] = [[]]
+  const toc: TocEntry[] = []
+  let y = settings.margin
+  let previousType: TextBlock['type'] | null = null
+
+  const currentPage = () => pages[pages.length - 1]
+
+  const newPage = () => {
+    if (currentPage().length > 0) {
+      pages.push([])
+    }
+    y = settings.margin
+  }
+
+  const placeLine = (text: string, style: TextStyle, x: number) => {
+    const size = getStyleFontSize(style, settings.fontSize)
+    const lineHeight = size * settings.lineSpacing
+    if (y + lineHeight > bottom && currentPage().length > 0) {
+      newPage()
+    }
+    // Center the glyphs in the line box; 0.8em approximates the ascent.
+    const baseline = y + (lineHeight - size) / 2 + size * 0.8
+    currentPage().push({ text, x, baseline: Math.round(baseline), style })
+    y += lineHeight
+  }
+
+  for (const block of blocks) {
+    if (block.chapter || block.pageBreak) {
+      newPage()
+    }
+
+    if (block.chapter) {
+      toc.push(createTocEntry(block.chapter, pages.length, pages.length, block.chapterLevel))
+    }
+
+    if (block.type === 'separator') {
+      const width = measure(SEPARATOR_TEXT, 'body')
+      placeLine(SEPARATOR_TEXT, 'body', settings.margin + Math.max(0, (contentWidth - width) / 2))
+      previousType = block.type
+      continue
+    }
+
+    if (block.type === 'heading') {
+      const measureHeading = (text: string) => measure(text, 'heading')
+      // Leave a blank line above headings that don't open the page
+      if (currentPage().length > 0) {
+        y += settings.fontSize * settings.lineSpacing
+      }
+      for (const line of wrapText(block.text, contentWidth, 0, measureHeading)) {
+        const width = measureHeading(line)
+        placeLine(line, 'heading', settings.margin + Math.max(0, (contentWidth - width) / 2))
+      }
+      y += settings.fontSize * settings.lineSpacing * 0.5
+      previousType = block.type
+      continue
+    }
+
+    // No indent for the first paragraph after a heading or at the top of a page
+    const indent = previousType === 'paragraph' && currentPage().length > 0
+      ? settings.fontSize * PARAGRAPH_INDENT_EM
+      : 0
+    const measureBody = (text: string) => measure(text, 'body')
+    wrapText(block.text, contentWidth, indent, measureBody).forEach((line, index) => {
+      placeLine(line, 'body', settings.margin + (index === 0 ? indent : 0))
+    })
+    previousType = block.type
+  }
+
+  if (pages.length > 1 && currentPage().length === 0) {
+    pages.pop()
+  }
+
+  fillTocEndPages(toc, pages.length)
+
+  return { pages, toc }
+}
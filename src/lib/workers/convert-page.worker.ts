@@ -1,416 +1,33 @@
-import { applyDithering } from '../processing/dithering'
-import { applyContrast, calculateFourWaySegments, calculateOverlapSegments, findContentBounds, shouldSplitPage, toGrayscale } from '../processing/image'
-import { imageDataToXtg, imageDataToXth } from '../processing/xtg'
+import { processBitmap, type PipelinePageResult } from '../conversion/page-pipeline'
 import type { ConversionOptions } from '../conversion/types'
 
-interface CropRect {
-  x: number
-  y: number
-  width: number
-  height: number
-}
-
 interface WorkerRequest {
   jobId: number
   pageNum: number
-  blob: Blob
+  /** Encoded image, or a page already rendered on the main thread (e.g. PDF) */
+  source: Blob | ImageBitmap
   options: ConversionOptions
   includePreview: boolean
 }
 
-interface WorkerPageResult {
-  name: string
-  xtg: ArrayBuffer
-  previewJpeg?: ArrayBuffer
-}
-
 interface WorkerResponse {
   jobId: number
-  pages?: WorkerPageResult[]
+  pages?: PipelinePageResult[]
   error?: string
 }
 
-const PREVIEW_WIDTH = 240
-const PREVIEW_HEIGHT = 400
-const PREVIEW_JPEG_QUALITY = 0.55
-const DEVICE_DIMENSIONS = {
-  X4: { width: 480, height: 800 },
-  X3: { width: 528, height: 792 }
-} as const
-
-function getPageName(pageNum: number, suffix: string): string {
-  return `${String(pageNum).padStart(4, '0')}_${suffix}.png`
-}
-
-function getTargetDimensions(options: ConversionOptions): { width: number; height: number } {
-  return DEVICE_DIMENSIONS[options.device] ?? DEVICE_DIMENSIONS.X4
-}
-
-function clampMarginPercent(value: number): number {
-  if (!Number.isFinite(value)) return 0
-  return Math.max(0, Math.min(20, value))
-}
-
-function getAxisCropRect(
-  sourceWidth: number,
-  sourceHeight: number,
-  options: ConversionOptions
-): CropRect {
-  const horizontalMargin = clampMarginPercent(options.horizontalMargin)
-  const verticalMargin = clampMarginPercent(options.verticalMargin)
-
-  const maxCropX = Math.floor((sourceWidth - 1) / 2)
-  const maxCropY = Math.floor((sourceHeight - 1) / 2)
-
-  const cropX = Math.min(Math.floor(sourceWidth * horizontalMargin / 100), maxCropX)
-  const cropY = Math.min(Math.floor(sourceHeight * verticalMargin / 100), maxCropY)
-
-  return {
-    x: cropX,
-    y: cropY,
-    width: Math.max(1, sourceWidth - cropX * 2),
-    height: Math.max(1, sourceHeight - cropY * 2)
-  }
-}
-
-function asCanvas2d(ctx: OffscreenCanvasRenderingContext2D): CanvasRenderingContext2D {
-  return ctx as unknown as CanvasRenderingContext2D
-}
-
-function rotateCanvas(canvas: OffscreenCanvas, degrees: number): OffscreenCanvas {
-  const rotated = degrees === -90 || degrees === 90
-    ? new OffscreenCanvas(canvas.height, canvas.width)
-    : new OffscreenCanvas(canvas.width, canvas.height)
-
-  const ctx = rotated.getContext('2d', { alpha: false })!
-  ctx.translate(rotated.width / 2, rotated.height / 2)
-  ctx.rotate(degrees * Math.PI / 180)
-  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2)
-  return rotated
-}
-
-function extractAndRotate(
-  source: OffscreenCanvas,
-  x: number,
-  y: number,
-  w: number,
-  h: number,
-  degrees = 90
-): OffscreenCanvas {
-  const extract = new OffscreenCanvas(w, h)
-  const ctx = extract.getContext('2d', { alpha: false })!
-  ctx.drawImage(source, x, y, w, h, 0, 0, w, h)
-  return rotateCanvas(extract, degrees)
-}
-
-function extractRegion(
-  source: OffscreenCanvas,
-  x: number,
-  y: number,
-  w: number,
-  h: number
-): OffscreenCanvas {
-  const extract = new OffscreenCanvas(w, h)
-  const ctx = extract.getContext('2d', { alpha: false })!
-  ctx.drawImage(source, x, y, w, h, 0, 0, w, h)
-  return extract
-}
-
-function trimCanvasToContent(canvas: OffscreenCanvas): OffscreenCanvas {
-  const ctx = canvas.getContext('2d', { alpha: false })
-  if (!ctx) return canvas
-
-  const bounds = findContentBounds(ctx.getImageData(0, 0, canvas.width, canvas.height))
-  if (!bounds) return canvas
-  if (bounds.width === canvas.width && bounds.height === canvas.height && bounds.x === 0 && bounds.y === 0) {
-    return canvas
-  }
-
-  return extractRegion(canvas, bounds.x, bounds.y, bounds.width, bounds.height)
-}
-
-function resizeWithPadding(
-  canvas: OffscreenCanvas,
-  padColor = 255,
-  targetWidth = DEVICE_DIMENSIONS.X4.width,
-  targetHeight = DEVICE_DIMENSIONS.X4.height
-): OffscreenCanvas {
-  const result = new OffscreenCanvas(targetWidth, targetHeight)
-  const ctx = result.getContext('2d', { alpha: false })!
-  ctx.imageSmoothingEnabled = true
-  ctx.imageSmoothingQuality = 'high'
-  ctx.fillStyle = `rgb(${padColor}, ${padColor}, ${padColor})`
-  ctx.fillRect(0, 0, targetWidth, targetHeight)
-
-  const scale = Math.min(targetWidth / canvas.width, targetHeight / canvas.height)
-  const newWidth = Math.floor(canvas.width * scale)
-  const newHeight = Math.floor(canvas.height * scale)
-  const x = Math.floor((targetWidth - newWidth) / 2)
-  const y = Math.floor((targetHeight - newHeight) / 2)
-  ctx.drawImage(canvas, 0, 0, canvas.width, canvas.height, x, y, newWidth, newHeight)
-  return result
-}
-
-async function buildWorkerPage(
-  name: string,
-  canvas: OffscreenCanvas,
-  includePreview: boolean,
-  targetWidth: number,
-  targetHeight: number,
-  is2bit = false
-): Promise<WorkerPageResult> {
-  const ctx = canvas.getContext('2d', { alpha: false })!
-  const imageData = ctx.getImageData(0, 0, targetWidth, targetHeight)
-  const xtg = is2bit ? imageDataToXth(imageData) : imageDataToXtg(imageData)
-
-  if (!includePreview) {
-    return { name, xtg }
-  }
-
-  const previewCanvas = new OffscreenCanvas(PREVIEW_WIDTH, PREVIEW_HEIGHT)
-  const previewCtx = previewCanvas.getContext('2d', { alpha: false })!
-  previewCtx.fillStyle = 'rgb(255,255,255)'
-  previewCtx.fillRect(0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT)
-  previewCtx.drawImage(canvas, 0, 0, targetWidth, targetHeight, 0, 0, PREVIEW_WIDTH, PREVIEW_HEIGHT)
-  const previewBlob = await previewCanvas.convertToBlob({
-    type: 'image/jpeg',
-    quality: PREVIEW_JPEG_QUALITY
-  })
-
-  return {
-    name,
-    xtg,
-    previewJpeg: await previewBlob.arrayBuffer()
-  }
-}
-
-async function buildOverviewWorkerPage(
-  baseCanvas: OffscreenCanvas,
-  pageNum: number,
-  options: ConversionOptions,
-  landscapeRotation: number,
-  includePreview: boolean,
-  targetWidth: number,
-  targetHeight: number
-): Promise<WorkerPageResult> {
-  const overviewCanvas = options.pageOverview === 'portrait'
-    ? resizeWithPadding(baseCanvas, 255, targetWidth, targetHeight)
-    : resizeWithPadding(rotateCanvas(baseCanvas, landscapeRotation), 255, targetWidth, targetHeight)
-
-  applyDithering(
-    asCanvas2d(overviewCanvas.getContext('2d', { alpha: false })!),
-    targetWidth,
-    targetHeight,
-    options.dithering,
-    options.is2bit
-  )
-
-  return buildWorkerPage(
-    getPageName(pageNum, `1_overview_${options.pageOverview}`),
-    overviewCanvas,
-    includePreview,
-    targetWidth,
-    targetHeight,
-    options.is2bit
-  )
-}
-
-async function processBitmap(
-  source: ImageBitmap,
-  pageNum: number,
-  options: ConversionOptions,
-  includePreview: boolean
-): Promise<WorkerPageResult[]> {
-  const { width: targetWidth, height: targetHeight } = getTargetDimensions(options)
-  const results: WorkerPageResult[] = []
-  const crop = getAxisCropRect(source.width, source.height, options)
-
-  const baseCanvas = new OffscreenCanvas(crop.width, crop.height)
-  const baseCtx = baseCanvas.getContext('2d', { alpha: false })!
-  baseCtx.drawImage(
-    source,
-    crop.x, crop.y,
-    crop.width, crop.height,
-    0, 0,
-    crop.width, crop.height
-  )
-
-  const width = crop.width
-  const height = crop.height
-
-  if (options.contrast > 0) {
-    applyContrast(asCanvas2d(baseCtx), width, height, options.contrast)
-  }
-
-  toGrayscale(asCanvas2d(baseCtx), width, height)
-
-  const shouldSplit = shouldSplitPage(width, height, options.orientation, options.splitMode)
-
-  if (options.orientation === 'portrait' && !shouldSplit) {
-    const finalCanvas = resizeWithPadding(baseCanvas, 255, targetWidth, targetHeight)
-    applyDithering(
-      asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
-      targetWidth,
-      targetHeight,
-      options.dithering,
-      options.is2bit
-    )
-    results.push(await buildWorkerPage(
-      getPageName(pageNum, '0_page'),
-      finalCanvas,
-      includePreview,
-      targetWidth,
-      targetHeight,
-      options.is2bit
-    ))
-    return results
-  }
-
-  const landscapeRotation = options.landscapeFlipClockwise ? -90 : 90
-  let previewAssigned = false
-
-  if (shouldSplit) {
-    if (options.orientation === 'landscape' && options.pageOverview !== 'none') {
-      results.push(await buildOverviewWorkerPage(
-        baseCanvas,
-        pageNum,
-        options,
-        landscapeRotation,
-        includePreview && !previewAssigned,
-        targetWidth,
-        targetHeight
-      ))
-      previewAssigned = true
-    }
-
-    if (options.splitMode === 'overlap') {
-      const segments = calculateOverlapSegments(width, height)
-      for (let idx = 0; idx < segments.length; idx++) {
-        const seg = segments[idx]
-        const letter = String.fromCharCode(97 + idx)
-        const pageCanvas = extractAndRotate(baseCanvas, seg.x, seg.y, seg.w, seg.h, landscapeRotation)
-        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
-        applyDithering(
-          asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
-          targetWidth,
-          targetHeight,
-          options.dithering,
-          options.is2bit
-        )
-
-        results.push(await buildWorkerPage(
-          getPageName(pageNum, `3_${letter}`),
-          finalCanvas,
-          includePreview && !previewAssigned,
-          targetWidth,
-          targetHeight,
-          options.is2bit
-        ))
-        previewAssigned = true
-      }
-    } else if (options.splitMode === 'fourway') {
-      const segments = calculateFourWaySegments(width, height)
-      for (let idx = 0; idx < segments.length; idx++) {
-        const seg = segments[idx]
-        const letter = String.fromCharCode(97 + idx)
-        const segmentCanvas = extractRegion(baseCanvas, seg.x, seg.y, seg.w, seg.h)
-        const trimmedSegment = trimCanvasToContent(segmentCanvas)
-        const pageCanvas = options.orientation === 'portrait'
-          ? trimmedSegment
-          : rotateCanvas(trimmedSegment, landscapeRotation)
-        const finalCanvas = resizeWithPadding(pageCanvas, 255, targetWidth, targetHeight)
-        applyDithering(
-          asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
-          targetWidth,
-          targetHeight,
-          options.dithering,
-          options.is2bit
-        )
-
-        results.push(await buildWorkerPage(
-          getPageName(pageNum, `4_${letter}`),
-          finalCanvas,
-          includePreview && !previewAssigned,
-          targetWidth,
-          targetHeight,
-          options.is2bit
-        ))
-        previewAssigned = true
-      }
-    } else {
-      const halfHeight = Math.floor(height / 2)
-
-      const topCanvas = extractAndRotate(baseCanvas, 0, 0, width, halfHeight, landscapeRotation)
-      const topFinal = resizeWithPadding(topCanvas, 255, targetWidth, targetHeight)
-      applyDithering(
-        asCanvas2d(topFinal.getContext('2d', { alpha: false })!),
-        targetWidth,
-        targetHeight,
-        options.dithering,
-        options.is2bit
-      )
-      results.push(await buildWorkerPage(
-        getPageName(pageNum, '2_a'),
-        topFinal,
-        includePreview && !previewAssigned,
-        targetWidth,
-        targetHeight,
-        options.is2bit
-      ))
-      previewAssigned = true
-
-      const bottomCanvas = extractAndRotate(baseCanvas, 0, halfHeight, width, halfHeight, landscapeRotation)
-      const bottomFinal = resizeWithPadding(bottomCanvas, 255, targetWidth, targetHeight)
-      applyDithering(
-        asCanvas2d(bottomFinal.getContext('2d', { alpha: false })!),
-        targetWidth,
-        targetHeight,
-        options.dithering,
-        options.is2bit
-      )
-      results.push(await buildWorkerPage(
-        getPageName(pageNum, '2_b'),
-        bottomFinal,
-        includePreview && !previewAssigned,
-        targetWidth,
-        targetHeight,
-        options.is2bit
-      ))
-    }
-  } else {
-    const rotatedCanvas = rotateCanvas(baseCanvas, landscapeRotation)
-    const finalCanvas = resizeWithPadding(rotatedCanvas, 255, targetWidth, targetHeight)
-    applyDithering(
-      asCanvas2d(finalCanvas.getContext('2d', { alpha: false })!),
-      targetWidth,
-      targetHeight,
-      options.dithering,
-      options.is2bit
-    )
-    results.push(await buildWorkerPage(
-      getPageName(pageNum, '0_spread'),
-      finalCanvas,
-      includePreview,
-      targetWidth,
-      targetHeight,
-      options.is2bit
-    ))
-  }
-
-  return results
-}
-
 self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
-  const { jobId, pageNum, blob, options, includePreview } = event.data
+  const { jobId, pageNum, source, options, includePreview } = event.data
 
   try {
-    const bitmap = await createImageBitmap(blob)
+    const bitmap = source instanceof Blob ? await createImageBitmap(source) : source
     try {
       const pages = await processBitmap(bitmap, pageNum, options, includePreview)
       const transferables: Transferable[] = []
       for (const page of pages) {
         transferables.push(page.xtg)
         if (page.previewJpeg) transferables.push(page.previewJpeg)
+        if (page.beforePreviewJpeg) transferables.push(page.beforePreviewJpeg)
       }
 
       const response: WorkerResponse = { jobId, pages }
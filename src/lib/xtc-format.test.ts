@@ -0,0 +1,40 @@
+import { expect, test } from 'bun:test'
+import { getDeviceProfile } from './conversion/devices'
+import { buildXtcFromXtgPages, XtcWriter } from './xtc-format'
+import { parseXtcFile } from './xtc-reader'
+
+function createXtgPage(fill: number, width = 8, height = 8): ArrayBuffer {
+  const page = new ArrayBuffer(32)
+  new Uint8Array(page).fill(fill)
+  const view = new DataView(page)
+  view.setUint16(4, width, true)
+  view.setUint16(6, height, true)
+  return page
+}
+
+test('writer orders pages by name and matches the in-memory builder', async () => {
+  const first = createXtgPage(1)
+  const second = createXtgPage(2, 16, 12)
+  const third = createXtgPage(3)
+  const metadata = { title: 'Book', toc: [{ title: 'One', startPage: 1, endPage: 3 }] }
+
+  const writer = new XtcWriter()
+  writer.addPage('0002_0_page.png', second)
+  writer.addPage('0003_0_page.png', third)
+  writer.addPage('0001_0_page.png', first)
+  const streamed = writer.finish({ metadata })
+
+  const expected = await buildXtcFromXtgPages([first, second, third], { metadata })
+  expect(writer.pageCount).toBe(3)
+  expect(streamed.size).toBe(expected.byteLength)
+  expect(new Uint8Array(await streamed.arrayBuffer())).toEqual(new Uint8Array(expected))
+})
+
+test('writer sizes pages without a header for the target device', async () => {
+  const device = getDeviceProfile({ device: 'X3', customWidth: 0, customHeight: 0 })
+  const writer = new XtcWriter()
+  writer.addPage('0001_0_page.png', new ArrayBuffer(4))
+
+  const parsed = await parseXtcFile(await writer.finish({ device }).arrayBuffer())
+  expect(parsed.entries[0]).toMatchObject({ width: device.width, height: device.height })
+})
@@ -1,6 +1,8 @@
 // XTC format generation for XTEink X4 e-reader
 
-import type { BookMetadata, TocEntry } from './metadata/types';
+import { DEFAULT_DEVICE_PROFILE, supportsBitDepth, type DeviceProfile } from './conversion/devices';
+import type { BookMetadata, TocEntry, TocNesting } from './metadata/types';
+import { formatTocForXtc } from './metadata/toc';
 import { imageDataToXtg } from './processing/xtg';
 
 interface ProcessedPage {
@@ -11,6 +13,12 @@ interface ProcessedPage {
 interface XtcBuildOptions {
   metadata?: BookMetadata;
   is2bit?: boolean;
+  /** Target device; checked for bit depth support and used for unsized pages */
+  device?: DeviceProfile;
+  /** How nested TOC levels are written (default: indented titles) */
+  tocNesting?: TocNesting;
+  /** Deepest TOC level kept; deeper entries are left out */
+  tocDepth?: number;
 }
 
 // XTC format constants (based on reference file analysis)
@@ -29,9 +37,12 @@ const TOC_TITLE_SIZE = 80;
 const FLAG_HAS_METADATA_LOW = 0x01000100;
 const FLAG_HAS_METADATA_HIGH = 0x00000001;
 
-function getXtgDimensions(xtgBlob: ArrayBuffer): { width: number; height: number } {
+function getXtgDimensions(
+  xtgBlob: ArrayBuffer,
+  device: DeviceProfile = DEFAULT_DEVICE_PROFILE
+): { width: number; height: number } {
   if (xtgBlob.byteLength < 8) {
-    return { width: 480, height: 800 };
+    return { width: device.width, height: device.height };
   }
   const view = new DataView(xtgBlob);
   return {
@@ -61,13 +72,92 @@ export async function buildXtcFromXtgPages(
   xtgBlobs: ArrayBuffer[],
   options: XtcBuildOptions = {}
 ): Promise<ArrayBuffer> {
+  const head = buildXtcHead(
+    xtgBlobs.map(blob => ({ size: blob.byteLength, ...getXtgDimensions(blob, options.device) })),
+    options
+  );
+
+  let totalSize = head.byteLength;
+  for (const blob of xtgBlobs) {
+    totalSize += blob.byteLength;
+  }
+
+  const uint8 = new Uint8Array(totalSize);
+  uint8.set(new Uint8Array(head), 0);
+
+  // Write page data
+  let writeOffset = head.byteLength;
+  for (const blob of xtgBlobs) {
+    uint8.set(new Uint8Array(blob), writeOffset);
+    writeOffset += blob.byteLength;
+  }
+
+  return uint8.buffer;
+}
+
+interface XtcPageEntry {
+  size: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Incremental XTC writer for books too large to hold in memory twice.
+ * Pages can be added in any order as they finish; each payload moves into a
+ * Blob the browser can keep out of the JS heap, and the header and index are
+ * written once page order and metadata are final.
+ */
+export class XtcWriter {
+  // `header` is the page's first bytes; sizes are read once the target device is known
+  private readonly pages: Array<{ name: string; data: Blob; size: number; header: ArrayBuffer }> = [];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
 
+  /**
+   * Add an encoded XTG/XTH page. Pages are ordered by name when the file is written.
+   */
+  addPage(name: string, xtg: ArrayBuffer): void {
+    this.pages.push({
+      name,
+      data: new Blob([xtg]),
+      size: xtg.byteLength,
+      header: xtg.slice(0, 8)
+    });
+  }
+
+  /**
+   * Assemble the XTC/XTCH file. Page payloads are referenced, not copied.
+   */
+  finish(options: XtcBuildOptions = {}): Blob {
+    const pages = [...this.pages].sort((a, b) => a.name.localeCompare(b.name));
+    const head = buildXtcHead(
+      pages.map(page => ({ size: page.size, ...getXtgDimensions(page.header, options.device) })),
+      options
+    );
+    return new Blob([head, ...pages.map(page => page.data)], { type: 'application/octet-stream' });
+  }
+}
+
+/**
+ * Build the header, metadata and page index for pages of the given sizes.
+ * Page data follows directly after, in the same order.
+ */
+function buildXtcHead(pages: XtcPageEntry[], options: XtcBuildOptions): ArrayBuffer {
   const is2bit = options.is2bit || false;
-  const pageCount = xtgBlobs.length;
-  const hasMetadata = options.metadata && (
-    options.metadata.title ||
-    options.metadata.author ||
-    options.metadata.toc.length > 0
+  if (options.device && !supportsBitDepth(options.device, is2bit)) {
+    throw new Error(`${options.device.name} does not support ${is2bit ? '2-bit' : '1-bit'} pages`);
+  }
+  const pageCount = pages.length;
+  const metadata = options.metadata && {
+    ...options.metadata,
+    toc: formatTocForXtc(options.metadata.toc, options.tocNesting, options.tocDepth)
+  };
+  const hasMetadata = metadata && (
+    metadata.title ||
+    metadata.author ||
+    metadata.toc.length > 0
   );
 
   // Calculate metadata section size
@@ -77,8 +167,8 @@ export async function buildXtcFromXtgPages(
   if (hasMetadata) {
     // Structure: Header(56) + Title(128) + Author(112) + TOC Header(16) + TOC Entries(N*96)
     metadataSize = TITLE_SIZE + AUTHOR_SIZE + TOC_HEADER_SIZE;
-    if (options.metadata!.toc.length > 0) {
-      metadataSize += options.metadata!.toc.length * TOC_ENTRY_SIZE;
+    if (metadata!.toc.length > 0) {
+      metadataSize += metadata!.toc.length * TOC_ENTRY_SIZE;
     }
     // TOC entries start after header + title + author + toc header
     tocEntriesOffset = HEADER_WITH_METADATA_SIZE + TITLE_SIZE + AUTHOR_SIZE + TOC_HEADER_SIZE;
@@ -90,12 +180,7 @@ export async function buildXtcFromXtgPages(
   const indexOffset = headerSize + metadataSize;
   const dataOffset = indexOffset + (pageCount * INDEX_ENTRY_SIZE);
 
-  let totalSize = dataOffset;
-  for (const blob of xtgBlobs) {
-    totalSize += blob.byteLength;
-  }
-
-  const buffer = new ArrayBuffer(totalSize);
+  const buffer = new ArrayBuffer(dataOffset);
   const view = new DataView(buffer);
   const uint8 = new Uint8Array(buffer);
 
@@ -129,30 +214,22 @@ export async function buildXtcFromXtgPages(
   }
 
   // Write metadata section if present
-  if (hasMetadata && options.metadata) {
-    writeMetadata(uint8, view, HEADER_WITH_METADATA_SIZE, options.metadata);
+  if (hasMetadata && metadata) {
+    writeMetadata(uint8, view, HEADER_WITH_METADATA_SIZE, metadata);
   }
 
   // Write index entries
   let relOffset = dataOffset;
   for (let i = 0; i < pageCount; i++) {
-    const blob = xtgBlobs[i];
+    const page = pages[i];
     const entryOffset = indexOffset + i * INDEX_ENTRY_SIZE;
-    const dimensions = getXtgDimensions(blob);
 
     setBigUint64(view, entryOffset, BigInt(relOffset));
-    view.setUint32(entryOffset + 8, blob.byteLength, true);
-    view.setUint16(entryOffset + 12, dimensions.width, true);
-    view.setUint16(entryOffset + 14, dimensions.height, true);
-
-    relOffset += blob.byteLength;
-  }
+    view.setUint32(entryOffset + 8, page.size, true);
+    view.setUint16(entryOffset + 12, page.width, true);
+    view.setUint16(entryOffset + 14, page.height, true);
 
-  // Write page data
-  let writeOffset = dataOffset;
-  for (const blob of xtgBlobs) {
-    uint8.set(new Uint8Array(blob), writeOffset);
-    writeOffset += blob.byteLength;
+    relOffset += page.size;
   }
 
   return buffer;
@@ -247,7 +324,12 @@ function writeTocEntries(
     // End page (2 bytes)
     view.setUint16(entryOffset + TOC_TITLE_SIZE + 2, entry.endPage, true);
 
-    // Rest is padding (12 bytes, already zero)
+    // Nesting level (1 byte): an xtcjs extension in the reserved bytes, only
+    // set with 'indent-level' nesting (see metadata/toc.ts). The format itself
+    // leaves all 12 bytes zero.
+    uint8[entryOffset + TOC_TITLE_SIZE + 4] = entry.level ?? 0;
+
+    // Rest is padding (11 bytes, already zero)
 
     entryOffset += TOC_ENTRY_SIZE;
   }
@@ -1,6 +1,7 @@
 // XTC format reader/parser for XTEink e-readers
 
 import type { BookMetadata } from './metadata/types'
+import { createTocEntry, parseTocTitle } from './metadata/toc'
 
 export interface XtcHeader {
   magic: string
@@ -31,7 +32,7 @@ export interface ParsedXtc {
 /**
  * Parse XTC file header (48-56 bytes)
  */
-function parseXtcHeader(view: DataView): XtcHeader {
+export function parseXtcHeader(view: DataView): XtcHeader {
   const uint8 = new Uint8Array(view.buffer, view.byteOffset, 4)
   const magic = String.fromCharCode(uint8[0], uint8[1], uint8[2])
   const is2bit = uint8[3] === 0x48 || uint8[3] === 0x68 // 'H' or 'h'
@@ -106,11 +107,14 @@ function parseMetadata(view: DataView, header: XtcHeader): BookMetadata {
       break
     }
 
-    const title = readNullTerminatedString(view, entryOffset, 80)
+    // Titles written with 'indent-level' nesting carry their level in the first
+    // reserved byte, an xtcjs extension; other files leave it zero
+    const levelByte = entryOffset + 85 <= view.byteLength ? view.getUint8(entryOffset + 84) : 0
+    const { title, level } = parseTocTitle(readNullTerminatedString(view, entryOffset, 80), levelByte)
     const startPage = view.getUint16(entryOffset + 80, true)
     const endPage = view.getUint16(entryOffset + 82, true)
 
-    metadata.toc.push({ title, startPage, endPage })
+    metadata.toc.push(createTocEntry(title, startPage, endPage, level))
   }
 
   return metadata
@@ -119,7 +123,7 @@ function parseMetadata(view: DataView, header: XtcHeader): BookMetadata {
 /**
  * Parse XTC index entry (16 bytes each)
  */
-function parseIndexEntry(view: DataView, offset: number): XtcIndexEntry {
+export function parseIndexEntry(view: DataView, offset: number): XtcIndexEntry {
   return {
     offset: getBigUint64(view, offset),
     size: view.getUint32(offset + 8, true),
@@ -169,10 +173,18 @@ async function getXtcPageCount(buffer: ArrayBuffer): Promise<number> {
   return header.pageCount
 }
 
+export interface DecodedXtcPage {
+  width: number
+  height: number
+  is2bit: boolean
+  /** RGBA pixels in ImageData layout */
+  data: Uint8ClampedArray<ArrayBuffer>
+}
+
 /**
- * Decode XTG or XTH page data to canvas.
+ * Decode XTG or XTH page data to RGBA pixels.
  */
-function decodeXtcPageToCanvas(pageBuffer: ArrayBuffer): HTMLCanvasElement {
+export function decodeXtcPage(pageBuffer: ArrayBuffer): DecodedXtcPage {
   const view = new DataView(pageBuffer)
   const uint8 = new Uint8Array(pageBuffer)
 
@@ -186,13 +198,7 @@ function decodeXtcPageToCanvas(pageBuffer: ArrayBuffer): HTMLCanvasElement {
   const height = view.getUint16(6, true)
   const headerSize = 22
 
-  const canvas = document.createElement('canvas')
-  canvas.width = width
-  canvas.height = height
-  const ctx = canvas.getContext('2d')!
-
-  const imageData = ctx.createImageData(width, height)
-  const data = imageData.data
+  const data = new Uint8ClampedArray(width * height * 4)
 
   if (is2bit) {
     const colBytes = Math.ceil(height / 8)
@@ -245,6 +251,22 @@ function decodeXtcPageToCanvas(pageBuffer: ArrayBuffer): HTMLCanvasElement {
     }
   }
 
+  return { width, height, is2bit, data }
+}
+
+/**
+ * Decode XTG or XTH page data to canvas.
+ */
+export function decodeXtcPageToCanvas(pageBuffer: ArrayBuffer): HTMLCanvasElement {
+  const page = decodeXtcPage(pageBuffer)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = page.width
+  canvas.height = page.height
+  const ctx = canvas.getContext('2d')!
+
+  const imageData = ctx.createImageData(page.width, page.height)
+  imageData.data.set(page.data)
   ctx.putImageData(imageData, 0, 0)
   return canvas
 }
@@ -0,0 +1,67 @@
+import { expect, test } from 'bun:test'
+import { buildXtcFromXtgPages } from './xtc-format'
+import { validateXtc } from './xtc-validate'
+
+function createPage(magic: 'XTG' | 'XTH', width = 8, height = 8): ArrayBuffer {
+  const pixelBytes = magic === 'XTH' ? Math.ceil(height / 8) * width * 2 : Math.ceil(width / 8) * height
+  const page = new ArrayBuffer(22 + pixelBytes)
+  const bytes = new Uint8Array(page)
+  bytes.set([magic.charCodeAt(0), magic.charCodeAt(1), magic.charCodeAt(2)])
+  const view = new DataView(page)
+  view.setUint16(4, width, true)
+  view.setUint16(6, height, true)
+  view.setUint32(10, pixelBytes, true)
+  return page
+}
+
+test('accepts files written by the builder', async () => {
+  const xtc = await buildXtcFromXtgPages([createPage('XTG'), createPage('XTG')], {
+    metadata: { title: 'Book', author: 'Author', toc: [{ title: 'One', startPage: 1, endPage: 2 }] }
+  })
+
+  expect(validateXtc(xtc)).toEqual({ valid: true, issues: [] })
+})
+
+test('reports pages whose format does not match the container', async () => {
+  const xtc = await buildXtcFromXtgPages([createPage('XTG'), createPage('XTH')])
+
+  const { valid, issues } = validateXtc(xtc)
+  expect(valid).toBe(false)
+  expect(issues).toEqual([{ severity: 'error', page: 2, message: 'XTH page in a 1-bit XTC file' }])
+})
+
+test('reports out-of-bounds and overlapping page entries', async () => {
+  const xtc = await buildXtcFromXtgPages([createPage('XTG'), createPage('XTG'), createPage('XTG')])
+  const view = new DataView(xtc)
+  const indexOffset = Number(view.getBigUint64(24, true))
+  // Page 2 points back at page 1, page 3 runs past the end of the file
+  view.setBigUint64(indexOffset + 16, view.getBigUint64(indexOffset, true), true)
+  view.setUint32(indexOffset + 32 + 8, 1000, true)
+
+  const pages = validateXtc(xtc).issues.map((issue) => issue.page)
+  expect(pages).toContain(2)
+  expect(pages).toContain(3)
+})
+
+test('reports truncated tables of contents, bad ranges and invalid UTF-8', async () => {
+  const xtc = await buildXtcFromXtgPages([createPage('XTG')], {
+    metadata: { title: 'Book', toc: [{ title: 'One', startPage: 1, endPage: 4 }] }
+  })
+  const bytes = new Uint8Array(xtc)
+  bytes[56] = 0xff
+
+  const messages = validateXtc(xtc).issues.map((issue) => issue.message)
+  expect(messages).toContain('Title is not valid UTF-8')
+  expect(messages).toContain('Chapter 1 covers pages 1–4, outside 1–1')
+
+  const truncated = xtc.slice(0, 56 + 128 + 112 + 16 + 40)
+  const truncatedMessages = validateXtc(truncated).issues.map((issue) => issue.message)
+  expect(truncatedMessages).toContain('Table of contents lists 1 chapters but only 0 fit in the file')
+})
+
+test('reports unknown header flags', async () => {
+  const xtc = await buildXtcFromXtgPages([createPage('XTG')])
+  new DataView(xtc).setUint32(8, 0x10, true)
+
+  expect(validateXtc(xtc).issues.map((issue) => issue.message)).toContain('Unexpected header flags 0x0000000000000010')
+})
@@ -0,0 +1,302 @@
+// Structural checks for XTC/XTCH files, to explain why a device rejects one
+
+import { parseIndexEntry, parseXtcFile, parseXtcHeader, type ParsedXtc, type XtcIndexEntry } from './xtc-reader'
+
+export type XtcIssueSeverity = 'error' | 'warning'
+
+export interface XtcIssue {
+  /** Errors make the file unreadable on the device; warnings are suspicious but tolerated */
+  severity: XtcIssueSeverity
+  message: string
+  /** 1-indexed page the issue belongs to, when it concerns a single page */
+  page?: number
+}
+
+export interface XtcValidationResult {
+  valid: boolean
+  issues: XtcIssue[]
+}
+
+const HEADER_BASE_SIZE = 48
+const HEADER_WITH_METADATA_SIZE = 56
+const INDEX_ENTRY_SIZE = 16
+const PAGE_HEADER_SIZE = 22
+const TITLE_SIZE = 128
+const AUTHOR_SIZE = 112
+const TOC_HEADER_SIZE = 16
+const TOC_ENTRY_SIZE = 96
+const TOC_TITLE_SIZE = 80
+
+// The only flag values the writer and the firmware know about
+const FLAG_HAS_METADATA_LOW = 0x01000100
+const FLAG_HAS_METADATA_HIGH = 0x00000001
+
+const utf8 = new TextDecoder('utf-8', { fatal: true })
+
+/**
+ * Check a null-terminated UTF-8 field. Returns a problem description, or null
+ * when the field is fine.
+ */
+function checkStringField(bytes: Uint8Array): string | null {
+  const end = bytes.indexOf(0)
+  if (end === -1) {
+    return 'is not null-terminated'
+  }
+  try {
+    utf8.decode(bytes.subarray(0, end))
+  } catch {
+    return 'is not valid UTF-8'
+  }
+  return null
+}
+
+// Pixel data size an XTG/XTH page header promises
+function getExpectedPixelBytes(is2bit: boolean, width: number, height: number): number {
+  return is2bit
+    ? Math.ceil(height / 8) * width * 2
+    : Math.ceil(width / 8) * height
+}
+
+function validatePages(
+  buffer: ArrayBuffer,
+  entries: XtcIndexEntry[],
+  is2bit: boolean,
+  dataOffset: number,
+  issues: XtcIssue[]
+): void {
+  const containerMagic = is2bit ? 'XTH' : 'XTG'
+  const inBounds: Array<{ page: number; start: number; end: number }> = []
+
+  entries.forEach((entry, index) => {
+    const page = index + 1
+    const start = Number(entry.offset)
+    const end = start + entry.size
+
+    if (start < dataOffset || end > buffer.byteLength) {
+      issues.push({
+        severity: 'error',
+        page,
+        message: `Page data (${start}–${end}) lies outside the data section (${dataOffset}–${buffer.byteLength})`,
+      })
+      return
+    }
+    inBounds.push({ page, start, end })
+
+    if (entry.size < PAGE_HEADER_SIZE) {
+      issues.push({ severity: 'error', page, message: `Page is ${entry.size} bytes, too small for a page header` })
+      return
+    }
+
+    const view = new DataView(buffer, start, entry.size)
+    const bytes = new Uint8Array(buffer, start, 3)
+    const magic = String.fromCharCode(bytes[0], bytes[1], bytes[2])
+    if (magic !== 'XTG' && magic !== 'XTH') {
+      issues.push({ severity: 'error', page, message: 'Page data does not start with an XTG or XTH header' })
+      return
+    }
+    if (magic !== containerMagic) {
+      issues.push({
+        severity: 'error',
+        page,
+        message: `${magic} page in a ${is2bit ? '2-bit XTCH' : '1-bit XTC'} file`,
+      })
+    }
+
+    const width = view.getUint16(4, true)
+    const height = view.getUint16(6, true)
+    if (width !== entry.width || height !== entry.height) {
+      issues.push({
+        severity: 'error',
+        page,
+        message: `Index says ${entry.width}×${entry.height} but the page is ${width}×${height}`,
+      })
+    }
+
+    const pixelBytes = getExpectedPixelBytes(magic === 'XTH', width, height)
+    if (PAGE_HEADER_SIZE + pixelBytes > entry.size) {
+      issues.push({
+        severity: 'error',
+        page,
+        message: `Page is ${entry.size} bytes but ${width}×${height} pixels need ${PAGE_HEADER_SIZE + pixelBytes}`,
+      })
+    }
+  })
+
+  inBounds.sort((a, b) => a.start - b.start)
+  for (let i = 1; i < inBounds.length; i++) {
+    const previous = inBounds[i - 1]
+    const current = inBounds[i]
+    if (current.start < previous.end) {
+      issues.push({
+        severity: 'error',
+        page: current.page,
+        message: `Page data overlaps page ${previous.page}`,
+      })
+    }
+  }
+}
+
+function validateMetadata(
+  buffer: ArrayBuffer,
+  metadataOffset: number,
+  tocOffset: number,
+  indexOffset: number,
+  pageCount: number,
+  issues: XtcIssue[]
+): void {
+  const view = new DataView(buffer)
+  const tocHeaderOffset = metadataOffset + TITLE_SIZE + AUTHOR_SIZE
+  if (metadataOffset < HEADER_WITH_METADATA_SIZE || tocHeaderOffset + TOC_HEADER_SIZE > buffer.byteLength) {
+    issues.push({ severity: 'error', message: `Metadata offset ${metadataOffset} is outside the file` })
+    return
+  }
+
+  const titleProblem = checkStringField(new Uint8Array(buffer, metadataOffset, TITLE_SIZE))
+  if (titleProblem) {
+    issues.push({ severity: 'warning', message: `Title ${titleProblem}` })
+  }
+  const authorProblem = checkStringField(new Uint8Array(buffer, metadataOffset + TITLE_SIZE, AUTHOR_SIZE))
+  if (authorProblem) {
+    issues.push({ severity: 'warning', message: `Author ${authorProblem}` })
+  }
+
+  const chapterCount = view.getUint16(tocHeaderOffset + 6, true)
+  const entriesOffset = tocOffset !== 0 ? tocOffset : tocHeaderOffset + TOC_HEADER_SIZE
+  const tocEnd = entriesOffset + chapterCount * TOC_ENTRY_SIZE
+  if (chapterCount > 0 && tocEnd > indexOffset && entriesOffset < indexOffset) {
+    issues.push({ severity: 'error', message: 'Table of contents overlaps the page index' })
+  }
+
+  for (let i = 0; i < chapterCount; i++) {
+    const entryOffset = entriesOffset + i * TOC_ENTRY_SIZE
+    if (entryOffset + TOC_TITLE_SIZE + 4 > buffer.byteLength) {
+      issues.push({
+        severity: 'error',
+        message: `Table of contents lists ${chapterCount} chapters but only ${i} fit in the file`,
+      })
+      return
+    }
+
+    const chapter = `Chapter ${i + 1}`
+    const titleProblem = checkStringField(new Uint8Array(buffer, entryOffset, TOC_TITLE_SIZE))
+    if (titleProblem) {
+      issues.push({ severity: 'warning', message: `${chapter} title ${titleProblem}` })
+    }
+
+    const startPage = view.getUint16(entryOffset + TOC_TITLE_SIZE, true)
+    const endPage = view.getUint16(entryOffset + TOC_TITLE_SIZE + 2, true)
+    if (startPage < 1 || endPage > pageCount) {
+      issues.push({
+        severity: 'error',
+        message: `${chapter} covers pages ${startPage}–${endPage}, outside 1–${pageCount}`,
+      })
+    } else if (startPage > endPage) {
+      issues.push({ severity: 'error', message: `${chapter} starts after it ends (${startPage} > ${endPage})` })
+    }
+  }
+}
+
+/**
+ * Check an XTC/XTCH file's header, index, page payloads and metadata for the
+ * inconsistencies the device rejects. Never throws; unreadable files come back
+ * as errors.
+ */
+export function validateXtc(buffer: ArrayBuffer): XtcValidationResult {
+  const issues: XtcIssue[] = []
+  const result = () => ({ valid: !issues.some((issue) => issue.severity === 'error'), issues })
+
+  if (buffer.byteLength < HEADER_BASE_SIZE) {
+    issues.push({ severity: 'error', message: `File is ${buffer.byteLength} bytes, too small for an XTC header` })
+    return result()
+  }
+
+  const view = new DataView(buffer)
+  let header
+  try {
+    header = parseXtcHeader(view)
+  } catch (err) {
+    issues.push({ severity: 'error', message: err instanceof Error ? err.message : 'Unreadable header' })
+    return result()
+  }
+
+  const variant = view.getUint8(3)
+  // 'H' marks XTCH; the reader also accepts a lowercase 'h'
+  if (variant !== 0x00 && variant !== 0x48 && variant !== 0x68) {
+    issues.push({ severity: 'warning', message: `Unknown format byte 0x${variant.toString(16).padStart(2, '0')} after the XTC magic` })
+  }
+  if (header.version !== 1) {
+    issues.push({ severity: 'warning', message: `Unknown format version ${header.version}` })
+  }
+
+  const flagsLow = view.getUint32(8, true)
+  const flagsHigh = view.getUint32(12, true)
+  const knownFlags = (flagsLow === 0 && flagsHigh === 0) ||
+    (flagsLow === FLAG_HAS_METADATA_LOW && flagsHigh === FLAG_HAS_METADATA_HIGH)
+  if (!knownFlags) {
+    issues.push({
+      severity: 'error',
+      message: `Unexpected header flags 0x${flagsHigh.toString(16).padStart(8, '0')}${flagsLow.toString(16).padStart(8, '0')}`,
+    })
+  }
+  if (!header.hasMetadata && header.metadataOffset !== 0n) {
+    issues.push({ severity: 'warning', message: 'Metadata offset is set but the metadata flag is not' })
+  }
+  if (header.hasMetadata && buffer.byteLength < HEADER_WITH_METADATA_SIZE) {
+    issues.push({ severity: 'error', message: 'Metadata flag is set but the header has no table of contents pointer' })
+    return result()
+  }
+
+  if (header.pageCount === 0) {
+    issues.push({ severity: 'error', message: 'File has no pages' })
+  }
+
+  const headerSize = header.hasMetadata ? HEADER_WITH_METADATA_SIZE : HEADER_BASE_SIZE
+  const indexOffset = Number(header.indexOffset)
+  const dataOffset = Number(header.dataOffset)
+  const indexEnd = indexOffset + header.pageCount * INDEX_ENTRY_SIZE
+  if (header.hasMetadata && header.metadataOffset !== 0n) {
+    validateMetadata(
+      buffer,
+      Number(header.metadataOffset),
+      Number(header.tocOffset),
+      indexOffset,
+      header.pageCount,
+      issues
+    )
+  }
+
+  if (indexOffset < headerSize || indexEnd > buffer.byteLength) {
+    issues.push({
+      severity: 'error',
+      message: `Page index (${indexOffset}–${indexEnd}) lies outside the file (${headerSize}–${buffer.byteLength})`,
+    })
+    return result()
+  }
+  if (dataOffset < indexEnd) {
+    issues.push({ severity: 'error', message: `Data offset ${dataOffset} falls inside the page index` })
+  }
+
+  const entries: XtcIndexEntry[] = []
+  for (let i = 0; i < header.pageCount; i++) {
+    entries.push(parseIndexEntry(view, indexOffset + i * INDEX_ENTRY_SIZE))
+  }
+  validatePages(buffer, entries, header.is2bit, Math.max(dataOffset, indexEnd), issues)
+
+  return result()
+}
+
+export type OpenedXtc =
+  | { parsed: ParsedXtc; validation: null }
+  | { parsed: null; validation: XtcValidationResult }
+
+/**
+ * Parse a file for editing. Files the reader rejects come back with their
+ * validation issues instead, so the editor can say what is wrong with them.
+ */
+export async function openXtcFile(buffer: ArrayBuffer): Promise<OpenedXtc> {
+  try {
+    return { parsed: await parseXtcFile(buffer), validation: null }
+  } catch {
+    return { parsed: null, validation: validateXtc(buffer) }
+  }
+}
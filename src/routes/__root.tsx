@@ -13,7 +13,8 @@ function RootLayout() {
     if (typeof window === 'undefined') return 'light'
     return localStorage.getItem('theme') === 'dark' ? 'dark' : 'light'
   })
-  const isExtraRoute = location.pathname === '/image' || location.pathname === '/video' || location.pathname === '/metadata'
+  const isExtraRoute = location.pathname === '/image' || location.pathname === '/video' ||
+    location.pathname === '/feature4' || location.pathname === '/metadata'
   const [extraOpen, setExtraOpen] = useState(isExtraRoute)
 
   useEffect(() => {
@@ -118,6 +119,9 @@ function RootLayout() {
               <Link to="/video" className={`nav-subtab${location.pathname === '/video' ? ' active' : ''}`}>
                 Video
               </Link>
+              <Link to="/feature4" className={`nav-subtab${location.pathname === '/feature4' ? ' active' : ''}`}>
+                Text
+              </Link>
               <Link to="/metadata" className={`nav-subtab${location.pathname === '/metadata' ? ' active' : ''}`}>
                 Metadata
               </Link>
@@ -1,13 +1,15 @@
 import { createFileRoute } from '@tanstack/react-router'
+import { ConverterPage } from '../components/ConverterPage'
 
 export const Route = createFileRoute('/feature4')({
-  component: Feature4Page,
+  component: TextPage,
 })
 
-function Feature4Page() {
+function TextPage() {
   return (
-    <section className="soon-placeholder">
-      <p>Soon</p>
-    </section>
+    <ConverterPage
+      fileType="text"
+      notice="Typeset novels and notes (TXT, Markdown or reflowable EPUB) into XTC pages. Chapter headings become the table of contents."
+    />
   )
 }
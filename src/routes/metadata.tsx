@@ -1,19 +1,90 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { Dropzone } from '../components/Dropzone'
+import { FileCheck } from '../components/FileCheck'
 import { Viewer } from '../components/Viewer'
-import { parseXtcFile, type ParsedXtc, extractXtcPages } from '../lib/xtc-reader'
+import { type ParsedXtc, decodeXtcPageToCanvas } from '../lib/xtc-reader'
 import { buildXtcFromBuffers } from '../lib/xtc-format'
-import type { BookMetadata, TocEntry } from '../lib/metadata'
+import { applyPageEdit, createPageIds, encodeImageAsPage, getPageSize, type PageEdit } from '../lib/page-edit'
+import { openXtcFile, validateXtc, type XtcValidationResult } from '../lib/xtc-validate'
+import type { BookMetadata, TocEntry, TocNesting } from '../lib/metadata'
+import { MAX_TOC_DEPTH, getMaxTocTitleLength, getTocLevel } from '../lib/metadata/toc'
 
 export const Route = createFileRoute('/metadata')({
   component: MetadataEditor,
 })
 
+const THUMBNAIL_WIDTH = 96
+
+function renderThumbnail(page: ArrayBuffer): string {
+  const source = decodeXtcPageToCanvas(page)
+  const canvas = document.createElement('canvas')
+  canvas.width = THUMBNAIL_WIDTH
+  canvas.height = Math.round(source.height * THUMBNAIL_WIDTH / source.width)
+  canvas.getContext('2d')!.drawImage(source, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/jpeg', 0.7)
+}
+
+/**
+ * Page thumbnail drawn once it scrolls near the viewport, so opening the
+ * Pages card doesn't decode every page at once
+ */
+function PageThumbnail({ page, cache, alt }: {
+  page: ArrayBuffer
+  cache: WeakMap<ArrayBuffer, string>
+  alt: string
+}) {
+  const imageRef = useRef<HTMLImageElement>(null)
+  const [thumbnail, setThumbnail] = useState(() => cache.get(page))
+  const { width, height } = getPageSize(page)
+
+  useEffect(() => {
+    const cached = cache.get(page)
+    setThumbnail(cached)
+    if (cached || !imageRef.current) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries.some((entry) => entry.isIntersecting)) return
+      observer.disconnect()
+      let rendered = cache.get(page)
+      if (!rendered) {
+        rendered = renderThumbnail(page)
+        cache.set(page, rendered)
+      }
+      setThumbnail(rendered)
+    }, { rootMargin: '200px' })
+    observer.observe(imageRef.current)
+    return () => observer.disconnect()
+  }, [page, cache])
+
+  return (
+    <img
+      ref={imageRef}
+      src={thumbnail}
+      alt={alt}
+      draggable={false}
+      style={{ aspectRatio: `${width} / ${height}` }}
+    />
+  )
+}
+
 function MetadataEditor() {
   const [file, setFile] = useState<File | null>(null)
   const [parsed, setParsed] = useState<ParsedXtc | null>(null)
   const [metadata, setMetadata] = useState<BookMetadata>({ toc: [] })
+  const [validation, setValidation] = useState<XtcValidationResult | null>(null)
+  const [tocNesting, setTocNesting] = useState<TocNesting>('indent')
+  // Edited page payloads; saved in place of the file's original pages
+  const [pages, setPages] = useState<ArrayBuffer[]>([])
+  // Row keys; they follow pages through moves, unlike indexes
+  const [pageIds, setPageIds] = useState<number[]>([])
+  const [showPages, setShowPages] = useState(false)
+  const [selectedPage, setSelectedPage] = useState<number | null>(null)
+  const dragIndexRef = useRef<number | null>(null)
+  const insertInputRef = useRef<HTMLInputElement>(null)
+  const coverInputRef = useRef<HTMLInputElement>(null)
+  // Duplicated and unchanged pages share a buffer, so each is drawn once
+  const thumbnailCacheRef = useRef(new WeakMap<ArrayBuffer, string>())
 
   const [previewPages, setPreviewPages] = useState<string[]>([])
   const [isPreviewOpen, setIsPreviewOpen] = useState(false)
@@ -23,15 +94,22 @@ function MetadataEditor() {
     if (files.length === 0) return
     const selected = files[0]
     setFile(selected)
+    setValidation(null)
     setIsProcessing(true)
 
     try {
-      const buffer = await selected.arrayBuffer()
-      const parsedData = await parseXtcFile(buffer)
-      setParsed(parsedData)
-      setMetadata(parsedData.metadata || { toc: [] })
+      // Files that fail to parse stay open with their check results
+      const opened = await openXtcFile(await selected.arrayBuffer())
+      setParsed(opened.parsed)
+      setValidation(opened.validation)
+      setPages(opened.parsed?.pageData ?? [])
+      setPageIds(createPageIds(opened.parsed?.pageData.length ?? 0))
+      setSelectedPage(null)
+      setMetadata(opened.parsed?.metadata || { toc: [] })
+      // Keep the level marker when the file was saved with one
+      setTocNesting(opened.parsed?.metadata?.toc.some((entry) => getTocLevel(entry) > 0) ? 'indent-level' : 'indent')
     } catch {
-      alert('Failed to parse XTC/XTCH file. Ensure it is a valid format.')
+      alert('Failed to read file.')
       setFile(null)
       setParsed(null)
     } finally {
@@ -44,8 +122,7 @@ function MetadataEditor() {
 
     setIsProcessing(true)
     try {
-      const canvases = await extractXtcPages(await file.arrayBuffer())
-      const urls = canvases.map((canvas) => canvas.toDataURL('image/png'))
+      const urls = pages.map((page) => decodeXtcPageToCanvas(page).toDataURL('image/png'))
       setPreviewPages(urls)
       setIsPreviewOpen(true)
     } catch {
@@ -55,6 +132,19 @@ function MetadataEditor() {
     }
   }
 
+  const handleCheck = async () => {
+    if (!file) return
+
+    setIsProcessing(true)
+    try {
+      setValidation(validateXtc(await file.arrayBuffer()))
+    } catch {
+      alert('Failed to read file.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
   const validateToc = (): boolean => {
     for (let i = 0; i < metadata.toc.length; i++) {
       const current = metadata.toc[i]
@@ -63,8 +153,10 @@ function MetadataEditor() {
         return false
       }
 
+      // Sub-chapters sit inside their parent, so only siblings may not overlap
       for (let j = i + 1; j < metadata.toc.length; j++) {
         const other = metadata.toc[j]
+        if (getTocLevel(other) !== getTocLevel(current)) continue
         if (current.startPage <= other.endPage && current.endPage >= other.startPage) {
           alert(
             `Chapter overlap detected:\n"${current.title}" (${current.startPage}-${current.endPage})\n` +
@@ -84,9 +176,10 @@ function MetadataEditor() {
 
     setIsProcessing(true)
     try {
-      const repacked = await buildXtcFromBuffers(parsed.pageData, {
+      const repacked = await buildXtcFromBuffers(pages, {
         metadata,
         is2bit: parsed.header.is2bit,
+        tocNesting,
       })
 
       const extension = parsed.header.is2bit ? '.xtch' : '.xtc'
@@ -109,8 +202,47 @@ function MetadataEditor() {
     }
   }
 
+  const handlePageEdit = (edit: PageEdit) => {
+    try {
+      const edited = applyPageEdit({ pages, toc: metadata.toc, ids: pageIds }, edit)
+      setPages(edited.pages)
+      setPageIds(edited.ids)
+      setMetadata((prev) => ({ ...prev, toc: edited.toc }))
+      setSelectedPage(null)
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to edit pages.')
+    }
+  }
+
+  // Insert after the selected page, or at the end when none is selected
+  const handleInsertImage = async (image: File | undefined, replaceCover: boolean) => {
+    if (!parsed || !image) return
+
+    setIsProcessing(true)
+    try {
+      const reference = pages[replaceCover ? 0 : selectedPage ?? pages.length - 1]
+      const { width, height } = getPageSize(reference)
+      const page = await encodeImageAsPage(image, width, height, parsed.header.is2bit)
+      handlePageEdit(replaceCover
+        ? { type: 'replace', index: 0, page }
+        : { type: 'insert', index: selectedPage !== null ? selectedPage + 1 : pages.length, page })
+    } catch {
+      alert('Failed to encode image.')
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handlePageDrop = (index: number) => {
+    const from = dragIndexRef.current
+    dragIndexRef.current = null
+    if (from !== null && from !== index) {
+      handlePageEdit({ type: 'move', from, to: index })
+    }
+  }
+
   const handleAddChapter = () => {
-    const maxPage = parsed?.header.pageCount || 1
+    const maxPage = pages.length || 1
     setMetadata((prev) => ({
       ...prev,
       toc: [...prev.toc, { title: 'New Chapter', startPage: 1, endPage: maxPage }],
@@ -133,6 +265,16 @@ function MetadataEditor() {
     })
   }
 
+  const handleChapterLevel = (index: number, delta: number) => {
+    setMetadata((prev) => {
+      const next = [...prev.toc]
+      const { level: _level, ...entry } = next[index]
+      const level = Math.min(Math.max(getTocLevel(next[index]) + delta, 0), MAX_TOC_DEPTH - 1)
+      next[index] = level > 0 ? { ...entry, level } : entry
+      return { ...prev, toc: next }
+    })
+  }
+
   const handleMoveChapter = (index: number, direction: 'up' | 'down') => {
     setMetadata((prev) => {
       const next = [...prev.toc]
@@ -150,7 +292,7 @@ function MetadataEditor() {
   return (
     <div className="content-section metadata-page">
       <div className="converter-notice">
-        <p>Edit title, author, and chapter information stored in an XTC or XTCH file.</p>
+        <p>Edit title, author, chapters and pages of an XTC or XTCH file.</p>
       </div>
 
       {!file && (
@@ -163,16 +305,42 @@ function MetadataEditor() {
         <div className="metadata-status">Processing... please wait.</div>
       )}
 
+      {file && !parsed && validation && !isProcessing && (
+        <div className="metadata-editor">
+          <section className="metadata-card">
+            <h3>File Info</h3>
+            <p><strong>Name:</strong> {file.name}</p>
+            <p>This file could not be opened for editing.</p>
+
+            <div className="metadata-actions">
+              <button
+                type="button"
+                className="btn-clear-results"
+                onClick={() => {
+                  setFile(null)
+                  setValidation(null)
+                }}
+              >
+                Close File
+              </button>
+            </div>
+          </section>
+
+          <FileCheck validation={validation} />
+        </div>
+      )}
+
       {file && parsed && !isProcessing && (
         <div className="metadata-editor">
           <section className="metadata-card">
             <h3>File Info</h3>
             <p><strong>Name:</strong> {file.name}</p>
-            <p><strong>Pages:</strong> {parsed.header.pageCount}</p>
+            <p><strong>Pages:</strong> {pages.length}</p>
             <p><strong>Type:</strong> {parsed.header.is2bit ? 'XTCH (2-bit)' : 'XTC (1-bit)'}</p>
 
             <div className="metadata-actions">
               <button type="button" className="btn-preview" onClick={handlePreview}>Preview</button>
+              <button type="button" className="btn-preview" onClick={handleCheck}>Check File</button>
               <button type="button" className="btn-download" onClick={handleSave}>Save & Download</button>
               <button
                 type="button"
@@ -181,6 +349,10 @@ function MetadataEditor() {
                   setFile(null)
                   setParsed(null)
                   setMetadata({ toc: [] })
+                  setValidation(null)
+                  setPages([])
+                  setPageIds([])
+                  setShowPages(false)
                 }}
               >
                 Close File
@@ -188,6 +360,94 @@ function MetadataEditor() {
             </div>
           </section>
 
+          {validation && <FileCheck validation={validation} />}
+
+          <section className="metadata-card">
+            <div className="metadata-chapter-header">
+              <h3>Pages</h3>
+              <button type="button" className="btn-preview" onClick={() => setShowPages((prev) => !prev)}>
+                {showPages ? 'Hide Pages' : 'Edit Pages'}
+              </button>
+            </div>
+
+            {showPages && (
+              <>
+                <div className="metadata-actions">
+                  <button type="button" className="btn-preview" onClick={() => insertInputRef.current?.click()}>
+                    + Insert Image{selectedPage !== null ? ` after Page ${selectedPage + 1}` : ''}
+                  </button>
+                  <button type="button" className="btn-preview" onClick={() => coverInputRef.current?.click()}>
+                    Replace Cover
+                  </button>
+                  <input
+                    ref={insertInputRef}
+                    type="file"
+                    accept="image/*"
+                    hidden
+                    onChange={(e) => {
+                      handleInsertImage(e.target.files?.[0], false)
+                      e.target.value = ''
+                    }}
+                  />
+                  <input
+                    ref={coverInputRef}
+                    type="file"
+                    accept="image/*"
+                    hidden
+                    onChange={(e) => {
+                      handleInsertImage(e.target.files?.[0], true)
+                      e.target.value = ''
+                    }}
+                  />
+                </div>
+                <p className="metadata-empty">Drag pages to reorder. Chapter ranges follow the pages.</p>
+
+                <div className="metadata-pages">
+                  {pages.map((page, idx) => (
+                    <div
+                      key={pageIds[idx]}
+                      className={`metadata-page${selectedPage === idx ? ' selected' : ''}`}
+                      draggable
+                      onDragStart={() => { dragIndexRef.current = idx }}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => {
+                        e.preventDefault()
+                        handlePageDrop(idx)
+                      }}
+                      onClick={() => setSelectedPage((prev) => (prev === idx ? null : idx))}
+                    >
+                      <PageThumbnail page={page} cache={thumbnailCacheRef.current} alt={`Page ${idx + 1}`} />
+                      <div className="metadata-page-footer">
+                        <span>{idx + 1}</span>
+                        <button
+                          type="button"
+                          title="Duplicate"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handlePageEdit({ type: 'duplicate', index: idx })
+                          }}
+                        >
+                          ⧉
+                        </button>
+                        <button
+                          type="button"
+                          title="Delete"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handlePageEdit({ type: 'delete', index: idx })
+                          }}
+                          disabled={pages.length === 1}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </section>
+
           <section className="metadata-card">
             <h3>Book Metadata</h3>
             <div className="metadata-fields">
@@ -218,7 +478,18 @@ function MetadataEditor() {
           <section className="metadata-card">
             <div className="metadata-chapter-header">
               <h3>Chapters (TOC)</h3>
-              <button type="button" className="btn-preview" onClick={handleAddChapter}>+ Add Chapter</button>
+              <div className="chapter-controls">
+                <select
+                  value={tocNesting}
+                  onChange={(e) => setTocNesting(e.target.value as TocNesting)}
+                  title="How sub-chapters are saved"
+                >
+                  <option value="indent">Indent sub-chapters</option>
+                  <option value="indent-level">Indent + level marker (xtcjs only)</option>
+                  <option value="flat">Flat list</option>
+                </select>
+                <button type="button" className="btn-preview" onClick={handleAddChapter}>+ Add Chapter</button>
+              </div>
             </div>
 
             {metadata.toc.length === 0 ? (
@@ -226,14 +497,18 @@ function MetadataEditor() {
             ) : (
               <div className="metadata-chapters">
                 {metadata.toc.map((entry, idx) => (
-                  <div key={`${idx}-${entry.title}`} className="metadata-chapter-row">
+                  <div
+                    key={`${idx}-${entry.title}`}
+                    className="metadata-chapter-row"
+                    style={{ marginLeft: `${getTocLevel(entry) * 1.5}rem` }}
+                  >
                     <label className="chapter-title-input">
-                      <span>Chapter Title (max 79 chars)</span>
+                      <span>Chapter Title (max {getMaxTocTitleLength(getTocLevel(entry), tocNesting)} chars)</span>
                       <input
                         type="text"
                         value={entry.title}
                         onChange={(e) => handleChapterChange(idx, 'title', e.target.value)}
-                        maxLength={79}
+                        maxLength={getMaxTocTitleLength(getTocLevel(entry), tocNesting)}
                       />
                     </label>
 
@@ -242,7 +517,7 @@ function MetadataEditor() {
                       <input
                         type="number"
                         min={1}
-                        max={parsed.header.pageCount}
+                        max={pages.length}
                         value={entry.startPage}
                         onChange={(e) => handleChapterChange(idx, 'startPage', parseInt(e.target.value, 10) || 1)}
                       />
@@ -253,13 +528,31 @@ function MetadataEditor() {
                       <input
                         type="number"
                         min={1}
-                        max={parsed.header.pageCount}
+                        max={pages.length}
                         value={entry.endPage}
                         onChange={(e) => handleChapterChange(idx, 'endPage', parseInt(e.target.value, 10) || 1)}
                       />
                     </label>
 
                     <div className="chapter-controls">
+                      <button
+                        type="button"
+                        className="btn-preview"
+                        onClick={() => handleChapterLevel(idx, -1)}
+                        disabled={getTocLevel(entry) === 0}
+                        title="Outdent"
+                      >
+                        ←
+                      </button>
+                      <button
+                        type="button"
+                        className="btn-preview"
+                        onClick={() => handleChapterLevel(idx, 1)}
+                        disabled={getTocLevel(entry) >= MAX_TOC_DEPTH - 1}
+                        title="Indent"
+                      >
+                        →
+                      </button>
                       <button
                         type="button"
                         className="btn-preview"
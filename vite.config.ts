@@ -100,6 +100,6 @@ export default defineConfig({
     outDir: 'dist',
   },
   ssr: {
-    external: ['bun:sqlite'],
+    external: ['bun:sqlite', '@napi-rs/canvas', 'linkedom'],
   },
 })